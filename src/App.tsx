@@ -8,12 +8,14 @@ import { TaxableAccountForm, type TaxableAccountData } from './components/Taxabl
 import { RealEstateAccountForm } from './components/RealEstateAccountForm';
 import { MortgageAccountForm } from './components/MortgageAccountForm';
 import { SSAIncomeForm, type SSAIncomeData } from './components/SSAIncomeForm';
+import { PensionAccountForm, type PensionAccountData } from './components/PensionAccountForm';
+import { EarnedIncomeAccountForm, type EarnedIncomeAccountData } from './components/EarnedIncomeAccountForm';
 import { ScenarioRunner } from './components/ScenarioRunner';
 import { DisclaimerModal } from './components/DisclaimerModal';
 import { STORAGE_KEYS } from './utils/storage';
 import { createExportFile, type ExportData, type Account } from './utils/export';
-import { validateUserProfile, validateAccount } from './utils/validation';
-import { formatCurrency } from './utils/format';
+import { validateUserProfile, validateAccount, validateMortgageLink } from './utils/validation';
+import { formatAge, formatCurrency } from './utils/format';
 
 const CURRENT_VERSION = '1.0.0';
 
@@ -51,6 +53,8 @@ function App(): ReactElement {
   const [showTaxableForm, setShowTaxableForm] = useState(false);
   const [showRealEstateForm, setShowRealEstateForm] = useState(false);
   const [showMortgageForm, setShowMortgageForm] = useState(false);
+  const [showPensionForm, setShowPensionForm] = useState(false);
+  const [showEarnedIncomeForm, setShowEarnedIncomeForm] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   
   // Initialize collapsed state based on whether accounts exist
@@ -152,8 +156,13 @@ function App(): ReactElement {
         }
 
         if (Array.isArray(importedAccounts)) {
+          // Mortgages linked to a property missing from the file are kept, unlinked
           const validAccounts = importedAccounts.filter(validateAccount);
-          setAccounts(validAccounts);
+          setAccounts(validAccounts.map(acc =>
+            acc.accountType === 'mortgage' && !validateMortgageLink(acc, validAccounts)
+              ? { ...acc, propertyId: undefined }
+              : acc
+          ));
         }
         
         if (importedSsaIncome) {
@@ -221,6 +230,8 @@ function App(): ReactElement {
     if (accountType === 'taxable') setShowTaxableForm(false);
     if (accountType === 'realEstate') setShowRealEstateForm(false);
     if (accountType === 'mortgage') setShowMortgageForm(false);
+    if (accountType === 'pension') setShowPensionForm(false);
+    if (accountType === 'earnedIncome') setShowEarnedIncomeForm(false);
   };
 
   const handleAccountEdit = (account: Account): void => {
@@ -231,6 +242,8 @@ function App(): ReactElement {
     if (account.accountType === 'taxable') setShowTaxableForm(true);
     if (account.accountType === 'realEstate') setShowRealEstateForm(true);
     if (account.accountType === 'mortgage') setShowMortgageForm(true);
+    if (account.accountType === 'pension') setShowPensionForm(true);
+    if (account.accountType === 'earnedIncome') setShowEarnedIncomeForm(true);
     
     // Expand the section if collapsed
     if (account.accountType === 'roth' || account.accountType === 'traditional') {
@@ -239,11 +252,16 @@ function App(): ReactElement {
       setCollapsedSections(prev => ({ ...prev, taxable: false }));
     } else if (account.accountType === 'realEstate' || account.accountType === 'mortgage') {
       setCollapsedSections(prev => ({ ...prev, liabilities: false }));
+    } else if (account.accountType === 'pension' || account.accountType === 'earnedIncome') {
+      setCollapsedSections(prev => ({ ...prev, ssa: false }));
     }
   };
 
   const handleAccountRemove = (accountId: string): void => {
-    setAccounts(accounts.filter(acc => acc.accountId !== accountId));
+    // Mortgages on a removed property stay, unlinked
+    setAccounts(accounts
+      .filter(acc => acc.accountId !== accountId)
+      .map(acc => acc.accountType === 'mortgage' && acc.propertyId === accountId ? { ...acc, propertyId: undefined } : acc));
   };
 
   const rothAccounts = accounts.filter(acc => acc.accountType === 'roth');
@@ -251,6 +269,13 @@ function App(): ReactElement {
   const taxableAccounts = accounts.filter(acc => acc.accountType === 'taxable');
   const realEstateAccounts = accounts.filter(acc => acc.accountType === 'realEstate');
   const mortgageAccounts = accounts.filter(acc => acc.accountType === 'mortgage');
+  const pensionAccounts = accounts.filter(acc => acc.accountType === 'pension');
+  const earnedIncomeAccounts = accounts.filter(acc => acc.accountType === 'earnedIncome');
+  const hasSpouse = Boolean(userProfile?.spouse);
+
+  // Principal still owed on the mortgages financing a property
+  const getLinkedMortgageBalance = (propertyId: string): number => mortgageAccounts
+    .reduce((sum, acc) => acc.accountType === 'mortgage' && acc.propertyId === propertyId ? sum + acc.principalBalance : sum, 0);
 
   const toggleSection = (sectionId: string): void => {
     setCollapsedSections(prev => ({
@@ -344,6 +369,8 @@ function App(): ReactElement {
           {collapsedSections['profile'] && userProfile && (
             <span className="section-summary">
               Born {userProfile.birthYear}, {userProfile.filingStatus}, Retirement at {userProfile.retirementAge}
+              {userProfile.stateOfResidence && ` • ${userProfile.stateOfResidence}`}
+              {userProfile.spouse && ` • Spouse born ${userProfile.spouse.birthYear}`}
             </span>
           )}
           <span className={`section-toggle ${collapsedSections['profile'] ? 'collapsed' : ''}`}>▼</span>
@@ -351,12 +378,20 @@ function App(): ReactElement {
         <div className={`section-content ${collapsedSections['profile'] ? 'collapsed' : ''}`}>
           <UserProfileForm onSave={handleProfileSave} initialData={userProfile} />
           {userProfile && (() => {
-            const { birthYear, filingStatus, retirementAge } = userProfile;
+            const { birthYear, filingStatus, retirementAge, spouse, stateOfResidence } = userProfile;
             return (
               <div className="info-display profile-display">
                 <strong>Current Profile:</strong> Born {birthYear}, 
                 Filing Status: {filingStatus}, 
                 Retirement Age: {retirementAge}
+                {stateOfResidence && `, State: ${stateOfResidence}`}
+                {spouse && (
+                  <>
+                    <br />
+                    <strong>Spouse:</strong> Born {spouse.birthYear}, Retirement Age: {spouse.retirementAge}
+                    {spouse.fraMonthlyBenefit ? `, Social Security $${formatCurrency(spouse.fraMonthlyBenefit)}/month at FRA` : ''}
+                  </>
+                )}
               </div>
             );
           })()}
@@ -379,7 +414,7 @@ function App(): ReactElement {
           <div className="accounts-grid">
             {rothAccounts.map((acc) => {
               if (acc.accountType !== 'roth') return null;
-              const { accountId, balance, nickname } = acc;
+              const { accountId, balance, nickname, owner } = acc;
               const isCollapsed = collapsedCards[accountId];
               return (
                 <div key={accountId} className={`account-card account-card-roth ${isCollapsed ? 'collapsed' : ''}`}>
@@ -395,6 +430,7 @@ function App(): ReactElement {
                       <div className="account-card-details">
                         {nickname && <div><strong>{nickname}</strong></div>}
                         <div>Roth Account</div>
+                        {hasSpouse && owner === 'spouse' && <div>Owned by spouse</div>}
                       </div>
                     </div>
                     <div className="account-card-actions">
@@ -410,6 +446,7 @@ function App(): ReactElement {
             <RothAccountForm 
               onSave={handleAccountSave} 
               initialData={editingAccount?.accountType === 'roth' ? editingAccount as RothAccountData : undefined}
+              hasSpouse={hasSpouse}
             />
           ) : (
             <button onClick={() => { setEditingAccount(null); setShowRothForm(true); }} className="btn btn-primary">+ Add Roth Account</button>
@@ -421,7 +458,7 @@ function App(): ReactElement {
           <div className="accounts-grid">
             {traditionalAccounts.map((acc) => {
               if (acc.accountType !== 'traditional') return null;
-              const { accountId, balance, nickname } = acc;
+              const { accountId, balance, nickname, owner } = acc;
               const isCollapsed = collapsedCards[accountId];
               return (
                 <div key={accountId} className={`account-card account-card-traditional ${isCollapsed ? 'collapsed' : ''}`}>
@@ -437,6 +474,7 @@ function App(): ReactElement {
                       <div className="account-card-details">
                         {nickname && <div><strong>{nickname}</strong></div>}
                         <div>Traditional Account</div>
+                        {hasSpouse && owner === 'spouse' && <div>Owned by spouse</div>}
                       </div>
                     </div>
                     <div className="account-card-actions">
@@ -452,6 +490,7 @@ function App(): ReactElement {
             <TraditionalAccountForm 
               onSave={handleAccountSave} 
               initialData={editingAccount?.accountType === 'traditional' ? editingAccount as TraditionalAccountData : undefined}
+              hasSpouse={hasSpouse}
             />
           ) : (
             <button onClick={() => { setEditingAccount(null); setShowTraditionalForm(true); }} className="btn btn-secondary">+ Add Traditional Account</button>
@@ -476,7 +515,7 @@ function App(): ReactElement {
           <div className="accounts-grid">
             {taxableAccounts.map((acc) => {
               if (acc.accountType !== 'taxable') return null;
-              const { accountId, balance, costBasis, nickname, dividendYield } = acc;
+              const { accountId, balance, costBasis, nickname, dividendYield, interestYield, reinvestIncome, owner } = acc;
               const isCollapsed = collapsedCards[accountId];
               const gains = balance - costBasis;
               return (
@@ -500,6 +539,11 @@ function App(): ReactElement {
                         <div>Cost Basis: ${formatCurrency(costBasis)}</div>
                         <div>Gains: ${formatCurrency(gains)}</div>
                         {dividendYield > 0 && <div>Dividend Yield: {dividendYield}%</div>}
+                        {(interestYield ?? 0) > 0 && <div>Interest Yield: {interestYield}%</div>}
+                        {(dividendYield > 0 || (interestYield ?? 0) > 0) && (
+                          <div>Income: {(reinvestIncome ?? true) ? 'Reinvested' : 'Paid out'}</div>
+                        )}
+                        {hasSpouse && owner === 'spouse' && <div>Owned by spouse</div>}
                       </div>
                     </div>
                     <div className="account-card-actions">
@@ -515,6 +559,7 @@ function App(): ReactElement {
             <TaxableAccountForm 
               onSave={handleAccountSave} 
               initialData={editingAccount?.accountType === 'taxable' ? editingAccount as TaxableAccountData : undefined}
+              hasSpouse={hasSpouse}
             />
           ) : (
             <button onClick={() => { setEditingAccount(null); setShowTaxableForm(true); }} className="btn btn-tertiary">+ Add Taxable Account</button>
@@ -526,7 +571,8 @@ function App(): ReactElement {
           <div className="accounts-grid">
             {realEstateAccounts.map((acc) => {
               if (acc.accountType !== 'realEstate') return null;
-              const { accountId, nickname, currentValue, yearlyValueIncrease } = acc;
+              const { accountId, nickname, currentValue, yearlyValueIncrease, annualRent, annualExpenses, saleYear } = acc;
+              const mortgageBalance = getLinkedMortgageBalance(accountId);
               const isCollapsed = collapsedCards[accountId];
               return (
                 <div key={accountId} className={`account-card account-card-realEstate ${isCollapsed ? 'collapsed' : ''}`}>
@@ -543,6 +589,13 @@ function App(): ReactElement {
                         {nickname}
                         <br />
                         Growth: {yearlyValueIncrease}% /year
+                        {annualRent !== undefined && (
+                          <><br />Net rent: ${formatCurrency(annualRent - (annualExpenses ?? 0))}/year</>
+                        )}
+                        {saleYear !== undefined && <><br />Sale: {saleYear}</>}
+                        {mortgageBalance > 0 && (
+                          <><br />Mortgage: ${formatCurrency(mortgageBalance)} • Equity: ${formatCurrency(currentValue - mortgageBalance)}</>
+                        )}
                       </div>
                     </div>
                     <div className="account-card-actions">
@@ -564,10 +617,14 @@ function App(): ReactElement {
 
       <section className="section">
         <div className="section-header" onClick={() => toggleSection('ssa')}>
-          <h2>Social Security</h2>
-          {collapsedSections['ssa'] && ssaIncome && (
+          <h2>Retirement Income</h2>
+          {collapsedSections['ssa'] && (ssaIncome || pensionAccounts.length > 0 || earnedIncomeAccounts.length > 0) && (
             <span className="section-summary">
-              ${formatCurrency(ssaIncome.fraMonthlyBenefit)}/month at FRA, claiming at age {ssaIncome.claimingAge}
+              {[
+                ssaIncome && `$${formatCurrency(ssaIncome.fraMonthlyBenefit)}/month at FRA, claiming at age ${formatAge(ssaIncome.claimingAge)}`,
+                pensionAccounts.length > 0 && `${pensionAccounts.length} Pension(s)/Annuity(ies)`,
+                earnedIncomeAccounts.length > 0 && `${earnedIncomeAccounts.length} Earned Income`,
+              ].filter(Boolean).join(' • ')}
             </span>
           )}
           <span className={`section-toggle ${collapsedSections['ssa'] ? 'collapsed' : ''}`}>▼</span>
@@ -579,10 +636,100 @@ function App(): ReactElement {
           return (
             <div className="info-display ssa-display">
               <strong>Current Plan:</strong> ${formatCurrency(fraMonthlyBenefit)}/month at FRA, 
-              claiming at age {claimingAge}
+              claiming at age {formatAge(claimingAge)}
             </div>
           );
         })()}
+        <div className="accounts-group">
+          <h3>Pensions &amp; Annuities ({pensionAccounts.length})</h3>
+          <div className="accounts-grid">
+            {pensionAccounts.map((acc) => {
+              if (acc.accountType !== 'pension') return null;
+              const { accountId, nickname, pensionType, startAge, annualAmount, colaRate, survivorPercent, taxablePercent, owner } = acc;
+              const isCollapsed = collapsedCards[accountId];
+              return (
+                <div key={accountId} className={`account-card account-card-pension ${isCollapsed ? 'collapsed' : ''}`}>
+                  <div className="account-card-header" onClick={() => toggleCard(accountId)}>
+                    <div className="account-card-summary">
+                      <div className="account-card-balance">${formatCurrency(annualAmount)}/year</div>
+                      {isCollapsed && <span className="account-card-type-label">{nickname}</span>}
+                    </div>
+                    <span className={`account-card-toggle ${isCollapsed ? 'collapsed' : ''}`}>▼</span>
+                  </div>
+                  <div className={`account-card-details-wrapper ${isCollapsed ? 'collapsed' : ''}`}>
+                    <div className="account-card-content">
+                      <div className="account-card-details">
+                        {nickname && <div><strong>{nickname}</strong></div>}
+                        <div>{pensionType === 'annuity' ? 'Annuity' : 'Pension'} from age {startAge}</div>
+                        {colaRate > 0 && <div>COLA: {colaRate}%/year</div>}
+                        <div>Taxable: {taxablePercent}%</div>
+                        {hasSpouse && survivorPercent > 0 && <div>Survivor: {survivorPercent}%</div>}
+                        {hasSpouse && owner === 'spouse' && <div>Owned by spouse</div>}
+                      </div>
+                    </div>
+                    <div className="account-card-actions">
+                      <button onClick={(e) => { e.stopPropagation(); handleAccountEdit(acc); }} className="btn-edit">Edit</button>
+                      <button onClick={(e) => { e.stopPropagation(); handleAccountRemove(accountId); }} className="btn-remove">Remove</button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {showPensionForm ? (
+            <PensionAccountForm
+              onSave={handleAccountSave}
+              initialData={editingAccount?.accountType === 'pension' ? editingAccount as PensionAccountData : undefined}
+              hasSpouse={hasSpouse}
+            />
+          ) : (
+            <button onClick={() => { setEditingAccount(null); setShowPensionForm(true); }} className="btn btn-tertiary">+ Add Pension or Annuity</button>
+          )}
+        </div>
+        <div className="accounts-group">
+          <h3>Part-Time / Earned Income ({earnedIncomeAccounts.length})</h3>
+          <div className="accounts-grid">
+            {earnedIncomeAccounts.map((acc) => {
+              if (acc.accountType !== 'earnedIncome') return null;
+              const { accountId, nickname, incomeType, startAge, endAge, annualAmount, growthRate, owner } = acc;
+              const isCollapsed = collapsedCards[accountId];
+              return (
+                <div key={accountId} className={`account-card account-card-earnedIncome ${isCollapsed ? 'collapsed' : ''}`}>
+                  <div className="account-card-header" onClick={() => toggleCard(accountId)}>
+                    <div className="account-card-summary">
+                      <div className="account-card-balance">${formatCurrency(annualAmount)}/year</div>
+                      {isCollapsed && <span className="account-card-type-label">{nickname}</span>}
+                    </div>
+                    <span className={`account-card-toggle ${isCollapsed ? 'collapsed' : ''}`}>▼</span>
+                  </div>
+                  <div className={`account-card-details-wrapper ${isCollapsed ? 'collapsed' : ''}`}>
+                    <div className="account-card-content">
+                      <div className="account-card-details">
+                        {nickname && <div><strong>{nickname}</strong></div>}
+                        <div>{incomeType === 'self_employment' ? 'Self-employment' : 'Wages'} from age {startAge} to {endAge}</div>
+                        {growthRate > 0 && <div>Raise: {growthRate}%/year</div>}
+                        {hasSpouse && owner === 'spouse' && <div>Earned by spouse</div>}
+                      </div>
+                    </div>
+                    <div className="account-card-actions">
+                      <button onClick={(e) => { e.stopPropagation(); handleAccountEdit(acc); }} className="btn-edit">Edit</button>
+                      <button onClick={(e) => { e.stopPropagation(); handleAccountRemove(accountId); }} className="btn-remove">Remove</button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {showEarnedIncomeForm ? (
+            <EarnedIncomeAccountForm
+              onSave={handleAccountSave}
+              initialData={editingAccount?.accountType === 'earnedIncome' ? editingAccount as EarnedIncomeAccountData : undefined}
+              hasSpouse={hasSpouse}
+            />
+          ) : (
+            <button onClick={() => { setEditingAccount(null); setShowEarnedIncomeForm(true); }} className="btn btn-tertiary">+ Add Earned Income</button>
+          )}
+        </div>
         </div>
       </section>
 
@@ -630,7 +777,10 @@ function App(): ReactElement {
             })}
           </div>
           {showMortgageForm ? (
-            <MortgageAccountForm onSave={handleAccountSave} />
+            <MortgageAccountForm
+              onSave={handleAccountSave}
+              properties={realEstateAccounts.filter(acc => acc.accountType === 'realEstate')}
+            />
           ) : (
             <button onClick={() => setShowMortgageForm(true)} className="btn btn-liability">+ Add Mortgage</button>
           )}
@@ -643,7 +793,7 @@ function App(): ReactElement {
           <h2>Portfolio Summary</h2>
           {collapsedSections['summary'] && (() => {
             const totalAssets = accounts
-              .filter(acc => acc.accountType !== 'mortgage')
+              .filter(acc => acc.accountType !== 'mortgage' && acc.accountType !== 'pension' && acc.accountType !== 'earnedIncome')
               .reduce((sum, acc) => {
                 if (acc.accountType === 'realEstate') {
                   return sum + acc.currentValue;
@@ -683,6 +833,11 @@ function App(): ReactElement {
                 }
                 return sum;
               }, 0))}
+            {realEstateAccounts.map(acc => acc.accountType === 'realEstate' && (
+              <div key={acc.accountId} className="form-help">
+                {acc.nickname} equity: ${formatCurrency(acc.currentValue - getLinkedMortgageBalance(acc.accountId))}
+              </div>
+            ))}
           </div>
           <div className="summary-item">
             <strong>Total Liabilities:</strong> ${formatCurrency(mortgageAccounts
@@ -695,7 +850,7 @@ function App(): ReactElement {
           </div>
           <div className="summary-total">
             <strong>Total Assets:</strong> ${formatCurrency(accounts
-              .filter(acc => acc.accountType !== 'mortgage')
+              .filter(acc => acc.accountType !== 'mortgage' && acc.accountType !== 'pension' && acc.accountType !== 'earnedIncome')
               .reduce((sum, acc) => {
                 if (acc.accountType === 'realEstate') {
                   return sum + acc.currentValue;
@@ -706,7 +861,7 @@ function App(): ReactElement {
           <div className="summary-total">
             <strong>Net Worth:</strong> ${(() => {
               const totalAssets = accounts
-                .filter(acc => acc.accountType !== 'mortgage')
+                .filter(acc => acc.accountType !== 'mortgage' && acc.accountType !== 'pension' && acc.accountType !== 'earnedIncome')
                 .reduce((sum, acc) => {
                   if (acc.accountType === 'realEstate') {
                     return sum + acc.currentValue;
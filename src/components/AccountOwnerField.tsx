@@ -0,0 +1,34 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+
+/**
+ * Household member who owns an account.
+ */
+export type AccountOwnerData = 'user' | 'spouse';
+
+interface AccountOwnerFieldProps {
+  idPrefix: string;
+  value: AccountOwnerData;
+  onChange: (owner: AccountOwnerData) => void;
+  help?: string;
+}
+
+export const AccountOwnerField: React.FC<AccountOwnerFieldProps> = ({
+  idPrefix,
+  value,
+  onChange,
+  help = "RMDs and contribution limits follow the owner's age",
+}) => (
+  <div className="form-group">
+    <label htmlFor={`${idPrefix}-owner`}>Owner</label>
+    <select
+      id={`${idPrefix}-owner`}
+      value={value}
+      onChange={(e) => onChange(e.target.value as AccountOwnerData)}
+    >
+      <option value="user">You</option>
+      <option value="spouse">Spouse</option>
+    </select>
+    <small className="form-help">{help}</small>
+  </div>
+);
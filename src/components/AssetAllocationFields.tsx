@@ -0,0 +1,50 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+
+/**
+ * Account asset allocation in percent (should sum to 100).
+ */
+export interface AssetAllocationData {
+  stocks: number;
+  bonds: number;
+  cash: number;
+}
+
+interface AssetAllocationFieldsProps {
+  idPrefix: string;
+  value: AssetAllocationData;
+  onChange: (data: AssetAllocationData) => void;
+}
+
+export const AssetAllocationFields: React.FC<AssetAllocationFieldsProps> = ({ idPrefix, value, onChange }) => {
+  const update = (assetClass: keyof AssetAllocationData, input: string): void => {
+    onChange({ ...value, [assetClass]: parseFloat(input) || 0 });
+  };
+
+  const total = value.stocks + value.bonds + value.cash;
+
+  return (
+    <div className="form-group">
+      <label>Asset Allocation (%)</label>
+      <div className="allocation-inputs">
+        {(['stocks', 'bonds', 'cash'] as const).map(assetClass => (
+          <label key={assetClass} htmlFor={`${idPrefix}-${assetClass}`}>
+            {assetClass.charAt(0).toUpperCase() + assetClass.slice(1)}
+            <input
+              id={`${idPrefix}-${assetClass}`}
+              type="number"
+              min="0"
+              max="100"
+              step="5"
+              value={value[assetClass]}
+              onChange={(e) => update(assetClass, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      <small className="form-help">
+        {total === 100 ? 'Each asset class grows at its own rate' : `Total is ${total}%; must be 100%`}
+      </small>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+
+/**
+ * Real return assumptions per asset class (decimals).
+ */
+export interface CapitalMarketData {
+  stocksMean: number;
+  stocksVolatility: number;
+  bondsMean: number;
+  bondsVolatility: number;
+  cashMean: number;
+  cashVolatility: number;
+  stocksBondsCorrelation: number;
+}
+
+interface CapitalMarketSettingsProps {
+  value: CapitalMarketData;
+  onChange: (data: CapitalMarketData) => void;
+  showVolatility: boolean; // Monte Carlo draws; deterministic runs only use means
+}
+
+const ASSET_CLASSES = [
+  { label: 'Stocks', mean: 'stocksMean', volatility: 'stocksVolatility' },
+  { label: 'Bonds', mean: 'bondsMean', volatility: 'bondsVolatility' },
+  { label: 'Cash', mean: 'cashMean', volatility: 'cashVolatility' },
+] as const;
+
+export const CapitalMarketSettings: React.FC<CapitalMarketSettingsProps> = ({ value, onChange, showVolatility }) => {
+  const update = (changes: Partial<CapitalMarketData>): void => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <>
+      {ASSET_CLASSES.map(({ label, mean, volatility }) => (
+        <div className="form-group" key={label}>
+          <label>
+            {label} Real Return{showVolatility ? ' / Volatility' : ''}:
+            <div className="allocation-inputs">
+              <input
+                type="number"
+                min="-0.05"
+                max="0.15"
+                step="0.005"
+                value={value[mean]}
+                onChange={(e) => update({ [mean]: parseFloat(e.target.value) || 0 })}
+              />
+              {showVolatility && (
+                <input
+                  type="number"
+                  min="0"
+                  max="0.40"
+                  step="0.01"
+                  value={value[volatility]}
+                  onChange={(e) => update({ [volatility]: parseFloat(e.target.value) || 0 })}
+                />
+              )}
+            </div>
+            <small>
+              {(value[mean] * 100).toFixed(1)}% average annual return
+              {showVolatility && `, ${(value[volatility] * 100).toFixed(0)}% standard deviation`}
+            </small>
+          </label>
+        </div>
+      ))}
+
+      {showVolatility && (
+        <div className="form-group">
+          <label>
+            Stock/Bond Correlation:
+            <input
+              type="number"
+              min="-1"
+              max="1"
+              step="0.05"
+              value={value.stocksBondsCorrelation}
+              onChange={(e) => update({ stocksBondsCorrelation: parseFloat(e.target.value) || 0 })}
+            />
+            <small>-1 to 1; historically near zero, positive in inflationary periods</small>
+          </label>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,94 @@
+// Copyright (c) 2026 François Rouaix
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ClaimingObjective } from '../lib/types';
+import type { ClaimingChartDataPoint, ClaimingOptimizationResult } from '../lib/types';
+import { buildClaimingChartData } from '../lib/chartDataBuilder';
+import { formatAge, formatCurrency, formatCompactCurrency } from '../utils/format';
+
+interface ClaimingAgeChartProps {
+  result: ClaimingOptimizationResult;
+}
+
+const OBJECTIVE_METRICS: Record<ClaimingObjective, { key: keyof ClaimingChartDataPoint; label: string }> = {
+  [ClaimingObjective.FINAL_PORTFOLIO]: { key: 'finalPortfolio', label: 'Final Portfolio' },
+  [ClaimingObjective.LIFETIME_NET_INCOME]: { key: 'lifetimeNetIncome', label: 'Lifetime Net Income' },
+  [ClaimingObjective.TOTAL_TAXES]: { key: 'totalTaxes', label: 'Total Taxes' },
+};
+
+export function ClaimingAgeChart({ result }: ClaimingAgeChartProps) {
+  const dataPoints = buildClaimingChartData(result);
+  const best = dataPoints.find((point) => point.isBest);
+  const metric = OBJECTIVE_METRICS[result.objective];
+
+  if (!best) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="projection-result success">
+        <h3>🕰 Best Claiming Age: {formatAge(best.claimingAge)}</h3>
+        <div className="projection-metrics">
+          <div>
+            <strong>Objective:</strong> {result.objective === ClaimingObjective.TOTAL_TAXES ? 'Lowest' : 'Highest'} {metric.label.toLowerCase()}<br />
+            <strong>Options Compared:</strong> {dataPoints.length}
+          </div>
+          <div>
+            <strong>Final Portfolio:</strong> ${formatCurrency(best.finalPortfolio)}<br />
+            <strong>Lifetime Net Income:</strong> ${formatCurrency(best.lifetimeNetIncome)}<br />
+            <strong>Total Taxes:</strong> ${formatCurrency(best.totalTaxes)}
+          </div>
+        </div>
+      </div>
+
+      <h3 className="chart-section">{metric.label} by Claiming Age</h3>
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={dataPoints}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="label"
+            label={{ value: 'Claiming Age', position: 'insideBottom', offset: -5 }}
+          />
+          <YAxis
+            tickFormatter={formatCompactCurrency}
+            label={{ value: metric.label, angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip formatter={(value: number) => `$${formatCurrency(value)}`} />
+          <Bar dataKey={metric.key} name={metric.label}>
+            {dataPoints.map((point) => (
+              <Cell key={point.label} fill={point.isBest ? '#4CAF50' : '#8884d8'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <h3 className="chart-section">Claiming Options</h3>
+      <div className="details-table-container">
+        <table className="details-table">
+          <thead>
+            <tr>
+              <th>Claiming Age</th>
+              <th className="align-right">Final Portfolio</th>
+              <th className="align-right">Lifetime Net Income</th>
+              <th className="align-right">Total Taxes</th>
+              <th className="align-right">Break-Even Age (vs {formatAge(result.options[0].claimingAge)})</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dataPoints.map((point) => (
+              <tr key={point.label} className={point.isBest ? 'best-option' : undefined}>
+                <td>{formatAge(point.claimingAge)}</td>
+                <td className="align-right">${formatCurrency(point.finalPortfolio)}</td>
+                <td className="align-right">${formatCurrency(point.lifetimeNetIncome)}</td>
+                <td className="align-right">${formatCurrency(point.totalTaxes)}</td>
+                <td className="align-right">
+                  {point.claimingAge === dataPoints[0].claimingAge ? '—' : point.breakEvenAge ?? 'Never'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
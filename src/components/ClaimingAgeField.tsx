@@ -0,0 +1,52 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+
+interface ClaimingAgeFieldProps {
+  id: string;
+  label: string;
+  value: number; // Years, fractions being months (e.g. 66.5)
+  onChange: (claimingAge: number) => void;
+  help?: string;
+}
+
+const YEARS = [62, 63, 64, 65, 66, 67, 68, 69, 70];
+const MONTHS = Array.from({ length: 12 }, (_, month) => month);
+
+export const ClaimingAgeField: React.FC<ClaimingAgeFieldProps> = ({ id, label, value, onChange, help }) => {
+  const totalMonths = Math.round(value * 12);
+  const years = Math.floor(totalMonths / 12);
+  const months = totalMonths % 12;
+
+  return (
+    <div className="form-group">
+      <label htmlFor={id}>{label}</label>
+      <div className="inline-fields">
+        <select
+          id={id}
+          value={years}
+          onChange={(e) => {
+            const newYears = parseInt(e.target.value);
+            // Benefits stop growing at 70, so 70 has no months
+            onChange(newYears === 70 ? 70 : newYears + months / 12);
+          }}
+        >
+          {YEARS.map((year) => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+        <select
+          id={`${id}-months`}
+          aria-label={`${label} months`}
+          value={months}
+          disabled={years === 70}
+          onChange={(e) => onChange(years + parseInt(e.target.value) / 12)}
+        >
+          {MONTHS.map((month) => (
+            <option key={month} value={month}>{month} {month === 1 ? 'month' : 'months'}</option>
+          ))}
+        </select>
+      </div>
+      {help && <small className="form-help">{help}</small>}
+    </div>
+  );
+};
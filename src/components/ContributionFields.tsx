@@ -0,0 +1,111 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+import { formatCurrency } from '../utils/format';
+
+/**
+ * Yearly contributions into an account until retirement.
+ */
+export interface ContributionData {
+  mode: 'none' | 'fixed_amount' | 'percent_of_salary';
+  amount: number; // Dollars per year, or percent of salary
+  planType: 'employer_plan' | 'ira' | 'none'; // IRS limit that applies
+  employerMatchRate: number; // Percent of employee contributions matched
+  employerMatchCap: number; // Matched up to this percent of salary
+}
+
+interface ContributionFieldsProps {
+  idPrefix: string;
+  value: ContributionData;
+  onChange: (data: ContributionData) => void;
+  retirementAccount: boolean; // Offers 401(k)/IRA limits and employer match
+}
+
+export const ContributionFields: React.FC<ContributionFieldsProps> = ({ idPrefix, value, onChange, retirementAccount }) => {
+  const update = (changes: Partial<ContributionData>): void => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-mode`}>Contributions Until Retirement</label>
+        <select
+          id={`${idPrefix}-mode`}
+          value={value.mode}
+          onChange={(e) => update({ mode: e.target.value as ContributionData['mode'] })}
+        >
+          <option value="none">None</option>
+          <option value="fixed_amount">Fixed Amount per Year</option>
+          <option value="percent_of_salary">Percent of Salary</option>
+        </select>
+      </div>
+
+      {value.mode !== 'none' && (
+        <>
+          <div className="form-group">
+            <label htmlFor={`${idPrefix}-amount`}>
+              {value.mode === 'fixed_amount' ? 'Annual Contribution ($)' : 'Contribution (% of salary)'}
+            </label>
+            <input
+              id={`${idPrefix}-amount`}
+              type="number"
+              min="0"
+              step={value.mode === 'fixed_amount' ? '500' : '0.5'}
+              value={value.amount}
+              onChange={(e) => update({ amount: parseFloat(e.target.value) || 0 })}
+            />
+            {value.mode === 'fixed_amount' && (
+              <small className="form-help">${formatCurrency(value.amount)}/year in today's dollars</small>
+            )}
+          </div>
+
+          {retirementAccount && (
+            <div className="form-group">
+              <label htmlFor={`${idPrefix}-planType`}>Plan Type</label>
+              <select
+                id={`${idPrefix}-planType`}
+                value={value.planType}
+                onChange={(e) => update({ planType: e.target.value as ContributionData['planType'] })}
+              >
+                <option value="employer_plan">Employer plan (401(k)/403(b))</option>
+                <option value="ira">IRA</option>
+              </select>
+              <small className="form-help">
+                {value.planType === 'employer_plan'
+                  ? '$23,000/year limit ($30,500 from age 50), shared across employer plans'
+                  : '$7,000/year limit ($8,000 from age 50), shared across IRAs'}
+              </small>
+            </div>
+          )}
+
+          {retirementAccount && value.planType === 'employer_plan' && (
+            <div className="form-group">
+              <label>Employer Match (% of contributions / up to % of salary)</label>
+              <div className="allocation-inputs">
+                <input
+                  id={`${idPrefix}-matchRate`}
+                  type="number"
+                  min="0"
+                  max="200"
+                  step="25"
+                  value={value.employerMatchRate}
+                  onChange={(e) => update({ employerMatchRate: parseFloat(e.target.value) || 0 })}
+                />
+                <input
+                  id={`${idPrefix}-matchCap`}
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={value.employerMatchCap}
+                  onChange={(e) => update({ employerMatchCap: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <small className="form-help">e.g., 50% up to 6% of salary</small>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,186 @@
+// Copyright (c) 2026 François Rouaix
+import React, { useState } from 'react';
+import { generateAccountId } from '../utils/ids';
+import { AccountOwnerField } from './AccountOwnerField';
+import type { AccountOwnerData } from './AccountOwnerField';
+
+interface EarnedIncomeAccountFormProps {
+  initialData?: EarnedIncomeAccountData;
+  onSave: (data: EarnedIncomeAccountData) => void;
+  hasSpouse?: boolean; // Shows the owner select
+}
+
+export interface EarnedIncomeAccountData {
+  accountId: string;
+  accountType: 'earnedIncome';
+  nickname: string;
+  incomeType: 'wages' | 'self_employment';
+  startAge: number; // Owner's age in the first year of work
+  endAge: number; // Owner's age in the last year of work
+  annualAmount: number; // First year's earnings
+  growthRate: number; // Percent raise per year
+  owner?: AccountOwnerData; // Default: user
+}
+
+export const EarnedIncomeAccountForm: React.FC<EarnedIncomeAccountFormProps> = ({ initialData, onSave, hasSpouse }) => {
+  const [nickname, setNickname] = useState(initialData?.nickname || '');
+  const [incomeType, setIncomeType] = useState<EarnedIncomeAccountData['incomeType']>(initialData?.incomeType || 'wages');
+  const [startAge, setStartAge] = useState(initialData?.startAge?.toString() || '');
+  const [endAge, setEndAge] = useState(initialData?.endAge?.toString() || '');
+  const [annualAmount, setAnnualAmount] = useState(initialData?.annualAmount?.toString() || '');
+  const [growthRate, setGrowthRate] = useState(initialData?.growthRate?.toString() || '0');
+  const [owner, setOwner] = useState<AccountOwnerData>(initialData?.owner || 'user');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!nickname.trim() || !annualAmount || !startAge || !endAge) {
+      setError('All fields are required');
+      return;
+    }
+
+    const start = parseInt(startAge);
+    const end = parseInt(endAge);
+    const amount = parseFloat(annualAmount);
+    const growth = parseFloat(growthRate);
+
+    if ([start, end, amount, growth].some(isNaN)) {
+      setError('Please enter valid numbers');
+      return;
+    }
+
+    if (end < start) {
+      setError('End age must not be before start age');
+      return;
+    }
+
+    if (amount < 0 || growth < 0 || growth > 20) {
+      setError('Amount cannot be negative and raises must be between 0% and 20%');
+      return;
+    }
+
+    onSave({
+      accountId: initialData?.accountId || generateAccountId('earnedIncome'),
+      accountType: 'earnedIncome',
+      nickname: nickname.trim(),
+      incomeType,
+      startAge: start,
+      endAge: end,
+      annualAmount: amount,
+      growthRate: growth,
+      owner,
+    });
+
+    // Only clear form if not editing
+    if (!initialData) {
+      setNickname('');
+      setIncomeType('wages');
+      setStartAge('');
+      setEndAge('');
+      setAnnualAmount('');
+      setGrowthRate('0');
+      setOwner('user');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="account-form">
+      <h3>Part-Time / Earned Income</h3>
+
+      <div className="form-group">
+        <label htmlFor="earned-nickname">Name</label>
+        <input
+          id="earned-nickname"
+          type="text"
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          placeholder="e.g., Consulting"
+          required
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="earned-incomeType">Type</label>
+        <select
+          id="earned-incomeType"
+          value={incomeType}
+          onChange={(e) => setIncomeType(e.target.value as EarnedIncomeAccountData['incomeType'])}
+        >
+          <option value="wages">Wages (W-2)</option>
+          <option value="self_employment">Self-Employment</option>
+        </select>
+        <small className="form-help">Wages owe 7.65% FICA; self-employment net profit owes 15.3% SE tax</small>
+      </div>
+
+      {hasSpouse && (
+        <AccountOwnerField
+          idPrefix="earned"
+          value={owner}
+          onChange={setOwner}
+          help="Ages and the Social Security earnings test follow the owner"
+        />
+      )}
+
+      <div className="inline-fields">
+        <div className="form-group">
+          <label htmlFor="earned-startAge">Start Age</label>
+          <input
+            id="earned-startAge"
+            type="number"
+            min="40"
+            max="100"
+            value={startAge}
+            onChange={(e) => setStartAge(e.target.value)}
+            placeholder="e.g., 62"
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="earned-endAge">End Age</label>
+          <input
+            id="earned-endAge"
+            type="number"
+            min="40"
+            max="100"
+            value={endAge}
+            onChange={(e) => setEndAge(e.target.value)}
+            placeholder="e.g., 66"
+          />
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="earned-annualAmount">Annual Earnings ($)</label>
+        <input
+          id="earned-annualAmount"
+          type="number"
+          min="0"
+          step="100"
+          value={annualAmount}
+          onChange={(e) => setAnnualAmount(e.target.value)}
+          placeholder="e.g., 30000"
+        />
+        <small className="form-help">Earnings above $22,320 before full retirement age reduce Social Security benefits already claimed</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="earned-growthRate">Annual Raise (%)</label>
+        <input
+          id="earned-growthRate"
+          type="number"
+          min="0"
+          max="20"
+          step="0.1"
+          value={growthRate}
+          onChange={(e) => setGrowthRate(e.target.value)}
+        />
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <button type="submit" className="btn-primary">Save Earned Income</button>
+    </form>
+  );
+};
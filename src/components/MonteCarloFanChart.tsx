@@ -0,0 +1,100 @@
+// Copyright (c) 2026 François Rouaix
+import { ComposedChart, Area, Line, LineChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { MonteCarloResult } from '../lib/types';
+import { buildFanChartData } from '../lib/chartDataBuilder';
+import { formatCompactCurrency } from '../utils/format';
+
+interface MonteCarloFanChartProps {
+  result: MonteCarloResult;
+}
+
+export function MonteCarloFanChart({ result }: MonteCarloFanChartProps) {
+  const fanData = buildFanChartData(result);
+
+  if (fanData.length === 0) {
+    return null;
+  }
+
+  // Range areas take [low, high] pairs; the median is drawn as a line on top
+  const chartData = fanData.map(point => ({
+    year: point.year,
+    age: point.age,
+    'Portfolio 5th-95th': [point.portfolioP5, point.portfolioP95],
+    'Portfolio 25th-75th': [point.portfolioP25, point.portfolioP75],
+    'Portfolio Median': point.portfolioP50,
+    'Net Income 5th-95th': [point.netIncomeP5, point.netIncomeP95],
+    'Net Income 25th-75th': [point.netIncomeP25, point.netIncomeP75],
+    'Net Income Median': point.netIncomeP50,
+    'Depletion Probability': point.depletionProbability,
+  }));
+
+  const formatBand = (value: number | number[]) => {
+    if (Array.isArray(value)) {
+      return value.map(formatCompactCurrency).join(' – ');
+    }
+    return formatCompactCurrency(value);
+  };
+
+  return (
+    <div>
+      <h3 className="chart-section">Portfolio Range Across {result.numRuns} Runs</h3>
+      <ResponsiveContainer width="100%" height={400}>
+        <ComposedChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="year"
+            label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
+          />
+          <YAxis
+            tickFormatter={formatCompactCurrency}
+            label={{ value: 'Portfolio Balance', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip formatter={formatBand} />
+          <Legend />
+          <Area type="monotone" dataKey="Portfolio 5th-95th" stroke="none" fill="#8884d8" fillOpacity={0.2} />
+          <Area type="monotone" dataKey="Portfolio 25th-75th" stroke="none" fill="#8884d8" fillOpacity={0.4} />
+          <Line type="monotone" dataKey="Portfolio Median" stroke="#3f3a9e" strokeWidth={3} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <h3 className="chart-section">Net Income Range</h3>
+      <ResponsiveContainer width="100%" height={300}>
+        <ComposedChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="year"
+            label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
+          />
+          <YAxis
+            tickFormatter={formatCompactCurrency}
+            label={{ value: 'Net Income', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip formatter={formatBand} />
+          <Legend />
+          <Area type="monotone" dataKey="Net Income 5th-95th" stroke="none" fill="#9C27B0" fillOpacity={0.2} />
+          <Area type="monotone" dataKey="Net Income 25th-75th" stroke="none" fill="#9C27B0" fillOpacity={0.4} />
+          <Line type="monotone" dataKey="Net Income Median" stroke="#9C27B0" strokeWidth={3} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <h3 className="chart-section">Probability of Depletion by Age</h3>
+      <ResponsiveContainer width="100%" height={250}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="age"
+            label={{ value: 'Age', position: 'insideBottom', offset: -5 }}
+          />
+          <YAxis
+            domain={[0, 100]}
+            tickFormatter={(value: number) => `${value}%`}
+            label={{ value: 'Depleted', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+          <Legend />
+          <Line type="stepAfter" dataKey="Depletion Probability" stroke="#F44336" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+// Copyright (c) 2026 François Rouaix
+import type { MonteCarloResult } from '../lib/types';
+import { formatCurrency } from '../utils/format';
+import { toNumber } from '../lib/bigHelpers';
+
+export type RepresentativeRun = 'worst' | 'median' | 'best' | 'worst_start';
+
+interface MonteCarloSummaryProps {
+  result: MonteCarloResult;
+  partial?: boolean;
+  selectedRun: RepresentativeRun;
+  onSelectRun: (run: RepresentativeRun) => void;
+  onReuseSeed?: (seed: number) => void;
+}
+
+export function MonteCarloSummary({ result, partial = false, selectedRun, onSelectRun, onReuseSeed }: MonteCarloSummaryProps) {
+  const runOptions: { run: RepresentativeRun; label: string }[] = [
+    { run: 'worst', label: '10th Percentile' },
+    { run: 'median', label: 'Median' },
+    { run: 'best', label: '90th Percentile' },
+  ];
+  if (result.worstHistoricalStart) {
+    runOptions.push({ run: 'worst_start', label: `Worst Start (${result.worstHistoricalStart.startYear})` });
+  }
+
+  // Treat 90%+ success as a robust plan
+  const success = result.successRate >= 90;
+
+  return (
+    <div className={`projection-result ${success ? 'success' : 'failure'}`}>
+      <h3>
+        🎲 Monte Carlo: {result.successRate.toFixed(1)}% Success Rate
+        {partial && ' (partial)'}
+      </h3>
+      <div className="projection-metrics">
+        <div>
+          <strong>Simulations:</strong> {result.numRuns}<br />
+          <strong>Successful Runs:</strong> {Math.round((result.successRate / 100) * result.numRuns)}<br />
+          <strong>Seed:</strong> <code>{result.seed}</code>
+          {onReuseSeed && (
+            <>
+              {' '}
+              <button onClick={() => onReuseSeed(result.seed)} className="button-secondary">
+                Reuse
+              </button>
+            </>
+          )}
+        </div>
+        <div>
+          <strong>10th Percentile Final:</strong> ${formatCurrency(toNumber(result.percentile10Value))}<br />
+          <strong>Median Final:</strong> ${formatCurrency(toNumber(result.medianFinalValue))}<br />
+          <strong>90th Percentile Final:</strong> ${formatCurrency(toNumber(result.percentile90Value))}
+          {result.worstHistoricalStart && (
+            <>
+              <br />
+              <strong>Worst Start Year:</strong> {result.worstHistoricalStart.startYear}
+              {result.worstHistoricalStart.run.failureAge !== undefined
+                ? ` (depleted at age ${result.worstHistoricalStart.run.failureAge})`
+                : ` ($${formatCurrency(toNumber(result.worstHistoricalStart.run.finalPortfolioValue))} final)`}
+            </>
+          )}
+        </div>
+      </div>
+      <div className="run-selector">
+        <span>Show run:</span>
+        {runOptions.map(({ run, label }) => (
+          <button
+            key={run}
+            onClick={() => onSelectRun(run)}
+            className={run === selectedRun ? 'button-primary' : 'button-secondary'}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
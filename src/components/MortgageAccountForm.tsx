@@ -1,11 +1,13 @@
 // Copyright (c) 2026 François Rouaix
 import { useState, type ReactElement } from 'react';
 import { generateAccountId } from '../utils/ids';
+import type { RealEstateAccountData } from './RealEstateAccountForm';
 
 export interface MortgageAccountData {
   accountId: string,
   accountType: 'mortgage',
-  propertyNickname: string,
+  propertyId?: string, // accountId of the financed RealEstateAccountData
+  propertyNickname: string, // Display name (copied from the linked property)
   principalBalance: number,
   interestRate: number,
   monthlyPayment: number,
@@ -13,14 +15,20 @@ export interface MortgageAccountData {
 
 interface MortgageAccountFormProps {
   onSave: (data: MortgageAccountData) => void,
+  properties: RealEstateAccountData[],
 }
 
-export const MortgageAccountForm = ({ onSave }: MortgageAccountFormProps): ReactElement => {
-  const [propertyNickname, setPropertyNickname] = useState('');
+export const MortgageAccountForm = ({ onSave, properties }: MortgageAccountFormProps): ReactElement => {
+  const [propertyId, setPropertyId] = useState('');
   const [principalBalance, setPrincipalBalance] = useState('');
   const [interestRate, setInterestRate] = useState('');
   const [monthlyPayment, setMonthlyPayment] = useState('');
 
+  // Default to the first property until one is picked (or if the picked one was removed)
+  const selectedPropertyId = properties.some(p => p.accountId === propertyId)
+    ? propertyId
+    : properties[0]?.accountId ?? '';
+
   const handleSubmit = (e: React.FormEvent): void => {
     e.preventDefault();
     
@@ -28,40 +36,53 @@ export const MortgageAccountForm = ({ onSave }: MortgageAccountFormProps): React
     const rate = parseFloat(interestRate);
     const payment = parseFloat(monthlyPayment);
     
-    if (!propertyNickname.trim() || isNaN(balance) || balance < 0 || isNaN(rate) || rate < 0 || isNaN(payment) || payment < 0) {
+    const property = properties.find(p => p.accountId === selectedPropertyId);
+    if (!property || isNaN(balance) || balance < 0 || isNaN(rate) || rate < 0 || isNaN(payment) || payment < 0) {
       return;
     }
 
     const accountData: MortgageAccountData = {
       accountId: generateAccountId('mortgage'),
       accountType: 'mortgage',
-      propertyNickname: propertyNickname.trim(),
+      propertyId: property.accountId,
+      propertyNickname: property.nickname,
       principalBalance: balance,
       interestRate: rate,
       monthlyPayment: payment,
     };
 
     onSave(accountData);
-    setPropertyNickname('');
     setPrincipalBalance('');
     setInterestRate('');
     setMonthlyPayment('');
   };
 
+  if (properties.length === 0) {
+    return (
+      <div className="account-form">
+        <h3>Mortgage</h3>
+        <p className="form-help">Add the real estate property this mortgage finances first.</p>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="account-form">
       <h3>Mortgage</h3>
       
       <div className="form-group">
-        <label htmlFor="propertyNickname">Property Nickname</label>
-        <input
-          id="propertyNickname"
-          type="text"
-          value={propertyNickname}
-          onChange={(e): void => setPropertyNickname(e.target.value)}
-          placeholder="e.g., Main Street Rental"
+        <label htmlFor="propertyId">Property</label>
+        <select
+          id="propertyId"
+          value={selectedPropertyId}
+          onChange={(e): void => setPropertyId(e.target.value)}
           required
-        />
+        >
+          {properties.map(property => (
+            <option key={property.accountId} value={property.accountId}>{property.nickname}</option>
+          ))}
+        </select>
+        <small className="form-help">A planned sale of this property repays the mortgage first</small>
       </div>
 
       <div className="form-group">
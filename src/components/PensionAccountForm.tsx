@@ -0,0 +1,210 @@
+// Copyright (c) 2026 François Rouaix
+import React, { useState } from 'react';
+import { generateAccountId } from '../utils/ids';
+import { AccountOwnerField } from './AccountOwnerField';
+import type { AccountOwnerData } from './AccountOwnerField';
+
+interface PensionAccountFormProps {
+  initialData?: PensionAccountData;
+  onSave: (data: PensionAccountData) => void;
+  hasSpouse?: boolean; // Shows the owner and survivor fields
+}
+
+export interface PensionAccountData {
+  accountId: string;
+  accountType: 'pension';
+  nickname: string;
+  pensionType: 'pension' | 'annuity';
+  startAge: number; // Owner's age at the first payment
+  annualAmount: number; // First year's payment
+  colaRate: number; // Percent per year
+  survivorPercent: number; // Percent of the payment continuing to the surviving spouse
+  taxablePercent: number; // Percent of each payment taxed as ordinary income
+  owner?: AccountOwnerData; // Default: user
+}
+
+export const PensionAccountForm: React.FC<PensionAccountFormProps> = ({ initialData, onSave, hasSpouse }) => {
+  const [nickname, setNickname] = useState(initialData?.nickname || '');
+  const [pensionType, setPensionType] = useState<PensionAccountData['pensionType']>(initialData?.pensionType || 'pension');
+  const [startAge, setStartAge] = useState(initialData?.startAge?.toString() || '65');
+  const [annualAmount, setAnnualAmount] = useState(initialData?.annualAmount?.toString() || '');
+  const [colaRate, setColaRate] = useState(initialData?.colaRate?.toString() || '0');
+  const [survivorPercent, setSurvivorPercent] = useState(initialData?.survivorPercent?.toString() || '0');
+  const [taxablePercent, setTaxablePercent] = useState(initialData?.taxablePercent?.toString() || '100');
+  const [owner, setOwner] = useState<AccountOwnerData>(initialData?.owner || 'user');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!nickname.trim() || !annualAmount) {
+      setError('Name and annual amount are required');
+      return;
+    }
+
+    const age = parseInt(startAge);
+    const amount = parseFloat(annualAmount);
+    const cola = parseFloat(colaRate);
+    const survivor = parseFloat(survivorPercent);
+    const taxable = parseFloat(taxablePercent);
+
+    if ([age, amount, cola, survivor, taxable].some(isNaN)) {
+      setError('Please enter valid numbers');
+      return;
+    }
+
+    if (amount < 0 || cola < 0 || cola > 10) {
+      setError('Amount cannot be negative and COLA rate must be between 0% and 10%');
+      return;
+    }
+
+    if (survivor < 0 || survivor > 100 || taxable < 0 || taxable > 100) {
+      setError('Survivor and taxable percentages must be between 0% and 100%');
+      return;
+    }
+
+    onSave({
+      accountId: initialData?.accountId || generateAccountId('pension'),
+      accountType: 'pension',
+      nickname: nickname.trim(),
+      pensionType,
+      startAge: age,
+      annualAmount: amount,
+      colaRate: cola,
+      survivorPercent: survivor,
+      taxablePercent: taxable,
+      owner,
+    });
+
+    // Only clear form if not editing
+    if (!initialData) {
+      setNickname('');
+      setPensionType('pension');
+      setStartAge('65');
+      setAnnualAmount('');
+      setColaRate('0');
+      setSurvivorPercent('0');
+      setTaxablePercent('100');
+      setOwner('user');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="account-form">
+      <h3>Pension / Annuity</h3>
+
+      <div className="form-group">
+        <label htmlFor="pension-nickname">Name</label>
+        <input
+          id="pension-nickname"
+          type="text"
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          placeholder="e.g., State Teachers Pension"
+          required
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="pension-type">Type</label>
+        <select
+          id="pension-type"
+          value={pensionType}
+          onChange={(e) => {
+            const type = e.target.value as PensionAccountData['pensionType'];
+            setPensionType(type);
+            // Annuities bought with after-tax money are only partly taxable
+            if (!initialData) setTaxablePercent(type === 'annuity' ? '50' : '100');
+          }}
+        >
+          <option value="pension">Pension</option>
+          <option value="annuity">Annuity</option>
+        </select>
+      </div>
+
+      {hasSpouse && (
+        <AccountOwnerField
+          idPrefix="pension"
+          value={owner}
+          onChange={setOwner}
+          help="Payments start at the owner's age"
+        />
+      )}
+
+      <div className="form-group">
+        <label htmlFor="pension-startAge">Start Age</label>
+        <input
+          id="pension-startAge"
+          type="number"
+          min="40"
+          max="100"
+          value={startAge}
+          onChange={(e) => setStartAge(e.target.value)}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="pension-annualAmount">Annual Amount ($)</label>
+        <input
+          id="pension-annualAmount"
+          type="number"
+          min="0"
+          step="100"
+          value={annualAmount}
+          onChange={(e) => setAnnualAmount(e.target.value)}
+          placeholder="e.g., 24000"
+        />
+        <small className="form-help">Payment in the first year</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="pension-colaRate">Annual COLA Rate (%)</label>
+        <input
+          id="pension-colaRate"
+          type="number"
+          min="0"
+          max="10"
+          step="0.1"
+          value={colaRate}
+          onChange={(e) => setColaRate(e.target.value)}
+        />
+        <small className="form-help">0 for a fixed payment</small>
+      </div>
+
+      {hasSpouse && (
+        <div className="form-group">
+          <label htmlFor="pension-survivorPercent">Survivor Benefit (%)</label>
+          <input
+            id="pension-survivorPercent"
+            type="number"
+            min="0"
+            max="100"
+            step="1"
+            value={survivorPercent}
+            onChange={(e) => setSurvivorPercent(e.target.value)}
+          />
+          <small className="form-help">Share of the payment that continues to the surviving spouse (e.g., 50 for a joint and 50% survivor option)</small>
+        </div>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="pension-taxablePercent">Taxable Portion (%)</label>
+        <input
+          id="pension-taxablePercent"
+          type="number"
+          min="0"
+          max="100"
+          step="1"
+          value={taxablePercent}
+          onChange={(e) => setTaxablePercent(e.target.value)}
+        />
+        <small className="form-help">Taxed as ordinary income. Less than 100 for an annuity bought with after-tax money (its exclusion ratio)</small>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <button type="submit" className="btn-primary">Save {pensionType === 'annuity' ? 'Annuity' : 'Pension'}</button>
+    </form>
+  );
+};
@@ -2,7 +2,7 @@
 import { AreaChart, Area, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import type { ProjectionResult } from '../lib/types';
 import { buildChartData } from '../lib/chartDataBuilder';
-import { formatCurrency } from '../utils/format';
+import { formatCurrency, formatCompactCurrency } from '../utils/format';
 import { toNumber } from '../lib/bigHelpers';
 
 interface ProjectionChartProps {
@@ -21,6 +21,9 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
 
   // Get all unique account IDs from withdrawal plans
   const accountIds = new Set<string>();
+  result.accumulationYears.forEach(year => {
+    Object.keys(year.accountBalances).forEach(id => accountIds.add(id));
+  });
   result.withdrawalPlans.forEach(plan => {
     Object.keys(plan.accountBalances).forEach(id => accountIds.add(id));
     Object.keys(plan.accountWithdrawals).forEach(id => accountIds.add(id));
@@ -43,7 +46,24 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
   const hasAnyTaxable = dataPoints.some(d => d.taxableBalance > 0);
   const hasAnyTraditional = dataPoints.some(d => d.traditionalBalance > 0);
   const hasAnyRoth = dataPoints.some(d => d.rothBalance > 0);
+  const hasSpouse = dataPoints.some(d => d.spouseAge !== undefined);
   const hasAnySocialSecurity = dataPoints.some(d => d.socialSecurity > 0);
+  const hasAnyPension = dataPoints.some(d => d.pensionIncome > 0);
+  const hasAnyEarnedIncome = dataPoints.some(d => d.earnedIncome > 0);
+  const hasAnyInvestmentIncome = dataPoints.some(d => d.investmentIncome > 0);
+  const hasAnyStateTaxes = dataPoints.some(d => d.stateTaxes < 0);
+  const hasAnyIRMAA = dataPoints.some(d => d.irmaaSurcharge < 0);
+  const hasAnyConversion = dataPoints.some(d => d.rothConversion > 0);
+  const hasAnyCash = dataPoints.some(d => d.cashBalance > 0);
+  const hasAnyRentalIncome = dataPoints.some(d => d.rentalIncome !== 0);
+  const hasAnyRealEstate = dataPoints.some(d => d.realEstateValue > 0) ||
+    result.accumulationYears.some(year => year.realEstateValue.gt(0));
+  const hasAnyMortgagePayment = dataPoints.some(d => d.mortgagePayments < 0);
+  const hasAnyLiabilities = hasAnyMortgagePayment ||
+    result.accumulationYears.some(year => year.liabilities.gt(0));
+  const showNetWorth = hasAnyRealEstate || hasAnyLiabilities;
+  const mortgagePayoffYears = Object.values(result.mortgagePayoffYears).sort((a, b) => a - b);
+  const finalLiabilities = dataPoints[dataPoints.length - 1]?.liabilities ?? 0;
   
   // Generate colors for each account
   const colorPalette = [
@@ -66,8 +86,21 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
       'Total Portfolio': dataPoint.totalPortfolio,
       'Total Income': dataPoint.totalIncome,
       'Social Security': dataPoint.socialSecurity,
-      'Taxes': dataPoint.taxes, // Already negative
-      'Net Income': dataPoint.totalIncome + dataPoint.taxes, // taxes is negative
+      'Pension': dataPoint.pensionIncome,
+      'Earned Income': dataPoint.earnedIncome,
+      'Dividends & Interest': dataPoint.investmentIncome,
+      'Rental Income': dataPoint.rentalIncome,
+      'Real Estate': dataPoint.realEstateValue,
+      'Net Worth': dataPoint.netWorth,
+      'Mortgage': dataPoint.mortgagePayments, // Already negative
+      'Federal Taxes': dataPoint.taxes - dataPoint.stateTaxes, // Already negative
+      'State Taxes': dataPoint.stateTaxes, // Already negative
+      'IRMAA': dataPoint.irmaaSurcharge, // Already negative
+      'Roth Conversion': dataPoint.rothConversion,
+      'Net Income': dataPoint.totalIncome + dataPoint.taxes + dataPoint.irmaaSurcharge,
+      'Stocks': dataPoint.stocksBalance,
+      'Bonds': dataPoint.bondsBalance,
+      'Cash': dataPoint.cashBalance,
     };
     
     // Add individual account balances
@@ -83,6 +116,32 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
     return chartPoint;
   });
   
+  // Working years come first in the balance chart, so growth before retirement is visible
+  const accumulationChartData = result.accumulationYears.map(year => {
+    const chartPoint: Record<string, number> = {
+      year: year.year,
+      age: year.age,
+      'Real Estate': toNumber(year.realEstateValue),
+      'Net Worth': toNumber(year.netWorth),
+    };
+    Object.entries(year.accountBalances).forEach(([accountId, balance]) => {
+      chartPoint[accountId] = toNumber(balance);
+    });
+    return chartPoint;
+  });
+  const balanceChartData = [...accumulationChartData, ...chartData];
+  const workingYears = result.accumulationYears.length;
+  const totalContributions = result.accumulationYears.reduce(
+    (total, year) => total + Object.values(year.contributions).reduce((sum, amount) => sum + toNumber(amount), 0),
+    0,
+  );
+  const totalEmployerMatch = result.accumulationYears.reduce(
+    (total, year) => total + Object.values(year.employerMatch).reduce((sum, amount) => sum + toNumber(amount), 0),
+    0,
+  );
+  // Paid from salary, so not part of the retirement net income
+  const workingYearTaxes = result.accumulationYears.reduce((total, year) => total + toNumber(year.taxes), 0);
+
   // Get all unique withdrawal account IDs (sorted for consistency)
   const withdrawalAccountIds = new Set<string>();
   result.withdrawalPlans.forEach(plan => {
@@ -94,16 +153,6 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
   });
   const sortedWithdrawalAccountIds = Array.from(withdrawalAccountIds).sort();
 
-  const formatChartCurrency = (value: number) => {
-    if (value >= 1000000) {
-      return `$${(value / 1000000).toFixed(1)}M`;
-    }
-    if (value >= 1000) {
-      return `$${(value / 1000).toFixed(0)}K`;
-    }
-    return `$${value.toFixed(0)}`;
-  };
-
   return (
     <div>
       <div className={`projection-result ${success ? 'success' : 'failure'}`}>
@@ -112,8 +161,26 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
         </h3>
         <div className="projection-metrics">
           <div>
-            <strong>Years Simulated:</strong> {totalYears}<br />
+            {workingYears > 0 && (
+              <>
+                <strong>Working Years:</strong> {workingYears} (contributions ${formatCurrency(totalContributions)}
+                {totalEmployerMatch > 0 && <>, employer match ${formatCurrency(totalEmployerMatch)}</>}
+                {workingYearTaxes > 0 && <>, taxes ${formatCurrency(workingYearTaxes)}</>})<br />
+                <strong>Portfolio at Retirement:</strong> ${formatCurrency(toNumber(result.withdrawalPlans[0]?.totalPortfolioValue ?? result.finalPortfolioValue))}<br />
+              </>
+            )}
+            <strong>{workingYears > 0 ? 'Retirement Years' : 'Years Simulated'}:</strong> {totalYears}<br />
             <strong>Final Portfolio:</strong> ${formatCurrency(toNumber(result.finalPortfolioValue))}<br />
+            {mortgagePayoffYears.length > 0 && (
+              <>
+                <strong>Mortgage Paid Off:</strong> {mortgagePayoffYears.join(', ')}<br />
+              </>
+            )}
+            {finalLiabilities > 0 && (
+              <>
+                <strong>Remaining Mortgage:</strong> ${formatCurrency(finalLiabilities)}<br />
+              </>
+            )}
             {!success && failureYear && (
               <>
                 <strong className="failure-info">Failed in Year:</strong> {failureYear} (age {failureAge})
@@ -122,25 +189,35 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
           </div>
           <div>
             <strong>Total Withdrawals:</strong> ${formatCurrency(toNumber(result.totalWithdrawals))}<br />
+            {hasAnyConversion && (
+              <>
+                <strong>Roth Conversions:</strong> ${formatCurrency(toNumber(result.totalRothConversions))}<br />
+              </>
+            )}
             <strong>Total Taxes:</strong> ${formatCurrency(toNumber(result.totalTaxesPaid))}<br />
-            <strong>Net Income:</strong> ${formatCurrency(toNumber(result.totalWithdrawals.minus(result.totalTaxesPaid)))}
+            {hasAnyIRMAA && (
+              <>
+                <strong>IRMAA Surcharges:</strong> ${formatCurrency(toNumber(result.totalIRMAASurcharges))}<br />
+              </>
+            )}
+            <strong>Net Income:</strong> ${formatCurrency(toNumber(result.totalWithdrawals.minus(result.totalTaxesPaid).minus(result.totalIRMAASurcharges)) + workingYearTaxes)}
           </div>
         </div>
       </div>
 
       <h3>Portfolio Balance Over Time</h3>
       <ResponsiveContainer width="100%" height={400}>
-        <AreaChart data={chartData}>
+        <ComposedChart data={balanceChartData}>
           <CartesianGrid strokeDasharray="3 3" />
           <XAxis 
             dataKey="year" 
             label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
           />
           <YAxis 
-            tickFormatter={formatChartCurrency}
+            tickFormatter={formatCompactCurrency}
             label={{ value: 'Portfolio Balance', angle: -90, position: 'insideLeft' }}
           />
-          <Tooltip formatter={(value: number) => formatChartCurrency(value)} />
+          <Tooltip formatter={(value: number) => formatCompactCurrency(value)} />
           <Legend />
           {sortedAccountIds.map(accountId => (
             <Area 
@@ -153,6 +230,32 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
               fill={accountColors[accountId]} 
             />
           ))}
+          {hasAnyRealEstate && (
+            <Area type="monotone" dataKey="Real Estate" stackId="1" stroke="#8d6e63" fill="#bcaaa4" />
+          )}
+          {showNetWorth && (
+            <Line type="monotone" dataKey="Net Worth" stroke="#37474f" strokeWidth={2} dot={false} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <h3 className="chart-section">Asset Mix Over Time</h3>
+      <ResponsiveContainer width="100%" height={300}>
+        <AreaChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis 
+            dataKey="year" 
+            label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
+          />
+          <YAxis 
+            tickFormatter={formatCompactCurrency}
+            label={{ value: 'Balance', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip formatter={(value: number) => formatCompactCurrency(value)} />
+          <Legend />
+          <Area type="monotone" dataKey="Stocks" stackId="1" stroke="#3f51b5" fill="#3f51b5" />
+          <Area type="monotone" dataKey="Bonds" stackId="1" stroke="#82ca9d" fill="#82ca9d" />
+          {hasAnyCash && <Area type="monotone" dataKey="Cash" stackId="1" stroke="#ffc658" fill="#ffc658" />}
         </AreaChart>
       </ResponsiveContainer>
 
@@ -165,10 +268,10 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
             label={{ value: 'Year', position: 'insideBottom', offset: -5 }}
           />
           <YAxis 
-            tickFormatter={formatChartCurrency}
+            tickFormatter={formatCompactCurrency}
             label={{ value: 'Amount', angle: -90, position: 'insideLeft' }}
           />
-          <Tooltip formatter={(value: number) => formatChartCurrency(value)} />
+          <Tooltip formatter={(value: number) => formatCompactCurrency(value)} />
           <Legend />
           {sortedWithdrawalAccountIds.map(accountId => (
             <Bar 
@@ -180,7 +283,15 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
             />
           ))}
           <Bar dataKey="Social Security" stackId="income" fill="#2196F3" />
-          <Bar dataKey="Taxes" fill="#F44336" />
+          {hasAnyPension && <Bar dataKey="Pension" stackId="income" fill="#00897B" />}
+          {hasAnyEarnedIncome && <Bar dataKey="Earned Income" stackId="income" fill="#FFC107" />}
+          {hasAnyInvestmentIncome && <Bar dataKey="Dividends & Interest" stackId="income" fill="#7E57C2" />}
+          {hasAnyRentalIncome && <Bar dataKey="Rental Income" stackId="income" fill="#8d6e63" />}
+          <Bar dataKey="Federal Taxes" stackId="costs" fill="#F44336" />
+          {hasAnyStateTaxes && <Bar dataKey="State Taxes" stackId="costs" fill="#E57373" />}
+          {hasAnyIRMAA && <Bar dataKey="IRMAA" stackId="costs" fill="#FF9800" />}
+          {hasAnyMortgagePayment && <Bar dataKey="Mortgage" stackId="costs" fill="#795548" />}
+          {hasAnyConversion && <Bar dataKey="Roth Conversion" stackId="conversion" fill="#4CAF50" />}
           <Line 
             type="monotone" 
             dataKey="Net Income" 
@@ -199,27 +310,42 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
             <tr>
               <th>Year</th>
               <th>Age</th>
+              {hasSpouse && <th>Spouse Age</th>}
+              {hasSpouse && <th>Filing</th>}
               <th className="align-right">Income</th>
               {hasAnySocialSecurity && <th className="align-right">Social Security</th>}
+              {hasAnyPension && <th className="align-right">Pension</th>}
+              {hasAnyEarnedIncome && <th className="align-right">Earned Income</th>}
+              {hasAnyInvestmentIncome && <th className="align-right">Dividends &amp; Interest</th>}
+              {hasAnyRentalIncome && <th className="align-right">Rental Income</th>}
               <th className="align-right">Taxes</th>
+              {hasAnyStateTaxes && <th className="align-right">State Taxes</th>}
               <th className="align-right">Tax Rate</th>
+              {hasAnyIRMAA && <th className="align-right">IRMAA</th>}
+              {hasAnyConversion && <th className="align-right">Roth Conversion</th>}
               <th className="align-right">Net Income</th>
+              {hasAnyMortgagePayment && <th className="align-right">Mortgage</th>}
               {hasAnyTaxable && <th className="align-right">Brokerage</th>}
               {hasAnyTraditional && <th className="align-right">Traditional</th>}
               {hasAnyRoth && <th className="align-right">Roth</th>}
               <th className="align-right">Total</th>
+              {hasAnyRealEstate && <th className="align-right">Real Estate</th>}
+              {hasAnyLiabilities && <th className="align-right">Liabilities</th>}
+              {showNetWorth && <th className="align-right">Net Worth</th>}
             </tr>
           </thead>
           <tbody>
             {dataPoints.map((dataPoint, idx) => {
               const totalIncome = dataPoint.totalIncome;
-              const netIncome = totalIncome + dataPoint.taxes; // taxes is negative
+              const netIncome = totalIncome + dataPoint.taxes + dataPoint.irmaaSurcharge; // both negative
               const taxRate = totalIncome > 0 ? ((Math.abs(dataPoint.taxes) / totalIncome) * 100) : 0;
               
               return (
                 <tr key={idx}>
                   <td>{dataPoint.year}</td>
                   <td>{dataPoint.age}</td>
+                  {hasSpouse && <td>{dataPoint.spouseAge}</td>}
+                  {hasSpouse && <td>{dataPoint.filingStatus}</td>}
                   <td className="align-right">
                     ${formatCurrency(totalIncome)}
                   </td>
@@ -228,15 +354,55 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
                       ${formatCurrency(dataPoint.socialSecurity)}
                     </td>
                   )}
+                  {hasAnyPension && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.pensionIncome)}
+                    </td>
+                  )}
+                  {hasAnyEarnedIncome && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.earnedIncome)}
+                    </td>
+                  )}
+                  {hasAnyInvestmentIncome && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.investmentIncome)}
+                    </td>
+                  )}
+                  {hasAnyRentalIncome && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.rentalIncome)}
+                    </td>
+                  )}
                   <td className="align-right">
                     ${formatCurrency(Math.abs(dataPoint.taxes))}
                   </td>
+                  {hasAnyStateTaxes && (
+                    <td className="align-right">
+                      ${formatCurrency(Math.abs(dataPoint.stateTaxes))}
+                    </td>
+                  )}
                   <td className="align-right">
                     {taxRate.toFixed(1)}%
                   </td>
+                  {hasAnyIRMAA && (
+                    <td className="align-right">
+                      ${formatCurrency(Math.abs(dataPoint.irmaaSurcharge))}
+                    </td>
+                  )}
+                  {hasAnyConversion && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.rothConversion)}
+                    </td>
+                  )}
                   <td className="align-right">
                     ${formatCurrency(netIncome)}
                   </td>
+                  {hasAnyMortgagePayment && (
+                    <td className="align-right">
+                      ${formatCurrency(Math.abs(dataPoint.mortgagePayments))}
+                    </td>
+                  )}
                   {hasAnyTaxable && (
                     <td className="align-right">
                       ${formatCurrency(dataPoint.taxableBalance)}
@@ -255,6 +421,21 @@ export function ProjectionChart({ result }: ProjectionChartProps) {
                   <td className="align-right bold">
                     ${formatCurrency(dataPoint.totalPortfolio)}
                   </td>
+                  {hasAnyRealEstate && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.realEstateValue)}
+                    </td>
+                  )}
+                  {hasAnyLiabilities && (
+                    <td className="align-right">
+                      ${formatCurrency(dataPoint.liabilities)}
+                    </td>
+                  )}
+                  {showNetWorth && (
+                    <td className="align-right bold">
+                      ${formatCurrency(dataPoint.netWorth)}
+                    </td>
+                  )}
                 </tr>
               );
             })}
@@ -7,7 +7,13 @@ export interface RealEstateAccountData {
   accountType: 'realEstate',
   nickname: string,
   currentValue: number,
-  yearlyValueIncrease: number,
+  yearlyValueIncrease: number, // Percent per year above inflation
+  costBasis?: number, // Purchase price plus improvements (default: current value)
+  isPrimaryResidence?: boolean,
+  annualRent?: number,
+  annualExpenses?: number,
+  depreciationBasis?: number, // Building value excluding land
+  saleYear?: number,
 }
 
 interface RealEstateAccountFormProps {
@@ -18,6 +24,15 @@ export const RealEstateAccountForm = ({ onSave }: RealEstateAccountFormProps): R
   const [nickname, setNickname] = useState('');
   const [currentValue, setCurrentValue] = useState('');
   const [yearlyValueIncrease, setYearlyValueIncrease] = useState('');
+  const [costBasis, setCostBasis] = useState('');
+  const [isPrimaryResidence, setIsPrimaryResidence] = useState(false);
+  const [annualRent, setAnnualRent] = useState('');
+  const [annualExpenses, setAnnualExpenses] = useState('');
+  const [depreciationBasis, setDepreciationBasis] = useState('');
+  const [saleYear, setSaleYear] = useState('');
+
+  // Empty optional fields are left out; NaN marks an invalid entry
+  const parseOptional = (input: string): number | undefined => (input.trim() === '' ? undefined : parseFloat(input));
 
   const handleSubmit = (e: React.FormEvent): void => {
     e.preventDefault();
@@ -29,18 +44,42 @@ export const RealEstateAccountForm = ({ onSave }: RealEstateAccountFormProps): R
       return;
     }
 
+    const optionalAmounts = {
+      costBasis: parseOptional(costBasis),
+      annualRent: parseOptional(annualRent),
+      annualExpenses: parseOptional(annualExpenses),
+      depreciationBasis: parseOptional(depreciationBasis),
+    };
+    if (Object.values(optionalAmounts).some(amount => amount !== undefined && (isNaN(amount) || amount < 0))) {
+      return;
+    }
+
+    const sale = parseOptional(saleYear);
+    if (sale !== undefined && !Number.isInteger(sale)) {
+      return;
+    }
+
     const accountData: RealEstateAccountData = {
       accountId: generateAccountId('real-estate'),
       accountType: 'realEstate',
       nickname: nickname.trim(),
       currentValue: value,
       yearlyValueIncrease: increase,
+      ...optionalAmounts,
+      isPrimaryResidence,
+      saleYear: sale,
     };
 
     onSave(accountData);
     setNickname('');
     setCurrentValue('');
     setYearlyValueIncrease('');
+    setCostBasis('');
+    setIsPrimaryResidence(false);
+    setAnnualRent('');
+    setAnnualExpenses('');
+    setDepreciationBasis('');
+    setSaleYear('');
   };
 
   return (
@@ -74,18 +113,98 @@ export const RealEstateAccountForm = ({ onSave }: RealEstateAccountFormProps): R
       </div>
 
       <div className="form-group">
-        <label htmlFor="yearlyValueIncrease">Expected Yearly Value Increase (%)</label>
+        <label htmlFor="yearlyValueIncrease">Expected Yearly Value Increase Above Inflation (%)</label>
         <input
           id="yearlyValueIncrease"
           type="number"
           value={yearlyValueIncrease}
           onChange={(e): void => setYearlyValueIncrease(e.target.value)}
-          placeholder="e.g., 3.5"
+          placeholder="e.g., 1"
           step="0.1"
           required
         />
       </div>
 
+      <div className="form-group">
+        <label htmlFor="costBasis">Cost Basis ($, optional)</label>
+        <input
+          id="costBasis"
+          type="number"
+          value={costBasis}
+          onChange={(e): void => setCostBasis(e.target.value)}
+          placeholder="Purchase price plus improvements"
+          min="0"
+          step="1000"
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="isPrimaryResidence">
+          <input
+            id="isPrimaryResidence"
+            type="checkbox"
+            checked={isPrimaryResidence}
+            onChange={(e): void => setIsPrimaryResidence(e.target.checked)}
+          />
+          Primary residence
+        </label>
+        <small className="form-help">Up to $250,000 of sale gain is tax-free ($500,000 married filing jointly)</small>
+      </div>
+
+      <div className="form-group">
+        <label>Rental Income / Expenses ($/year, optional)</label>
+        <div className="allocation-inputs">
+          <input
+            id="annualRent"
+            type="number"
+            value={annualRent}
+            onChange={(e): void => setAnnualRent(e.target.value)}
+            placeholder="Rent"
+            min="0"
+            step="1000"
+          />
+          <input
+            id="annualExpenses"
+            type="number"
+            value={annualExpenses}
+            onChange={(e): void => setAnnualExpenses(e.target.value)}
+            placeholder="Expenses"
+            min="0"
+            step="1000"
+          />
+        </div>
+        <small className="form-help">Expenses include property tax, insurance, maintenance and management</small>
+      </div>
+
+      {annualRent !== '' && (
+        <div className="form-group">
+          <label htmlFor="depreciationBasis">Depreciable Building Value ($, optional)</label>
+          <input
+            id="depreciationBasis"
+            type="number"
+            value={depreciationBasis}
+            onChange={(e): void => setDepreciationBasis(e.target.value)}
+            placeholder="Cost basis excluding land"
+            min="0"
+            step="1000"
+          />
+          <small className="form-help">Depreciated over 27.5 years; recaptured as ordinary income on sale</small>
+        </div>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="saleYear">Planned Sale Year (optional)</label>
+        <input
+          id="saleYear"
+          type="number"
+          value={saleYear}
+          onChange={(e): void => setSaleYear(e.target.value)}
+          placeholder="e.g., 2035"
+          step="1"
+        />
+        <small className="form-help">Net proceeds (after 6% selling costs) go to a taxable account</small>
+      </div>
+
       <button type="submit" className="btn-quaternary">
         Save Real Estate
       </button>
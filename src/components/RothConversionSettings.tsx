@@ -0,0 +1,110 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+import { formatCurrency } from '../utils/format';
+
+export interface RothConversionData {
+  strategy: 'none' | 'fixed_amount' | 'fill_to_bracket' | 'fill_to_irmaa_tier';
+  annualAmount: number;
+  targetTaxBracket: number;
+  startAge: number;
+  endAge: number;
+}
+
+interface RothConversionSettingsProps {
+  value: RothConversionData;
+  onChange: (data: RothConversionData) => void;
+}
+
+export const RothConversionSettings: React.FC<RothConversionSettingsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<RothConversionData>): void => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <>
+      <div className="form-group">
+        <label>
+          Roth Conversions:
+          <select
+            value={value.strategy}
+            onChange={(e) => update({ strategy: e.target.value as RothConversionData['strategy'] })}
+          >
+            <option value="none">None</option>
+            <option value="fixed_amount">Fixed Amount per Year</option>
+            <option value="fill_to_bracket">Fill to Tax Bracket</option>
+            <option value="fill_to_irmaa_tier">Fill to IRMAA Tier</option>
+          </select>
+          <small>Move Traditional money to Roth each year; converted amounts are taxed as ordinary income</small>
+        </label>
+      </div>
+
+      {value.strategy === 'fixed_amount' && (
+        <div className="form-group">
+          <label>
+            Annual Conversion Amount:
+            <input
+              type="number"
+              min="0"
+              step="1000"
+              value={value.annualAmount}
+              onChange={(e) => update({ annualAmount: parseFloat(e.target.value) || 0 })}
+            />
+            <small>${formatCurrency(value.annualAmount)}/year</small>
+          </label>
+        </div>
+      )}
+
+      {value.strategy === 'fill_to_bracket' && (
+        <div className="form-group">
+          <label>
+            Conversion Tax Bracket:
+            <select
+              value={value.targetTaxBracket}
+              onChange={(e) => update({ targetTaxBracket: parseFloat(e.target.value) })}
+            >
+              <option value={0.10}>10%</option>
+              <option value={0.12}>12%</option>
+              <option value={0.22}>22%</option>
+              <option value={0.24}>24%</option>
+              <option value={0.32}>32%</option>
+            </select>
+            <small>Convert until ordinary income reaches the top of this bracket</small>
+          </label>
+        </div>
+      )}
+
+      {value.strategy !== 'none' && (
+        <>
+          <div className="form-group">
+            <label>
+              Conversion Start Age:
+              <input
+                type="number"
+                min="50"
+                max="100"
+                step="1"
+                value={value.startAge}
+                onChange={(e) => update({ startAge: parseInt(e.target.value, 10) || value.startAge })}
+              />
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>
+              Conversion End Age:
+              <input
+                type="number"
+                min="50"
+                max="100"
+                step="1"
+                value={value.endAge}
+                onChange={(e) => update({ endAge: parseInt(e.target.value, 10) || value.endAge })}
+              />
+              <small>Convert from age {value.startAge} through age {value.endAge}</small>
+            </label>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
@@ -1,5 +1,6 @@
 // Copyright (c) 2026 François Rouaix
 import React, { useState } from 'react';
+import { ClaimingAgeField } from './ClaimingAgeField';
 
 interface SSAIncomeFormProps {
   onSave: (data: SSAIncomeData) => void;
@@ -8,13 +9,13 @@ interface SSAIncomeFormProps {
 
 export interface SSAIncomeData {
   fraMonthlyBenefit: number;
-  claimingAge: number;
+  claimingAge: number; // Years, fractions being months (e.g. 66.5)
   colaRate?: number;
 }
 
 export const SSAIncomeForm: React.FC<SSAIncomeFormProps> = ({ onSave, initialData }) => {
   const [fraMonthlyBenefit, setFraMonthlyBenefit] = useState(initialData?.fraMonthlyBenefit?.toString() || '');
-  const [claimingAge, setClaimingAge] = useState(initialData?.claimingAge?.toString() || '67');
+  const [claimingAge, setClaimingAge] = useState(initialData?.claimingAge || 67);
   const [colaRate, setColaRate] = useState(initialData?.colaRate?.toString() || '2.5');
   const [error, setError] = useState('');
 
@@ -28,19 +29,13 @@ export const SSAIncomeForm: React.FC<SSAIncomeFormProps> = ({ onSave, initialDat
     }
 
     const benefit = parseFloat(fraMonthlyBenefit);
-    const age = parseFloat(claimingAge);
     const cola = parseFloat(colaRate);
 
-    if (isNaN(benefit) || isNaN(age) || isNaN(cola)) {
+    if (isNaN(benefit) || isNaN(cola)) {
       setError('Please enter valid numbers');
       return;
     }
 
-    if (age < 62 || age > 70) {
-      setError('Claiming age must be between 62 and 70');
-      return;
-    }
-
     if (cola < 0 || cola > 10) {
       setError('COLA rate must be between 0% and 10%');
       return;
@@ -48,7 +43,7 @@ export const SSAIncomeForm: React.FC<SSAIncomeFormProps> = ({ onSave, initialDat
 
     onSave({
       fraMonthlyBenefit: benefit,
-      claimingAge: age,
+      claimingAge,
       colaRate: cola,
     });
   };
@@ -68,22 +63,16 @@ export const SSAIncomeForm: React.FC<SSAIncomeFormProps> = ({ onSave, initialDat
           onChange={(e) => setFraMonthlyBenefit(e.target.value)}
           placeholder="From your SSA statement"
         />
-        <small>Find this amount on your Social Security statement</small>
+        <small>Find this amount on your Social Security statement. With a spouse, enter 0 if you have no work record.</small>
       </div>
 
-      <div className="form-group">
-        <label htmlFor="claimingAge">When Will You Claim? (Age)</label>
-        <input
-          id="claimingAge"
-          type="number"
-          min="62"
-          max="70"
-          step="0.01"
-          value={claimingAge}
-          onChange={(e) => setClaimingAge(e.target.value)}
-        />
-        <small>Ages 62–70; claiming early reduces benefits, delaying increases them</small>
-      </div>
+      <ClaimingAgeField
+        id="claimingAge"
+        label="When Will You Claim? (Age)"
+        value={claimingAge}
+        onChange={setClaimingAge}
+        help="Ages 62–70; full retirement age is 66 to 67 depending on birth year. Claiming early reduces benefits, delaying increases them"
+      />
 
       <div className="form-group">
         <label htmlFor="colaRate">Annual COLA Rate (%)</label>
@@ -4,15 +4,85 @@ import Big from 'big.js';
 import type { UserProfileData } from './UserProfileForm';
 import type { SSAIncomeData } from './SSAIncomeForm';
 import type { Account } from '../utils/export';
-import { buildScenario } from '../utils/scenarioBuilder';
+import { buildScenario, buildCapitalMarketAssumptions, DEFAULT_CAPITAL_MARKET_DATA } from '../utils/scenarioBuilder';
+import type { WithdrawalStrategyOption } from '../utils/scenarioBuilder';
 import { formatCurrency } from '../utils/format';
 import { ProjectionChart } from './ProjectionChart';
 import { ExplanationView } from './ExplanationView';
+import { MonteCarloSummary } from './MonteCarloSummary';
+import { MonteCarloFanChart } from './MonteCarloFanChart';
+import type { RepresentativeRun } from './MonteCarloSummary';
+import { RothConversionSettings } from './RothConversionSettings';
+import type { RothConversionData } from './RothConversionSettings';
+import { TaxLawSettings } from './TaxLawSettings';
+import type { TaxLawData } from './TaxLawSettings';
+import { CapitalMarketSettings } from './CapitalMarketSettings';
+import type { CapitalMarketData } from './CapitalMarketSettings';
+import { ClaimingAgeChart } from './ClaimingAgeChart';
+import { TaxRegimeChart } from './TaxRegimeChart';
 import { STORAGE_KEYS } from '../utils/storage';
 import { ProjectionEngine } from '../lib/projectionEngine';
+import { ClaimingAgeOptimizer } from '../lib/claimingOptimizer';
+import { TaxRegimeComparator } from '../lib/taxRegimeComparison';
+import { MonteCarloClient } from '../utils/monteCarloClient';
+import { isValidSeed, MAX_SEED } from '../lib/random';
 import { generateCSV } from '../lib/csvExport';
 import { generateExplanation } from '../lib/explanationGenerator';
-import type { ProjectionResult } from '../lib/types';
+import { ClaimingGranularity, ClaimingObjective, ReturnModel, TaxRegime } from '../lib/types';
+import type {
+  ClaimingOptimizationResult,
+  ProjectionResult,
+  MonteCarloResult,
+  Scenario,
+  TaxRegimeComparisonResult,
+  TaxRegimeSettings,
+} from '../lib/types';
+import { HISTORICAL_RETURNS, DEFAULT_BLOCK_SIZE } from '../lib/historicalReturns';
+
+type SimulationMode = 'deterministic' | 'monte_carlo';
+
+// Claiming-age projections per batch: the UI updates progress between batches
+const CLAIMING_BATCH_SIZE = 4;
+
+const DEFAULT_ROTH_CONVERSION: RothConversionData = {
+  strategy: 'none',
+  annualAmount: 20000,
+  targetTaxBracket: 0.12,
+  startAge: 65,
+  endAge: 72,
+};
+
+// Custom brackets start from the 2026 single-filer brackets
+const DEFAULT_TAX_LAW: TaxLawData = {
+  regime: 'current_law',
+  startYear: new Date().getFullYear() + 1,
+  standardDeduction: 16100,
+  brackets: [
+    { upTo: 12400, rate: 10 },
+    { upTo: 50400, rate: 12 },
+    { upTo: 105700, rate: 22 },
+    { upTo: 201775, rate: 24 },
+    { upTo: 256225, rate: 32 },
+    { upTo: 640600, rate: 35 },
+    { upTo: null, rate: 37 },
+  ],
+};
+
+/**
+ * Get the representative projection for a Monte Carlo percentile.
+ */
+function pickRepresentativeRun(result: MonteCarloResult, run: RepresentativeRun): ProjectionResult {
+  switch (run) {
+    case 'worst':
+      return result.worstCaseRun;
+    case 'best':
+      return result.bestCaseRun;
+    case 'worst_start':
+      return result.worstHistoricalStart?.run ?? result.worstCaseRun;
+    default:
+      return result.medianRun;
+  }
+}
 
 interface ScenarioRunnerProps {
   userProfile: UserProfileData;
@@ -26,6 +96,18 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     return saved ? parseInt(saved, 10) : 30;
   });
   const [realReturn, setRealReturn] = useState(0.05);
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.SIMULATION_MODE);
+    return saved === 'monte_carlo' ? 'monte_carlo' : 'deterministic';
+  });
+  const [numRuns, setNumRuns] = useState(500);
+  const [meanReturn, setMeanReturn] = useState(0.05);
+  const [volatility, setVolatility] = useState(0.12);
+  const [seedInput, setSeedInput] = useState(''); // Empty: new random seed per run
+  const [returnModel, setReturnModel] = useState<ReturnModel>(ReturnModel.NORMAL);
+  const [blockSize, setBlockSize] = useState(DEFAULT_BLOCK_SIZE);
+  const [useAssetClassReturns, setUseAssetClassReturns] = useState(false);
+  const [capitalMarket, setCapitalMarket] = useState<CapitalMarketData>(DEFAULT_CAPITAL_MARKET_DATA);
   const [withdrawalRate, setWithdrawalRate] = useState(0.04);
   const [minRequiredIncome, setMinRequiredIncome] = useState(() => {
     const saved = localStorage.getItem(STORAGE_KEYS.MIN_REQUIRED_INCOME);
@@ -35,24 +117,107 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     const saved = localStorage.getItem(STORAGE_KEYS.MIN_INCOME_INFLATION_RATE);
     return saved ? parseFloat(saved) : 0.03;
   });
-  const [withdrawalStrategy, setWithdrawalStrategy] = useState<'taxable_first_min_taxes' | 'taxable_first_proportional' | 'traditional_first' | 'pro_rata'>(() => {
+  const [withdrawalStrategy, setWithdrawalStrategy] = useState<WithdrawalStrategyOption>(() => {
     const saved = localStorage.getItem(STORAGE_KEYS.WITHDRAWAL_STRATEGY);
-    const validStrategies = ['taxable_first_min_taxes', 'taxable_first_proportional', 'traditional_first', 'pro_rata'];
+    const validStrategies = ['taxable_first_min_taxes', 'taxable_first_proportional', 'traditional_first', 'pro_rata', 'tax_bracket_optimization'];
     return saved && validStrategies.includes(saved) 
-      ? saved as 'taxable_first_min_taxes' | 'taxable_first_proportional' | 'traditional_first' | 'pro_rata'
+      ? saved as WithdrawalStrategyOption
       : 'taxable_first_min_taxes';
   });
+  const [targetTaxBracket, setTargetTaxBracket] = useState(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.TARGET_TAX_BRACKET);
+    return saved ? parseFloat(saved) : 0.12;
+  });
+  const [taxIndexationRate, setTaxIndexationRate] = useState(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.TAX_INDEXATION_RATE);
+    return saved ? parseFloat(saved) : 0.025;
+  });
+  const [avoidIRMAA, setAvoidIRMAA] = useState(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.AVOID_IRMAA);
+    return saved !== 'false';
+  });
+  const [rothConversion, setRothConversion] = useState<RothConversionData>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.ROTH_CONVERSION);
+    if (!saved) {
+      return DEFAULT_ROTH_CONVERSION;
+    }
+    try {
+      return { ...DEFAULT_ROTH_CONVERSION, ...JSON.parse(saved) };
+    } catch {
+      return DEFAULT_ROTH_CONVERSION;
+    }
+  });
+  const [taxLaw, setTaxLaw] = useState<TaxLawData>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.TAX_LAW);
+    if (!saved) {
+      return DEFAULT_TAX_LAW;
+    }
+    try {
+      return { ...DEFAULT_TAX_LAW, ...JSON.parse(saved) };
+    } catch {
+      return DEFAULT_TAX_LAW;
+    }
+  });
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [projectionResult, setProjectionResult] = useState<ProjectionResult | null>(null);
   const [explanation, setExplanation] = useState<ReturnType<typeof generateExplanation> | null>(null);
-  const [activeView, setActiveView] = useState<'chart' | 'explanation' | null>(null);
+  const [activeView, setActiveView] = useState<'chart' | 'explanation' | 'claiming' | 'taxLaw' | null>(null);
+  const [monteCarloResult, setMonteCarloResult] = useState<MonteCarloResult | null>(null);
+  const [selectedRun, setSelectedRun] = useState<RepresentativeRun>('median');
+  const [monteCarloProgress, setMonteCarloProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [claimingObjective, setClaimingObjective] = useState<ClaimingObjective>(ClaimingObjective.FINAL_PORTFOLIO);
+  const [claimingGranularity, setClaimingGranularity] = useState<ClaimingGranularity>(ClaimingGranularity.YEAR);
+  const [claimingResult, setClaimingResult] = useState<ClaimingOptimizationResult | null>(null);
+  const [claimingProgress, setClaimingProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [taxRegimeResult, setTaxRegimeResult] = useState<TaxRegimeComparisonResult | null>(null);
 
   const supportedAccounts = accounts.filter(acc => 
     ['taxable', 'traditional', 'roth'].includes(acc.accountType)
   );
 
+  const realEstateAccounts = accounts.filter(acc => acc.accountType === 'realEstate');
+  const mortgageAccounts = accounts.filter(acc => acc.accountType === 'mortgage');
+  const pensionAccounts = accounts.filter(acc => acc.accountType === 'pension');
+  const earnedIncomeAccounts = accounts.filter(acc => acc.accountType === 'earnedIncome');
+
+  // Changes when any account's asset allocation, contributions or investment income, or any property, mortgage, pension or earned income, are edited
+  const accountSettingsKey = JSON.stringify([
+    supportedAccounts.map(acc => [
+      'allocation' in acc ? acc.allocation : undefined,
+      'contribution' in acc ? acc.contribution : undefined,
+      'owner' in acc ? acc.owner : undefined,
+      'dividendYield' in acc
+        ? [acc.dividendYield, acc.qualifiedDividendPercent, acc.interestYield, acc.reinvestIncome]
+        : undefined,
+    ]),
+    realEstateAccounts,
+    mortgageAccounts,
+    pensionAccounts,
+    earnedIncomeAccounts,
+  ]);
+  const spouseKey = JSON.stringify(userProfile.spouse ?? null);
+
+  const totalRealEstateValue = realEstateAccounts.reduce((sum, acc) => {
+    if (acc.accountType === 'realEstate') {
+      return sum + acc.currentValue;
+    }
+    return sum;
+  }, 0);
+
+  const totalMortgageBalance = mortgageAccounts.reduce((sum, acc) => {
+    if (acc.accountType === 'mortgage') {
+      return sum + acc.principalBalance;
+    }
+    return sum;
+  }, 0);
+
+  // Monte Carlo runs and claiming-age comparisons share the progress bar
+  const runProgress = monteCarloProgress ?? claimingProgress;
+
+  const retirementStartAge = Math.max(new Date().getFullYear() - userProfile.birthYear, userProfile.retirementAge);
+
   const totalBalance = supportedAccounts.reduce((sum, acc) => {
     if ('balance' in acc) {
       return sum + acc.balance;
@@ -62,7 +227,121 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
   
   // Track if this is the first render
   const isFirstRender = useRef(true);
+
+  // Monte Carlo runs in a Web Worker, created on first use
+  const monteCarloClient = useRef<MonteCarloClient | null>(null);
+
+  // Set to stop a claiming-age comparison between batches
+  const claimingCancelled = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      monteCarloClient.current?.dispose();
+      monteCarloClient.current = null;
+      claimingCancelled.current = true;
+    };
+  }, []);
   
+  // Build scenario from frontend data
+  const buildCurrentScenario = (): Scenario => buildScenario(userProfile, accounts, ssaIncome, {
+    scenarioName: 'Retirement Scenario',
+    withdrawalRate,
+    withdrawalStrategy,
+    targetTaxBracket,
+    avoidIRMAA,
+    rothConversion,
+    minRequiredIncome: minRequiredIncome > 0 ? minRequiredIncome : undefined,
+    minIncomeInflationRate,
+    taxIndexationRate,
+    taxLaw,
+  });
+
+  // Run the Monte Carlo simulation in the worker, showing progress and
+  // partial results as batches complete. Resolves to null if cancelled.
+  const runMonteCarloInWorker = async (scenario: Scenario): Promise<MonteCarloResult | null> => {
+    if (!monteCarloClient.current) {
+      monteCarloClient.current = new MonteCarloClient();
+    }
+
+    const seed = seedInput.trim() === '' ? undefined : Number(seedInput);
+    if (seed !== undefined && !isValidSeed(seed)) {
+      throw new Error(`Seed must be an integer between 0 and ${MAX_SEED}`);
+    }
+
+    // Rolling historical runs cover each start year once
+    const runs = returnModel === ReturnModel.HISTORICAL_ROLLING ? HISTORICAL_RETURNS.length : numRuns;
+
+    setMonteCarloResult(null);
+    setMonteCarloProgress({ completed: 0, total: runs });
+    try {
+      return await monteCarloClient.current.run({
+        scenario,
+        numRuns: runs,
+        maxYears,
+        meanReturn: new Big(meanReturn),
+        volatility: new Big(volatility),
+        seed,
+        returnModel: {
+          model: returnModel,
+          blockSize,
+          assumptions: buildCapitalMarketAssumptions(capitalMarket),
+        },
+        onProgress: (completed, total) => setMonteCarloProgress({ completed, total }),
+        onPartial: setMonteCarloResult,
+      });
+    } finally {
+      setMonteCarloProgress(null);
+    }
+  };
+
+  // Run the projection for the current mode. In Monte Carlo mode, the last
+  // result is reused (unless rerun) so charts, analysis and CSV show the same run.
+  // Resolves to null if a Monte Carlo run was cancelled.
+  const runCurrentProjection = async (scenario: Scenario, rerun: boolean): Promise<ProjectionResult | null> => {
+    if (simulationMode === 'monte_carlo') {
+      const result = !rerun && monteCarloResult
+        ? monteCarloResult
+        : await runMonteCarloInWorker(scenario);
+      setMonteCarloResult(result);
+      return result ? pickRepresentativeRun(result, selectedRun) : null;
+    }
+
+    setMonteCarloResult(null);
+
+    // Yield to UI before starting calculation
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    return runDeterministicProjection(new ProjectionEngine(scenario));
+  };
+
+  // Run a projection with the fixed return settings (single rate or per asset class)
+  const runDeterministicProjection = (engine: ProjectionEngine): ProjectionResult => {
+    if (useAssetClassReturns) {
+      const { stocks, bonds, cash } = buildCapitalMarketAssumptions(capitalMarket);
+      const yearReturns = { stocks: stocks.meanReturn, bonds: bonds.meanReturn, cash: cash.meanReturn };
+      const numYears = engine.getAccumulationYears() + maxYears;
+      return engine.runProjectionWithAssetReturns(maxYears, new Array(numYears).fill(yearReturns));
+    }
+    return engine.runProjection(maxYears, new Big(realReturn));
+  };
+
+  const handleCancelRuns = (): void => {
+    monteCarloClient.current?.cancel();
+    claimingCancelled.current = true;
+  };
+
+  const handleSelectRun = (run: RepresentativeRun): void => {
+    setSelectedRun(run);
+    if (!monteCarloResult) {
+      return;
+    }
+    const result = pickRepresentativeRun(monteCarloResult, run);
+    setProjectionResult(result);
+    if (activeView === 'explanation') {
+      setExplanation(generateExplanation(result));
+    }
+  };
+
   const handleRunProjection = async (): Promise<void> => {
     setLoading(true);
     setError('');
@@ -71,21 +350,10 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     setActiveView('chart');
 
     try {
-      // Build scenario from frontend data
-      const scenario = buildScenario(userProfile, accounts, ssaIncome, {
-        scenarioName: 'Retirement Scenario',
-        withdrawalRate,
-        withdrawalStrategy,
-        minRequiredIncome: minRequiredIncome > 0 ? minRequiredIncome : undefined,
-        minIncomeInflationRate,
-      });
+      const scenario = buildCurrentScenario();
 
       // Run projection using local TypeScript engine
-      // Yield to UI before starting calculation
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      const engine = new ProjectionEngine(scenario);
-      const result = engine.runProjection(maxYears, new Big(realReturn));
+      const result = await runCurrentProjection(scenario, true);
       
       setProjectionResult(result);
     } catch (err) {
@@ -100,6 +368,26 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     localStorage.setItem(STORAGE_KEYS.WITHDRAWAL_STRATEGY, withdrawalStrategy);
   }, [withdrawalStrategy]);
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TARGET_TAX_BRACKET, targetTaxBracket.toString());
+  }, [targetTaxBracket]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.AVOID_IRMAA, avoidIRMAA.toString());
+  }, [avoidIRMAA]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.ROTH_CONVERSION, JSON.stringify(rothConversion));
+  }, [rothConversion]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TAX_LAW, JSON.stringify(taxLaw));
+  }, [taxLaw]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.SIMULATION_MODE, simulationMode);
+  }, [simulationMode]);
+
   // Save max years to localStorage when it changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.MAX_YEARS, maxYears.toString());
@@ -114,6 +402,10 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     localStorage.setItem(STORAGE_KEYS.MIN_INCOME_INFLATION_RATE, minIncomeInflationRate.toString());
   }, [minIncomeInflationRate]);
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TAX_INDEXATION_RATE, taxIndexationRate.toString());
+  }, [taxIndexationRate]);
+
   // Auto-run projection when inputs change (after initial render)
   useEffect(() => {
     if (isFirstRender.current) {
@@ -123,22 +415,52 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     
     // Only auto-run if we have the minimum required data
     if (supportedAccounts.length > 0 && userProfile) {
-      handleRunProjection();
+      if (simulationMode === 'monte_carlo') {
+        // Monte Carlo is too slow to re-run on every change: clear stale results instead
+        monteCarloClient.current?.cancel();
+        setMonteCarloResult(null);
+        setProjectionResult(null);
+        setExplanation(null);
+      } else {
+        handleRunProjection();
+      }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     maxYears, 
     realReturn, 
+    simulationMode,
+    numRuns,
+    meanReturn,
+    volatility,
+    returnModel,
+    blockSize,
+    useAssetClassReturns,
+    capitalMarket,
+    // seedInput is not a dependency: the current result records its own seed
     withdrawalRate, 
     withdrawalStrategy,
+    targetTaxBracket,
+    avoidIRMAA,
+    rothConversion,
+    taxLaw,
     minRequiredIncome,
     minIncomeInflationRate,
+    taxIndexationRate,
     // Also trigger on account/profile changes
     accounts.length,
     totalBalance,
+    accountSettingsKey,
     userProfile.birthYear,
     userProfile.retirementAge,
     userProfile.filingStatus,
+    userProfile.annualSalary,
+    userProfile.salaryGrowthRate,
+    userProfile.lifeExpectancy,
+    userProfile.stateOfResidence,
+    userProfile.propertyTaxes,
+    userProfile.charitableGiving,
+    spouseKey,
     ssaIncome?.fraMonthlyBenefit,
     ssaIncome?.claimingAge
   ]);
@@ -148,20 +470,13 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     setError('');
 
     try {
-      // Build scenario from frontend data
-      const scenario = buildScenario(userProfile, accounts, ssaIncome, {
-        scenarioName: 'Retirement Scenario',
-        withdrawalRate,
-        withdrawalStrategy,
-        minRequiredIncome: minRequiredIncome > 0 ? minRequiredIncome : undefined,
-        minIncomeInflationRate,
-      });
+      const scenario = buildCurrentScenario();
 
       // Run projection
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      const engine = new ProjectionEngine(scenario);
-      const result = engine.runProjection(maxYears, new Big(realReturn));
+      const result = await runCurrentProjection(scenario, false);
+      if (!result) {
+        return;
+      }
 
       // Generate CSV
       const csvContent = generateCSV(result, scenario.name);
@@ -183,6 +498,71 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     }
   };
 
+  const handleCompareClaimingAges = async (): Promise<void> => {
+    setLoading(true);
+    setError('');
+    setClaimingResult(null);
+    setActiveView('claiming');
+
+    try {
+      const scenario = buildCurrentScenario();
+      const optimizer = new ClaimingAgeOptimizer(scenario);
+      const currentAge = new Date().getFullYear() - scenario.user.birthYear;
+
+      // Run a few projections at a time, showing progress and allowing cancel
+      claimingCancelled.current = false;
+      const totalRuns = ClaimingAgeOptimizer.getClaimingAges(claimingGranularity, currentAge).length;
+      setClaimingProgress({ completed: 0, total: totalRuns });
+      const result = await optimizer.optimizeBatched(
+        runDeterministicProjection,
+        claimingObjective,
+        currentAge,
+        claimingGranularity,
+        {
+          batchSize: CLAIMING_BATCH_SIZE,
+          onProgress: (completed, total) => setClaimingProgress({ completed, total }),
+          isCancelled: () => claimingCancelled.current,
+        },
+      );
+      setClaimingResult(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare claiming ages');
+    } finally {
+      setClaimingProgress(null);
+      setLoading(false);
+    }
+  };
+
+  const handleCompareTaxLaws = async (): Promise<void> => {
+    setLoading(true);
+    setError('');
+    setTaxRegimeResult(null);
+    setActiveView('taxLaw');
+
+    try {
+      const scenario = buildCurrentScenario();
+      const comparator = new TaxRegimeComparator(scenario);
+
+      // Current law against pre-2018 rates, plus the custom brackets if selected
+      const regimes: TaxRegimeSettings[] = [
+        { regime: TaxRegime.CURRENT_LAW },
+        { regime: TaxRegime.PRE_TCJA, startYear: taxLaw.startYear },
+      ];
+      if (scenario.policy.taxRegime?.regime === TaxRegime.CUSTOM) {
+        regimes.push(scenario.policy.taxRegime);
+      }
+
+      // Yield to UI before starting calculation
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      setTaxRegimeResult(comparator.compare(runDeterministicProjection, regimes));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare tax laws');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleGetExplanation = async (): Promise<void> => {
     setLoading(true);
     setError('');
@@ -190,20 +570,13 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
     setActiveView('explanation');
 
     try {
-      // Build scenario from frontend data
-      const scenario = buildScenario(userProfile, accounts, ssaIncome, {
-        scenarioName: 'Retirement Scenario',
-        withdrawalRate,
-        withdrawalStrategy,
-        minRequiredIncome: minRequiredIncome > 0 ? minRequiredIncome : undefined,
-        minIncomeInflationRate,
-      });
+      const scenario = buildCurrentScenario();
 
       // Run projection
-      await new Promise(resolve => setTimeout(resolve, 10));
-      
-      const engine = new ProjectionEngine(scenario);
-      const result = engine.runProjection(maxYears, new Big(realReturn));
+      const result = await runCurrentProjection(scenario, false);
+      if (!result) {
+        return;
+      }
 
       // Generate explanation
       const explanationResult = generateExplanation(result);
@@ -236,9 +609,43 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
           <strong>Total Balance:</strong> ${formatCurrency(totalBalance)}<br />
           <strong>Accounts:</strong> {supportedAccounts.length} 
           ({supportedAccounts.map(a => a.accountType).join(', ')})
+          {realEstateAccounts.length > 0 && (
+            <>
+              <br />
+              <strong>Real Estate:</strong> ${formatCurrency(totalRealEstateValue)} ({realEstateAccounts.length} {realEstateAccounts.length === 1 ? 'property' : 'properties'})
+            </>
+          )}
+          {mortgageAccounts.length > 0 && (
+            <>
+              <br />
+              <strong>Mortgages:</strong> ${formatCurrency(totalMortgageBalance)} (payments are added to spending)
+            </>
+          )}
+          {pensionAccounts.length > 0 && (
+            <>
+              <br />
+              <strong>Pensions &amp; Annuities:</strong> {pensionAccounts.length}
+            </>
+          )}
+          {earnedIncomeAccounts.length > 0 && (
+            <>
+              <br />
+              <strong>Earned Income:</strong> {earnedIncomeAccounts.length} (reduces withdrawals; FICA/SE tax applies)
+            </>
+          )}
         </p>
       </div>
 
+      <div className="form-group">
+        <label>
+          Simulation Mode:
+          <select value={simulationMode} onChange={(e) => setSimulationMode(e.target.value as SimulationMode)}>
+            <option value="deterministic">Deterministic (fixed return)</option>
+            <option value="monte_carlo">Monte Carlo (random returns)</option>
+          </select>
+        </label>
+      </div>
+
       <div className="form-group">
         <label>
           Withdrawal Rate (% of initial portfolio):
@@ -257,33 +664,221 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
       <div className="form-group">
         <label>
           Withdrawal Strategy:
-          <select value={withdrawalStrategy} onChange={(e) => setWithdrawalStrategy(e.target.value as 'taxable_first_min_taxes' | 'taxable_first_proportional' | 'traditional_first' | 'pro_rata')}>
+          <select value={withdrawalStrategy} onChange={(e) => setWithdrawalStrategy(e.target.value as WithdrawalStrategyOption)}>
             <option value="taxable_first_min_taxes">Taxable First (Minimum Taxes)</option>
             <option value="taxable_first_proportional">Taxable First (Proportional)</option>
             <option value="traditional_first">Traditional First</option>
             <option value="pro_rata">Pro Rata</option>
+            <option value="tax_bracket_optimization">Tax Bracket Optimization</option>
           </select>
         </label>
       </div>
 
+      {withdrawalStrategy === 'tax_bracket_optimization' && (
+        <div className="form-group">
+          <label>
+            Target Tax Bracket:
+            <select value={targetTaxBracket} onChange={(e) => setTargetTaxBracket(parseFloat(e.target.value))}>
+              <option value={0.10}>10%</option>
+              <option value={0.12}>12%</option>
+              <option value={0.22}>22%</option>
+              <option value={0.24}>24%</option>
+              <option value={0.32}>32%</option>
+            </select>
+            <small>Traditional withdrawals fill ordinary income up to the top of this bracket each year</small>
+          </label>
+        </div>
+      )}
+
       <div className="form-group">
         <label>
-          Real Return Rate (after inflation):
+          Tax Bracket Indexation (%):
           <input
             type="number"
-            min="0.00"
-            max="0.15"
-            step="0.005"
-            value={realReturn}
-            onChange={(e) => setRealReturn(parseFloat(e.target.value))}
+            min="0"
+            max="10"
+            step="0.1"
+            value={taxIndexationRate * 100}
+            onChange={(e) => {
+              const rate = parseFloat(e.target.value);
+              setTaxIndexationRate(isNaN(rate) ? 0.025 : rate / 100);
+            }}
           />
-          <small>{(realReturn * 100).toFixed(1)}% annual return</small>
+          <small>Yearly growth of federal brackets and deductions after the last published tax year; 0% models bracket creep</small>
         </label>
       </div>
 
       <div className="form-group">
         <label>
-          Projection Years:
+          <input
+            type="checkbox"
+            checked={avoidIRMAA}
+            onChange={(e) => setAvoidIRMAA(e.target.checked)}
+          />
+          Avoid Medicare IRMAA surcharges
+          <small>Shift Traditional withdrawals to taxable/Roth accounts to keep MAGI under the next IRMAA tier</small>
+        </label>
+      </div>
+
+      <RothConversionSettings value={rothConversion} onChange={setRothConversion} />
+
+      <TaxLawSettings value={taxLaw} onChange={setTaxLaw} />
+
+      {simulationMode === 'deterministic' ? (
+        <>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={useAssetClassReturns}
+                onChange={(e) => setUseAssetClassReturns(e.target.checked)}
+              />
+              Separate returns for stocks, bonds and cash
+              <small>Each account grows at the blend of its own asset allocation</small>
+            </label>
+          </div>
+
+          {useAssetClassReturns ? (
+            <CapitalMarketSettings value={capitalMarket} onChange={setCapitalMarket} showVolatility={false} />
+          ) : (
+            <div className="form-group">
+              <label>
+                Real Return Rate (after inflation):
+                <input
+                  type="number"
+                  min="0.00"
+                  max="0.15"
+                  step="0.005"
+                  value={realReturn}
+                  onChange={(e) => setRealReturn(parseFloat(e.target.value))}
+                />
+                <small>{(realReturn * 100).toFixed(1)}% annual return</small>
+              </label>
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="form-group">
+            <label>
+              Return Model:
+              <select value={returnModel} onChange={(e) => setReturnModel(e.target.value as ReturnModel)}>
+                <option value={ReturnModel.NORMAL}>Normal distribution</option>
+                <option value={ReturnModel.MULTI_ASSET_NORMAL}>Correlated stocks, bonds and cash</option>
+                <option value={ReturnModel.HISTORICAL_ROLLING}>Historical sequences (every start year)</option>
+                <option value={ReturnModel.BLOCK_BOOTSTRAP}>Historical block bootstrap</option>
+              </select>
+              <small>
+                {returnModel === ReturnModel.NORMAL
+                  ? 'Independent yearly returns; understates fat tails and multi-year downturns'
+                  : returnModel === ReturnModel.MULTI_ASSET_NORMAL
+                    ? 'Normal returns per asset class; each account grows at its own allocation'
+                    : `US stocks, bonds and inflation ${HISTORICAL_RETURNS[0].year}-${HISTORICAL_RETURNS[HISTORICAL_RETURNS.length - 1].year}`}
+              </small>
+            </label>
+          </div>
+
+          {returnModel === ReturnModel.NORMAL ? (
+            <>
+              <div className="form-group">
+                <label>
+                  Mean Real Return:
+                  <input
+                    type="number"
+                    min="-0.05"
+                    max="0.15"
+                    step="0.005"
+                    value={meanReturn}
+                    onChange={(e) => setMeanReturn(parseFloat(e.target.value))}
+                  />
+                  <small>{(meanReturn * 100).toFixed(1)}% average annual return</small>
+                </label>
+              </div>
+
+              <div className="form-group">
+                <label>
+                  Volatility (standard deviation):
+                  <input
+                    type="number"
+                    min="0"
+                    max="0.40"
+                    step="0.01"
+                    value={volatility}
+                    onChange={(e) => setVolatility(parseFloat(e.target.value))}
+                  />
+                  <small>{(volatility * 100).toFixed(0)}% (balanced 60/40 portfolio: ~10-12%)</small>
+                </label>
+              </div>
+            </>
+          ) : returnModel === ReturnModel.MULTI_ASSET_NORMAL ? (
+            <CapitalMarketSettings value={capitalMarket} onChange={setCapitalMarket} showVolatility />
+          ) : (
+            <div className="form-group">
+              <small>Each account replays historical stock, bond and T-bill returns at its own allocation, after inflation</small>
+            </div>
+          )}
+
+          {returnModel === ReturnModel.BLOCK_BOOTSTRAP && (
+            <div className="form-group">
+              <label>
+                Block Length (years):
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  step="1"
+                  value={blockSize}
+                  onChange={(e) => setBlockSize(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+                <small>Consecutive historical years kept together in each sampled block</small>
+              </label>
+            </div>
+          )}
+
+          {returnModel === ReturnModel.HISTORICAL_ROLLING ? (
+            <div className="form-group">
+              <small>
+                One run per historical start year ({HISTORICAL_RETURNS.length} runs); sequences past the last year wrap around to the first and are left out of the worst start year
+              </small>
+            </div>
+          ) : (
+            <>
+              <div className="form-group">
+                <label>
+                  Number of Runs:
+                  <input
+                    type="number"
+                    min="10"
+                    max="5000"
+                    step="10"
+                    value={numRuns}
+                    onChange={(e) => setNumRuns(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  />
+                  <small>More runs give more stable percentiles but take longer</small>
+                </label>
+              </div>
+
+              <div className="form-group">
+                <label>
+                  Random Seed (optional):
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    placeholder="Random"
+                  />
+                  <small>Enter the seed of a previous run to reproduce it exactly</small>
+                </label>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <div className="form-group">
+        <label>
+          Retirement Years:
           <input
             type="number"
             min="5"
@@ -292,7 +887,7 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
             value={maxYears}
             onChange={(e) => setMaxYears(parseInt(e.target.value))}
           />
-          <small>{maxYears} years (to age {userProfile.retirementAge + maxYears})</small>
+          <small>{maxYears} years from retirement (to age {retirementStartAge + maxYears})</small>
         </label>
       </div>
 
@@ -339,13 +934,43 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
         </div>
       )}
 
+      {ssaIncome && (
+        <div className="form-group">
+          <label>
+            Claiming Age Comparison:
+            <div className="inline-fields">
+              <select
+                value={claimingObjective}
+                onChange={(e) => setClaimingObjective(e.target.value as ClaimingObjective)}
+                aria-label="Claiming objective"
+              >
+                <option value={ClaimingObjective.FINAL_PORTFOLIO}>Maximize final portfolio</option>
+                <option value={ClaimingObjective.LIFETIME_NET_INCOME}>Maximize lifetime net income</option>
+                <option value={ClaimingObjective.TOTAL_TAXES}>Minimize total taxes</option>
+              </select>
+              <select
+                value={claimingGranularity}
+                onChange={(e) => setClaimingGranularity(e.target.value as ClaimingGranularity)}
+                aria-label="Claiming ages compared"
+              >
+                <option value={ClaimingGranularity.YEAR}>Every year (62-70)</option>
+                <option value={ClaimingGranularity.MONTH}>Every month (slower)</option>
+              </select>
+            </div>
+            <small>Reruns the projection for each Social Security claiming age not yet passed, with the fixed return settings</small>
+          </label>
+        </div>
+      )}
+
       <div className="scenario-actions">
         <button
           onClick={handleRunProjection}
           disabled={loading}
           className="button-primary"
         >
-          {loading && activeView === 'chart' ? 'Running...' : '📈 View Charts'}
+          {loading && activeView === 'chart'
+            ? 'Running...'
+            : simulationMode === 'monte_carlo' ? '🎲 Run Monte Carlo' : '📈 View Charts'}
         </button>
 
         <button
@@ -356,6 +981,24 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
           {loading && activeView === 'explanation' ? 'Generating...' : '📄 View Analysis'}
         </button>
 
+        {ssaIncome && (
+          <button
+            onClick={handleCompareClaimingAges}
+            disabled={loading}
+            className="button-primary"
+          >
+            {loading && activeView === 'claiming' ? 'Comparing...' : '🕰 Compare Claiming Ages'}
+          </button>
+        )}
+
+        <button
+          onClick={handleCompareTaxLaws}
+          disabled={loading}
+          className="button-primary"
+        >
+          {loading && activeView === 'taxLaw' ? 'Comparing...' : '⚖ Compare Tax Laws'}
+        </button>
+
         <button
           onClick={handleDownloadCSV}
           disabled={loading}
@@ -365,16 +1008,50 @@ export function ScenarioRunner({ userProfile, accounts, ssaIncome }: ScenarioRun
         </button>
       </div>
 
+      {runProgress && (
+        <div className="monte-carlo-progress">
+          <progress value={runProgress.completed} max={runProgress.total} />
+          <span>
+            {runProgress.completed} of {runProgress.total} runs
+          </span>
+          <button onClick={handleCancelRuns} className="button-secondary">
+            Cancel
+          </button>
+        </div>
+      )}
+
       {error && (
         <div className="scenario-error">
           <strong>Error:</strong> {error}
         </div>
       )}
 
+      {simulationMode === 'monte_carlo' && monteCarloResult && (
+        <MonteCarloSummary
+          result={monteCarloResult}
+          partial={monteCarloProgress !== null}
+          selectedRun={selectedRun}
+          onSelectRun={handleSelectRun}
+          onReuseSeed={(seed) => setSeedInput(seed.toString())}
+        />
+      )}
+
+      {activeView === 'chart' && simulationMode === 'monte_carlo' && monteCarloResult && (
+        <MonteCarloFanChart result={monteCarloResult} />
+      )}
+
       {activeView === 'chart' && projectionResult && (
         <ProjectionChart result={projectionResult} />
       )}
 
+      {activeView === 'claiming' && claimingResult && (
+        <ClaimingAgeChart result={claimingResult} />
+      )}
+
+      {activeView === 'taxLaw' && taxRegimeResult && (
+        <TaxRegimeChart result={taxRegimeResult} />
+      )}
+
       {activeView === 'explanation' && explanation && (
         <ExplanationView explanation={explanation} />
       )}
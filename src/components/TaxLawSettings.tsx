@@ -0,0 +1,139 @@
+// Copyright (c) 2026 François Rouaix
+import React from 'react';
+import { formatCurrency } from '../utils/format';
+
+export interface CustomBracketData {
+  upTo: number | null; // Top of the bracket for single filers; null for the top bracket
+  rate: number; // Percent
+}
+
+export interface TaxLawData {
+  regime: 'current_law' | 'pre_tcja' | 'custom';
+  startYear: number; // First tax year under the regime
+  standardDeduction: number; // Custom regime, single filers
+  brackets: CustomBracketData[]; // Custom regime, single filers, ending with the top bracket
+}
+
+interface TaxLawSettingsProps {
+  value: TaxLawData;
+  onChange: (data: TaxLawData) => void;
+}
+
+export const TaxLawSettings: React.FC<TaxLawSettingsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<TaxLawData>): void => {
+    onChange({ ...value, ...changes });
+  };
+
+  const updateBracket = (index: number, changes: Partial<CustomBracketData>): void => {
+    update({ brackets: value.brackets.map((bracket, i) => (i === index ? { ...bracket, ...changes } : bracket)) });
+  };
+
+  // New brackets go just below the top bracket
+  const addBracket = (): void => {
+    const limited = value.brackets.slice(0, -1);
+    const previous = limited[limited.length - 1];
+    const top = value.brackets[value.brackets.length - 1];
+    update({
+      brackets: [
+        ...limited,
+        { upTo: (previous?.upTo ?? 0) + 50000, rate: previous?.rate ?? top.rate },
+        top,
+      ],
+    });
+  };
+
+  const removeBracket = (index: number): void => {
+    update({ brackets: value.brackets.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <>
+      <div className="form-group">
+        <label>
+          Federal Tax Law:
+          <select
+            value={value.regime}
+            onChange={(e) => update({ regime: e.target.value as TaxLawData['regime'] })}
+          >
+            <option value="current_law">Current law</option>
+            <option value="pre_tcja">Pre-2018 rates (TCJA expires)</option>
+            <option value="custom">Custom brackets</option>
+          </select>
+          <small>Brackets and standard deductions used from the start year; current law applies before it</small>
+        </label>
+      </div>
+
+      {value.regime !== 'current_law' && (
+        <div className="form-group">
+          <label>
+            Tax Law Start Year:
+            <input
+              type="number"
+              min="2024"
+              max="2100"
+              step="1"
+              value={value.startYear}
+              onChange={(e) => update({ startYear: parseInt(e.target.value, 10) || value.startYear })}
+            />
+          </label>
+        </div>
+      )}
+
+      {value.regime === 'custom' && (
+        <>
+          <div className="form-group">
+            <label>
+              Standard Deduction (single):
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={value.standardDeduction}
+                onChange={(e) => update({ standardDeduction: parseFloat(e.target.value) || 0 })}
+              />
+              <small>${formatCurrency(value.standardDeduction)}; doubled for joint filers, 1.5 times for heads of household</small>
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>Brackets (single):</label>
+            {value.brackets.map((bracket, index) => (
+              <div key={index} className="inline-fields">
+                {bracket.upTo === null ? (
+                  <span>Above ${formatCurrency(value.brackets[index - 1]?.upTo ?? 0)}</span>
+                ) : (
+                  <input
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={bracket.upTo}
+                    onChange={(e) => updateBracket(index, { upTo: parseFloat(e.target.value) || 0 })}
+                    aria-label={`Bracket ${index + 1} upper limit`}
+                  />
+                )}
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={bracket.rate}
+                  onChange={(e) => updateBracket(index, { rate: parseFloat(e.target.value) || 0 })}
+                  aria-label={`Bracket ${index + 1} rate (%)`}
+                />
+                {bracket.upTo !== null && (
+                  <button type="button" onClick={() => removeBracket(index)} className="btn-remove">
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <button type="button" onClick={addBracket} className="button-secondary">
+              Add Bracket
+            </button>
+            <small>Upper limit and rate (%) of each bracket; joint filers get twice the limits</small>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
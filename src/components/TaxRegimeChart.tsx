@@ -0,0 +1,94 @@
+// Copyright (c) 2026 François Rouaix
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { TaxRegimeComparisonResult } from '../lib/types';
+import { buildTaxRegimeChartData } from '../lib/chartDataBuilder';
+import { formatCurrency, formatCompactCurrency } from '../utils/format';
+
+interface TaxRegimeChartProps {
+  result: TaxRegimeComparisonResult;
+}
+
+/**
+ * Format a difference from the baseline with its sign.
+ */
+function formatDifference(amount: number): string {
+  if (amount === 0) {
+    return '—';
+  }
+  return `${amount > 0 ? '+' : '−'}$${formatCurrency(Math.abs(amount))}`;
+}
+
+export function TaxRegimeChart({ result }: TaxRegimeChartProps) {
+  const dataPoints = buildTaxRegimeChartData(result);
+  const [baseline, ...alternatives] = dataPoints;
+
+  if (!baseline) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="projection-result success">
+        <h3>⚖ Lifetime Taxes by Tax Law</h3>
+        <div className="projection-metrics">
+          <div>
+            <strong>{baseline.label}:</strong> ${formatCurrency(baseline.totalTaxes)}
+          </div>
+          <div>
+            {alternatives.map((point) => (
+              <span key={point.label}>
+                <strong>{point.label}:</strong> ${formatCurrency(point.totalTaxes)} ({formatDifference(point.taxDifference)})<br />
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <h3 className="chart-section">Lifetime Taxes</h3>
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={dataPoints}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" />
+          <YAxis
+            tickFormatter={formatCompactCurrency}
+            label={{ value: 'Taxes', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip formatter={(value: number) => `$${formatCurrency(value)}`} />
+          <Legend />
+          <Bar dataKey="federalTaxes" stackId="taxes" fill="#F44336" name="Federal Taxes" />
+          <Bar dataKey="stateTaxes" stackId="taxes" fill="#E57373" name="State Taxes" />
+        </BarChart>
+      </ResponsiveContainer>
+
+      <h3 className="chart-section">Tax Laws Compared</h3>
+      <div className="details-table-container">
+        <table className="details-table">
+          <thead>
+            <tr>
+              <th>Tax Law</th>
+              <th className="align-right">Federal Taxes</th>
+              <th className="align-right">State Taxes</th>
+              <th className="align-right">Total Taxes</th>
+              <th className="align-right">vs {baseline.label}</th>
+              <th className="align-right">Lifetime Net Income</th>
+              <th className="align-right">Final Portfolio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {dataPoints.map((point) => (
+              <tr key={point.label}>
+                <td>{point.label}{point.success ? '' : ' (depleted)'}</td>
+                <td className="align-right">${formatCurrency(point.federalTaxes)}</td>
+                <td className="align-right">${formatCurrency(point.stateTaxes)}</td>
+                <td className="align-right">${formatCurrency(point.totalTaxes)}</td>
+                <td className="align-right">{formatDifference(point.taxDifference)}</td>
+                <td className="align-right">${formatCurrency(point.lifetimeNetIncome)}</td>
+                <td className="align-right">${formatCurrency(point.finalPortfolio)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 // Copyright (c) 2026 François Rouaix
 import React, { useState } from 'react';
 import { generateAccountId } from '../utils/ids';
+import { DEFAULT_ALLOCATION_PERCENT, validateAllocationPercent } from '../utils/validation';
+import { AssetAllocationFields } from './AssetAllocationFields';
+import type { AssetAllocationData } from './AssetAllocationFields';
+import { ContributionFields } from './ContributionFields';
+import type { ContributionData } from './ContributionFields';
+import { AccountOwnerField } from './AccountOwnerField';
+import type { AccountOwnerData } from './AccountOwnerField';
 
 interface TaxableAccountFormProps {
   accountId?: string;
   initialData?: TaxableAccountData;
   onSave: (data: TaxableAccountData) => void;
+  hasSpouse?: boolean; // Shows the owner select
 }
 
 export interface TaxableAccountData {
@@ -14,14 +22,34 @@ export interface TaxableAccountData {
   nickname: string;
   balance: number;
   costBasis: number;
-  dividendYield: number;
+  dividendYield: number; // Percent
+  qualifiedDividendPercent?: number; // Percent of dividends that are qualified; 100 if omitted
+  interestYield?: number; // Percent; 0 if omitted
+  reinvestIncome?: boolean; // Reinvest dividends and interest; true if omitted
+  allocation?: AssetAllocationData; // Percent; 60/40 if omitted
+  contribution?: ContributionData;
+  owner?: AccountOwnerData; // Default: user
 }
 
-export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountId, initialData, onSave }) => {
+const DEFAULT_CONTRIBUTION: ContributionData = {
+  mode: 'none',
+  amount: 0,
+  planType: 'none',
+  employerMatchRate: 0,
+  employerMatchCap: 0,
+};
+
+export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountId, initialData, onSave, hasSpouse }) => {
   const [nickname, setNickname] = useState(initialData?.nickname || '');
   const [balance, setBalance] = useState(initialData?.balance?.toString() || '');
   const [costBasis, setCostBasis] = useState(initialData?.costBasis?.toString() || '');
   const [dividendYield, setDividendYield] = useState(initialData?.dividendYield?.toString() || '');
+  const [qualifiedDividendPercent, setQualifiedDividendPercent] = useState(initialData?.qualifiedDividendPercent?.toString() || '100');
+  const [interestYield, setInterestYield] = useState(initialData?.interestYield?.toString() || '');
+  const [reinvestIncome, setReinvestIncome] = useState(initialData?.reinvestIncome ?? true);
+  const [allocation, setAllocation] = useState<AssetAllocationData>(initialData?.allocation || DEFAULT_ALLOCATION_PERCENT);
+  const [contribution, setContribution] = useState<ContributionData>(initialData?.contribution || DEFAULT_CONTRIBUTION);
+  const [owner, setOwner] = useState<AccountOwnerData>(initialData?.owner || 'user');
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -36,8 +64,10 @@ export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountI
     const balanceNum = parseFloat(balance);
     const basisNum = parseFloat(costBasis);
     const yieldNum = dividendYield ? parseFloat(dividendYield) : 0;
+    const qualifiedNum = parseFloat(qualifiedDividendPercent);
+    const interestNum = interestYield ? parseFloat(interestYield) : 0;
 
-    if (isNaN(balanceNum) || isNaN(basisNum) || (dividendYield && isNaN(yieldNum))) {
+    if (isNaN(balanceNum) || isNaN(basisNum) || isNaN(yieldNum) || isNaN(qualifiedNum) || isNaN(interestNum)) {
       setError('Please enter valid numbers');
       return;
     }
@@ -52,6 +82,21 @@ export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountI
       return;
     }
 
+    if (qualifiedNum < 0 || qualifiedNum > 100) {
+      setError('Qualified dividends must be between 0% and 100%');
+      return;
+    }
+
+    if (interestNum < 0 || interestNum > 10) {
+      setError('Interest yield must be between 0% and 10%');
+      return;
+    }
+
+    if (!validateAllocationPercent(allocation)) {
+      setError('Asset allocation must add up to 100%');
+      return;
+    }
+
     onSave({
       accountId: accountId || initialData?.accountId || generateAccountId('taxable'),
       accountType: 'taxable',
@@ -59,6 +104,12 @@ export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountI
       balance: balanceNum,
       costBasis: basisNum,
       dividendYield: yieldNum,
+      qualifiedDividendPercent: qualifiedNum,
+      interestYield: interestNum,
+      reinvestIncome,
+      allocation,
+      contribution,
+      owner,
     });
     
     // Only clear form if not editing (creating new account)
@@ -67,6 +118,12 @@ export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountI
       setBalance('');
       setCostBasis('');
       setDividendYield('');
+      setQualifiedDividendPercent('100');
+      setInterestYield('');
+      setReinvestIncome(true);
+      setAllocation(DEFAULT_ALLOCATION_PERCENT);
+      setContribution(DEFAULT_CONTRIBUTION);
+      setOwner('user');
     }
   };
 
@@ -127,6 +184,59 @@ export const TaxableAccountForm: React.FC<TaxableAccountFormProps> = ({ accountI
         <small className="form-help">Optional. Annual dividend yield as a percentage.</small>
       </div>
 
+      <div className="form-group">
+        <label htmlFor="qualifiedDividendPercent">Qualified Dividends (%)</label>
+        <input
+          id="qualifiedDividendPercent"
+          type="number"
+          min="0"
+          max="100"
+          step="1"
+          value={qualifiedDividendPercent}
+          onChange={(e) => setQualifiedDividendPercent(e.target.value)}
+        />
+        <small className="form-help">Share taxed at capital gains rates; the rest (e.g., REIT dividends) is ordinary income</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="interestYield">Interest Yield (%)</label>
+        <input
+          id="interestYield"
+          type="number"
+          min="0"
+          max="10"
+          step="0.01"
+          value={interestYield}
+          onChange={(e) => setInterestYield(e.target.value)}
+          placeholder="e.g., 1.5 for 1.5%"
+        />
+        <small className="form-help">Optional. Bond and cash interest, taxed as ordinary income.</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="reinvestIncome">Dividends &amp; Interest</label>
+        <select
+          id="reinvestIncome"
+          value={reinvestIncome ? 'reinvest' : 'distribute'}
+          onChange={(e) => setReinvestIncome(e.target.value === 'reinvest')}
+        >
+          <option value="reinvest">Reinvest</option>
+          <option value="distribute">Pay out as spending cash</option>
+        </select>
+        <small className="form-help">Taxed every year either way. Paid-out income reduces withdrawals in retirement.</small>
+      </div>
+
+      {hasSpouse && <AccountOwnerField idPrefix="taxable" value={owner} onChange={setOwner} />}
+
+      <ContributionFields
+        idPrefix="taxable-contribution"
+        value={contribution}
+        onChange={setContribution}
+        retirementAccount={false}
+      />
+
+      <AssetAllocationFields idPrefix="taxable-allocation" value={allocation} onChange={setAllocation} />
+
       {error && <div className="error-message">{error}</div>}
 
       <button type="submit" className="btn-primary">Save Taxable Account</button>
@@ -1,11 +1,19 @@
 // Copyright (c) 2026 François Rouaix
 import React, { useState } from 'react';
 import { generateAccountId } from '../utils/ids';
+import { DEFAULT_ALLOCATION_PERCENT, validateAllocationPercent } from '../utils/validation';
+import { AssetAllocationFields } from './AssetAllocationFields';
+import type { AssetAllocationData } from './AssetAllocationFields';
+import { ContributionFields } from './ContributionFields';
+import type { ContributionData } from './ContributionFields';
+import { AccountOwnerField } from './AccountOwnerField';
+import type { AccountOwnerData } from './AccountOwnerField';
 
 interface TraditionalAccountFormProps {
   accountId?: string;
   initialData?: TraditionalAccountData;
   onSave: (data: TraditionalAccountData) => void;
+  hasSpouse?: boolean; // Shows the owner select
 }
 
 export interface TraditionalAccountData {
@@ -13,11 +21,25 @@ export interface TraditionalAccountData {
   accountType: 'traditional';
   nickname: string;
   balance: number;
+  allocation?: AssetAllocationData; // Percent; 60/40 if omitted
+  contribution?: ContributionData;
+  owner?: AccountOwnerData; // Default: user
 }
 
-export const TraditionalAccountForm: React.FC<TraditionalAccountFormProps> = ({ accountId, initialData, onSave }) => {
+const DEFAULT_CONTRIBUTION: ContributionData = {
+  mode: 'none',
+  amount: 0,
+  planType: 'employer_plan',
+  employerMatchRate: 0,
+  employerMatchCap: 0,
+};
+
+export const TraditionalAccountForm: React.FC<TraditionalAccountFormProps> = ({ accountId, initialData, onSave, hasSpouse }) => {
   const [nickname, setNickname] = useState(initialData?.nickname || '');
   const [balance, setBalance] = useState(initialData?.balance?.toString() || '');
+  const [allocation, setAllocation] = useState<AssetAllocationData>(initialData?.allocation || DEFAULT_ALLOCATION_PERCENT);
+  const [contribution, setContribution] = useState<ContributionData>(initialData?.contribution || DEFAULT_CONTRIBUTION);
+  const [owner, setOwner] = useState<AccountOwnerData>(initialData?.owner || 'user');
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -35,17 +57,28 @@ export const TraditionalAccountForm: React.FC<TraditionalAccountFormProps> = ({
       return;
     }
 
+    if (!validateAllocationPercent(allocation)) {
+      setError('Asset allocation must add up to 100%');
+      return;
+    }
+
     onSave({
       accountId: accountId || initialData?.accountId || generateAccountId('traditional'),
       accountType: 'traditional',
       nickname: nickname.trim(),
       balance: balanceNum,
+      allocation,
+      contribution,
+      owner,
     });
     
     // Only clear form if not editing
     if (!initialData) {
       setNickname('');
       setBalance('');
+      setAllocation(DEFAULT_ALLOCATION_PERCENT);
+      setContribution(DEFAULT_CONTRIBUTION);
+      setOwner('user');
     }
   };
 
@@ -78,6 +111,17 @@ export const TraditionalAccountForm: React.FC<TraditionalAccountFormProps> = ({
         />
       </div>
 
+      {hasSpouse && <AccountOwnerField idPrefix="traditional" value={owner} onChange={setOwner} />}
+
+      <ContributionFields
+        idPrefix="traditional-contribution"
+        value={contribution}
+        onChange={setContribution}
+        retirementAccount={true}
+      />
+
+      <AssetAllocationFields idPrefix="traditional-allocation" value={allocation} onChange={setAllocation} />
+
       {error && <div className="error-message">{error}</div>}
 
       <button type="submit" className="btn-primary">Save Traditional Account</button>
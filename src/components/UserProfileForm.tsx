@@ -1,5 +1,11 @@
 // Copyright (c) 2026 François Rouaix
 import React, { useState } from 'react';
+import { ClaimingAgeField } from './ClaimingAgeField';
+import { STATE_TAX_RULES } from '../lib/stateTaxRules';
+
+const STATE_OPTIONS = Object.entries(STATE_TAX_RULES)
+  .map(([code, rules]) => ({ code, name: rules.name }))
+  .sort((a, b) => a.name.localeCompare(b.name));
 
 interface UserProfileFormProps {
   onSave: (data: UserProfileData) => void;
@@ -10,12 +16,44 @@ export interface UserProfileData {
   birthYear: number;
   filingStatus: 'single' | 'mfj' | 'hoh';
   retirementAge: number;
+  annualSalary?: number; // Current gross salary while working
+  salaryGrowthRate?: number; // Percent per year above inflation
+  lifeExpectancy?: number; // Last age lived; the plan runs to the maximum horizon if omitted
+  spouse?: SpouseData; // Requires filing status 'mfj'
+  stateOfResidence?: string; // Two-letter code; no state tax if omitted
+  propertyTaxes?: number; // Yearly, today's dollars; itemized with mortgage interest
+  charitableGiving?: number; // Yearly, today's dollars
+}
+
+/**
+ * Spouse in a joint household, with their own Social Security record.
+ */
+export interface SpouseData {
+  birthYear: number;
+  retirementAge: number;
+  annualSalary?: number;
+  lifeExpectancy?: number;
+  fraMonthlyBenefit?: number; // Spouse's own benefit at full retirement age
+  claimingAge?: number;
 }
 
 export const UserProfileForm: React.FC<UserProfileFormProps> = ({ onSave, initialData }) => {
   const [birthYear, setBirthYear] = useState(initialData?.birthYear?.toString() || '');
   const [filingStatus, setFilingStatus] = useState<'single' | 'mfj' | 'hoh'>(initialData?.filingStatus || 'single');
   const [retirementAge, setRetirementAge] = useState(initialData?.retirementAge?.toString() || '65');
+  const [annualSalary, setAnnualSalary] = useState(initialData?.annualSalary?.toString() || '');
+  const [salaryGrowthRate, setSalaryGrowthRate] = useState(initialData?.salaryGrowthRate?.toString() || '');
+  const [lifeExpectancy, setLifeExpectancy] = useState(initialData?.lifeExpectancy?.toString() || '');
+  const [stateOfResidence, setStateOfResidence] = useState(initialData?.stateOfResidence || '');
+  const [propertyTaxes, setPropertyTaxes] = useState(initialData?.propertyTaxes?.toString() || '');
+  const [charitableGiving, setCharitableGiving] = useState(initialData?.charitableGiving?.toString() || '');
+  const [hasSpouse, setHasSpouse] = useState(Boolean(initialData?.spouse));
+  const [spouseBirthYear, setSpouseBirthYear] = useState(initialData?.spouse?.birthYear?.toString() || '');
+  const [spouseRetirementAge, setSpouseRetirementAge] = useState(initialData?.spouse?.retirementAge?.toString() || '65');
+  const [spouseSalary, setSpouseSalary] = useState(initialData?.spouse?.annualSalary?.toString() || '');
+  const [spouseLifeExpectancy, setSpouseLifeExpectancy] = useState(initialData?.spouse?.lifeExpectancy?.toString() || '');
+  const [spouseBenefit, setSpouseBenefit] = useState(initialData?.spouse?.fraMonthlyBenefit?.toString() || '');
+  const [spouseClaimingAge, setSpouseClaimingAge] = useState(initialData?.spouse?.claimingAge || 67);
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -45,10 +83,81 @@ export const UserProfileForm: React.FC<UserProfileFormProps> = ({ onSave, initia
       return;
     }
 
+    const salary = annualSalary ? parseFloat(annualSalary) : 0;
+    const growth = salaryGrowthRate ? parseFloat(salaryGrowthRate) : 0;
+
+    if (isNaN(salary) || isNaN(growth) || salary < 0) {
+      setError('Please enter a valid salary');
+      return;
+    }
+
+    if (growth < -10 || growth > 10) {
+      setError('Salary growth should be between -10% and 10%');
+      return;
+    }
+
+    const lifeExpectancyAge = lifeExpectancy ? parseInt(lifeExpectancy) : undefined;
+    if (lifeExpectancyAge !== undefined && (isNaN(lifeExpectancyAge) || lifeExpectancyAge < age || lifeExpectancyAge > 120)) {
+      setError('Life expectancy should be between retirement age and 120');
+      return;
+    }
+
+    const propertyTaxesNum = propertyTaxes ? parseFloat(propertyTaxes) : 0;
+    const charitableGivingNum = charitableGiving ? parseFloat(charitableGiving) : 0;
+    if (isNaN(propertyTaxesNum) || propertyTaxesNum < 0 || isNaN(charitableGivingNum) || charitableGivingNum < 0) {
+      setError('Please enter valid property taxes and charitable giving');
+      return;
+    }
+
+    let spouse: SpouseData | undefined;
+    if (hasSpouse) {
+      const spouseYear = parseInt(spouseBirthYear);
+      const spouseAge = parseInt(spouseRetirementAge);
+      const spouseLifeAge = spouseLifeExpectancy ? parseInt(spouseLifeExpectancy) : undefined;
+      const spouseSalaryNum = spouseSalary ? parseFloat(spouseSalary) : 0;
+      const spouseBenefitNum = spouseBenefit ? parseFloat(spouseBenefit) : 0;
+
+      if (isNaN(spouseYear) || spouseYear < 1900 || spouseYear > 2020) {
+        setError('Please enter a valid spouse birth year');
+        return;
+      }
+
+      if (isNaN(spouseAge) || spouseAge < 50 || spouseAge > 100) {
+        setError('Spouse retirement age should be between 50 and 100');
+        return;
+      }
+
+      if (spouseLifeAge !== undefined && (isNaN(spouseLifeAge) || spouseLifeAge > 120)) {
+        setError('Spouse life expectancy should be at most 120');
+        return;
+      }
+
+      if (isNaN(spouseSalaryNum) || spouseSalaryNum < 0 || isNaN(spouseBenefitNum) || spouseBenefitNum < 0) {
+        setError('Please enter a valid spouse salary and benefit');
+        return;
+      }
+
+      spouse = {
+        birthYear: spouseYear,
+        retirementAge: spouseAge,
+        annualSalary: spouseSalaryNum,
+        lifeExpectancy: spouseLifeAge,
+        fraMonthlyBenefit: spouseBenefitNum,
+        claimingAge: spouseClaimingAge,
+      };
+    }
+
     onSave({
       birthYear: year,
-      filingStatus,
+      filingStatus: hasSpouse ? 'mfj' : filingStatus,
       retirementAge: age,
+      annualSalary: salary,
+      salaryGrowthRate: growth,
+      lifeExpectancy: lifeExpectancyAge,
+      spouse,
+      stateOfResidence: stateOfResidence || undefined,
+      propertyTaxes: propertyTaxesNum || undefined,
+      charitableGiving: charitableGivingNum || undefined,
     });
   };
 
@@ -73,7 +182,8 @@ export const UserProfileForm: React.FC<UserProfileFormProps> = ({ onSave, initia
         <label htmlFor="filingStatus">Tax Filing Status</label>
         <select
           id="filingStatus"
-          value={filingStatus}
+          value={hasSpouse ? 'mfj' : filingStatus}
+          disabled={hasSpouse}
           onChange={(e) => setFilingStatus(e.target.value as 'single' | 'mfj' | 'hoh')}
         >
           <option value="single">Single</option>
@@ -82,6 +192,48 @@ export const UserProfileForm: React.FC<UserProfileFormProps> = ({ onSave, initia
         </select>
       </div>
 
+      <div className="form-group">
+        <label htmlFor="stateOfResidence">State of Residence</label>
+        <select
+          id="stateOfResidence"
+          value={stateOfResidence}
+          onChange={(e) => setStateOfResidence(e.target.value)}
+        >
+          <option value="">Not listed (no state tax)</option>
+          {STATE_OPTIONS.map(({ code, name }) => (
+            <option key={code} value={code}>{name}</option>
+          ))}
+        </select>
+        <small className="form-help">State income tax is added to federal tax in every retirement year</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="propertyTaxes">Annual Property Taxes ($)</label>
+        <input
+          id="propertyTaxes"
+          type="number"
+          min="0"
+          step="100"
+          value={propertyTaxes}
+          onChange={(e) => setPropertyTaxes(e.target.value)}
+          placeholder="e.g., 6000"
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="charitableGiving">Annual Charitable Giving ($)</label>
+        <input
+          id="charitableGiving"
+          type="number"
+          min="0"
+          step="100"
+          value={charitableGiving}
+          onChange={(e) => setCharitableGiving(e.target.value)}
+          placeholder="e.g., 2000"
+        />
+        <small className="form-help">Optional, in today's dollars and paid from spending. Itemized with mortgage interest and state taxes when they beat the standard deduction.</small>
+      </div>
+
       <div className="form-group">
         <label htmlFor="retirementAge">Planned Retirement Age</label>
         <input
@@ -94,6 +246,140 @@ export const UserProfileForm: React.FC<UserProfileFormProps> = ({ onSave, initia
         />
       </div>
 
+      <div className="form-group">
+        <label htmlFor="annualSalary">Current Annual Salary ($)</label>
+        <input
+          id="annualSalary"
+          type="number"
+          min="0"
+          step="1000"
+          value={annualSalary}
+          onChange={(e) => setAnnualSalary(e.target.value)}
+          placeholder="Leave empty if retired"
+        />
+        <small className="form-help">Optional. Used for contributions and employer match until retirement.</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="salaryGrowthRate">Salary Growth Above Inflation (%)</label>
+        <input
+          id="salaryGrowthRate"
+          type="number"
+          min="-10"
+          max="10"
+          step="0.1"
+          value={salaryGrowthRate}
+          onChange={(e) => setSalaryGrowthRate(e.target.value)}
+          placeholder="e.g., 1 for 1%"
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="lifeExpectancy">Life Expectancy (Age)</label>
+        <input
+          id="lifeExpectancy"
+          type="number"
+          min="50"
+          max="120"
+          value={lifeExpectancy}
+          onChange={(e) => setLifeExpectancy(e.target.value)}
+          placeholder="e.g., 90"
+        />
+        <small className="form-help">Optional. The plan ends after the last death.</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="hasSpouse">
+          <input
+            id="hasSpouse"
+            type="checkbox"
+            checked={hasSpouse}
+            onChange={(e) => setHasSpouse(e.target.checked)}
+          />
+          Include spouse
+        </label>
+        <small className="form-help">Files jointly; each spouse has their own ages, accounts and Social Security</small>
+      </div>
+
+      {hasSpouse && (
+        <>
+          <div className="form-group">
+            <label htmlFor="spouseBirthYear">Spouse Birth Year</label>
+            <input
+              id="spouseBirthYear"
+              type="number"
+              min="1900"
+              max={new Date().getFullYear()}
+              value={spouseBirthYear}
+              onChange={(e) => setSpouseBirthYear(e.target.value)}
+              placeholder="YYYY"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="spouseRetirementAge">Spouse Retirement Age</label>
+            <input
+              id="spouseRetirementAge"
+              type="number"
+              min="50"
+              max="100"
+              value={spouseRetirementAge}
+              onChange={(e) => setSpouseRetirementAge(e.target.value)}
+            />
+            <small className="form-help">Contributions to the spouse's accounts stop at this age.</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="spouseSalary">Spouse Annual Salary ($)</label>
+            <input
+              id="spouseSalary"
+              type="number"
+              min="0"
+              step="1000"
+              value={spouseSalary}
+              onChange={(e) => setSpouseSalary(e.target.value)}
+              placeholder="Leave empty if retired"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="spouseLifeExpectancy">Spouse Life Expectancy (Age)</label>
+            <input
+              id="spouseLifeExpectancy"
+              type="number"
+              min="50"
+              max="120"
+              value={spouseLifeExpectancy}
+              onChange={(e) => setSpouseLifeExpectancy(e.target.value)}
+              placeholder="e.g., 92"
+            />
+            <small className="form-help">Filing status switches to single the year after the first death.</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="spouseBenefit">Spouse Social Security at Full Retirement Age ($/month)</label>
+            <input
+              id="spouseBenefit"
+              type="number"
+              min="0"
+              step="0.01"
+              value={spouseBenefit}
+              onChange={(e) => setSpouseBenefit(e.target.value)}
+              placeholder="From your spouse's SSA statement"
+            />
+            <small className="form-help">Leave empty without a work record: spousal benefits filed at full retirement age pay half of your benefit.</small>
+          </div>
+
+          <ClaimingAgeField
+            id="spouseClaimingAge"
+            label="Spouse Claiming Age"
+            value={spouseClaimingAge}
+            onChange={setSpouseClaimingAge}
+            help="Spousal benefits start once both of you have claimed."
+          />
+        </>
+      )}
+
       {error && <div className="error-message">{error}</div>}
 
       <button type="submit" className="btn-primary">Save Profile</button>
@@ -7,17 +7,18 @@
  */
 
 import Big from 'big.js';
-import type { WithdrawalResult } from '../types';
+import type { AssetAllocation, AssetClassReturns, WithdrawalResult } from '../types';
 import { AccountType } from '../types';
 import { toBig, applyGrowth, isZero } from '../bigHelpers';
+import { DEFAULT_ASSET_ALLOCATION, blendReturns, validateAllocation } from '../assetAllocation';
 
 /**
  * Abstract base class for all retirement account types.
  * 
  * Handles:
  * - Balance tracking with Big.js for precision
- * - Withdrawal operations
- * - Growth application
+ * - Withdrawal and deposit operations
+ * - Growth application (single rate or blended by asset allocation)
  * - RMD calculations (account-type specific)
  * 
  * @abstract
@@ -44,6 +45,11 @@ export abstract class BaseAccount {
    */
   public readonly nickname?: string;
 
+  /**
+   * Asset class weights used to blend per-asset-class returns.
+   */
+  protected allocation: AssetAllocation = DEFAULT_ASSET_ALLOCATION;
+
   /**
    * Create a new account.
    * 
@@ -82,6 +88,26 @@ export abstract class BaseAccount {
    */
   abstract withdraw(amount: Big, age: number, year: number): WithdrawalResult;
 
+  /**
+   * Deposit funds into the account.
+   * 
+   * Used for Roth conversions and reinvested proceeds. Subclasses that
+   * track cost basis should override to update it.
+   * 
+   * @param amount - Amount to deposit
+   * @throws {Error} If amount is negative
+   * 
+   * @example
+   * rothAccount.deposit(new Big(20000)); // Roth conversion
+   */
+  deposit(amount: Big | number | string): void {
+    const depositAmount = toBig(amount);
+    if (depositAmount.lt(0)) {
+      throw new Error('Deposit amount cannot be negative');
+    }
+    this.balance = this.balance.plus(depositAmount);
+  }
+
   /**
    * Calculate Required Minimum Distribution for this account.
    * 
@@ -111,6 +137,40 @@ export abstract class BaseAccount {
     this.balance = applyGrowth(this.balance, rate);
   }
 
+  /**
+   * Apply one year of per-asset-class returns, weighted by this account's allocation.
+   * 
+   * @param returns - Returns by asset class
+   * 
+   * @example
+   * account.setAllocation({ stocks: new Big(1), bonds: new Big(0), cash: new Big(0) });
+   * account.applyAssetClassGrowth({ stocks: new Big(0.1), bonds: new Big(0.02), cash: new Big(0) });
+   * // All-equity account grows 10%
+   */
+  applyAssetClassGrowth(returns: AssetClassReturns): void {
+    this.applyGrowth(blendReturns(this.allocation, returns));
+  }
+
+  /**
+   * Get asset class weights.
+   * 
+   * @returns Current allocation
+   */
+  getAllocation(): AssetAllocation {
+    return this.allocation;
+  }
+
+  /**
+   * Set asset class weights.
+   * 
+   * @param allocation - Weights by asset class (must sum to 1)
+   * @throws {Error} If a weight is negative or the weights do not sum to 1
+   */
+  setAllocation(allocation: AssetAllocation): void {
+    validateAllocation(allocation);
+    this.allocation = allocation;
+  }
+
   /**
    * Get current account balance.
    * 
@@ -4,12 +4,13 @@
  * 
  * Implements average cost basis method for capital gains calculations.
  * Withdrawals generate long-term capital gains (LTCG) income.
+ * Holdings may pay dividends and interest each year, reinvested or distributed.
  * No RMDs required.
  */
 
 import Big from 'big.js';
 import { BaseAccount } from './BaseAccount';
-import type { WithdrawalResult } from '../types';
+import type { InvestmentIncome, InvestmentIncomeResult, WithdrawalResult } from '../types';
 import { AccountType, IncomeType } from '../types';
 import { toBig, min, max, isZero, divide } from '../bigHelpers';
 
@@ -20,12 +21,14 @@ import { toBig, min, max, isZero, divide } from '../bigHelpers';
  * - Cost basis tracking using average cost method
  * - Capital gains computed on withdrawals: gain = withdrawal - (basis_ratio * withdrawal)
  * - Long-term capital gains tax treatment
+ * - Optional dividend and interest income
  * - No required minimum distributions
  * 
  * Tax treatment:
  * - Only capital gains portion is taxable
  * - Return of basis is tax-free
  * - Assumes all gains are long-term (1+ year holding period)
+ * - Dividends and interest are taxed the year they are paid, even when reinvested
  * 
  * @example
  * const account = new TaxableAccount('taxable-1', 100000, 80000);
@@ -41,6 +44,11 @@ export class TaxableAccount extends BaseAccount {
    */
   private costBasis: Big;
 
+  /**
+   * Dividend and interest yields of the holdings (none by default).
+   */
+  private investmentIncome: InvestmentIncome | null = null;
+
   /**
    * Create a taxable investment account.
    * 
@@ -139,6 +147,105 @@ export class TaxableAccount extends BaseAccount {
     };
   }
 
+  /**
+   * Deposit funds into the account.
+   * 
+   * Deposited cash is fully basis (already-taxed money).
+   * 
+   * @param amount - Amount to deposit
+   * @throws {Error} If amount is negative
+   * 
+   * @example
+   * const account = new TaxableAccount('tax', 100000, 60000);
+   * account.deposit(new Big(10000));
+   * // balance = 110000, costBasis = 70000
+   */
+  deposit(amount: Big | number | string): void {
+    super.deposit(amount);
+    this.costBasis = this.costBasis.plus(toBig(amount));
+  }
+
+  /**
+   * Set the dividend and interest yields of the holdings.
+   * 
+   * @param income - Yields, qualified fraction and reinvestment choice
+   * @throws {Error} If a yield is negative or the qualified rate is outside 0-1
+   */
+  setInvestmentIncome(income: InvestmentIncome): void {
+    if (income.dividendYield.lt(0) || income.interestYield.lt(0)) {
+      throw new Error('Dividend and interest yields cannot be negative');
+    }
+    if (income.qualifiedDividendRate.lt(0) || income.qualifiedDividendRate.gt(1)) {
+      throw new Error('Qualified dividend rate must be between 0 and 1');
+    }
+    this.investmentIncome = income;
+  }
+
+  /**
+   * Get the dividend and interest yields of the holdings.
+   * 
+   * @returns Investment income settings, or null if the account pays none
+   */
+  getInvestmentIncome(): InvestmentIncome | null {
+    return this.investmentIncome;
+  }
+
+  /**
+   * Pay this year's dividends and interest on the current balance.
+   * 
+   * The yields are part of the total return, so reinvested income leaves the
+   * balance unchanged and only raises the cost basis (it was already taxed).
+   * Distributed income leaves the account as cash; the basis is unchanged.
+   * 
+   * @param reinvest - Override the account's reinvestment choice
+   * @returns Dividends and interest by tax treatment, and the cash paid out
+   * 
+   * @example
+   * const account = new TaxableAccount('tax', 100000, 60000);
+   * account.setInvestmentIncome({
+   *   dividendYield: new Big(0.02),
+   *   qualifiedDividendRate: new Big(0.9),
+   *   interestYield: new Big(0.01),
+   *   reinvest: false,
+   * });
+   * const result = account.generateIncome();
+   * // result.qualifiedDividends = 1800, ordinaryDividends = 200, interest = 1000
+   * // result.distributed = 3000, balance = 97000
+   */
+  generateIncome(reinvest?: boolean): InvestmentIncomeResult {
+    if (!this.investmentIncome) {
+      return {
+        accountId: this.id,
+        qualifiedDividends: new Big(0),
+        ordinaryDividends: new Big(0),
+        interest: new Big(0),
+        distributed: new Big(0),
+      };
+    }
+
+    const { dividendYield, qualifiedDividendRate, interestYield } = this.investmentIncome;
+    const dividends = this.balance.times(dividendYield);
+    const qualifiedDividends = dividends.times(qualifiedDividendRate);
+    const interest = this.balance.times(interestYield);
+    const total = dividends.plus(interest);
+
+    let distributed = new Big(0);
+    if (reinvest ?? this.investmentIncome.reinvest) {
+      this.costBasis = this.costBasis.plus(total);
+    } else {
+      this.balance = this.balance.minus(total);
+      distributed = total;
+    }
+
+    return {
+      accountId: this.id,
+      qualifiedDividends,
+      ordinaryDividends: dividends.minus(qualifiedDividends),
+      interest,
+      distributed,
+    };
+  }
+
   /**
    * Calculate Required Minimum Distribution.
    * 
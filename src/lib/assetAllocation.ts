@@ -0,0 +1,92 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Asset Allocation - Per-account asset class weights and blended returns
+ *
+ * Each account holds a mix of stocks, bonds and cash. Projections take one
+ * year of returns per asset class and grow each account at its own blended
+ * rate, so asset location (e.g., bonds in the IRA, stocks in the brokerage
+ * account) changes how balances evolve.
+ *
+ * @module assetAllocation
+ */
+
+import Big from 'big.js';
+import type {
+  AssetAllocation,
+  AssetClassReturns,
+  CapitalMarketAssumptions,
+} from './types';
+
+/**
+ * Allocation used when an account does not specify one (60/40).
+ */
+export const DEFAULT_ASSET_ALLOCATION: AssetAllocation = {
+  stocks: new Big('0.6'),
+  bonds: new Big('0.4'),
+  cash: new Big(0),
+};
+
+/**
+ * Default real return assumptions for multi-asset Monte Carlo.
+ *
+ * Long-run US real returns and volatilities, rounded: stocks ~6.5% (18%),
+ * intermediate bonds ~2% (7%), cash ~0.5% (1%).
+ */
+export const DEFAULT_CAPITAL_MARKET_ASSUMPTIONS: CapitalMarketAssumptions = {
+  stocks: { meanReturn: new Big('0.065'), volatility: new Big('0.18') },
+  bonds: { meanReturn: new Big('0.02'), volatility: new Big('0.07') },
+  cash: { meanReturn: new Big('0.005'), volatility: new Big('0.01') },
+  correlations: {
+    stocksBonds: 0.1,
+    stocksCash: 0,
+    bondsCash: 0.2,
+  },
+};
+
+/**
+ * Validate an allocation.
+ *
+ * @param allocation - Weights by asset class
+ * @throws {Error} If a weight is negative or the weights do not sum to 1
+ */
+export function validateAllocation(allocation: AssetAllocation): void {
+  const { stocks, bonds, cash } = allocation;
+
+  if (stocks.lt(0) || bonds.lt(0) || cash.lt(0)) {
+    throw new Error('Allocation weights cannot be negative');
+  }
+
+  if (!stocks.plus(bonds).plus(cash).eq(1)) {
+    throw new Error('Allocation weights must sum to 100%');
+  }
+}
+
+/**
+ * Calculate the return of an account from its allocation.
+ *
+ * @param allocation - Weights by asset class
+ * @param returns - Returns by asset class for the year
+ * @returns Weighted return as decimal
+ *
+ * @example
+ * // 60/40 with stocks +10% and bonds +2%
+ * blendReturns(DEFAULT_ASSET_ALLOCATION, { stocks: new Big(0.1), bonds: new Big(0.02), cash: new Big(0) });
+ * // 0.068
+ */
+export function blendReturns(allocation: AssetAllocation, returns: AssetClassReturns): Big {
+  return allocation.stocks.times(returns.stocks)
+    .plus(allocation.bonds.times(returns.bonds))
+    .plus(allocation.cash.times(returns.cash));
+}
+
+/**
+ * Build asset class returns where every class returns the same rate.
+ *
+ * Used for single-rate projections, where allocation has no effect.
+ *
+ * @param rate - Return for every asset class
+ * @returns Asset class returns
+ */
+export function uniformReturns(rate: Big): AssetClassReturns {
+  return { stocks: rate, bonds: rate, cash: rate };
+}
@@ -4,14 +4,36 @@
  * 
  * Converts WithdrawalPlan arrays into chart-ready data structures with:
  * - Income sources breakdown (stacked bars)
- * - Tax visualization (negative bars)
+ * - Tax and IRMAA surcharge visualization (negative bars)
+ * - Roth conversions (separate series, not part of spendable income)
  * - Portfolio balance trajectories (line overlays)
+ * - Asset mix (stocks/bonds/cash) from each account's allocation
+ * - Real estate value and rental income
+ * - Mortgage payments, liabilities and net worth
+ * - Spouse age and filing status (single after the first death)
  * - Metadata for axis scaling
+ * - Monte Carlo percentile bands (fan chart)
+ * - Social Security claiming-age comparison
+ * - Lifetime taxes under each tax regime
  */
 
 import Big from 'big.js';
 import { toNumber } from './bigHelpers';
-import type { ProjectionResult, ChartDataset, ChartDataPoint, WithdrawalPlan } from './types';
+import { DEFAULT_ASSET_ALLOCATION } from './assetAllocation';
+import { FilingStatus, TaxRegime } from './types';
+import type {
+  ProjectionResult,
+  ChartDataset,
+  ChartDataPoint,
+  WithdrawalPlan,
+  MonteCarloResult,
+  FanChartDataPoint,
+  ClaimingOptimizationResult,
+  ClaimingChartDataPoint,
+  TaxRegimeComparisonResult,
+  TaxRegimeChartDataPoint,
+  TaxRegimeSettings,
+} from './types';
 
 /**
  * Build chart-ready dataset from projection result.
@@ -45,9 +67,12 @@ export function buildChartData(result: ProjectionResult): ChartDataset {
     
     // Aggregate balances by account type
     const { taxableBalance, traditionalBalance, rothBalance } = aggregateBalancesByType(plan);
+
+    // Aggregate balances by asset class
+    const { stocksBalance, bondsBalance, cashBalance } = aggregateBalancesByAssetClass(plan);
     
     // Convert to numbers for charting (Recharts requires numbers, not Big)
-    const socialSecurity = toNumber(plan.guaranteedIncome);
+    const socialSecurity = toNumber(plan.socialSecurityIncome);
     const taxes = toNumber(plan.totalTaxes);
     const totalIncome = toNumber(plan.totalGrossIncome);
     const totalPortfolio = toNumber(plan.totalPortfolioValue);
@@ -55,16 +80,32 @@ export function buildChartData(result: ProjectionResult): ChartDataset {
     const dataPoint: ChartDataPoint = {
       year: plan.year,
       age: plan.age,
+      spouseAge: plan.spouseAge,
+      filingStatus: plan.filingStatus,
       socialSecurity,
+      pensionIncome: toNumber(plan.pensionIncome),
+      earnedIncome: toNumber(plan.earnedIncome),
+      investmentIncome: toNumber(plan.investmentIncome),
+      rentalIncome: toNumber(plan.rentalIncome),
       taxableWithdrawal: toNumber(taxableWithdrawal),
       traditionalWithdrawal: toNumber(traditionalWithdrawal),
       rothWithdrawal: toNumber(rothWithdrawal),
       taxes: -taxes, // Negative for display below X-axis
+      stateTaxes: -toNumber(plan.stateTaxes), // Negative for display below X-axis
+      irmaaSurcharge: -toNumber(plan.irmaaSurcharge), // Negative for display below X-axis
+      rothConversion: toNumber(plan.rothConversion),
       totalIncome,
       taxableBalance: toNumber(taxableBalance),
       traditionalBalance: toNumber(traditionalBalance),
       rothBalance: toNumber(rothBalance),
+      stocksBalance: toNumber(stocksBalance),
+      bondsBalance: toNumber(bondsBalance),
+      cashBalance: toNumber(cashBalance),
       totalPortfolio,
+      realEstateValue: toNumber(plan.realEstateValue),
+      mortgagePayments: -toNumber(plan.mortgagePayments), // Negative for display below X-axis
+      liabilities: toNumber(plan.liabilities),
+      netWorth: toNumber(plan.netWorth),
     };
     
     dataPoints.push(dataPoint);
@@ -82,6 +123,94 @@ export function buildChartData(result: ProjectionResult): ChartDataset {
   };
 }
 
+/**
+ * Build fan chart data from Monte Carlo percentile bands.
+ * 
+ * Flattens each year's portfolio and net income bands into numbers for
+ * Recharts, alongside the probability of depletion by that year.
+ * 
+ * @param result - Monte Carlo result with yearly bands
+ * @returns One data point per simulated year
+ */
+export function buildFanChartData(result: MonteCarloResult): FanChartDataPoint[] {
+  return result.yearlyBands.map((bands) => ({
+    year: bands.year,
+    age: bands.age,
+    portfolioP5: toNumber(bands.portfolio.p5),
+    portfolioP25: toNumber(bands.portfolio.p25),
+    portfolioP50: toNumber(bands.portfolio.p50),
+    portfolioP75: toNumber(bands.portfolio.p75),
+    portfolioP95: toNumber(bands.portfolio.p95),
+    netIncomeP5: toNumber(bands.netIncome.p5),
+    netIncomeP25: toNumber(bands.netIncome.p25),
+    netIncomeP50: toNumber(bands.netIncome.p50),
+    netIncomeP75: toNumber(bands.netIncome.p75),
+    netIncomeP95: toNumber(bands.netIncome.p95),
+    depletionProbability: bands.depletionProbability,
+  }));
+}
+
+/**
+ * Build claiming-age comparison data from an optimizer result.
+ * 
+ * @param result - Claiming optimizer result
+ * @returns One data point per claiming age, flagging the best one
+ */
+export function buildClaimingChartData(result: ClaimingOptimizationResult): ClaimingChartDataPoint[] {
+  return result.options.map((option) => {
+    const totalMonths = Math.round(option.claimingAge * 12);
+    const months = totalMonths % 12;
+    return {
+      claimingAge: option.claimingAge,
+      label: months === 0 ? `${Math.floor(totalMonths / 12)}` : `${Math.floor(totalMonths / 12)}y ${months}m`,
+      finalPortfolio: toNumber(option.finalPortfolioValue),
+      lifetimeNetIncome: toNumber(option.lifetimeNetIncome),
+      totalTaxes: toNumber(option.totalTaxesPaid),
+      breakEvenAge: option.breakEvenAge,
+      isBest: option.claimingAge === result.bestClaimingAge,
+    };
+  });
+}
+
+/**
+ * Build tax regime comparison data from a comparison result.
+ * 
+ * @param result - Tax regime comparison result
+ * @returns One data point per regime, with differences from the first one
+ */
+export function buildTaxRegimeChartData(result: TaxRegimeComparisonResult): TaxRegimeChartDataPoint[] {
+  const baselineTaxes = result.options[0]?.totalTaxesPaid;
+
+  return result.options.map((option) => ({
+    label: describeTaxRegime(option.settings),
+    success: option.success,
+    federalTaxes: toNumber(option.federalTaxesPaid),
+    stateTaxes: toNumber(option.stateTaxesPaid),
+    totalTaxes: toNumber(option.totalTaxesPaid),
+    taxDifference: toNumber(option.totalTaxesPaid.minus(baselineTaxes)),
+    lifetimeNetIncome: toNumber(option.lifetimeNetIncome),
+    finalPortfolio: toNumber(option.finalPortfolioValue),
+  }));
+}
+
+/**
+ * Describe a tax regime for display.
+ * 
+ * @param settings - Tax regime settings
+ * @returns Label such as "Pre-2018 rates from 2030"
+ */
+function describeTaxRegime(settings: TaxRegimeSettings): string {
+  const names: Record<TaxRegime, string> = {
+    [TaxRegime.CURRENT_LAW]: 'Current law',
+    [TaxRegime.PRE_TCJA]: 'Pre-2018 rates',
+    [TaxRegime.CUSTOM]: 'Custom brackets',
+  };
+  const name = names[settings.regime];
+  return settings.regime === TaxRegime.CURRENT_LAW || settings.startYear === undefined
+    ? name
+    : `${name} from ${settings.startYear}`;
+}
+
 /**
  * Aggregate account withdrawals by type.
  * 
@@ -178,6 +307,34 @@ function aggregateBalancesByType(plan: WithdrawalPlan): {
   return { taxableBalance, traditionalBalance, rothBalance };
 }
 
+/**
+ * Aggregate account balances by asset class.
+ * 
+ * Splits each account's balance by its allocation, so the totals show how
+ * asset location shifts the overall mix as accounts grow and are drawn down.
+ * 
+ * @param plan - Withdrawal plan for a single year
+ * @returns Aggregated balances by asset class
+ */
+function aggregateBalancesByAssetClass(plan: WithdrawalPlan): {
+  stocksBalance: Big;
+  bondsBalance: Big;
+  cashBalance: Big;
+} {
+  let stocksBalance = new Big(0);
+  let bondsBalance = new Big(0);
+  let cashBalance = new Big(0);
+
+  for (const [accountId, balance] of Object.entries(plan.accountBalances)) {
+    const allocation = plan.accountMetadata[accountId]?.allocation ?? DEFAULT_ASSET_ALLOCATION;
+    stocksBalance = stocksBalance.plus(balance.times(allocation.stocks));
+    bondsBalance = bondsBalance.plus(balance.times(allocation.bonds));
+    cashBalance = cashBalance.plus(balance.times(allocation.cash));
+  }
+
+  return { stocksBalance, bondsBalance, cashBalance };
+}
+
 /**
  * Create sample chart dataset for testing.
  * 
@@ -210,20 +367,37 @@ export function createSampleChartData(): ChartDataset {
     const taxableBalance = Math.max(0, 200000 - i * 15000);
     const traditionalBalance = Math.max(0, 600000 - i * 8000);
     const rothBalance = Math.max(0, 200000 - i * 2000);
+    const stocksBalance = totalPortfolio * 0.6;
+    const bondsBalance = totalPortfolio * 0.4;
     
     dataPoints.push({
       year,
       age,
+      filingStatus: FilingStatus.SINGLE,
       socialSecurity,
+      pensionIncome: 0,
+      earnedIncome: 0,
+      investmentIncome: 0,
+      rentalIncome: 0,
       taxableWithdrawal,
       traditionalWithdrawal,
       rothWithdrawal,
       taxes: -taxes, // Negative for display
+      stateTaxes: 0,
+      irmaaSurcharge: 0,
+      rothConversion: 0,
       totalIncome,
       taxableBalance,
       traditionalBalance,
       rothBalance,
+      stocksBalance,
+      bondsBalance,
+      cashBalance: 0,
       totalPortfolio,
+      realEstateValue: 0,
+      mortgagePayments: 0,
+      liabilities: 0,
+      netWorth: totalPortfolio,
     });
   }
   
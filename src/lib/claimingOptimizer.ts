@@ -0,0 +1,306 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Claiming Optimizer - Compare Social Security claiming ages
+ *
+ * Answers "should I claim at 62, 67 or 70?" by running the same projection
+ * once per claiming age and ranking the outcomes.
+ *
+ * Methodology:
+ * 1. Each claiming age from 62 to 70 (by year or by month) that the user has
+ *    not yet passed replaces the user's claiming age in the scenario, and the
+ *    projection is run again
+ * 2. Each option reports the final portfolio, lifetime net income (sum of
+ *    net income over the withdrawal years) and total taxes paid
+ * 3. The break-even age is when cumulative benefits (with COLA) of an option
+ *    overtake those of the earliest claiming age still available
+ * 4. The best option maximizes the final portfolio or lifetime net income, or
+ *    minimizes total taxes; options that last the whole projection rank first,
+ *    and ties go to the earlier claiming age
+ *
+ * Simplifications:
+ * - Only the user's claiming age varies; a spouse keeps their own claiming age
+ * - The break-even age compares the user's own benefit, not spousal or
+ *   survivor benefits, and is not discounted
+ *
+ * See: https://www.ssa.gov/benefits/retirement/planner/delayret.html
+ *
+ * @module claimingOptimizer
+ */
+
+import Big from 'big.js';
+import { sum } from './bigHelpers';
+import { ProjectionEngine } from './projectionEngine';
+import { SSABenefitCalculator } from './withdrawalCoordinator';
+import { ClaimingGranularity, ClaimingObjective } from './types';
+import type {
+  ClaimingOption,
+  ClaimingOptimizationResult,
+  ProjectionResult,
+  Scenario,
+  SSAIncome,
+} from './types';
+
+/**
+ * Runs one projection (fixed return, historical returns, asset-class returns...).
+ */
+export type ProjectionRunner = (engine: ProjectionEngine) => ProjectionResult;
+
+/**
+ * Batching options for ClaimingAgeOptimizer.optimizeBatched.
+ */
+export interface ClaimingBatchOptions {
+  batchSize: number; // Projections per batch (control returns to the event loop between batches)
+  onProgress?: (runsCompleted: number, totalRuns: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Compares Social Security claiming ages by re-running a projection for each.
+ *
+ * @example
+ * const optimizer = new ClaimingAgeOptimizer(scenario);
+ * const result = optimizer.optimize(
+ *   (engine) => engine.runProjection(30, new Big(0.05)),
+ *   ClaimingObjective.FINAL_PORTFOLIO,
+ *   64,
+ * );
+ *
+ * console.log(`Claim at ${result.bestClaimingAge}`);
+ * for (const option of result.options) {
+ *   console.log(option.claimingAge, option.finalPortfolioValue.toFixed(0), option.breakEvenAge);
+ * }
+ */
+export class ClaimingAgeOptimizer {
+  private readonly scenario: Scenario;
+  private readonly ssaIncome: SSAIncome;
+
+  private static readonly MIN_CLAIMING_AGE = 62;
+  private static readonly MAX_CLAIMING_AGE = 70;
+  // Break-even ages beyond this are reported as never
+  private static readonly MAX_BREAK_EVEN_AGE = 100;
+
+  /**
+   * Create an optimizer for a scenario.
+   *
+   * @param scenario - Scenario with the user's Social Security benefit
+   * @throws {Error} If the scenario has no Social Security benefit
+   */
+  constructor(scenario: Scenario) {
+    if (!scenario.ssaIncome) {
+      throw new Error('Scenario must have Social Security income to compare claiming ages');
+    }
+    this.scenario = scenario;
+    this.ssaIncome = scenario.ssaIncome;
+  }
+
+  /**
+   * Get the claiming ages compared at a granularity.
+   *
+   * A user past 62 can only claim from their current age; past 70, only
+   * claiming at 70 (the largest benefit) is left.
+   *
+   * @param granularity - Every year or every month
+   * @param currentAge - User's age in the first projection year (default: 62)
+   * @returns Claiming ages from the first one available to 70 (fractions are months)
+   */
+  static getClaimingAges(
+    granularity: ClaimingGranularity,
+    currentAge: number = ClaimingAgeOptimizer.MIN_CLAIMING_AGE,
+  ): number[] {
+    const step = granularity === ClaimingGranularity.MONTH ? 1 : 12;
+    const firstAge = Math.min(
+      Math.max(currentAge, ClaimingAgeOptimizer.MIN_CLAIMING_AGE),
+      ClaimingAgeOptimizer.MAX_CLAIMING_AGE,
+    );
+    const span = (ClaimingAgeOptimizer.MAX_CLAIMING_AGE - firstAge) * 12;
+    const ages: number[] = [];
+    for (let months = 0; months <= span; months += step) {
+      ages.push(firstAge + months / 12);
+    }
+    return ages;
+  }
+
+  /**
+   * Run the projection for every claiming age still available and pick the best one.
+   *
+   * @param runProjection - Runs one projection with the given engine
+   * @param objective - What the best option maximizes or minimizes
+   * @param currentAge - User's age in the first projection year
+   * @param granularity - Compare every year (up to 9 runs) or every month (up to 97 runs)
+   * @returns One option per claiming age and the best claiming age
+   */
+  optimize(
+    runProjection: ProjectionRunner,
+    objective: ClaimingObjective,
+    currentAge: number,
+    granularity: ClaimingGranularity = ClaimingGranularity.YEAR,
+  ): ClaimingOptimizationResult {
+    const claimingAges = ClaimingAgeOptimizer.getClaimingAges(granularity, currentAge);
+    const earliestBenefits = this.getCumulativeBenefits(claimingAges[0], claimingAges[0]);
+
+    const options = claimingAges.map((claimingAge) =>
+      this.evaluateOption(runProjection, claimingAge, claimingAges[0], earliestBenefits),
+    );
+    return this.rankOptions(options, objective);
+  }
+
+  /**
+   * Run the same comparison as optimize in batches, yielding between batches.
+   *
+   * Control returns to the event loop after each batch so that progress can
+   * be reported and the UI can cancel a month-by-month comparison.
+   *
+   * @param runProjection - Runs one projection with the given engine
+   * @param objective - What the best option maximizes or minimizes
+   * @param currentAge - User's age in the first projection year
+   * @param granularity - Compare every year or every month
+   * @param options - Batch size and progress/cancellation callbacks
+   * @returns One option per claiming age and the best claiming age, or null if cancelled
+   */
+  async optimizeBatched(
+    runProjection: ProjectionRunner,
+    objective: ClaimingObjective,
+    currentAge: number,
+    granularity: ClaimingGranularity,
+    { batchSize, onProgress, isCancelled }: ClaimingBatchOptions,
+  ): Promise<ClaimingOptimizationResult | null> {
+    const claimingAges = ClaimingAgeOptimizer.getClaimingAges(granularity, currentAge);
+    const earliestBenefits = this.getCumulativeBenefits(claimingAges[0], claimingAges[0]);
+    const options: ClaimingOption[] = [];
+
+    while (options.length < claimingAges.length) {
+      if (isCancelled?.()) {
+        return null;
+      }
+
+      const batchEnd = Math.min(options.length + Math.max(batchSize, 1), claimingAges.length);
+      for (let index = options.length; index < batchEnd; index++) {
+        options.push(this.evaluateOption(runProjection, claimingAges[index], claimingAges[0], earliestBenefits));
+      }
+
+      onProgress?.(options.length, claimingAges.length);
+      if (options.length < claimingAges.length) {
+        // Yield to the event loop so cancel requests can be processed
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    return this.rankOptions(options, objective);
+  }
+
+  /**
+   * Run the projection for one claiming age.
+   *
+   * @param runProjection - Runs one projection with the given engine
+   * @param claimingAge - Claiming age of this option
+   * @param earliestAge - Earliest claiming age compared, the break-even baseline
+   * @param earliestBenefits - Cumulative benefits of claiming at the earliest age
+   * @returns Projection outcome and break-even age of the option
+   */
+  private evaluateOption(
+    runProjection: ProjectionRunner,
+    claimingAge: number,
+    earliestAge: number,
+    earliestBenefits: Big[],
+  ): ClaimingOption {
+    const engine = new ProjectionEngine({
+      ...this.scenario,
+      ssaIncome: { ...this.ssaIncome, claimingAge },
+    });
+    const result = runProjection(engine);
+
+    return {
+      claimingAge,
+      success: result.success,
+      finalPortfolioValue: result.finalPortfolioValue,
+      lifetimeNetIncome: sum(result.withdrawalPlans.map((plan) => plan.totalNetIncome)),
+      totalTaxesPaid: result.totalTaxesPaid,
+      breakEvenAge: claimingAge === earliestAge
+        ? undefined
+        : ClaimingAgeOptimizer.findBreakEvenAge(
+          earliestBenefits,
+          this.getCumulativeBenefits(claimingAge, earliestAge),
+          earliestAge,
+        ),
+    };
+  }
+
+  /**
+   * Pick the best option under an objective.
+   *
+   * @param options - One option per claiming age, by increasing claiming age
+   * @param objective - What the best option maximizes or minimizes
+   * @returns Options and the best claiming age
+   */
+  private rankOptions(options: ClaimingOption[], objective: ClaimingObjective): ClaimingOptimizationResult {
+    const best = options.reduce((current, option) =>
+      ClaimingAgeOptimizer.isBetter(option, current, objective) ? option : current,
+    );
+
+    return {
+      scenarioName: this.scenario.name,
+      objective,
+      options,
+      bestClaimingAge: best.claimingAge,
+    };
+  }
+
+  /**
+   * Calculate the user's cumulative benefits at each age.
+   *
+   * @param claimingAge - Claiming age
+   * @param fromAge - First age counted (the earliest claiming age compared)
+   * @returns Cumulative benefits through each age, from fromAge to the maximum break-even age
+   */
+  private getCumulativeBenefits(claimingAge: number, fromAge: number): Big[] {
+    const calculator = new SSABenefitCalculator(
+      { ...this.ssaIncome, claimingAge },
+      this.scenario.policy.inflationRate,
+      this.scenario.user.birthYear,
+    );
+
+    const cumulative: Big[] = [];
+    let total = new Big(0);
+    for (let age = Math.floor(fromAge); age <= ClaimingAgeOptimizer.MAX_BREAK_EVEN_AGE; age++) {
+      total = total.plus(calculator.getBenefitAtAge(age));
+      cumulative.push(total);
+    }
+    return cumulative;
+  }
+
+  /**
+   * Find the first age when a later claim has received at least as much as an earlier one.
+   *
+   * @param earlier - Cumulative benefits of the earlier claim, from fromAge
+   * @param later - Cumulative benefits of the later claim, from fromAge
+   * @param fromAge - First age of both series
+   * @returns Break-even age, or undefined if never reached
+   */
+  private static findBreakEvenAge(earlier: Big[], later: Big[], fromAge: number): number | undefined {
+    const index = later.findIndex((total, i) => total.gt(0) && total.gte(earlier[i]));
+    return index === -1 ? undefined : Math.floor(fromAge) + index;
+  }
+
+  /**
+   * Check whether an option beats the current best under an objective.
+   *
+   * @param option - Candidate option
+   * @param best - Current best option (earlier claiming age)
+   * @param objective - Ranking objective
+   * @returns true if the candidate is strictly better
+   */
+  private static isBetter(option: ClaimingOption, best: ClaimingOption, objective: ClaimingObjective): boolean {
+    if (option.success !== best.success) {
+      return option.success;
+    }
+
+    switch (objective) {
+      case ClaimingObjective.FINAL_PORTFOLIO:
+        return option.finalPortfolioValue.gt(best.finalPortfolioValue);
+      case ClaimingObjective.LIFETIME_NET_INCOME:
+        return option.lifetimeNetIncome.gt(best.lifetimeNetIncome);
+      case ClaimingObjective.TOTAL_TAXES:
+        return option.totalTaxesPaid.lt(best.totalTaxesPaid);
+    }
+  }
+}
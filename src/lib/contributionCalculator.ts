@@ -0,0 +1,127 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Contribution Calculator (2024 limits)
+ *
+ * Computes yearly contributions into each account during the working years
+ * before retirement.
+ *
+ * Methodology:
+ * 1. Employee contribution is the fixed amount, or a percentage of salary
+ * 2. Contributions are capped by the IRS limit for their limit type, shared
+ *    across all accounts of that type (in account order)
+ * 3. Catch-up contributions raise the limits from age 50
+ * 4. Employer match is a fraction of employee contributions up to a
+ *    percentage of salary; it does not count toward the employee limit
+ *
+ * Simplifications:
+ * - Limits stay at 2024 values (projections are in real dollars)
+ * - Employer match is deposited into the account it matches (Roth 401(k)
+ *   matches are treated as Roth, as SECURE 2.0 allows)
+ * - No compensation cap on IRA contributions and no overall 415(c) limit
+ *
+ * See: https://www.irs.gov/retirement-plans/plan-participant-employee/retirement-topics-contributions
+ */
+
+import Big from 'big.js';
+import { toBig } from './bigHelpers';
+import { ContributionLimitType } from './types';
+import type { Account, YearContributions } from './types';
+
+/**
+ * Contribution Calculator using 2024 IRS limits.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ */
+export class ContributionCalculator {
+  /**
+   * Age from which catch-up contributions are allowed.
+   */
+  static readonly CATCH_UP_AGE = 50;
+
+  /**
+   * Annual limits by limit type: [base limit, catch-up amount].
+   */
+  private static readonly LIMITS: Record<ContributionLimitType, [Big, Big] | null> = {
+    [ContributionLimitType.EMPLOYER_PLAN]: [toBig('23000'), toBig('7500')],
+    [ContributionLimitType.IRA]: [toBig('7000'), toBig('1000')],
+    [ContributionLimitType.NONE]: null,
+  };
+
+  /**
+   * Get the annual employee contribution limit.
+   *
+   * @param limitType - IRS limit type
+   * @param age - Age during the year
+   * @returns Limit, or null if contributions are unlimited
+   *
+   * @example
+   * const calculator = new ContributionCalculator();
+   * calculator.getLimit(ContributionLimitType.EMPLOYER_PLAN, 45); // Big(23000)
+   * calculator.getLimit(ContributionLimitType.EMPLOYER_PLAN, 55); // Big(30500)
+   */
+  getLimit(limitType: ContributionLimitType, age: number): Big | null {
+    const limit = ContributionCalculator.LIMITS[limitType];
+    if (!limit) {
+      return null;
+    }
+    const [base, catchUp] = limit;
+    return age >= ContributionCalculator.CATCH_UP_AGE ? base.plus(catchUp) : base;
+  }
+
+  /**
+   * Calculate contributions for one working year.
+   *
+   * @param accounts - Account definitions, in priority order for shared limits
+   *   (accounts without a contribution plan are skipped)
+   * @param salary - Gross salary for the year
+   * @param age - Age during the year
+   * @returns Employee and employer contributions by account
+   *
+   * @example
+   * const calculator = new ContributionCalculator();
+   * const result = calculator.calculateYear([{
+   *   id: '401k',
+   *   accountType: AccountType.TRADITIONAL,
+   *   balance: toBig(50000),
+   *   contribution: {
+   *     salaryPercent: toBig(0.1),
+   *     limitType: ContributionLimitType.EMPLOYER_PLAN,
+   *     employerMatchRate: toBig(0.5),
+   *     employerMatchCap: toBig(0.06),
+   *   },
+   * }], toBig(100000), 40);
+   * // contributions['401k'] === 10000, employerMatch['401k'] === 3000
+   */
+  calculateYear(accounts: Account[], salary: Big, age: number): YearContributions {
+    const contributions: Record<string, Big> = {};
+    const employerMatch: Record<string, Big> = {};
+    const remaining = new Map<ContributionLimitType, Big | null>();
+
+    for (const { id, contribution } of accounts) {
+      if (!contribution) {
+        continue;
+      }
+
+      const { limitType } = contribution;
+      if (!remaining.has(limitType)) {
+        remaining.set(limitType, this.getLimit(limitType, age));
+      }
+
+      // Employee contribution, capped by what is left of the shared limit
+      let amount = contribution.annualAmount ?? salary.times(contribution.salaryPercent ?? 0);
+      const limitLeft = remaining.get(limitType) ?? null;
+      if (limitLeft !== null) {
+        amount = amount.gt(limitLeft) ? limitLeft : amount;
+        remaining.set(limitType, limitLeft.minus(amount));
+      }
+      contributions[id] = amount;
+
+      // Employer match on contributions up to the cap
+      const matchRate = contribution.employerMatchRate ?? new Big(0);
+      const matchable = salary.times(contribution.employerMatchCap ?? 0);
+      employerMatch[id] = (amount.lt(matchable) ? amount : matchable).times(matchRate);
+    }
+
+    return { contributions, employerMatch };
+  }
+}
@@ -3,7 +3,8 @@
  * CSV Export - Year-by-Year Retirement Projection Data Export
  * 
  * Generates CSV files from projection results for Excel analysis and verification.
- * Includes detailed breakdown of income sources, taxes, withdrawals, and account balances.
+ * Includes detailed breakdown of income sources, taxes, withdrawals, Roth conversions,
+ * mortgage payments, account balances and net worth.
  */
 
 import type { ProjectionResult } from './types';
@@ -34,17 +35,30 @@ export function generateCSV(result: ProjectionResult, scenarioName: string): str
   const headers = [
     'Year',
     'Age',
+    'Spouse Age',
+    'Filing Status',
     'Social Security',
+    'Pension Income',
+    'Earned Income',
+    'Dividends & Interest',
+    'Rental Income',
     'Taxable Withdrawal',
     'Traditional Withdrawal',
     'Roth Withdrawal',
+    'Roth Conversion',
     'Gross Income',
     'Federal Taxes',
+    'State Taxes',
+    'IRMAA Surcharge',
+    'Mortgage Payments',
     'Net Income',
     'Taxable Balance',
     'Traditional Balance',
     'Roth Balance',
     'Total Portfolio',
+    'Real Estate Value',
+    'Liabilities',
+    'Net Worth',
   ];
   rows.push(headers.join(','));
   
@@ -52,26 +66,43 @@ export function generateCSV(result: ProjectionResult, scenarioName: string): str
   for (const dataPoint of chartData.dataPoints) {
     const grossIncome = (
       dataPoint.socialSecurity +
+      dataPoint.pensionIncome +
+      dataPoint.earnedIncome +
+      dataPoint.investmentIncome +
+      dataPoint.rentalIncome +
       dataPoint.taxableWithdrawal +
       dataPoint.traditionalWithdrawal +
       dataPoint.rothWithdrawal
     );
-    const netIncome = grossIncome + dataPoint.taxes; // taxes is negative, so we add
+    const netIncome = grossIncome + dataPoint.taxes + dataPoint.irmaaSurcharge; // both negative, so we add
     
     const row = [
       dataPoint.year,
       dataPoint.age,
+      dataPoint.spouseAge ?? '',
+      dataPoint.filingStatus,
       dataPoint.socialSecurity.toFixed(2),
+      dataPoint.pensionIncome.toFixed(2),
+      dataPoint.earnedIncome.toFixed(2),
+      dataPoint.investmentIncome.toFixed(2),
+      dataPoint.rentalIncome.toFixed(2),
       dataPoint.taxableWithdrawal.toFixed(2),
       dataPoint.traditionalWithdrawal.toFixed(2),
       dataPoint.rothWithdrawal.toFixed(2),
+      dataPoint.rothConversion.toFixed(2),
       grossIncome.toFixed(2),
-      Math.abs(dataPoint.taxes).toFixed(2), // Display as positive
+      Math.abs(dataPoint.taxes - dataPoint.stateTaxes).toFixed(2), // Display as positive
+      Math.abs(dataPoint.stateTaxes).toFixed(2),
+      Math.abs(dataPoint.irmaaSurcharge).toFixed(2),
+      Math.abs(dataPoint.mortgagePayments).toFixed(2),
       netIncome.toFixed(2),
       dataPoint.taxableBalance.toFixed(2),
       dataPoint.traditionalBalance.toFixed(2),
       dataPoint.rothBalance.toFixed(2),
       dataPoint.totalPortfolio.toFixed(2),
+      dataPoint.realEstateValue.toFixed(2),
+      dataPoint.liabilities.toFixed(2),
+      dataPoint.netWorth.toFixed(2),
     ];
     rows.push(row.join(','));
   }
@@ -80,7 +111,10 @@ export function generateCSV(result: ProjectionResult, scenarioName: string): str
   rows.push(''); // Blank line
   rows.push('Summary Statistics');
   
-  const totalTaxes = chartData.dataPoints.reduce((sum, d) => sum + Math.abs(d.taxes), 0);
+  const totalStateTaxes = chartData.dataPoints.reduce((sum, d) => sum + Math.abs(d.stateTaxes), 0);
+  const totalFederalTaxes = chartData.dataPoints.reduce((sum, d) => sum + Math.abs(d.taxes), 0) - totalStateTaxes;
+  const totalIRMAA = chartData.dataPoints.reduce((sum, d) => sum + Math.abs(d.irmaaSurcharge), 0);
+  const totalConversions = chartData.dataPoints.reduce((sum, d) => sum + d.rothConversion, 0);
   const totalWithdrawals = chartData.dataPoints.reduce(
     (sum, d) => sum + d.taxableWithdrawal + d.traditionalWithdrawal + d.rothWithdrawal,
     0,
@@ -89,14 +123,19 @@ export function generateCSV(result: ProjectionResult, scenarioName: string): str
   const initialPortfolio = chartData.dataPoints[0]?.totalPortfolio ?? 0;
   const finalPortfolio = chartData.dataPoints[chartData.dataPoints.length - 1]?.totalPortfolio ?? 0;
   const portfolioChange = finalPortfolio - initialPortfolio;
+  const finalNetWorth = chartData.dataPoints[chartData.dataPoints.length - 1]?.netWorth ?? 0;
   const success = result.success ? 'Yes' : 'No';
   
   rows.push(`Total Years,${chartData.dataPoints.length}`);
-  rows.push(`Total Federal Taxes Paid,${totalTaxes.toFixed(2)}`);
+  rows.push(`Total Federal Taxes Paid,${totalFederalTaxes.toFixed(2)}`);
+  rows.push(`Total State Taxes Paid,${totalStateTaxes.toFixed(2)}`);
+  rows.push(`Total IRMAA Surcharges,${totalIRMAA.toFixed(2)}`);
   rows.push(`Total Withdrawals,${totalWithdrawals.toFixed(2)}`);
+  rows.push(`Total Roth Conversions,${totalConversions.toFixed(2)}`);
   rows.push(`Initial Portfolio Value,${initialPortfolio.toFixed(2)}`);
   rows.push(`Final Portfolio Value,${finalPortfolio.toFixed(2)}`);
   rows.push(`Portfolio Change,${portfolioChange.toFixed(2)}`);
+  rows.push(`Final Net Worth,${finalNetWorth.toFixed(2)}`);
   rows.push(`Success,${success}`);
   
   return rows.join('\n');
@@ -0,0 +1,93 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Earned Income - Wages and self-employment income during retirement
+ *
+ * Models part-time work or consulting while phasing into retirement. Earnings
+ * cover part of the spending need, are taxed as ordinary income plus FICA or
+ * self-employment tax, and count toward the Social Security earnings test.
+ *
+ * Methodology:
+ * 1. Earnings are paid each year the owner's age is between the start and end
+ *    ages (inclusive), while the owner is alive
+ * 2. Each year after the first, earnings grow by the raise rate
+ * 3. Wages owe FICA; self-employment income is net profit and owes SE tax
+ *
+ * Simplifications:
+ * - Only the withdrawal years are modeled; salary before retirement drives
+ *   contributions instead
+ * - No retirement plan contributions are made from these earnings
+ *
+ * See: https://www.irs.gov/taxtopics/tc751 and https://www.irs.gov/taxtopics/tc554
+ *
+ * @module earnedIncome
+ */
+
+import Big from 'big.js';
+import { HouseholdMember } from './types';
+import type { EarnedIncome, EarnedIncomeYearResult } from './types';
+import type { Household } from './household';
+
+/**
+ * A stream of wages or self-employment income along the household's timeline.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ *
+ * @example
+ * const consulting = new EarnedIncomeStream({
+ *   id: 'consulting',
+ *   incomeType: EarnedIncomeType.SELF_EMPLOYMENT,
+ *   startAge: 62,
+ *   endAge: 66,
+ *   annualAmount: toBig(40000),
+ *   growthRate: toBig(0.03),
+ * });
+ *
+ * consulting.calculateYear(household, 63).amount; // 41200
+ * consulting.calculateYear(household, 67).amount; // 0
+ */
+export class EarnedIncomeStream {
+  readonly id: string;
+  readonly nickname?: string;
+  private readonly definition: EarnedIncome;
+
+  /**
+   * Create an earned income stream from its definition.
+   *
+   * @param definition - Earned income definition
+   * @throws {Error} If amounts are negative or the end age is before the start age
+   */
+  constructor(definition: EarnedIncome) {
+    if (definition.annualAmount.lt(0) || definition.growthRate.lt(0)) {
+      throw new Error('Earned income amounts cannot be negative');
+    }
+    if (definition.endAge < definition.startAge) {
+      throw new Error('Earned income end age must not be before its start age');
+    }
+
+    this.id = definition.id;
+    this.nickname = definition.nickname;
+    this.definition = definition;
+  }
+
+  /**
+   * Calculate the earnings for the year.
+   *
+   * @param household - Household, for the owner's age and survival
+   * @param userAge - User's age this year
+   * @returns Earnings (0 outside the working years or after the owner's death)
+   */
+  calculateYear(household: Household, userAge: number): EarnedIncomeYearResult {
+    const { annualAmount, growthRate, startAge, endAge, incomeType } = this.definition;
+    const owner = this.definition.owner ?? HouseholdMember.USER;
+    const ownerAge = household.getAge(owner, userAge);
+
+    const working = ownerAge >= startAge && ownerAge <= endAge && household.isAlive(owner, userAge);
+
+    return {
+      earnedIncomeId: this.id,
+      incomeType,
+      owner,
+      amount: working ? annualAmount.times(growthRate.plus(1).pow(ownerAge - startAge)) : new Big(0),
+    };
+  }
+}
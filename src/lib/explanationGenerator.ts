@@ -64,7 +64,7 @@ export function generateExplanation(result: ProjectionResult): ExplanationResult
     0,
   );
   
-  const summary = generateSummary(
+  const summary = describeAccumulation(result) + generateSummary(
     result.scenarioName,
     totalYears,
     initialPortfolio,
@@ -107,6 +107,28 @@ export function generateExplanation(result: ProjectionResult): ExplanationResult
   };
 }
 
+/**
+ * Describe the working years before retirement (empty if already retired).
+ */
+function describeAccumulation(result: ProjectionResult): string {
+  const years = result.accumulationYears;
+  if (years.length === 0) {
+    return '';
+  }
+
+  const totalSaved = years.reduce(
+    (total, year) => total + [...Object.values(year.contributions), ...Object.values(year.employerMatch)]
+      .reduce((sum, amount) => sum + amount.toNumber(), 0),
+    0,
+  );
+
+  return (
+    `Over ${years.length} working years from age ${years[0].age}, contributions of ` +
+    `$${formatCurrencyWithCents(totalSaved)} (including employer match) grow the portfolio from ` +
+    `$${formatCurrencyWithCents(years[0].totalPortfolioValue.toNumber())} until retirement. `
+  );
+}
+
 /**
  * Generate executive summary.
  */
@@ -337,6 +359,16 @@ function identifyMilestones(dataPoints: ChartDataPoint[]): string[] {
       `$${formatCurrencyWithCents(firstSsa.socialSecurity)}/year`,
     );
   }
+
+  // Pensions and annuities (if any)
+  const pensionYears = dataPoints.filter(d => d.pensionIncome > 0);
+  if (pensionYears.length > 0) {
+    const firstPension = pensionYears[0];
+    milestones.push(
+      `Pension income begins: Age ${firstPension.age} (year ${firstPension.year}) - ` +
+      `$${formatCurrencyWithCents(firstPension.pensionIncome)}/year`,
+    );
+  }
   
   // Account depletion milestones
   for (let i = 1; i < dataPoints.length; i++) {
@@ -352,6 +384,21 @@ function identifyMilestones(dataPoints: ChartDataPoint[]): string[] {
     if (current.rothBalance === 0 && previous.rothBalance > 0) {
       milestones.push(`Roth accounts depleted: Year ${current.year} (age ${current.age})`);
     }
+    if (current.liabilities === 0 && previous.liabilities > 0) {
+      milestones.push(`Mortgages paid off: Year ${current.year} (age ${current.age})`);
+    }
+    if (current.filingStatus !== previous.filingStatus) {
+      milestones.push(
+        `Filing status changes to ${current.filingStatus}: Year ${current.year} (age ${current.age}) - ` +
+        'the survivor files alone after the first death',
+      );
+    }
+    if (current.realEstateValue < previous.realEstateValue) {
+      milestones.push(
+        `Property sold: Year ${current.year} (age ${current.age}) - ` +
+        `$${formatCurrencyWithCents(previous.realEstateValue - current.realEstateValue)} of real estate`,
+      );
+    }
   }
   
   return milestones.length > 0 ? milestones : ['No significant milestones identified'];
@@ -418,12 +465,12 @@ function generateRecommendations(
   }
   
   // IRMAA considerations
-  const highIncomeYears = dataPoints.filter(d => 
-    (d.traditionalWithdrawal + d.socialSecurity) > 100000,
-  );
-  if (highIncomeYears.length > dataPoints.length * 0.3) {
+  const irmaaYears = dataPoints.filter(d => d.irmaaSurcharge < 0);
+  if (irmaaYears.length > 0) {
+    const totalIRMAA = irmaaYears.reduce((sum, d) => sum + Math.abs(d.irmaaSurcharge), 0);
     recommendations.push(
-      'Multiple years near IRMAA thresholds ($103k single/$206k joint) - plan withdrawals to avoid Medicare surcharges',
+      `Medicare IRMAA surcharges apply in ${irmaaYears.length} years ` +
+      `(total $${formatCurrencyWithCents(totalIRMAA)}) - plan withdrawals to keep MAGI below the next tier`,
     );
   }
   
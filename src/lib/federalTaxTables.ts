@@ -0,0 +1,290 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Federal Tax Tables
+ *
+ * Published federal tax parameters by tax year: standard deductions and
+ * the additional amount for filers aged 65 or older, personal exemptions
+ * (zero since 2018), ordinary brackets (10% through 37%), long-term capital
+ * gains and qualified dividend thresholds, the cap on deducted state and
+ * local taxes (SALT), the senior deduction, and the Social Security wage
+ * base. The FederalTaxCalculator indexes the last published year for later
+ * years; add a year here once the IRS publishes it.
+ *
+ * 2025 and 2026 include the One Big Beautiful Bill Act: the standard
+ * deduction increase, the $40,000 SALT cap lowered by 30% of MAGI above
+ * $500,000 (down to $10,000), and the $6,000 senior deduction. Its scheduled
+ * changes through 2030 are in SCHEDULED_TAX_CHANGES.
+ *
+ * PRE_TCJA_TAX_TABLES holds the income tax law before the 2017 Tax Cuts and
+ * Jobs Act, for scenarios where brackets revert: the 2018 amounts published
+ * under prior law, grown to 2026 by the 28.1% growth of the 22% and 24%
+ * bracket thresholds over the same years and rounded down to $50. The
+ * personal exemption ($5,300) applies per filer, without dependents, on top
+ * of the standard or itemized deductions; current law sets it to zero.
+ * Prior law had no SALT cap or senior deduction.
+ *
+ * See: https://www.irs.gov/pub/irs-drop/rp-17-58.pdf (2018 prior law),
+ * https://www.irs.gov/pub/irs-drop/rp-23-34.pdf (2024),
+ * https://www.irs.gov/pub/irs-drop/rp-24-40.pdf (2025),
+ * https://www.irs.gov/pub/irs-drop/rp-25-32.pdf (2026) and
+ * https://www.ssa.gov/oact/cola/cbb.html
+ *
+ * @module federalTaxTables
+ */
+
+import { toBig } from './bigHelpers';
+import { FilingStatus } from './types';
+import type { FederalTaxParameters, IncomeTaxParameters, SeniorDeduction } from './types';
+
+/**
+ * Deduction of $6,000 per filer aged 65 or older from 2025 through 2028,
+ * reduced by 6% of MAGI above the threshold.
+ */
+const OBBBA_SENIOR_DEDUCTION: SeniorDeduction = {
+  amount: toBig('6000'),
+  phaseOutThresholds: {
+    [FilingStatus.SINGLE]: toBig('75000'),
+    [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('150000'),
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('75000'),
+  },
+};
+
+/**
+ * Federal tax parameters by tax year, in ascending order.
+ */
+export const FEDERAL_TAX_TABLES: Record<number, FederalTaxParameters> = {
+  2024: {
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('14600'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('29200'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('21900'),
+    },
+    additionalStandardDeduction: {
+      [FilingStatus.SINGLE]: toBig('1950'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('1550'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('1950'),
+    },
+    personalExemption: toBig('0'),
+    ordinaryBrackets: {
+      [FilingStatus.SINGLE]: [
+        [toBig('11600'), toBig('0.10')],
+        [toBig('47150'), toBig('0.12')],
+        [toBig('100525'), toBig('0.22')],
+        [toBig('191950'), toBig('0.24')],
+        [toBig('243725'), toBig('0.32')],
+        [toBig('609350'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [
+        [toBig('23200'), toBig('0.10')],
+        [toBig('94300'), toBig('0.12')],
+        [toBig('201050'), toBig('0.22')],
+        [toBig('383900'), toBig('0.24')],
+        [toBig('487450'), toBig('0.32')],
+        [toBig('731200'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+        [toBig('16550'), toBig('0.10')],
+        [toBig('63100'), toBig('0.12')],
+        [toBig('100500'), toBig('0.22')],
+        [toBig('191950'), toBig('0.24')],
+        [toBig('243700'), toBig('0.32')],
+        [toBig('609350'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+    },
+    ltcgThresholds: {
+      [FilingStatus.SINGLE]: [toBig('47025'), toBig('518900')],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [toBig('94050'), toBig('583750')],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [toBig('63000'), toBig('551350')],
+    },
+    saltCap: { cap: toBig('10000'), phaseDownThreshold: null },
+    seniorDeduction: null,
+    socialSecurityWageBase: toBig('168600'),
+  },
+  2025: {
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('15750'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('31500'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('23625'),
+    },
+    additionalStandardDeduction: {
+      [FilingStatus.SINGLE]: toBig('2000'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('1600'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('2000'),
+    },
+    personalExemption: toBig('0'),
+    ordinaryBrackets: {
+      [FilingStatus.SINGLE]: [
+        [toBig('11925'), toBig('0.10')],
+        [toBig('48475'), toBig('0.12')],
+        [toBig('103350'), toBig('0.22')],
+        [toBig('197300'), toBig('0.24')],
+        [toBig('250525'), toBig('0.32')],
+        [toBig('626350'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [
+        [toBig('23850'), toBig('0.10')],
+        [toBig('96950'), toBig('0.12')],
+        [toBig('206700'), toBig('0.22')],
+        [toBig('394600'), toBig('0.24')],
+        [toBig('501050'), toBig('0.32')],
+        [toBig('751600'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+        [toBig('17000'), toBig('0.10')],
+        [toBig('64850'), toBig('0.12')],
+        [toBig('103350'), toBig('0.22')],
+        [toBig('197300'), toBig('0.24')],
+        [toBig('250500'), toBig('0.32')],
+        [toBig('626350'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+    },
+    ltcgThresholds: {
+      [FilingStatus.SINGLE]: [toBig('48350'), toBig('533400')],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [toBig('96700'), toBig('600050')],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [toBig('64750'), toBig('566700')],
+    },
+    saltCap: { cap: toBig('40000'), phaseDownThreshold: toBig('500000') },
+    seniorDeduction: OBBBA_SENIOR_DEDUCTION,
+    socialSecurityWageBase: toBig('176100'),
+  },
+  2026: {
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('16100'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('32200'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('24150'),
+    },
+    additionalStandardDeduction: {
+      [FilingStatus.SINGLE]: toBig('2050'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('1650'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('2050'),
+    },
+    personalExemption: toBig('0'),
+    ordinaryBrackets: {
+      [FilingStatus.SINGLE]: [
+        [toBig('12400'), toBig('0.10')],
+        [toBig('50400'), toBig('0.12')],
+        [toBig('105700'), toBig('0.22')],
+        [toBig('201775'), toBig('0.24')],
+        [toBig('256225'), toBig('0.32')],
+        [toBig('640600'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [
+        [toBig('24800'), toBig('0.10')],
+        [toBig('100800'), toBig('0.12')],
+        [toBig('211400'), toBig('0.22')],
+        [toBig('403550'), toBig('0.24')],
+        [toBig('512450'), toBig('0.32')],
+        [toBig('768700'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+        [toBig('17700'), toBig('0.10')],
+        [toBig('67450'), toBig('0.12')],
+        [toBig('105700'), toBig('0.22')],
+        [toBig('201775'), toBig('0.24')],
+        [toBig('256200'), toBig('0.32')],
+        [toBig('640600'), toBig('0.35')],
+        [null, toBig('0.37')],
+      ],
+    },
+    ltcgThresholds: {
+      [FilingStatus.SINGLE]: [toBig('49450'), toBig('545500')],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [toBig('98900'), toBig('613700')],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [toBig('66200'), toBig('579600')],
+    },
+    saltCap: { cap: toBig('40400'), phaseDownThreshold: toBig('505000') },
+    seniorDeduction: OBBBA_SENIOR_DEDUCTION,
+    socialSecurityWageBase: toBig('184500'),
+  },
+};
+
+/**
+ * Changes set by law for years after the last published year, by tax year.
+ *
+ * The SALT cap and its phase-down threshold grow 1% a year through 2029
+ * (rounded to the dollar), then the cap returns to $10,000 without a
+ * phase-down in 2030. The senior deduction ends after 2028.
+ */
+export const SCHEDULED_TAX_CHANGES: Record<number, Pick<IncomeTaxParameters, 'saltCap' | 'seniorDeduction'>> = {
+  2027: {
+    saltCap: { cap: toBig('40804'), phaseDownThreshold: toBig('510050') },
+    seniorDeduction: OBBBA_SENIOR_DEDUCTION,
+  },
+  2028: {
+    saltCap: { cap: toBig('41212'), phaseDownThreshold: toBig('515151') },
+    seniorDeduction: OBBBA_SENIOR_DEDUCTION,
+  },
+  2029: {
+    saltCap: { cap: toBig('41624'), phaseDownThreshold: toBig('520302') },
+    seniorDeduction: null,
+  },
+  2030: {
+    saltCap: { cap: toBig('10000'), phaseDownThreshold: null },
+    seniorDeduction: null,
+  },
+};
+
+/**
+ * Pre-2018 income tax parameters projected to 2026, by tax year.
+ *
+ * Long-term capital gains rates follow the ordinary brackets as they did
+ * before 2018: 0% up to the top of the 15% bracket, 20% in the 39.6% bracket.
+ */
+export const PRE_TCJA_TAX_TABLES: Record<number, IncomeTaxParameters> = {
+  2026: {
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('8300'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('16650'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('12200'),
+    },
+    additionalStandardDeduction: {
+      [FilingStatus.SINGLE]: toBig('2000'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('1650'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('2000'),
+    },
+    personalExemption: toBig('5300'),
+    ordinaryBrackets: {
+      [FilingStatus.SINGLE]: [
+        [toBig('12200'), toBig('0.10')],
+        [toBig('49550'), toBig('0.15')],
+        [toBig('120000'), toBig('0.25')],
+        [toBig('250350'), toBig('0.28')],
+        [toBig('544350'), toBig('0.33')],
+        [toBig('546600'), toBig('0.35')],
+        [null, toBig('0.396')],
+      ],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [
+        [toBig('24400'), toBig('0.10')],
+        [toBig('99100'), toBig('0.15')],
+        [toBig('200000'), toBig('0.25')],
+        [toBig('304800'), toBig('0.28')],
+        [toBig('544350'), toBig('0.33')],
+        [toBig('614900'), toBig('0.35')],
+        [null, toBig('0.396')],
+      ],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+        [toBig('17400'), toBig('0.10')],
+        [toBig('66400'), toBig('0.15')],
+        [toBig('171450'), toBig('0.25')],
+        [toBig('277550'), toBig('0.28')],
+        [toBig('544350'), toBig('0.33')],
+        [toBig('580700'), toBig('0.35')],
+        [null, toBig('0.396')],
+      ],
+    },
+    ltcgThresholds: {
+      [FilingStatus.SINGLE]: [toBig('49550'), toBig('546600')],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [toBig('99100'), toBig('614900')],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [toBig('66400'), toBig('580700')],
+    },
+    saltCap: null,
+    seniorDeduction: null,
+  },
+};
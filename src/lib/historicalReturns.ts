@@ -0,0 +1,190 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Historical Returns - Bundled annual US market data for Monte Carlo
+ *
+ * Annual nominal total returns for US stocks (S&P 500 with dividends), bonds
+ * (10-year Treasury) and cash (3-month Treasury bills), from Damodaran's
+ * "Historical Returns on Stocks, Bonds and Bills" (NYU Stern), and
+ * December-to-December CPI-U inflation (Bureau of Labor Statistics), 1928-2023.
+ *
+ * Used by MonteCarloEngine for:
+ * - Rolling historical sequences (every start year, wrapping around at the end)
+ * - Block bootstrap resampling (random multi-year blocks)
+ *
+ * The projection engine works in real terms, so returns are converted to real
+ * returns per asset class; each account then blends them by its allocation.
+ *
+ * @module historicalReturns
+ */
+
+import Big from 'big.js';
+import type { AssetClassReturns, HistoricalReturn } from './types';
+
+/**
+ * Default block length in years for block bootstrap resampling.
+ */
+export const DEFAULT_BLOCK_SIZE = 5;
+
+// [year, stocks, bonds, cash, inflation] as decimals
+const ANNUAL_DATA: [number, number, number, number, number][] = [
+  [1928, 0.4381, 0.0084, 0.0308, -0.0116],
+  [1929, -0.083, 0.042, 0.0316, 0.0058],
+  [1930, -0.2512, 0.0454, 0.0455, -0.064],
+  [1931, -0.4384, -0.0256, 0.0231, -0.0932],
+  [1932, -0.0864, 0.0879, 0.0107, -0.1027],
+  [1933, 0.4998, 0.0186, 0.0096, 0.0076],
+  [1934, -0.0119, 0.0796, 0.0028, 0.0152],
+  [1935, 0.4674, 0.0447, 0.0017, 0.0299],
+  [1936, 0.3194, 0.0502, 0.0017, 0.0145],
+  [1937, -0.3534, 0.0138, 0.0028, 0.0286],
+  [1938, 0.2928, 0.0421, 0.0007, -0.0278],
+  [1939, -0.011, 0.0441, 0.0005, 0.0],
+  [1940, -0.1067, 0.054, 0.0004, 0.0071],
+  [1941, -0.1277, -0.0202, 0.0013, 0.0993],
+  [1942, 0.1917, 0.0229, 0.0034, 0.0903],
+  [1943, 0.2506, 0.0249, 0.0038, 0.0296],
+  [1944, 0.1903, 0.0258, 0.0038, 0.023],
+  [1945, 0.3582, 0.038, 0.0038, 0.0225],
+  [1946, -0.0843, 0.0313, 0.0038, 0.1813],
+  [1947, 0.052, 0.0092, 0.006, 0.0884],
+  [1948, 0.057, 0.0195, 0.0105, 0.0299],
+  [1949, 0.183, 0.0466, 0.0112, -0.0207],
+  [1950, 0.3081, 0.0043, 0.012, 0.0593],
+  [1951, 0.2368, -0.003, 0.0152, 0.06],
+  [1952, 0.1815, 0.0227, 0.0172, 0.0075],
+  [1953, -0.0121, 0.0414, 0.0189, 0.0075],
+  [1954, 0.5256, 0.0329, 0.0094, -0.0074],
+  [1955, 0.326, -0.0134, 0.0172, 0.0037],
+  [1956, 0.0744, -0.0226, 0.0262, 0.0299],
+  [1957, -0.1046, 0.068, 0.0322, 0.029],
+  [1958, 0.4372, -0.021, 0.0177, 0.0176],
+  [1959, 0.1206, -0.0265, 0.0339, 0.0173],
+  [1960, 0.0034, 0.1164, 0.0287, 0.0136],
+  [1961, 0.2664, 0.0206, 0.0235, 0.0067],
+  [1962, -0.0881, 0.0569, 0.0277, 0.0133],
+  [1963, 0.2261, 0.0168, 0.0316, 0.0164],
+  [1964, 0.1642, 0.0373, 0.0355, 0.0097],
+  [1965, 0.124, 0.0072, 0.0395, 0.0192],
+  [1966, -0.0997, 0.0291, 0.0486, 0.0346],
+  [1967, 0.238, -0.0158, 0.0429, 0.0304],
+  [1968, 0.1081, 0.0327, 0.0534, 0.0472],
+  [1969, -0.0824, -0.0501, 0.0667, 0.062],
+  [1970, 0.0356, 0.1675, 0.0639, 0.0557],
+  [1971, 0.1422, 0.0979, 0.0433, 0.0327],
+  [1972, 0.1876, 0.0282, 0.0406, 0.0341],
+  [1973, -0.1431, 0.0366, 0.0704, 0.0871],
+  [1974, -0.259, 0.0199, 0.0785, 0.1234],
+  [1975, 0.37, 0.0361, 0.0579, 0.0694],
+  [1976, 0.2383, 0.1598, 0.0498, 0.0486],
+  [1977, -0.0698, 0.0129, 0.0527, 0.067],
+  [1978, 0.0651, -0.0078, 0.0719, 0.0902],
+  [1979, 0.1852, 0.0067, 0.1007, 0.1329],
+  [1980, 0.3174, -0.0299, 0.1143, 0.1252],
+  [1981, -0.047, 0.082, 0.1403, 0.0892],
+  [1982, 0.2042, 0.3281, 0.1061, 0.0383],
+  [1983, 0.2234, 0.032, 0.0861, 0.0379],
+  [1984, 0.0615, 0.1373, 0.0952, 0.0395],
+  [1985, 0.3124, 0.2571, 0.0748, 0.038],
+  [1986, 0.1849, 0.2428, 0.0598, 0.011],
+  [1987, 0.0581, -0.0496, 0.0578, 0.0443],
+  [1988, 0.1654, 0.0822, 0.0667, 0.0442],
+  [1989, 0.3148, 0.1769, 0.0811, 0.0465],
+  [1990, -0.0306, 0.0624, 0.0749, 0.0611],
+  [1991, 0.3023, 0.15, 0.0538, 0.0306],
+  [1992, 0.0749, 0.0936, 0.0343, 0.029],
+  [1993, 0.0997, 0.1421, 0.03, 0.0275],
+  [1994, 0.0133, -0.0804, 0.0425, 0.0267],
+  [1995, 0.372, 0.2348, 0.0549, 0.0254],
+  [1996, 0.2268, 0.0143, 0.0501, 0.0332],
+  [1997, 0.331, 0.0994, 0.0506, 0.017],
+  [1998, 0.2834, 0.1492, 0.0478, 0.0161],
+  [1999, 0.2089, -0.0825, 0.0464, 0.0268],
+  [2000, -0.0903, 0.1666, 0.0582, 0.0339],
+  [2001, -0.1185, 0.0557, 0.034, 0.0155],
+  [2002, -0.2197, 0.1512, 0.0161, 0.0238],
+  [2003, 0.2836, 0.0038, 0.0101, 0.0188],
+  [2004, 0.1074, 0.0449, 0.0137, 0.0326],
+  [2005, 0.0483, 0.0287, 0.0315, 0.0342],
+  [2006, 0.1561, 0.0196, 0.0473, 0.0254],
+  [2007, 0.0548, 0.1021, 0.0436, 0.0408],
+  [2008, -0.3655, 0.201, 0.0137, 0.0009],
+  [2009, 0.2594, -0.1112, 0.0015, 0.0272],
+  [2010, 0.1482, 0.0846, 0.0014, 0.015],
+  [2011, 0.021, 0.1604, 0.0005, 0.0296],
+  [2012, 0.1589, 0.0297, 0.0009, 0.0174],
+  [2013, 0.3215, -0.091, 0.0006, 0.015],
+  [2014, 0.1352, 0.1075, 0.0003, 0.0076],
+  [2015, 0.0138, 0.0128, 0.0005, 0.0073],
+  [2016, 0.1177, 0.0069, 0.0032, 0.0207],
+  [2017, 0.2161, 0.028, 0.0093, 0.0211],
+  [2018, -0.0423, -0.0002, 0.0194, 0.0191],
+  [2019, 0.3121, 0.0964, 0.0206, 0.0229],
+  [2020, 0.1802, 0.1133, 0.0035, 0.0136],
+  [2021, 0.2847, -0.0442, 0.0005, 0.0704],
+  [2022, -0.1804, -0.1783, 0.0202, 0.0645],
+  [2023, 0.2606, 0.0388, 0.0507, 0.0335],
+];
+
+/**
+ * Annual historical returns and inflation, oldest first.
+ */
+export const HISTORICAL_RETURNS: readonly HistoricalReturn[] = ANNUAL_DATA.map(
+  ([year, stocks, bonds, cash, inflation]) => ({ year, stocks, bonds, cash, inflation }),
+);
+
+/**
+ * Calculate real returns by asset class for one historical year.
+ *
+ * real = (1 + nominal) / (1 + inflation) − 1
+ *
+ * @param data - Historical year
+ * @returns Real (inflation-adjusted) returns as decimals
+ */
+export function getRealAssetReturns(data: HistoricalReturn): AssetClassReturns {
+  const inflationFactor = new Big(data.inflation).plus(1);
+  const toReal = (nominal: number): Big => new Big(nominal).plus(1).div(inflationFactor).minus(1);
+
+  return {
+    stocks: toReal(data.stocks),
+    bonds: toReal(data.bonds),
+    cash: toReal(data.cash),
+  };
+}
+
+/**
+ * Get a sequence of consecutive historical real returns.
+ *
+ * Sequences that run past the last year wrap around to the first year, so
+ * every start year yields a full-length sequence; callers that report a
+ * start year as history should skip wrapped sequences.
+ *
+ * @param startIndex - Index into HISTORICAL_RETURNS of the first year
+ * @param numYears - Length of the sequence
+ * @returns Real returns by asset class, one entry per year
+ *
+ * @example
+ * // 30 years starting in 1966
+ * const returns = getHistoricalSequence(getHistoricalIndex(1966), 30);
+ */
+export function getHistoricalSequence(startIndex: number, numYears: number): AssetClassReturns[] {
+  const returns: AssetClassReturns[] = [];
+  for (let i = 0; i < numYears; i++) {
+    returns.push(getRealAssetReturns(HISTORICAL_RETURNS[(startIndex + i) % HISTORICAL_RETURNS.length]));
+  }
+  return returns;
+}
+
+/**
+ * Get the index of a year in HISTORICAL_RETURNS.
+ *
+ * @param year - Calendar year
+ * @returns Index of the year
+ * @throws {Error} If the year is not in the dataset
+ */
+export function getHistoricalIndex(year: number): number {
+  const index = HISTORICAL_RETURNS.findIndex((data) => data.year === year);
+  if (index < 0) {
+    throw new Error(`No historical data for ${year}`);
+  }
+  return index;
+}
@@ -0,0 +1,153 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Household - Ages, survival and filing status of the user and spouse
+ *
+ * A projection follows the user's age year by year. This module maps that
+ * timeline to each household member: the spouse's age, who is still alive,
+ * who holds an account once its owner has died, and the filing status.
+ *
+ * Methodology:
+ * 1. Each member's age is the user's age shifted by the difference in birth years
+ * 2. A member is alive through the year they reach their life expectancy
+ * 3. The survivor files jointly in the year of the first death, then as single
+ * 4. Accounts of a deceased member pass to the surviving spouse, who treats
+ *    them as their own (spousal rollover), so RMDs follow the survivor's age
+ *
+ * Simplifications:
+ * - Deaths happen at the end of the year
+ * - No qualifying surviving spouse status (requires a dependent child)
+ * - The projection ends once every member with a life expectancy has died
+ *
+ * See: https://www.irs.gov/publications/p501 and https://www.irs.gov/publications/p590b
+ *
+ * @module household
+ */
+
+import { FilingStatus, HouseholdMember } from './types';
+import type { UserProfile } from './types';
+
+/**
+ * The user and optional spouse, tracked along the user's age.
+ *
+ * @example
+ * const household = new Household({
+ *   birthYear: 1960,
+ *   retirementAge: 65,
+ *   filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+ *   lifeExpectancy: 85,
+ *   spouse: { birthYear: 1963, retirementAge: 65 },
+ * });
+ *
+ * household.getAge(HouseholdMember.SPOUSE, 70); // 67
+ * household.getFilingStatus(85); // 'mfj' (year of death)
+ * household.getFilingStatus(86); // 'single'
+ * household.getAccountHolder(HouseholdMember.USER, 86); // 'spouse'
+ */
+export class Household {
+  private readonly user: UserProfile;
+
+  /**
+   * Create a household from the user profile.
+   *
+   * @param user - User profile, with the spouse if any
+   */
+  constructor(user: UserProfile) {
+    this.user = user;
+  }
+
+  /**
+   * Check whether the household has a spouse.
+   *
+   * @returns true if the user profile has a spouse
+   */
+  hasSpouse(): boolean {
+    return this.user.spouse !== undefined;
+  }
+
+  /**
+   * Get a member's birth year.
+   *
+   * @param member - Household member (the user if there is no spouse)
+   * @returns Birth year
+   */
+  getBirthYear(member: HouseholdMember): number {
+    const spouse = member === HouseholdMember.SPOUSE ? this.user.spouse : undefined;
+    return (spouse ?? this.user).birthYear;
+  }
+
+  /**
+   * Get a member's age when the user reaches a given age.
+   *
+   * @param member - Household member
+   * @param userAge - User's age
+   * @returns Member's age
+   */
+  getAge(member: HouseholdMember, userAge: number): number {
+    return userAge + this.user.birthYear - this.getBirthYear(member);
+  }
+
+  /**
+   * Get a member's life expectancy.
+   *
+   * @param member - Household member
+   * @returns Last age lived, or undefined if alive for the whole projection
+   */
+  getLifeExpectancy(member: HouseholdMember): number | undefined {
+    const person = member === HouseholdMember.SPOUSE ? this.user.spouse : this.user;
+    return person?.lifeExpectancy;
+  }
+
+  /**
+   * Check whether a member is alive when the user reaches a given age.
+   *
+   * @param member - Household member
+   * @param userAge - User's age
+   * @returns true if the member exists and has not passed their life expectancy
+   */
+  isAlive(member: HouseholdMember, userAge: number): boolean {
+    if (member === HouseholdMember.SPOUSE && !this.hasSpouse()) {
+      return false;
+    }
+    const lifeExpectancy = this.getLifeExpectancy(member);
+    return lifeExpectancy === undefined || this.getAge(member, userAge) <= lifeExpectancy;
+  }
+
+  /**
+   * Get the living household members.
+   *
+   * @param userAge - User's age
+   * @returns Members alive this year
+   */
+  getLivingMembers(userAge: number): HouseholdMember[] {
+    return [HouseholdMember.USER, HouseholdMember.SPOUSE].filter((member) => this.isAlive(member, userAge));
+  }
+
+  /**
+   * Get the filing status for the year.
+   *
+   * @param userAge - User's age
+   * @returns Profile filing status, or single from the year after the first death
+   */
+  getFilingStatus(userAge: number): FilingStatus {
+    // Deaths happen at year end, so the year of death is still a joint year
+    if (this.hasSpouse() && this.getLivingMembers(userAge).length < 2) {
+      return FilingStatus.SINGLE;
+    }
+    return this.user.filingStatus;
+  }
+
+  /**
+   * Get who holds an account this year.
+   *
+   * @param owner - Original owner of the account
+   * @param userAge - User's age
+   * @returns The owner, or the surviving spouse once the owner has died
+   */
+  getAccountHolder(owner: HouseholdMember, userAge: number): HouseholdMember {
+    if (this.isAlive(owner, userAge)) {
+      return owner;
+    }
+    const other = owner === HouseholdMember.USER ? HouseholdMember.SPOUSE : HouseholdMember.USER;
+    return this.isAlive(other, userAge) ? other : owner;
+  }
+}
@@ -0,0 +1,189 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Medicare IRMAA Calculator (2024 parameters)
+ *
+ * Computes the Income-Related Monthly Adjustment Amount (IRMAA) that
+ * higher-income Medicare beneficiaries pay on top of the standard Part B
+ * and Part D premiums.
+ *
+ * Methodology:
+ * 1. Premiums for a year are based on MAGI from two years earlier (lookback)
+ * 2. MAGI is compared to tier thresholds for the filing status
+ * 3. Each tier adds a fixed monthly amount to Part B and Part D premiums
+ * 4. The annual surcharge is the monthly adjustments times 12
+ *
+ * Thresholds are published for 2024 and grow with the indexation rate in
+ * later premium years, rounded to the nearest $1,000. The top tier stays
+ * frozen until it starts being indexed in 2028.
+ *
+ * Simplifications:
+ * - Surcharges are per beneficiary; the caller multiplies them by the
+ *   household members enrolled in Medicare
+ * - Head of household uses single thresholds
+ * - Tiers use "MAGI above threshold" throughout (the top tier is technically
+ *   "at or above")
+ * - Part B and Part D adjustments stay at their 2024 amounts
+ * - Joint thresholds are indexed on their own rather than set to twice the
+ *   single ones
+ *
+ * See: https://www.ssa.gov/benefits/medicare/medicare-premiums.html
+ */
+
+import Big from 'big.js';
+import { toBig, multiply, add } from './bigHelpers';
+import { FilingStatus } from './types';
+import type { IRMAAResult } from './types';
+
+/**
+ * IRMAA tier definition: [MAGI threshold, Part B monthly adjustment, Part D monthly adjustment]
+ * The tier applies when MAGI is above the threshold.
+ */
+type IRMAATier = [Big, Big, Big];
+
+/**
+ * Medicare IRMAA Calculator using 2024 premium adjustments.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ */
+export class IRMAACalculator {
+  private readonly indexationRate: Big;
+
+  /**
+   * Age at which Medicare premiums (and IRMAA) start.
+   */
+  static readonly MEDICARE_AGE = 65;
+
+  /**
+   * Number of years between the MAGI year and the premium year.
+   */
+  static readonly LOOKBACK_YEARS = 2;
+
+  // Premium year of the published tiers, first premium year the top tier is
+  // indexed, and rounding of indexed thresholds
+  private static readonly TIERS_YEAR = 2024;
+  private static readonly TOP_TIER_INDEXATION_YEAR = 2028;
+  private static readonly INDEXATION_ROUNDING = 1000;
+
+  /**
+   * IRMAA tiers for 2024 (based on 2022 MAGI).
+   * Tiers are in ascending order of threshold.
+   */
+  private static readonly TIERS: Record<FilingStatus, IRMAATier[]> = {
+    [FilingStatus.SINGLE]: [
+      [toBig('103000'), toBig('69.90'), toBig('12.90')],
+      [toBig('129000'), toBig('174.70'), toBig('33.30')],
+      [toBig('161000'), toBig('279.50'), toBig('53.80')],
+      [toBig('193000'), toBig('384.30'), toBig('74.20')],
+      [toBig('500000'), toBig('419.30'), toBig('81.00')],
+    ],
+    [FilingStatus.MARRIED_FILING_JOINTLY]: [
+      [toBig('206000'), toBig('69.90'), toBig('12.90')],
+      [toBig('258000'), toBig('174.70'), toBig('33.30')],
+      [toBig('322000'), toBig('279.50'), toBig('53.80')],
+      [toBig('386000'), toBig('384.30'), toBig('74.20')],
+      [toBig('750000'), toBig('419.30'), toBig('81.00')],
+    ],
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+      [toBig('103000'), toBig('69.90'), toBig('12.90')],
+      [toBig('129000'), toBig('174.70'), toBig('33.30')],
+      [toBig('161000'), toBig('279.50'), toBig('53.80')],
+      [toBig('193000'), toBig('384.30'), toBig('74.20')],
+      [toBig('500000'), toBig('419.30'), toBig('81.00')],
+    ],
+  };
+
+  /**
+   * Create an IRMAA calculator.
+   *
+   * @param indexationRate - Yearly growth of the thresholds after 2024 (default: 0)
+   * @throws {Error} If the indexation rate is negative
+   */
+  constructor(indexationRate: Big | number | string = 0) {
+    this.indexationRate = toBig(indexationRate);
+    if (this.indexationRate.lt(0)) {
+      throw new Error('IRMAA indexation rate cannot be negative');
+    }
+  }
+
+  /**
+   * Calculate the IRMAA surcharge for a MAGI.
+   *
+   * @param magi - Modified AGI from the lookback year
+   * @param filingStatus - Filing status from the lookback year
+   * @param year - Premium year (the thresholds are indexed to it)
+   * @returns Tier and Part B/Part D adjustments (zero when below the first tier)
+   *
+   * @example
+   * const calculator = new IRMAACalculator();
+   * const result = calculator.calculate(toBig(140000), FilingStatus.SINGLE, 2024);
+   * // result.tier === 2, result.annualSurcharge === 2496 ((174.70 + 33.30) * 12)
+   */
+  calculate(magi: Big, filingStatus: FilingStatus, year: number): IRMAAResult {
+    const tiers = this.getTiers(filingStatus, year);
+
+    let tier = 0;
+    let partBMonthly = toBig('0');
+    let partDMonthly = toBig('0');
+
+    for (const [threshold, partB, partD] of tiers) {
+      if (magi.lte(threshold)) {
+        break;
+      }
+      tier += 1;
+      partBMonthly = partB;
+      partDMonthly = partD;
+    }
+
+    return {
+      tier,
+      partBMonthly,
+      partDMonthly,
+      annualSurcharge: multiply(add(partBMonthly, partDMonthly), toBig('12')),
+    };
+  }
+
+  /**
+   * Get the highest MAGI that stays in the same tier as a given MAGI.
+   *
+   * Income up to this value does not raise the surcharge.
+   *
+   * @param magi - Current MAGI
+   * @param filingStatus - Filing status
+   * @param year - Premium year the MAGI is looked back from
+   * @returns Next tier threshold, or null if already in the top tier
+   *
+   * @example
+   * const calculator = new IRMAACalculator();
+   * calculator.getTierCeiling(toBig(90000), FilingStatus.SINGLE, 2024); // Big(103000)
+   * calculator.getTierCeiling(toBig(600000), FilingStatus.SINGLE, 2024); // null
+   */
+  getTierCeiling(magi: Big, filingStatus: FilingStatus, year: number): Big | null {
+    for (const [threshold] of this.getTiers(filingStatus, year)) {
+      if (magi.lte(threshold)) {
+        return threshold;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the tiers of a premium year, with indexed thresholds.
+   *
+   * @param filingStatus - Filing status
+   * @param year - Premium year
+   * @returns Tiers in ascending order of threshold
+   */
+  private getTiers(filingStatus: FilingStatus, year: number): IRMAATier[] {
+    const tiers = IRMAACalculator.TIERS[filingStatus];
+    const growth = this.indexationRate.plus(1);
+    const rounding = IRMAACalculator.INDEXATION_ROUNDING;
+
+    return tiers.map(([threshold, partB, partD], index) => {
+      const indexedSince =
+        index === tiers.length - 1 ? IRMAACalculator.TOP_TIER_INDEXATION_YEAR - 1 : IRMAACalculator.TIERS_YEAR;
+      const factor = growth.pow(Math.max(year - indexedSince, 0));
+      const indexed = threshold.times(factor).div(rounding).round(0, Big.roundHalfUp).times(rounding);
+      return [indexed, partB, partD];
+    });
+  }
+}
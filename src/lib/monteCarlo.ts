@@ -9,16 +9,70 @@
  * Key features:
  * - Multiple simulation runs (typically 1000) with stochastic returns
  * - Normal distribution return generation using Box-Muller transform
+ * - Per-asset-class returns: correlated stock/bond/cash returns (Cholesky),
+ *   blended by each account's allocation
+ * - Alternative return models: rolling historical sequences and block
+ *   bootstrap resampling of bundled historical data (see historicalReturns.ts),
+ *   plus replay of the worst historical start year
+ * - Seeded, pluggable random number generation: the same seed reproduces
+ *   the same runs exactly (the seed is stored on the result)
  * - Percentile analysis (10th, 50th, 90th) of final portfolio values
  * - Success rate calculation (% of runs that didn't deplete)
  * - Representative runs at each percentile for visualization
+ * - Per-year percentile bands (5/25/50/75/95) of portfolio and net income,
+ *   and probability of depletion by age (fan chart)
+ * - Batched asynchronous execution with progress, partial results and cancellation
+ *   (used by the Web Worker in monteCarlo.worker.ts)
  *
  * @module monteCarlo
  */
 
 import Big from 'big.js';
 import { ProjectionEngine } from './projectionEngine';
-import type { Scenario, ProjectionResult, MonteCarloResult } from './types';
+import {
+  choleskyDecomposition,
+  createSeededRandom,
+  deriveSeed,
+  generateSeed,
+  isValidSeed,
+  standardNormal,
+} from './random';
+import type { RandomSource, RandomSourceFactory } from './random';
+import { DEFAULT_CAPITAL_MARKET_ASSUMPTIONS, uniformReturns } from './assetAllocation';
+import {
+  DEFAULT_BLOCK_SIZE,
+  HISTORICAL_RETURNS,
+  getHistoricalIndex,
+  getHistoricalSequence,
+} from './historicalReturns';
+import { ReturnModel } from './types';
+import type {
+  Scenario,
+  ProjectionResult,
+  MonteCarloResult,
+  MonteCarloYearBands,
+  PercentileBands,
+  ReturnModelConfig,
+  HistoricalStart,
+  AssetClassReturns,
+  AssetClassAssumption,
+  CapitalMarketAssumptions,
+} from './types';
+
+/**
+ * Default return model: independent normal returns.
+ */
+const NORMAL_RETURN_MODEL: ReturnModelConfig = { model: ReturnModel.NORMAL };
+
+/**
+ * Callbacks and options for batched Monte Carlo execution.
+ */
+export interface MonteCarloBatchOptions {
+  batchSize: number; // Runs per batch (control returns to the event loop between batches)
+  onProgress?: (runsCompleted: number, totalRuns: number) => void;
+  onPartial?: (result: MonteCarloResult) => void; // Aggregate of the runs completed so far
+  isCancelled?: () => boolean;
+}
 
 /**
  * MonteCarloEngine - Runs stochastic retirement simulations.
@@ -53,15 +107,42 @@ import type { Scenario, ProjectionResult, MonteCarloResult } from './types';
  */
 export class MonteCarloEngine {
   private scenario: Scenario;
+  private seed: number;
+  private createRandom: RandomSourceFactory;
 
   /**
    * Initialize Monte Carlo engine with a scenario.
    *
+   * Each run draws its returns from its own generator, seeded from the base
+   * seed and the run number, so results do not depend on batching.
+   *
    * @param scenario - Scenario definition with accounts, policy, and user profile
+   * @param seed - Base seed (unsigned 32-bit integer); random if omitted
+   * @param createRandom - PRNG factory (default: mulberry32)
+   * @throws {Error} If seed is not an unsigned 32-bit integer
    */
-  constructor(scenario: Scenario) {
+  constructor(
+    scenario: Scenario,
+    seed: number = generateSeed(),
+    createRandom: RandomSourceFactory = createSeededRandom,
+  ) {
     this.scenario = scenario;
+    this.seed = seed;
+    this.createRandom = createRandom;
     this.validateScenario();
+
+    if (!isValidSeed(seed)) {
+      throw new Error('seed must be an integer between 0 and 4294967295');
+    }
+  }
+
+  /**
+   * Get the base seed used by this engine.
+   *
+   * @returns Seed to pass back to the constructor to reproduce results
+   */
+  getSeed(): number {
+    return this.seed;
   }
 
   /**
@@ -95,6 +176,7 @@ export class MonteCarloEngine {
    * - Success rate (% of runs where portfolio lasted entire period)
    * - Percentile analysis (10th, 50th, 90th) of final portfolio values
    * - Representative runs at each percentile for visualization
+   * - Per-year percentile bands and depletion probability across all runs
    *
    * The return distribution uses:
    * - meanReturn: Expected annual return (e.g., 0.07 for 7%)
@@ -103,10 +185,23 @@ export class MonteCarloEngine {
    * Returns can be negative (bear markets) and are generated independently
    * for each year using the Box-Muller transform.
    *
+   * meanReturn and volatility apply to the NORMAL model only, where every
+   * asset class gets the same return. Other models produce returns per asset
+   * class, and each account grows at the blend of its own allocation:
+   * - MULTI_ASSET_NORMAL: correlated normal returns for stocks, bonds and
+   *   cash (capital market assumptions in the config, or defaults)
+   * - HISTORICAL_ROLLING: run N replays history from start year N (cycling
+   *   through the dataset); use HISTORICAL_RETURNS.length runs to cover each
+   *   start year once. The result includes the worst start year among the
+   *   sequences that fit in the dataset without wrapping.
+   * - BLOCK_BOOTSTRAP: each run chains random blocks of consecutive years,
+   *   keeping fat tails and short-term serial correlation.
+   *
    * @param numRuns - Number of simulation runs (typically 1000)
-   * @param maxYears - Maximum years to simulate per run (default 40)
+   * @param maxYears - Maximum years to simulate per run after retirement (default 40)
    * @param meanReturn - Expected annual return rate as decimal (e.g., 0.07)
    * @param volatility - Standard deviation of returns as decimal (e.g., 0.12)
+   * @param returnModel - Return generator (default: normal returns)
    * @returns MonteCarloResult with success rate and percentile analysis
    *
    * @example
@@ -120,35 +215,172 @@ export class MonteCarloEngine {
    * @example
    * // Low volatility scenario (5% standard deviation)
    * const lowVol = engine.runMonteCarlo(1000, 30, new Big(0.07), new Big(0.05));
+   *
+   * @example
+   * // Every historical start year
+   * const historical = engine.runMonteCarlo(HISTORICAL_RETURNS.length, 30, new Big(0), new Big(0), {
+   *   model: ReturnModel.HISTORICAL_ROLLING,
+   * });
    */
   runMonteCarlo(
     numRuns: number,
     maxYears: number,
     meanReturn: Big,
     volatility: Big,
+    returnModel: ReturnModelConfig = NORMAL_RETURN_MODEL,
   ): MonteCarloResult {
-    if (numRuns <= 0) {
-      throw new Error('numRuns must be positive');
+    this.validateRunParameters(numRuns, maxYears, volatility);
+    this.validateReturnModel(returnModel);
+
+    const results: ProjectionResult[] = [];
+
+    // Run multiple simulations with random returns
+    for (let runNum = 0; runNum < numRuns; runNum++) {
+      results.push(this.simulateRun(runNum, maxYears, meanReturn, volatility, returnModel));
     }
 
-    if (maxYears <= 0) {
-      throw new Error('maxYears must be positive');
+    return this.aggregateResults(results, returnModel);
+  }
+
+  /**
+   * Run Monte Carlo simulation in batches, yielding between batches.
+   *
+   * Same results as runMonteCarlo, but control returns to the event loop after
+   * each batch so that progress can be reported and cancellation requests
+   * (e.g., Web Worker messages) can be received.
+   *
+   * @param numRuns - Number of simulation runs
+   * @param maxYears - Maximum years to simulate per run after retirement
+   * @param meanReturn - Expected annual return rate as decimal
+   * @param volatility - Standard deviation of returns as decimal
+   * @param options - Batch size and progress/partial/cancellation callbacks
+   * @param returnModel - Return generator (default: normal returns)
+   * @returns MonteCarloResult, or null if cancelled
+   *
+   * @example
+   * const result = await engine.runMonteCarloBatched(1000, 30, new Big(0.07), new Big(0.12), {
+   *   batchSize: 50,
+   *   onProgress: (done, total) => updateProgressBar(done / total),
+   * });
+   */
+  async runMonteCarloBatched(
+    numRuns: number,
+    maxYears: number,
+    meanReturn: Big,
+    volatility: Big,
+    options: MonteCarloBatchOptions,
+    returnModel: ReturnModelConfig = NORMAL_RETURN_MODEL,
+  ): Promise<MonteCarloResult | null> {
+    this.validateRunParameters(numRuns, maxYears, volatility);
+    this.validateReturnModel(returnModel);
+
+    const { batchSize, onProgress, onPartial, isCancelled } = options;
+    const results: ProjectionResult[] = [];
+
+    while (results.length < numRuns) {
+      if (isCancelled?.()) {
+        return null;
+      }
+
+      const batchEnd = Math.min(results.length + Math.max(batchSize, 1), numRuns);
+      for (let runNum = results.length; runNum < batchEnd; runNum++) {
+        results.push(this.simulateRun(runNum, maxYears, meanReturn, volatility, returnModel));
+      }
+
+      onProgress?.(results.length, numRuns);
+      if (results.length < numRuns) {
+        onPartial?.(this.aggregateResults(results, returnModel));
+        // Yield to the event loop so cancel messages can be processed
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
     }
 
-    if (volatility.lt(0)) {
-      throw new Error('volatility cannot be negative');
+    return this.aggregateResults(results, returnModel);
+  }
+
+  /**
+   * Run a single simulation with freshly generated returns.
+   *
+   * @param runNum - Run number (0-based, used for naming and rolling start year)
+   * @param maxYears - Years to simulate after retirement
+   * @param meanReturn - Expected annual return rate as decimal
+   * @param volatility - Standard deviation of returns as decimal
+   * @param returnModel - Return generator (default: normal returns)
+   * @returns ProjectionResult for this run
+   */
+  simulateRun(
+    runNum: number,
+    maxYears: number,
+    meanReturn: Big,
+    volatility: Big,
+    returnModel: ReturnModelConfig = NORMAL_RETURN_MODEL,
+  ): ProjectionResult {
+    const random = this.createRandom(deriveSeed(this.seed, runNum));
+    const engine = this.createRunEngine(runNum);
+
+    // Generate returns by asset class for all working and retirement years of this run
+    const numYears = engine.getAccumulationYears() + maxYears;
+    let returns: AssetClassReturns[];
+    switch (returnModel.model) {
+      case ReturnModel.MULTI_ASSET_NORMAL:
+        returns = this.generateCorrelatedReturns(
+          random,
+          numYears,
+          returnModel.assumptions ?? DEFAULT_CAPITAL_MARKET_ASSUMPTIONS,
+        );
+        break;
+      case ReturnModel.HISTORICAL_ROLLING:
+        returns = getHistoricalSequence(runNum % HISTORICAL_RETURNS.length, numYears);
+        break;
+      case ReturnModel.BLOCK_BOOTSTRAP:
+        returns = this.generateBootstrapReturns(random, numYears, returnModel.blockSize ?? DEFAULT_BLOCK_SIZE);
+        break;
+      default:
+        returns = this.generateRandomReturns(random, numYears, meanReturn, volatility).map(uniformReturns);
+        break;
     }
 
-    const results: ProjectionResult[] = [];
+    // Run projection with these returns
+    return engine.runProjectionWithAssetReturns(maxYears, returns);
+  }
 
-    // Run multiple simulations with random returns
-    for (let runNum = 0; runNum < numRuns; runNum++) {
-      // Generate random returns for all years of this run
-      const returns = this.generateRandomReturns(maxYears, meanReturn, volatility);
+  /**
+   * Replay history from a given start year.
+   *
+   * Runs one projection with the actual sequence of historical real returns
+   * starting in startYear (wrapping around past the last year of data). The
+   * sequence covers any working years before retirement first.
+   *
+   * @param startYear - First historical year of the sequence
+   * @param maxYears - Years to simulate after retirement
+   * @returns ProjectionResult for this historical sequence
+   * @throws {Error} If startYear is not in the dataset
+   *
+   * @example
+   * // Retiring just before the 1966-1982 stagflation
+   * const result = engine.runHistoricalReplay(1966, 30);
+   */
+  runHistoricalReplay(startYear: number, maxYears: number): ProjectionResult {
+    const startIndex = getHistoricalIndex(startYear);
+    const engine = this.createRunEngine(startIndex);
+    const returns = getHistoricalSequence(startIndex, engine.getAccumulationYears() + maxYears);
+    return engine.runProjectionWithAssetReturns(maxYears, returns);
+  }
 
-      // Run projection with these random returns
-      const result = this.runSingleProjection(returns, runNum);
-      results.push(result);
+  /**
+   * Aggregate simulation runs into success rate and percentiles.
+   *
+   * @param results - Completed projection runs (at least one), in run order
+   * @param returnModel - Return generator used for the runs
+   * @returns MonteCarloResult over the given runs
+   */
+  aggregateResults(
+    results: ProjectionResult[],
+    returnModel: ReturnModelConfig = NORMAL_RETURN_MODEL,
+  ): MonteCarloResult {
+    const numRuns = results.length;
+    if (numRuns === 0) {
+      throw new Error('Cannot aggregate zero runs');
     }
 
     // Analyze results
@@ -173,6 +405,8 @@ export class MonteCarloEngine {
     return {
       scenarioName: this.scenario.name,
       numRuns,
+      seed: this.seed,
+      returnModel: returnModel.model,
       successRate,
       medianFinalValue: medianRun.finalPortfolioValue,
       percentile10Value: worstCaseRun.finalPortfolioValue,
@@ -180,9 +414,255 @@ export class MonteCarloEngine {
       medianRun,
       worstCaseRun,
       bestCaseRun,
+      yearlyBands: this.calculateYearlyBands(results),
+      worstHistoricalStart: returnModel.model === ReturnModel.HISTORICAL_ROLLING
+        ? this.findWorstHistoricalStart(results)
+        : undefined,
     };
   }
 
+  /**
+   * Find the historical start year with the worst outcome.
+   *
+   * Depleted runs are worse than successful ones, earlier depletion is worse
+   * than later, and otherwise a lower final portfolio value is worse. Runs
+   * that wrap past the last year of data are skipped: joining the last year
+   * to the first is not a sequence that happened.
+   *
+   * @param results - Rolling historical runs, in run order
+   * @returns Worst start year and its run, or undefined if every run wraps
+   */
+  private findWorstHistoricalStart(results: ProjectionResult[]): HistoricalStart | undefined {
+    let worstIdx: number | null = null;
+    for (let idx = 0; idx < results.length; idx++) {
+      const yearsSimulated = results[idx].accumulationYears.length + results[idx].withdrawalPlans.length;
+      if ((idx % HISTORICAL_RETURNS.length) + yearsSimulated > HISTORICAL_RETURNS.length) {
+        continue;
+      }
+      if (worstIdx === null || this.compareOutcomes(results[idx], results[worstIdx]) < 0) {
+        worstIdx = idx;
+      }
+    }
+
+    return worstIdx === null
+      ? undefined
+      : { startYear: HISTORICAL_RETURNS[worstIdx % HISTORICAL_RETURNS.length].year, run: results[worstIdx] };
+  }
+
+  /**
+   * Order two runs from worst to best outcome.
+   *
+   * @param a - First run
+   * @param b - Second run
+   * @returns Negative if a is worse than b, positive if better, 0 if equal
+   */
+  private compareOutcomes(a: ProjectionResult, b: ProjectionResult): number {
+    if (a.success !== b.success) {
+      return a.success ? 1 : -1;
+    }
+    if (!a.success && a.withdrawalPlans.length !== b.withdrawalPlans.length) {
+      return a.withdrawalPlans.length - b.withdrawalPlans.length;
+    }
+    return a.finalPortfolioValue.cmp(b.finalPortfolioValue);
+  }
+
+  /**
+   * Calculate per-year percentile bands across all runs.
+   *
+   * Runs stop producing withdrawal plans once depleted, so a run with no plan
+   * for a year counts as zero portfolio and zero net income in that year.
+   *
+   * @param results - Completed projection runs
+   * @returns One entry per simulated year
+   */
+  private calculateYearlyBands(results: ProjectionResult[]): MonteCarloYearBands[] {
+    // Include the depletion year of runs that failed, so the depletion curve
+    // reaches 100% even if every run fails before the end of the horizon
+    const numYears = Math.max(...results.map((r) => r.withdrawalPlans.length + (r.success ? 0 : 1)));
+    const firstPlan = results.find((r) => r.withdrawalPlans.length > 0)?.withdrawalPlans[0];
+    if (!firstPlan) {
+      return [];
+    }
+
+    const zero = new Big(0);
+    const yearlyBands: MonteCarloYearBands[] = [];
+
+    for (let yearIdx = 0; yearIdx < numYears; yearIdx++) {
+      const year = firstPlan.year + yearIdx;
+      const portfolioValues: Big[] = [];
+      const netIncomeValues: Big[] = [];
+      let depletedCount = 0;
+
+      for (const result of results) {
+        const plan = result.withdrawalPlans[yearIdx];
+        portfolioValues.push(plan ? plan.totalPortfolioValue : zero);
+        netIncomeValues.push(plan ? plan.totalNetIncome : zero);
+        if (result.failureYear !== undefined && result.failureYear <= year) {
+          depletedCount++;
+        }
+      }
+
+      yearlyBands.push({
+        year,
+        age: firstPlan.age + yearIdx,
+        portfolio: this.calculatePercentileBands(portfolioValues),
+        netIncome: this.calculatePercentileBands(netIncomeValues),
+        depletionProbability: (depletedCount / results.length) * 100,
+      });
+    }
+
+    return yearlyBands;
+  }
+
+  /**
+   * Calculate 5th, 25th, 50th, 75th and 95th percentiles of a set of values.
+   *
+   * Uses the same nearest-rank indexing as the final value percentiles.
+   *
+   * @param values - Values across runs (at least one)
+   * @returns Percentile bands
+   */
+  private calculatePercentileBands(values: Big[]): PercentileBands {
+    const sorted = [...values].sort((a, b) => a.cmp(b));
+    const at = (percentile: number): Big =>
+      sorted[Math.min(Math.floor(sorted.length * percentile), sorted.length - 1)];
+
+    return {
+      p5: at(0.05),
+      p25: at(0.25),
+      p50: at(0.5),
+      p75: at(0.75),
+      p95: at(0.95),
+    };
+  }
+
+  /**
+   * Validate run parameters.
+   *
+   * @param numRuns - Number of simulation runs
+   * @param maxYears - Maximum years per run
+   * @param volatility - Standard deviation of returns
+   * @throws {Error} If any parameter is out of range
+   */
+  private validateRunParameters(numRuns: number, maxYears: number, volatility: Big): void {
+    if (!(numRuns > 0)) {
+      throw new Error('numRuns must be positive');
+    }
+
+    if (!(maxYears > 0)) {
+      throw new Error('maxYears must be positive');
+    }
+
+    if (volatility.lt(0)) {
+      throw new Error('volatility cannot be negative');
+    }
+  }
+
+  /**
+   * Validate return model parameters.
+   *
+   * @param returnModel - Return generator configuration
+   * @throws {Error} If block size or capital market assumptions are out of range
+   */
+  private validateReturnModel(returnModel: ReturnModelConfig): void {
+    const { blockSize, assumptions } = returnModel;
+
+    if (blockSize !== undefined && !(Number.isInteger(blockSize) && blockSize > 0)) {
+      throw new Error('blockSize must be a positive integer');
+    }
+
+    if (assumptions) {
+      if ([assumptions.stocks, assumptions.bonds, assumptions.cash].some((a) => a.volatility.lt(0))) {
+        throw new Error('volatility cannot be negative');
+      }
+      if (Object.values(assumptions.correlations).some((c) => !(c >= -1 && c <= 1))) {
+        throw new Error('correlations must be between -1 and 1');
+      }
+      // Throws if the correlations are inconsistent
+      choleskyDecomposition(this.buildCorrelationMatrix(assumptions));
+    }
+  }
+
+  /**
+   * Build the stocks/bonds/cash correlation matrix.
+   *
+   * @param assumptions - Capital market assumptions
+   * @returns 3×3 correlation matrix in stocks, bonds, cash order
+   */
+  private buildCorrelationMatrix(assumptions: CapitalMarketAssumptions): number[][] {
+    const { stocksBonds, stocksCash, bondsCash } = assumptions.correlations;
+    return [
+      [1, stocksBonds, stocksCash],
+      [stocksBonds, 1, bondsCash],
+      [stocksCash, bondsCash, 1],
+    ];
+  }
+
+  /**
+   * Generate correlated normal returns for each asset class.
+   *
+   * Draws three independent standard normals per year, correlates them with
+   * the Cholesky factor of the correlation matrix, then scales each by its
+   * asset class volatility and adds its mean.
+   *
+   * @param random - Uniform random source for this run
+   * @param numYears - Number of years (returns to generate)
+   * @param assumptions - Mean, volatility and correlations per asset class
+   * @returns Returns by asset class, one entry per year
+   */
+  private generateCorrelatedReturns(
+    random: RandomSource,
+    numYears: number,
+    assumptions: CapitalMarketAssumptions,
+  ): AssetClassReturns[] {
+    const lower = choleskyDecomposition(this.buildCorrelationMatrix(assumptions));
+    const returns: AssetClassReturns[] = [];
+
+    for (let year = 0; year < numYears; year++) {
+      const z = [standardNormal(random), standardNormal(random), standardNormal(random)];
+      const correlated = lower.map((row) => row.reduce((sum, weight, k) => sum + weight * z[k], 0));
+      const scale = (assumption: AssetClassAssumption, value: number): Big =>
+        assumption.meanReturn.plus(assumption.volatility.times(value));
+
+      returns.push({
+        stocks: scale(assumptions.stocks, correlated[0]),
+        bonds: scale(assumptions.bonds, correlated[1]),
+        cash: scale(assumptions.cash, correlated[2]),
+      });
+    }
+
+    return returns;
+  }
+
+  /**
+   * Generate returns by block bootstrap resampling of historical data.
+   *
+   * Chains blocks of blockSize consecutive historical years, each starting at
+   * a random year (wrapping around past the last year), until numYears
+   * returns are drawn. Keeping years together preserves short-term serial
+   * correlation (e.g., multi-year bear markets and inflation spells).
+   *
+   * @param random - Uniform random source for this run
+   * @param numYears - Number of years (returns to generate)
+   * @param blockSize - Consecutive years per block
+   * @returns Real returns by asset class, one entry per year
+   */
+  private generateBootstrapReturns(
+    random: RandomSource,
+    numYears: number,
+    blockSize: number,
+  ): AssetClassReturns[] {
+    const returns: AssetClassReturns[] = [];
+
+    while (returns.length < numYears) {
+      const startIndex = Math.floor(random() * HISTORICAL_RETURNS.length);
+      const length = Math.min(blockSize, numYears - returns.length);
+      returns.push(...getHistoricalSequence(startIndex, length));
+    }
+
+    return returns;
+  }
+
   /**
    * Generate array of random returns using normal distribution.
    *
@@ -197,6 +677,7 @@ export class MonteCarloEngine {
    *
    * Returns can be negative to simulate bear markets.
    *
+   * @param random - Uniform random source for this run
    * @param numYears - Number of years (returns to generate)
    * @param meanReturn - Expected return (center of distribution)
    * @param volatility - Standard deviation (spread of distribution)
@@ -204,10 +685,11 @@ export class MonteCarloEngine {
    *
    * @example
    * // Generate 30 years of returns with 7% mean and 12% volatility
-   * const returns = engine.generateRandomReturns(30, new Big(0.07), new Big(0.12));
+   * const returns = engine.generateRandomReturns(random, 30, new Big(0.07), new Big(0.12));
    * // returns might be: [0.15, -0.03, 0.08, 0.11, -0.05, ...]
    */
   private generateRandomReturns(
+    random: RandomSource,
     numYears: number,
     meanReturn: Big,
     volatility: Big,
@@ -215,17 +697,8 @@ export class MonteCarloEngine {
     const returns: Big[] = [];
 
     for (let i = 0; i < numYears; i++) {
-      // Box-Muller transform for normal distribution
-      let u1 = Math.random();
-      const u2 = Math.random();
-
-      // Avoid log(0) by ensuring u1 > 0
-      if (u1 < 1e-10) {
-        u1 = 1e-10;
-      }
-
       // Generate standard normal random variable (mean=0, stddev=1)
-      const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+      const z = standardNormal(random);
 
       // Transform to desired mean and standard deviation
       // return = mean + z * stddev
@@ -237,30 +710,19 @@ export class MonteCarloEngine {
   }
 
   /**
-   * Run single projection with predetermined array of returns.
-   *
-   * Creates a new ProjectionEngine and runs a projection where each year
-   * uses the corresponding return from the returns array instead of a
-   * fixed return rate.
+   * Create the projection engine for a single run.
    *
-   * @param returns - Array of returns, one per year
    * @param runNum - Run number for naming
-   * @returns ProjectionResult for this simulation
+   * @returns ProjectionEngine for this simulation
    */
-  private runSingleProjection(
-    returns: Big[],
-    runNum: number,
-  ): ProjectionResult {
+  private createRunEngine(runNum: number): ProjectionEngine {
     // Create modified scenario for this run
     const runScenario: Scenario = {
       ...this.scenario,
       name: `${this.scenario.name} - Run ${runNum + 1}`,
     };
 
-    const engine = new ProjectionEngine(runScenario);
-
-    // Run projection with variable returns (one per year)
-    return engine.runProjectionWithReturns(returns.length, returns);
+    return new ProjectionEngine(runScenario);
   }
 }
 
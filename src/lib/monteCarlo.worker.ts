@@ -0,0 +1,87 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Monte Carlo Web Worker - Runs MonteCarloEngine off the main thread
+ *
+ * Thin message adapter around MonteCarloEngine.runMonteCarloBatched.
+ * See monteCarloWorkerProtocol.ts for the message protocol.
+ *
+ * @module monteCarlo.worker
+ */
+
+import Big from 'big.js';
+import { MonteCarloEngine } from './monteCarlo';
+import { serializeBig, deserializeBig } from './serialization';
+import type { ReturnModelConfig, Scenario } from './types';
+import type { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from './monteCarloWorkerProtocol';
+
+/**
+ * Worker global scope (the app tsconfig uses DOM types, not WebWorker).
+ */
+interface WorkerScope {
+  postMessage(message: MonteCarloWorkerResponse): void;
+  onmessage: ((event: MessageEvent<MonteCarloWorkerRequest>) => void) | null;
+}
+
+const workerScope = self as unknown as WorkerScope;
+
+// Jobs currently running, and those for which a cancel request was received
+const activeJobs = new Set<number>();
+const cancelledJobs = new Set<number>();
+
+/**
+ * Run a Monte Carlo job and report progress, partial and final results.
+ *
+ * @param request - Start request
+ */
+async function runJob(request: Extract<MonteCarloWorkerRequest, { type: 'start' }>): Promise<void> {
+  const { jobId, numRuns, maxYears, batchSize } = request;
+  activeJobs.add(jobId);
+
+  try {
+    const engine = new MonteCarloEngine(deserializeBig<Scenario>(request.scenario), request.seed);
+    const result = await engine.runMonteCarloBatched(
+      numRuns,
+      maxYears,
+      new Big(request.meanReturn),
+      new Big(request.volatility),
+      {
+        batchSize,
+        onProgress: (runsCompleted, totalRuns) => {
+          workerScope.postMessage({ type: 'progress', jobId, runsCompleted, totalRuns });
+        },
+        onPartial: (partial) => {
+          workerScope.postMessage({ type: 'partial', jobId, result: serializeBig(partial) });
+        },
+        isCancelled: () => cancelledJobs.has(jobId),
+      },
+      deserializeBig<ReturnModelConfig>(request.returnModel),
+    );
+
+    if (result === null) {
+      workerScope.postMessage({ type: 'cancelled', jobId });
+    } else {
+      workerScope.postMessage({ type: 'complete', jobId, result: serializeBig(result) });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Monte Carlo simulation failed';
+    workerScope.postMessage({ type: 'error', jobId, message });
+  } finally {
+    activeJobs.delete(jobId);
+    cancelledJobs.delete(jobId);
+  }
+}
+
+workerScope.onmessage = (event: MessageEvent<MonteCarloWorkerRequest>): void => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      void runJob(request);
+      break;
+    case 'cancel':
+      if (activeJobs.has(request.jobId)) {
+        cancelledJobs.add(request.jobId);
+      }
+      break;
+  }
+};
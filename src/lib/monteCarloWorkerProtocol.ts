@@ -0,0 +1,46 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Monte Carlo Worker Protocol - Messages between the UI and monteCarlo.worker.ts
+ *
+ * Request flow:
+ * 1. UI sends `start` with a serialized scenario and run parameters
+ * 2. Worker sends `progress` after each batch and `partial` aggregates
+ * 3. Worker sends `complete` with the final result, or `cancelled`/`error`
+ * 4. UI may send `cancel` at any time; the worker stops after the current batch
+ *
+ * Big values are sent as tagged strings (see serialization.ts). Every message
+ * carries the `jobId` of its start request so stale messages can be ignored.
+ *
+ * @module monteCarloWorkerProtocol
+ */
+
+/**
+ * Messages sent from the UI to the worker.
+ */
+export type MonteCarloWorkerRequest =
+  | {
+    type: 'start';
+    jobId: number;
+    scenario: unknown; // serializeBig(Scenario)
+    numRuns: number;
+    maxYears: number;
+    meanReturn: string;
+    volatility: string;
+    seed: number;
+    returnModel: unknown; // serializeBig(ReturnModelConfig)
+    batchSize: number;
+  }
+  | {
+    type: 'cancel';
+    jobId: number;
+  };
+
+/**
+ * Messages sent from the worker to the UI.
+ */
+export type MonteCarloWorkerResponse =
+  | { type: 'progress'; jobId: number; runsCompleted: number; totalRuns: number }
+  | { type: 'partial'; jobId: number; result: unknown } // serializeBig(MonteCarloResult)
+  | { type: 'complete'; jobId: number; result: unknown } // serializeBig(MonteCarloResult)
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
@@ -0,0 +1,132 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Mortgage - Amortizing liability
+ *
+ * Tracks the remaining principal of a fixed-payment loan. Payments are part
+ * of the yearly spending need until the loan is paid off.
+ *
+ * Methodology:
+ * 1. Each month, interest accrues at the annual rate / 12 on the remaining principal
+ * 2. The fixed monthly payment covers the interest, the rest repays principal
+ * 3. The last payment is reduced to what is left, so the loan ends at exactly 0
+ *
+ * Simplifications:
+ * - Payments are fixed nominal amounts (no escrow for property tax or insurance)
+ * - No extra principal payments or refinancing; the loan is only repaid early
+ *   when the property it finances is sold
+ *
+ * See: https://www.consumerfinance.gov/ask-cfpb/what-is-amortization-and-how-could-it-affect-my-auto-loan-en-755/
+ *
+ * @module mortgage
+ */
+
+import Big from 'big.js';
+import { min } from './bigHelpers';
+import type { Mortgage, MortgageYearResult } from './types';
+
+/**
+ * A mortgage amortized month by month.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ *
+ * @example
+ * const mortgage = new MortgageLiability({
+ *   id: 'home-loan',
+ *   principalBalance: toBig(200000),
+ *   interestRate: toBig(0.06),
+ *   monthlyPayment: toBig(1500),
+ * });
+ *
+ * const result = mortgage.simulateYear();
+ * // payment === 18000, interestPaid ≈ 11870, remainingPrincipal ≈ 193870
+ */
+export class MortgageLiability {
+  readonly id: string;
+  readonly nickname?: string;
+  readonly propertyId?: string;
+  private principal: Big;
+  private readonly monthlyRate: Big;
+  private readonly monthlyPayment: Big;
+
+  /**
+   * Create a mortgage from its definition.
+   *
+   * @param definition - Mortgage definition
+   * @throws {Error} If amounts are negative or the payment does not cover the first month's interest
+   */
+  constructor(definition: Mortgage) {
+    const { id, principalBalance, interestRate, monthlyPayment } = definition;
+
+    if (principalBalance.lt(0) || interestRate.lt(0) || monthlyPayment.lt(0)) {
+      throw new Error('Mortgage amounts cannot be negative');
+    }
+
+    this.id = id;
+    this.nickname = definition.nickname;
+    this.propertyId = definition.propertyId;
+    this.principal = principalBalance;
+    this.monthlyRate = interestRate.div(12);
+    this.monthlyPayment = monthlyPayment;
+
+    if (principalBalance.gt(0) && monthlyPayment.lte(principalBalance.times(this.monthlyRate))) {
+      throw new Error(`Mortgage payment does not cover interest: ${definition.nickname ?? id}`);
+    }
+  }
+
+  /**
+   * Get the remaining principal.
+   *
+   * @returns Remaining principal
+   */
+  getBalance(): Big {
+    return this.principal;
+  }
+
+  /**
+   * Check whether the mortgage has been paid off.
+   *
+   * @returns true once no principal remains
+   */
+  isPaidOff(): boolean {
+    return this.principal.lte(0);
+  }
+
+  /**
+   * Repay principal early, up to the available amount.
+   *
+   * @param available - Amount available for repayment (e.g., sale proceeds)
+   * @returns Principal repaid (the smaller of the balance and the available amount)
+   */
+  repay(available: Big): Big {
+    const repaid = min(this.principal, available);
+    this.principal = this.principal.minus(repaid);
+    return repaid;
+  }
+
+  /**
+   * Make one year (12 months) of payments.
+   *
+   * @returns Payments and remaining principal for the year
+   */
+  simulateYear(): MortgageYearResult {
+    let interestPaid = new Big(0);
+    let principalPaid = new Big(0);
+
+    for (let month = 0; month < 12 && !this.isPaidOff(); month++) {
+      const interest = this.principal.times(this.monthlyRate);
+      const principalPayment = min(this.monthlyPayment.minus(interest), this.principal);
+
+      interestPaid = interestPaid.plus(interest);
+      principalPaid = principalPaid.plus(principalPayment);
+      this.principal = this.principal.minus(principalPayment);
+    }
+
+    return {
+      mortgageId: this.id,
+      payment: interestPaid.plus(principalPaid),
+      interestPaid,
+      principalPaid,
+      remainingPrincipal: this.principal,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Pension - Lifetime income from pensions and annuities
+ *
+ * Pays a yearly amount from the owner's start age for life, optionally
+ * continuing in part to the surviving spouse. Unlike Social Security, the
+ * taxable part is ordinary income.
+ *
+ * Methodology:
+ * 1. Payments start in the year the owner reaches the start age
+ * 2. Each year after the first, the payment grows by the COLA rate
+ * 3. After the owner's death, the surviving spouse receives the survivor
+ *    fraction of what the owner would have received; nothing is paid once
+ *    both are gone
+ * 4. The taxable fraction of each payment is ordinary income; the rest is a
+ *    tax-free return of after-tax money (the exclusion ratio of an annuity)
+ *
+ * Simplifications:
+ * - Payments start with the projection's withdrawal years; payments due
+ *   while still working are not modeled
+ * - A survivor of an owner who died before the start age receives the
+ *   survivor fraction from the year the owner would have reached it
+ * - The exclusion ratio applies for life (it should stop once the after-tax
+ *   cost has been recovered)
+ *
+ * See: https://www.irs.gov/publications/p575 and https://www.irs.gov/publications/p939
+ *
+ * @module pension
+ */
+
+import Big from 'big.js';
+import { HouseholdMember } from './types';
+import type { Pension, PensionYearResult } from './types';
+import type { Household } from './household';
+
+/**
+ * A pension or annuity paid along the household's timeline.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ *
+ * @example
+ * const pension = new PensionIncome({
+ *   id: 'state-pension',
+ *   pensionType: PensionType.PENSION,
+ *   startAge: 65,
+ *   annualAmount: toBig(30000),
+ *   colaRate: toBig(0.02),
+ *   survivorRate: toBig(0.5),
+ *   taxableRate: toBig(1),
+ * });
+ *
+ * pension.calculateYear(household, 66);
+ * // payment === 30600, taxableAmount === 30600
+ */
+export class PensionIncome {
+  readonly id: string;
+  readonly nickname?: string;
+  private readonly definition: Pension;
+
+  /**
+   * Create a pension from its definition.
+   *
+   * @param definition - Pension definition
+   * @throws {Error} If amounts are negative or rates are outside 0-1
+   */
+  constructor(definition: Pension) {
+    const { annualAmount, colaRate, survivorRate, taxableRate } = definition;
+
+    if (annualAmount.lt(0) || colaRate.lt(0)) {
+      throw new Error('Pension amounts cannot be negative');
+    }
+    if (survivorRate.lt(0) || survivorRate.gt(1) || taxableRate.lt(0) || taxableRate.gt(1)) {
+      throw new Error('Pension survivor and taxable rates must be between 0 and 1');
+    }
+
+    this.id = definition.id;
+    this.nickname = definition.nickname;
+    this.definition = definition;
+  }
+
+  /**
+   * Calculate the payment for the year.
+   *
+   * @param household - Household, for the owner's age and survival
+   * @param userAge - User's age this year
+   * @returns Payment and its taxable part (0 before the start age or with no one to pay)
+   */
+  calculateYear(household: Household, userAge: number): PensionYearResult {
+    const { annualAmount, colaRate, survivorRate, taxableRate, startAge } = this.definition;
+    const owner = this.definition.owner ?? HouseholdMember.USER;
+    const ownerAge = household.getAge(owner, userAge);
+
+    let payment = new Big(0);
+    if (ownerAge >= startAge) {
+      const full = annualAmount.times(colaRate.plus(1).pow(ownerAge - startAge));
+      if (household.isAlive(owner, userAge)) {
+        payment = full;
+      } else if (household.getLivingMembers(userAge).length > 0) {
+        payment = full.times(survivorRate);
+      }
+    }
+
+    return {
+      pensionId: this.id,
+      payment,
+      taxableAmount: payment.times(taxableRate),
+    };
+  }
+}
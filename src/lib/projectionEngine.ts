@@ -7,6 +7,15 @@
  *
  * Key features:
  * - Multi-year deterministic projections with fixed returns
+ * - Accumulation phase from current age to retirement with yearly contributions
+ * - Per-asset-class return series, blended by each account's allocation
+ * - Real estate appreciation, rental income and planned sales
+ * - Mortgage amortization, payoff years and net worth
+ * - Tax on rent, dividends, interest and property sales in the working years,
+ *   on top of wages
+ * - Optional spouse with their own ages, accounts, contributions and
+ *   Social Security; the projection ends after the last death
+ * - State income tax for the state of residence
  * - Automatic portfolio depletion detection (failure year/age)
  * - Summary statistics (total taxes, total withdrawals, final value)
  * - Inflation adjustment for target income
@@ -17,13 +26,35 @@
 
 import Big from 'big.js';
 import { sum } from './bigHelpers';
-import type { Scenario, ProjectionResult, WithdrawalPlan } from './types';
-import { AccountType } from './types';
+import type {
+  Scenario,
+  Account,
+  ProjectionResult,
+  WithdrawalPlan,
+  AccumulationYear,
+  AssetClassReturns,
+  RealEstateYearResult,
+  MortgageYearResult,
+  YearContributions,
+  InvestmentIncomeResult,
+  PayrollIncome,
+  TaxInputs,
+  TaxResult,
+} from './types';
+import { AccountType, FilingStatus, HouseholdMember } from './types';
 import { WithdrawalCoordinator } from './withdrawalCoordinator';
 import { BaseAccount } from './accounts/BaseAccount';
 import { TaxableAccount } from './accounts/TaxableAccount';
 import { TraditionalAccount } from './accounts/TraditionalAccount';
 import { RothAccount } from './accounts/RothAccount';
+import { uniformReturns } from './assetAllocation';
+import { ContributionCalculator } from './contributionCalculator';
+import { RealEstateProperty } from './realEstate';
+import { MortgageLiability } from './mortgage';
+import { Household } from './household';
+import { STATE_TAX_RULES } from './stateTaxRules';
+import { FederalTaxCalculator } from './taxCalculator';
+import { StateTaxCalculator } from './stateTaxCalculator';
 
 /**
  * ProjectionEngine - Orchestrates multi-year retirement projections.
@@ -57,6 +88,12 @@ import { RothAccount } from './accounts/RothAccount';
  */
 export class ProjectionEngine {
   private scenario: Scenario;
+  private household: Household;
+  private taxCalculator: FederalTaxCalculator;
+  private stateTaxCalculator: StateTaxCalculator | null;
+
+  // Account created to receive sale proceeds when the user has no taxable account
+  private static readonly PROCEEDS_ACCOUNT_ID = 'real-estate-proceeds';
 
   /**
    * Initialize projection engine with a scenario.
@@ -66,6 +103,14 @@ export class ProjectionEngine {
   constructor(scenario: Scenario) {
     this.scenario = scenario;
     this.validateScenario();
+    this.household = new Household(scenario.user);
+    this.taxCalculator = new FederalTaxCalculator(
+      scenario.policy.taxIndexationRate ?? scenario.policy.inflationRate,
+      scenario.policy.taxRegime,
+    );
+    this.stateTaxCalculator = scenario.user.stateOfResidence
+      ? new StateTaxCalculator(scenario.user.stateOfResidence)
+      : null;
   }
 
   /**
@@ -89,22 +134,85 @@ export class ProjectionEngine {
     if (!this.scenario.policy) {
       throw new Error('Scenario must have withdrawal policy');
     }
+
+    const { spouse } = this.scenario.user;
+    if (this.scenario.user.annualSalary?.lt(0) || spouse?.annualSalary?.lt(0)) {
+      throw new Error('Annual salary cannot be negative');
+    }
+
+    if (spouse && this.scenario.user.filingStatus !== FilingStatus.MARRIED_FILING_JOINTLY) {
+      throw new Error('A spouse requires married filing jointly status');
+    }
+
+    const { stateOfResidence } = this.scenario.user;
+    if (stateOfResidence !== undefined && !Object.hasOwn(STATE_TAX_RULES, stateOfResidence)) {
+      throw new Error(`Unknown state of residence: ${stateOfResidence}`);
+    }
+
+    for (const { id, owner } of this.scenario.accounts) {
+      if (owner === HouseholdMember.SPOUSE && !spouse) {
+        throw new Error(`Account owned by a spouse requires a spouse: ${id}`);
+      }
+    }
+
+    for (const { id, owner } of this.scenario.pensions ?? []) {
+      if (owner === HouseholdMember.SPOUSE && !spouse) {
+        throw new Error(`Pension owned by a spouse requires a spouse: ${id}`);
+      }
+    }
+
+    for (const { id, owner } of this.scenario.earnedIncome ?? []) {
+      if (owner === HouseholdMember.SPOUSE && !spouse) {
+        throw new Error(`Earned income owned by a spouse requires a spouse: ${id}`);
+      }
+    }
+
+    const propertyIds = new Set((this.scenario.realEstate ?? []).map((property) => property.id));
+    for (const { propertyId } of this.scenario.mortgages ?? []) {
+      if (propertyId !== undefined && !propertyIds.has(propertyId)) {
+        throw new Error(`Mortgage property not found: ${propertyId}`);
+      }
+    }
+
+    for (const { proceedsAccountId } of this.scenario.realEstate ?? []) {
+      const target = this.scenario.accounts.find((acc) => acc.id === proceedsAccountId);
+      if (proceedsAccountId !== undefined && target?.accountType !== AccountType.TAXABLE) {
+        throw new Error(`Sale proceeds account must be a taxable account: ${proceedsAccountId}`);
+      }
+    }
+  }
+
+  /**
+   * Get the number of working years simulated before retirement.
+   *
+   * Returns include one entry per working year before the maxYears of
+   * retirement; 0 if the user is already at or past retirement age.
+   * Withdrawals start at the user's retirement, even if the spouse still works.
+   *
+   * @returns Years from current age to retirement age
+   */
+  getAccumulationYears(): number {
+    return Math.max(0, this.scenario.user.retirementAge - this.calculateCurrentAge());
   }
 
   /**
    * Run deterministic projection with fixed return rate.
    *
    * Simulates retirement income by:
-   * 1. Creating fresh account instances from scenario
-   * 2. Initializing WithdrawalCoordinator
-   * 3. Looping through years:
+   * 1. Creating fresh account, property and mortgage instances from scenario
+   * 2. Growing accounts with yearly contributions until retirement age
+   * 3. Initializing WithdrawalCoordinator
+   * 4. Looping through retirement years:
+   *    - Collecting rent, repaying linked mortgages from any sale and depositing the rest
+   *    - Making mortgage payments (added to the spending need)
    *    - Planning annual withdrawals
    *    - Executing withdrawals
-   *    - Applying growth
+   *    - Applying growth and appreciation
    *    - Checking for portfolio depletion
-   * 4. Calculating summary statistics
+   *    - Stopping after the death of the last household member
+   * 5. Calculating summary statistics
    *
-   * @param maxYears - Maximum years to simulate (default 40)
+   * @param maxYears - Maximum years to simulate after retirement (default 40)
    * @param realReturn - Annual real return rate as decimal (e.g., 0.05 for 5%)
    * @returns ProjectionResult with withdrawal plans and summary statistics
    *
@@ -114,7 +222,7 @@ export class ProjectionEngine {
    */
   runProjection(maxYears: number = 40, realReturn: Big): ProjectionResult {
     // Use same implementation but with fixed returns array
-    const returns: Big[] = new Array(maxYears).fill(realReturn);
+    const returns: Big[] = new Array(this.getAccumulationYears() + maxYears).fill(realReturn);
     return this.runProjectionWithReturns(maxYears, returns);
   }
 
@@ -125,8 +233,8 @@ export class ProjectionEngine {
    * uses the corresponding return from the returns array. This enables
    * Monte Carlo simulations with stochastic returns.
    *
-   * @param maxYears - Maximum years to simulate
-   * @param returns - Array of return rates, one per year
+   * @param maxYears - Maximum years to simulate after retirement
+   * @param returns - Array of return rates, one per working year then one per retirement year
    * @returns ProjectionResult with withdrawal plans and summary statistics
    *
    * @example
@@ -135,22 +243,60 @@ export class ProjectionEngine {
    * const result = engine.runProjectionWithReturns(30, returns);
    */
   runProjectionWithReturns(maxYears: number, returns: Big[]): ProjectionResult {
-    if (returns.length < maxYears) {
-      throw new Error(`Not enough returns provided (need ${maxYears}, got ${returns.length})`);
+    return this.runProjectionWithAssetReturns(maxYears, returns.map(uniformReturns));
+  }
+
+  /**
+   * Run projection with predetermined returns per asset class.
+   *
+   * Each account grows at the blend of the year's asset class returns
+   * weighted by its own allocation, so asset location matters.
+   *
+   * @param maxYears - Maximum years to simulate after retirement
+   * @param returns - Returns by asset class, one entry per working year then one per retirement year
+   * @returns ProjectionResult with withdrawal plans and summary statistics
+   *
+   * @example
+   * // Stocks and bonds diverge: an all-bond IRA lags an all-stock brokerage account
+   * const returns = [{ stocks: new Big(0.1), bonds: new Big(0.02), cash: new Big(0) }, ...];
+   * const result = engine.runProjectionWithAssetReturns(30, returns);
+   */
+  runProjectionWithAssetReturns(maxYears: number, returns: AssetClassReturns[]): ProjectionResult {
+    const accumulationYears = this.getAccumulationYears();
+    const totalYears = accumulationYears + maxYears;
+    if (returns.length < totalYears) {
+      throw new Error(`Not enough returns provided (need ${totalYears}, got ${returns.length})`);
     }
 
-    // Create fresh account instances for this run
+    // Create fresh account, property and mortgage instances for this run
     const accounts = this.createAccounts();
+    const properties = (this.scenario.realEstate ?? []).map((def) => new RealEstateProperty(def));
+    const mortgages = (this.scenario.mortgages ?? []).map((def) => new MortgageLiability(def));
+    const mortgagePayoffYears: Record<string, number> = {};
 
-    // Initialize coordinator
-    const startingYear = this.calculateStartingYear();
-    const startingAge = this.scenario.user.retirementAge;
+    // Grow accounts with contributions until retirement
+    const accumulation = this.runAccumulation(
+      accounts,
+      properties,
+      mortgages,
+      mortgagePayoffYears,
+      returns.slice(0, accumulationYears),
+    );
+
+    // Initialize coordinator at retirement (or today if already retired)
+    const startingYear = this.calculateStartingYear() + accumulationYears;
+    const startingAge = this.calculateCurrentAge() + accumulationYears;
 
     const coordinator = new WithdrawalCoordinator({
       accounts,
       policy: this.scenario.policy,
       ssaIncome: this.scenario.ssaIncome,
       userProfile: this.scenario.user,
+      accountOwners: Object.fromEntries(
+        this.scenario.accounts.map((acc) => [acc.id, acc.owner ?? HouseholdMember.USER]),
+      ),
+      pensions: this.scenario.pensions,
+      earnedIncome: this.scenario.earnedIncome,
       startingYear,
       startingAge,
     });
@@ -165,6 +311,15 @@ export class ProjectionEngine {
       const currentYear = startingYear + yearNum;
       const currentAge = startingAge + yearNum;
 
+      // Nobody left to plan for
+      if (this.household.getLivingMembers(currentAge).length === 0) {
+        break;
+      }
+
+      // Sales happen at the start of the year, so proceeds can fund withdrawals
+      const realEstate = this.simulateRealEstate(properties, accounts, mortgages, currentYear, mortgagePayoffYears);
+      const mortgageResults = this.simulateMortgages(mortgages, currentYear, mortgagePayoffYears);
+
       // Check if portfolio depleted
       const portfolioValue = coordinator.getPortfolioValue();
       if (portfolioValue.lte(0)) {
@@ -180,16 +335,22 @@ export class ProjectionEngine {
         currentAge,
         this.scenario.user,
         this.scenario.ssaIncome,
+        realEstate,
+        mortgageResults,
       );
       plans.push(plan);
 
       // Apply returns for this year and advance to next year
-      const yearReturn = returns[yearNum];
-      coordinator.applyGrowth(yearReturn);
+      coordinator.applyAssetClassGrowth(returns[accumulationYears + yearNum]);
+      for (const property of properties) {
+        property.applyAppreciation();
+      }
     }
 
-    // Calculate summary statistics
-    const totalTaxesPaid = sum(plans.map((p) => p.totalTaxes));
+    // Calculate summary statistics (taxes include the working years)
+    const totalTaxesPaid = sum([...accumulation.map((y) => y.taxes), ...plans.map((p) => p.totalTaxes)]);
+    const totalIRMAASurcharges = sum(plans.map((p) => p.irmaaSurcharge));
+    const totalRothConversions = sum(plans.map((p) => p.rothConversion));
     const totalWithdrawals = sum(
       plans.map((p) => {
         const accountWithdrawalAmounts = Object.values(p.accountWithdrawals);
@@ -203,53 +364,375 @@ export class ProjectionEngine {
       success,
       failureYear,
       failureAge,
+      accumulationYears: accumulation,
       withdrawalPlans: plans,
       finalPortfolioValue,
       totalTaxesPaid,
+      totalIRMAASurcharges,
+      totalRothConversions,
       totalWithdrawals,
+      mortgagePayoffYears,
+    };
+  }
+
+  /**
+   * Simulate the working years before retirement.
+   *
+   * Each year deposits any property sale proceeds, records start-of-year
+   * balances, applies the year's returns, then deposits employee and employer
+   * contributions at year end. Salaries grow at the user's real salary growth
+   * rate. The spouse contributes to their own accounts, under their own
+   * limits, until their retirement age. Rent is assumed to be spent while
+   * working, and mortgage payments are assumed to be paid from salary.
+   * Dividends and interest are always reinvested. The tax on rent, dividends,
+   * interest and property sales is recorded for each year, but paid from
+   * salary rather than from the accounts.
+   *
+   * @param accounts - Account instances (grown in place)
+   * @param properties - Property instances (appreciated in place)
+   * @param mortgages - Mortgage instances (amortized in place)
+   * @param mortgagePayoffYears - Payoff years, filled in as mortgages are paid off
+   * @param returns - Returns by asset class, one entry per working year
+   * @returns One entry per working year
+   */
+  private runAccumulation(
+    accounts: BaseAccount[],
+    properties: RealEstateProperty[],
+    mortgages: MortgageLiability[],
+    mortgagePayoffYears: Record<string, number>,
+    returns: AssetClassReturns[],
+  ): AccumulationYear[] {
+    const calculator = new ContributionCalculator();
+    const startingYear = this.calculateStartingYear();
+    const currentAge = this.calculateCurrentAge();
+    const { spouse } = this.scenario.user;
+    const salaryGrowth = (this.scenario.user.salaryGrowthRate ?? new Big(0)).plus(1);
+    let salary = this.scenario.user.annualSalary ?? new Big(0);
+    let spouseSalary = spouse?.annualSalary ?? new Big(0);
+    const years: AccumulationYear[] = [];
+
+    const userAccounts = this.scenario.accounts.filter((acc) => acc.owner !== HouseholdMember.SPOUSE);
+    const spouseAccounts = this.scenario.accounts.filter((acc) => acc.owner === HouseholdMember.SPOUSE);
+
+    for (let yearNum = 0; yearNum < returns.length; yearNum++) {
+      const age = currentAge + yearNum;
+      const spouseAge = this.household.getAge(HouseholdMember.SPOUSE, age);
+      const spouseWorking =
+        spouse !== undefined &&
+        spouseAge < spouse.retirementAge &&
+        this.household.isAlive(HouseholdMember.SPOUSE, age);
+
+      const userYear = calculator.calculateYear(userAccounts, salary, age);
+      const spouseYear: YearContributions = spouseWorking
+        ? calculator.calculateYear(spouseAccounts, spouseSalary, spouseAge)
+        : { contributions: {}, employerMatch: {} };
+      const contributions = { ...userYear.contributions, ...spouseYear.contributions };
+      const employerMatch = { ...userYear.employerMatch, ...spouseYear.employerMatch };
+      const realEstate = this.simulateRealEstate(
+        properties,
+        accounts,
+        mortgages,
+        startingYear + yearNum,
+        mortgagePayoffYears,
+      );
+      const mortgageResults = this.simulateMortgages(mortgages, startingYear + yearNum, mortgagePayoffYears);
+
+      // Reinvested income adds to the cost basis only, not the balance
+      const investmentIncome = accounts
+        .filter((account): account is TaxableAccount => account instanceof TaxableAccount)
+        .map((account) => account.generateIncome(true));
+      const wages = [this.getTaxableWages(salary, userYear.contributions)];
+      if (spouseWorking) {
+        wages.push(this.getTaxableWages(spouseSalary, spouseYear.contributions));
+      }
+      const { taxes, stateTaxes } = this.calculateAccumulationTaxes(
+        startingYear + yearNum,
+        age,
+        wages,
+        realEstate,
+        mortgageResults,
+        investmentIncome,
+      );
+
+      const accountBalances: Record<string, Big> = {};
+      for (const account of accounts) {
+        accountBalances[account.id] = account.getBalance();
+      }
+
+      const totalPortfolioValue = sum(Object.values(accountBalances));
+      const realEstateValue = sum(realEstate.map((r) => r.value));
+      const liabilities = sum(mortgageResults.map((m) => m.remainingPrincipal));
+      years.push({
+        year: startingYear + yearNum,
+        age,
+        spouseAge: spouse ? spouseAge : undefined,
+        salary: spouseWorking ? salary.plus(spouseSalary) : salary,
+        contributions,
+        employerMatch,
+        accountBalances,
+        totalPortfolioValue,
+        realEstateValue,
+        liabilities,
+        netWorth: totalPortfolioValue.plus(realEstateValue).minus(liabilities),
+        taxes,
+        stateTaxes,
+      });
+
+      for (const account of accounts) {
+        account.applyAssetClassGrowth(returns[yearNum]);
+        const deposit = (contributions[account.id] ?? new Big(0)).plus(employerMatch[account.id] ?? 0);
+        if (deposit.gt(0)) {
+          account.deposit(deposit);
+        }
+      }
+
+      for (const property of properties) {
+        property.applyAppreciation();
+      }
+
+      salary = salary.times(salaryGrowth);
+      spouseSalary = spouseSalary.times(salaryGrowth);
+    }
+
+    return years;
+  }
+
+  /**
+   * Get a salary's wages for income tax, after pre-tax contributions.
+   *
+   * @param salary - Gross salary
+   * @param contributions - Employee contributions by account id
+   * @returns Wages less contributions to Traditional accounts
+   */
+  private getTaxableWages(salary: Big, contributions: Record<string, Big>): PayrollIncome {
+    const preTax = sum(
+      this.scenario.accounts
+        .filter((acc) => acc.accountType === AccountType.TRADITIONAL)
+        .map((acc) => contributions[acc.id] ?? new Big(0)),
+    );
+    return { wages: salary.minus(preTax), selfEmploymentIncome: new Big(0) };
+  }
+
+  /**
+   * Calculate the tax a working year's investment income and sales add.
+   *
+   * Wages are not otherwise taxed in the projection, so the result is the
+   * federal and state tax on wages plus rent, dividends, interest and
+   * property sale gains, minus the tax on the wages alone.
+   *
+   * @param year - Calendar year
+   * @param age - User's age
+   * @param wages - Wages of each working member
+   * @param realEstate - Property results for the year
+   * @param mortgages - Mortgage payments for the year (interest is itemized)
+   * @param investmentIncome - Dividends and interest of taxable accounts
+   * @returns Added federal and state tax, and its state part
+   */
+  private calculateAccumulationTaxes(
+    year: number,
+    age: number,
+    wages: PayrollIncome[],
+    realEstate: RealEstateYearResult[],
+    mortgages: MortgageYearResult[],
+    investmentIncome: InvestmentIncomeResult[],
+  ): { taxes: Big; stateTaxes: Big } {
+    const ordinaryInvestmentIncome = sum([
+      ...realEstate.map((r) => r.taxableRentalIncome),
+      ...investmentIncome.map((r) => r.ordinaryDividends.plus(r.interest)),
+    ]);
+    const expenses = this.scenario.user.deductibleExpenses;
+    const withIncome: TaxInputs = {
+      filingStatus: this.household.getFilingStatus(age),
+      ordinaryIncome: ordinaryInvestmentIncome.plus(sum(realEstate.map((r) => r.depreciationRecapture))),
+      qualifiedDividends: sum(investmentIncome.map((r) => r.qualifiedDividends)),
+      longTermCapitalGains: sum(realEstate.map((r) => r.capitalGain)),
+      socialSecurityGross: new Big(0),
+      taxExemptInterest: new Big(0),
+      earnedIncome: wages,
+      ordinaryInvestmentIncome,
+      ages: this.household.getLivingMembers(age).map((member) => this.household.getAge(member, age)),
+      itemizedDeductions: {
+        mortgageInterest: sum(mortgages.map((m) => m.interestPaid)),
+        stateAndLocalTaxes: expenses?.propertyTaxes ?? new Big(0),
+        charitableGiving: expenses?.charitableGiving ?? new Big(0),
+      },
+    };
+    const wagesOnly: TaxInputs = {
+      ...withIncome,
+      ordinaryIncome: new Big(0),
+      qualifiedDividends: new Big(0),
+      longTermCapitalGains: new Big(0),
+      ordinaryInvestmentIncome: new Big(0),
     };
+
+    const federal = this.taxCalculator.calculate(withIncome, year);
+    const federalOnWages = this.taxCalculator.calculate(wagesOnly, year);
+    const stateTaxes = this.calculateStateTax(federal, withIncome).minus(
+      this.calculateStateTax(federalOnWages, wagesOnly),
+    );
+    return { taxes: federal.totalTax.minus(federalOnWages.totalTax).plus(stateTaxes), stateTaxes };
+  }
+
+  /**
+   * Calculate state income tax from a federal result, with no retirement income.
+   *
+   * @param federal - Federal tax result
+   * @param inputs - Federal tax inputs
+   * @returns State income tax (0 without a state of residence)
+   */
+  private calculateStateTax(federal: TaxResult, inputs: TaxInputs): Big {
+    if (!this.stateTaxCalculator) {
+      return new Big(0);
+    }
+
+    return this.stateTaxCalculator.calculate({
+      filingStatus: inputs.filingStatus,
+      federalAgi: federal.agi,
+      taxableSocialSecurity: federal.taxableSocialSecurity,
+      retirementIncome: new Big(0),
+      ages: inputs.ages ?? [],
+    }).tax;
+  }
+
+  /**
+   * Simulate one year of all properties and deposit sale proceeds.
+   *
+   * Sale proceeds first repay the mortgages linked to the property (any
+   * principal the proceeds do not cover stays on the loan). The rest goes to
+   * the property's proceeds account, or else the first taxable account.
+   *
+   * @param properties - Property instances
+   * @param accounts - Account instances (receive sale proceeds)
+   * @param mortgages - Mortgage instances (repaid from linked property sales)
+   * @param year - Calendar year
+   * @param mortgagePayoffYears - Payoff years, updated when a sale pays off a mortgage
+   * @returns One result per property
+   */
+  private simulateRealEstate(
+    properties: RealEstateProperty[],
+    accounts: BaseAccount[],
+    mortgages: MortgageLiability[],
+    year: number,
+    mortgagePayoffYears: Record<string, number>,
+  ): RealEstateYearResult[] {
+    return properties.map((property, index) => {
+      const filingStatus = this.household.getFilingStatus(year - this.scenario.user.birthYear);
+      const result = property.simulateYear(year, filingStatus);
+      if (result.saleProceeds.lte(0)) {
+        return result;
+      }
+
+      let remaining = result.saleProceeds;
+      for (const mortgage of mortgages.filter((m) => m.propertyId === property.id && !m.isPaidOff())) {
+        remaining = remaining.minus(mortgage.repay(remaining));
+        if (mortgage.isPaidOff()) {
+          mortgagePayoffYears[mortgage.id] = year;
+        }
+      }
+
+      if (remaining.gt(0)) {
+        const targetId = this.scenario.realEstate?.[index].proceedsAccountId;
+        const target =
+          accounts.find((acc) => acc.id === targetId) ??
+          accounts.find((acc) => acc.accountType === AccountType.TAXABLE);
+        target?.deposit(remaining);
+      }
+      return { ...result, mortgagePayoff: result.saleProceeds.minus(remaining) };
+    });
+  }
+
+  /**
+   * Make one year of payments on all mortgages.
+   *
+   * @param mortgages - Mortgage instances
+   * @param year - Calendar year
+   * @param payoffYears - Payoff years, updated when a mortgage is paid off this year
+   * @returns One result per mortgage
+   */
+  private simulateMortgages(
+    mortgages: MortgageLiability[],
+    year: number,
+    payoffYears: Record<string, number>,
+  ): MortgageYearResult[] {
+    return mortgages.map((mortgage) => {
+      const wasPaidOff = mortgage.isPaidOff();
+      const result = mortgage.simulateYear();
+      if (!wasPaidOff && mortgage.isPaidOff()) {
+        payoffYears[mortgage.id] = year;
+      }
+      return result;
+    });
   }
 
   /**
    * Create account instances from scenario definition.
    *
    * Instantiates concrete account types (TaxableAccount, TraditionalAccount, RothAccount)
-   * based on scenario account definitions.
+   * based on scenario account definitions, plus an empty taxable account for
+   * sale proceeds when a sale is planned and there is none.
    *
    * @returns Array of BaseAccount instances
    */
   private createAccounts(): BaseAccount[] {
-    return this.scenario.accounts.map((accountDef) => {
-      const { id, accountType, balance, costBasis, nickname } = accountDef;
-
-      switch (accountType) {
-        case AccountType.TAXABLE:
-          return new TaxableAccount(
-            id,
-            balance,
-            costBasis ?? balance,
-            nickname,
-          );
-
-        case AccountType.TRADITIONAL:
-          return new TraditionalAccount(
-            id,
-            balance,
-            this.scenario.user.birthYear,
-            nickname,
-          );
-
-        case AccountType.ROTH:
-          return new RothAccount(
-            id,
-            balance,
-            nickname,
-          );
-
-        default:
-          throw new Error(`Unknown account type: ${accountType}`);
+    const accounts = this.scenario.accounts.map((accountDef) => {
+      const account = this.createAccount(accountDef);
+      if (accountDef.allocation) {
+        account.setAllocation(accountDef.allocation);
       }
+      return account;
     });
+
+    // Planned sales need a taxable account to receive the proceeds
+    const plansSale = (this.scenario.realEstate ?? []).some((property) => property.saleYear !== undefined);
+    if (plansSale && !accounts.some((acc) => acc.accountType === AccountType.TAXABLE)) {
+      accounts.push(new TaxableAccount(ProjectionEngine.PROCEEDS_ACCOUNT_ID, 0, 0, 'Real Estate Proceeds'));
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Create a single account instance from its definition.
+   *
+   * @param accountDef - Account definition
+   * @returns Concrete account instance
+   * @throws {Error} If the account type is unknown
+   */
+  private createAccount(accountDef: Account): BaseAccount {
+    const { id, accountType, balance, costBasis, investmentIncome, nickname, owner } = accountDef;
+
+    switch (accountType) {
+      case AccountType.TAXABLE: {
+        const account = new TaxableAccount(
+          id,
+          balance,
+          costBasis ?? balance,
+          nickname,
+        );
+        if (investmentIncome) {
+          account.setInvestmentIncome(investmentIncome);
+        }
+        return account;
+      }
+
+      case AccountType.TRADITIONAL:
+        return new TraditionalAccount(
+          id,
+          balance,
+          this.household.getBirthYear(owner ?? HouseholdMember.USER),
+          nickname,
+        );
+
+      case AccountType.ROTH:
+        return new RothAccount(
+          id,
+          balance,
+          nickname,
+        );
+
+      default:
+        throw new Error(`Unknown account type: ${accountType}`);
+    }
   }
 
   /**
@@ -262,4 +745,13 @@ export class ProjectionEngine {
   private calculateStartingYear(): number {
     return new Date().getFullYear();
   }
+
+  /**
+   * Calculate the user's age in the starting year.
+   *
+   * @returns Age reached during the current year
+   */
+  private calculateCurrentAge(): number {
+    return this.calculateStartingYear() - this.scenario.user.birthYear;
+  }
 }
@@ -0,0 +1,227 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Real Estate - Property value, rental income and sales
+ *
+ * Tracks a property through the projection: its appreciating value (counted
+ * in net worth but not withdrawable), optional rental cash flow, and an
+ * optional planned sale whose net proceeds flow into a taxable account.
+ *
+ * Methodology:
+ * 1. Value grows at a real appreciation rate each year
+ * 2. Rental cash flow is rent minus expenses; taxable rental income is the
+ *    cash flow minus straight-line depreciation of the building over 27.5 years
+ * 3. A sale happens at the start of the sale year at the current value, minus
+ *    selling costs
+ * 4. Gain = net sale price - (cost basis - accumulated depreciation); the part
+ *    of the gain up to accumulated depreciation is recaptured
+ * 5. A primary residence excludes up to $250,000 of the remaining gain
+ *    ($500,000 married filing jointly); the rest is a long-term capital gain
+ *
+ * Simplifications:
+ * - Rent, expenses and basis amounts stay constant in real dollars
+ * - Rental losses are not deducted (passive activity loss rules)
+ * - Depreciation recapture is taxed as ordinary income (the actual rate is
+ *   capped at 25%)
+ * - Primary residence ownership and use tests are assumed to be met
+ *
+ * See: https://www.irs.gov/publications/p527 and https://www.irs.gov/publications/p523
+ *
+ * @module realEstate
+ */
+
+import Big from 'big.js';
+import { toBig, min, max } from './bigHelpers';
+import { FilingStatus } from './types';
+import type { RealEstate, RealEstateYearResult } from './types';
+
+/**
+ * A real estate property simulated year by year.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ *
+ * @example
+ * const property = new RealEstateProperty({
+ *   id: 'rental-condo',
+ *   currentValue: toBig(400000),
+ *   appreciationRate: toBig(0.01),
+ *   costBasis: toBig(300000),
+ *   rental: { annualRent: toBig(30000), annualExpenses: toBig(10000), depreciationBasis: toBig(275000) },
+ * });
+ *
+ * const result = property.simulateYear(2030, FilingStatus.SINGLE);
+ * // rentalCashFlow === 20000, depreciation === 10000, taxableRentalIncome === 10000
+ * property.applyAppreciation();
+ */
+export class RealEstateProperty {
+  /**
+   * Recovery period for residential rental property, in years.
+   */
+  static readonly DEPRECIATION_YEARS = 27.5;
+
+  /**
+   * Selling costs (commissions, closing costs) when not specified.
+   */
+  static readonly DEFAULT_SALE_COST_RATE = new Big('0.06');
+
+  /**
+   * Section 121 exclusion of gain on the sale of a primary residence.
+   */
+  private static readonly PRIMARY_RESIDENCE_EXCLUSION: Record<FilingStatus, Big> = {
+    [FilingStatus.SINGLE]: toBig('250000'),
+    [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('500000'),
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('250000'),
+  };
+
+  readonly id: string;
+  readonly nickname?: string;
+  private value: Big;
+  private readonly definition: RealEstate;
+  private accumulatedDepreciation: Big;
+  private sold = false;
+
+  /**
+   * Create a property from its definition.
+   *
+   * @param definition - Property definition
+   * @throws {Error} If the value, cost basis or rental amounts are negative
+   */
+  constructor(definition: RealEstate) {
+    if (definition.currentValue.lt(0)) {
+      throw new Error('Property value cannot be negative');
+    }
+    if (definition.costBasis?.lt(0)) {
+      throw new Error('Cost basis cannot be negative');
+    }
+    if (definition.rental && (definition.rental.annualRent.lt(0) || definition.rental.annualExpenses.lt(0))) {
+      throw new Error('Rent and expenses cannot be negative');
+    }
+
+    this.id = definition.id;
+    this.nickname = definition.nickname;
+    this.value = definition.currentValue;
+    this.definition = definition;
+    this.accumulatedDepreciation = definition.rental?.accumulatedDepreciation ?? new Big(0);
+  }
+
+  /**
+   * Get the current property value (0 once sold).
+   *
+   * @returns Current value
+   */
+  getValue(): Big {
+    return this.sold ? new Big(0) : this.value;
+  }
+
+  /**
+   * Check whether the property has been sold.
+   *
+   * @returns true after the sale year has been simulated
+   */
+  isSold(): boolean {
+    return this.sold;
+  }
+
+  /**
+   * Simulate one year: sell the property if this is the sale year,
+   * otherwise collect rent and take depreciation.
+   *
+   * @param year - Calendar year
+   * @param filingStatus - Filing status (for the primary residence exclusion)
+   * @returns Cash flows and tax items for the year
+   */
+  simulateYear(year: number, filingStatus: FilingStatus): RealEstateYearResult {
+    const result: RealEstateYearResult = {
+      propertyId: this.id,
+      value: this.getValue(),
+      rentalCashFlow: new Big(0),
+      taxableRentalIncome: new Big(0),
+      depreciation: new Big(0),
+      saleProceeds: new Big(0),
+      mortgagePayoff: new Big(0),
+      capitalGain: new Big(0),
+      depreciationRecapture: new Big(0),
+      excludedGain: new Big(0),
+    };
+
+    if (this.sold) {
+      return result;
+    }
+
+    if (this.definition.saleYear !== undefined && year >= this.definition.saleYear) {
+      return { ...result, ...this.sell(filingStatus), value: new Big(0) };
+    }
+
+    const { rental } = this.definition;
+    if (rental) {
+      const depreciation = this.calculateDepreciation();
+      this.accumulatedDepreciation = this.accumulatedDepreciation.plus(depreciation);
+
+      result.rentalCashFlow = rental.annualRent.minus(rental.annualExpenses);
+      result.depreciation = depreciation;
+      result.taxableRentalIncome = max(result.rentalCashFlow.minus(depreciation), new Big(0));
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply one year of appreciation at the real appreciation rate.
+   */
+  applyAppreciation(): void {
+    if (!this.sold) {
+      this.value = this.value.times(this.definition.appreciationRate.plus(1));
+    }
+  }
+
+  /**
+   * Calculate this year's straight-line depreciation.
+   *
+   * Stops once the whole depreciation basis has been deducted.
+   *
+   * @returns Depreciation for the year
+   */
+  private calculateDepreciation(): Big {
+    const basis = this.definition.rental?.depreciationBasis;
+    if (!basis) {
+      return new Big(0);
+    }
+
+    const annual = basis.div(RealEstateProperty.DEPRECIATION_YEARS);
+    return max(min(annual, basis.minus(this.accumulatedDepreciation)), new Big(0));
+  }
+
+  /**
+   * Sell the property at its current value.
+   *
+   * @param filingStatus - Filing status (for the primary residence exclusion)
+   * @returns Sale proceeds and the split of the gain by tax treatment
+   */
+  private sell(filingStatus: FilingStatus): Pick<
+    RealEstateYearResult,
+    'saleProceeds' | 'capitalGain' | 'depreciationRecapture' | 'excludedGain'
+  > {
+    this.sold = true;
+
+    const saleCostRate = this.definition.saleCostRate ?? RealEstateProperty.DEFAULT_SALE_COST_RATE;
+    const saleProceeds = this.value.times(new Big(1).minus(saleCostRate));
+    const adjustedBasis = (this.definition.costBasis ?? this.definition.currentValue).minus(
+      this.accumulatedDepreciation,
+    );
+    const totalGain = max(saleProceeds.minus(adjustedBasis), new Big(0));
+
+    // Gain up to the depreciation taken is recaptured first
+    const depreciationRecapture = min(this.accumulatedDepreciation, totalGain);
+    const remainingGain = totalGain.minus(depreciationRecapture);
+
+    const excludedGain = this.definition.isPrimaryResidence
+      ? min(RealEstateProperty.PRIMARY_RESIDENCE_EXCLUSION[filingStatus], remainingGain)
+      : new Big(0);
+
+    return {
+      saleProceeds,
+      capitalGain: remainingGain.minus(excludedGain),
+      depreciationRecapture,
+      excludedGain,
+    };
+  }
+}
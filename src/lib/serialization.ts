@@ -0,0 +1,99 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Serialization - Big.js-safe structured data transfer
+ *
+ * Big instances lose their prototype when copied with structured clone
+ * (postMessage to a Web Worker) or JSON. These helpers replace every Big in a
+ * value with a tagged decimal string and restore them on the other side,
+ * without needing to know which fields are Big.
+ *
+ * @module serialization
+ */
+
+import Big from 'big.js';
+
+/**
+ * Tagged representation of a Big value.
+ */
+interface SerializedBig {
+  __big: string;
+}
+
+/**
+ * Check whether a value is a tagged Big.
+ *
+ * @param value - Value to check
+ * @returns true if value was produced by serializeBig for a Big
+ */
+function isSerializedBig(value: unknown): value is SerializedBig {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as SerializedBig).__big === 'string'
+  );
+}
+
+/**
+ * Replace all Big values in a structure with tagged decimal strings.
+ *
+ * Arrays and plain objects are copied recursively; other values are returned as is.
+ *
+ * @param value - Value to serialize (e.g., Scenario or MonteCarloResult)
+ * @returns Structured-clone and JSON safe copy
+ *
+ * @example
+ * const message = serializeBig({ balance: new Big('100.5') });
+ * // { balance: { __big: '100.5' } }
+ */
+export function serializeBig(value: unknown): unknown {
+  if (value instanceof Big) {
+    return { __big: value.toString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeBig);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = serializeBig(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Restore Big values from a structure produced by serializeBig.
+ *
+ * @param value - Serialized value
+ * @returns Copy with tagged strings turned back into Big instances
+ *
+ * @example
+ * const scenario = deserializeBig<Scenario>(event.data.scenario);
+ */
+export function deserializeBig<T>(value: unknown): T {
+  return restoreBig(value) as T;
+}
+
+/**
+ * Recursive implementation of deserializeBig.
+ *
+ * @param value - Serialized value
+ * @returns Restored value
+ */
+function restoreBig(value: unknown): unknown {
+  if (isSerializedBig(value)) {
+    return new Big(value.__big);
+  }
+  if (Array.isArray(value)) {
+    return value.map(restoreBig);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = restoreBig(item);
+    }
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,147 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * State Tax Calculator
+ *
+ * Computes state income tax for the state of residence from the federal
+ * return, using the rules in STATE_TAX_RULES.
+ *
+ * Methodology:
+ * 1. Start from federal AGI
+ * 2. Subtract the federally taxable part of Social Security if the state
+ *    exempts it
+ * 3. Subtract the retirement income exclusion of each household member old
+ *    enough to claim one
+ * 4. Subtract the state standard deduction to get taxable income
+ * 5. Apply the state's progressive brackets
+ *
+ * Simplifications:
+ * - Capital gains and qualified dividends are taxed as ordinary income
+ * - Retirement income exclusions are pooled across the household instead of
+ *   following each pension or account owner
+ * - Local income taxes (e.g. New York City) are not modeled
+ *
+ * @module stateTaxCalculator
+ */
+
+import Big from 'big.js';
+import { toBig, max, min, sum } from './bigHelpers';
+import type { StateTaxInputs, StateTaxResult, StateTaxRules, TaxBracket } from './types';
+import { STATE_TAX_RULES } from './stateTaxRules';
+
+/**
+ * Income tax calculator for one state.
+ *
+ * All monetary values use Big.js for precise decimal arithmetic.
+ *
+ * @example
+ * const calculator = new StateTaxCalculator('IL');
+ * const result = calculator.calculate({
+ *   filingStatus: FilingStatus.SINGLE,
+ *   federalAgi: toBig(60000),
+ *   taxableSocialSecurity: toBig(10000),
+ *   retirementIncome: toBig(30000),
+ *   ages: [67],
+ * });
+ * // Social Security and IRA withdrawals are exempt:
+ * // (60,000 - 10,000 - 30,000 - 2,775) x 4.95% = $852.64
+ */
+export class StateTaxCalculator {
+  readonly state: string;
+  private readonly rules: StateTaxRules;
+
+  /**
+   * Create a calculator for a state of residence.
+   *
+   * @param state - Two-letter state code (e.g. 'CA')
+   * @param rulesTable - Rules by state code
+   * @throws {Error} If the table has no rules for the state
+   */
+  constructor(state: string, rulesTable: Record<string, StateTaxRules> = STATE_TAX_RULES) {
+    if (!Object.hasOwn(rulesTable, state)) {
+      throw new Error(`Unknown state of residence: ${state}`);
+    }
+
+    this.state = state;
+    this.rules = rulesTable[state];
+  }
+
+  /**
+   * Get the state's name.
+   *
+   * @returns State name (e.g. 'California')
+   */
+  getName(): string {
+    return this.rules.name;
+  }
+
+  /**
+   * Calculate state income tax.
+   *
+   * @param inputs - Federal AGI and the income the state may exclude
+   * @returns Retirement exclusion, taxable income and tax
+   */
+  calculate(inputs: StateTaxInputs): StateTaxResult {
+    const { brackets, standardDeduction, exemptsSocialSecurity } = this.rules;
+
+    // Steps 1-3: State AGI
+    const socialSecurityExemption = exemptsSocialSecurity ? inputs.taxableSocialSecurity : toBig('0');
+    const retirementExclusion = this.calculateRetirementExclusion(inputs);
+    const stateAgi = max(toBig('0'), inputs.federalAgi.minus(socialSecurityExemption).minus(retirementExclusion));
+
+    // Step 4: Standard deduction
+    const taxableIncome = max(toBig('0'), stateAgi.minus(standardDeduction[inputs.filingStatus]));
+
+    // Step 5: Progressive brackets
+    const tax = this.applyBrackets(taxableIncome, brackets[inputs.filingStatus]);
+
+    return { retirementExclusion, taxableIncome, tax };
+  }
+
+  /**
+   * Calculate the household's retirement income exclusion.
+   *
+   * Each member gets the exclusion of the highest minimum age they have
+   * reached; the total is capped at the household's retirement income.
+   *
+   * Example: Georgia couple aged 66 and 63 -> $65,000 + $35,000 = $100,000
+   *
+   * @param inputs - Retirement income and ages
+   * @returns Amount excluded from state income
+   */
+  private calculateRetirementExclusion({ retirementIncome, ages }: StateTaxInputs): Big {
+    const limits = ages.map((age) => {
+      const eligible = this.rules.retirementExclusions.filter((exclusion) => age >= exclusion.minAge);
+      return eligible.length > 0 ? eligible[eligible.length - 1].limit : toBig('0');
+    });
+
+    if (limits.some((limit) => limit === null)) {
+      return retirementIncome;
+    }
+    return min(retirementIncome, sum(limits.filter((limit) => limit !== null)));
+  }
+
+  /**
+   * Apply progressive brackets to taxable income.
+   *
+   * @param taxableIncome - State taxable income
+   * @param brackets - Brackets in ascending order (none for no income tax)
+   * @returns State income tax
+   */
+  private applyBrackets(taxableIncome: Big, brackets: TaxBracket[]): Big {
+    let tax = toBig('0');
+    let lastLimit = toBig('0');
+
+    for (const [limit, rate] of brackets) {
+      const ceiling = limit === null ? taxableIncome : min(taxableIncome, limit);
+      if (ceiling.gt(lastLimit)) {
+        tax = tax.plus(ceiling.minus(lastLimit).times(rate));
+      }
+      if (limit === null || taxableIncome.lte(limit)) {
+        break;
+      }
+      lastLimit = limit;
+    }
+
+    return tax;
+  }
+}
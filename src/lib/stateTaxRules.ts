@@ -0,0 +1,234 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * State Income Tax Rules (2024 parameters)
+ *
+ * Brackets, standard deductions, Social Security treatment and retirement
+ * income exclusions by state of residence, keyed by two-letter code. The
+ * StateTaxCalculator reads one entry; add a state by adding its rules here.
+ *
+ * Simplifications:
+ * - Personal exemptions are folded into the standard deduction; credits
+ *   (e.g. California's exemption credit) are not modeled
+ * - New Hampshire's interest and dividends tax (repealed in 2025) and
+ *   Washington's capital gains tax are not modeled
+ * - Montana's lower capital gains rates are not modeled
+ *
+ * See: https://www.ftb.ca.gov/forms/2024/2024-540-tax-rate-schedules.pdf,
+ * https://www.tax.ny.gov/forms/current-forms/it/it201i.htm and
+ * https://taxfoundation.org/data/all/state/state-income-tax-rates-2024/
+ *
+ * @module stateTaxRules
+ */
+
+import { toBig } from './bigHelpers';
+import { FilingStatus } from './types';
+import type { RetirementIncomeExclusion, StateTaxRules } from './types';
+
+/**
+ * Rules of a state without a broad income tax.
+ *
+ * @param name - State name
+ * @returns Rules with no brackets
+ */
+function noIncomeTax(name: string): StateTaxRules {
+  return {
+    name,
+    brackets: {
+      [FilingStatus.SINGLE]: [],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [],
+    },
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('0'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('0'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('0'),
+    },
+    exemptsSocialSecurity: true,
+    retirementExclusions: [],
+  };
+}
+
+/**
+ * Rules of a state with a single rate for every filing status.
+ *
+ * @param name - State name
+ * @param rate - Tax rate
+ * @param deductions - Standard deduction: [single, married filing jointly, head of household]
+ * @param retirementExclusions - Retirement income exclusions by age
+ * @returns Rules with one bracket
+ */
+function flatTax(
+  name: string,
+  rate: string,
+  [single, jointly, headOfHousehold]: [string, string, string],
+  retirementExclusions: RetirementIncomeExclusion[] = [],
+): StateTaxRules {
+  return {
+    name,
+    brackets: {
+      [FilingStatus.SINGLE]: [[null, toBig(rate)]],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [[null, toBig(rate)]],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [[null, toBig(rate)]],
+    },
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig(single),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig(jointly),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig(headOfHousehold),
+    },
+    exemptsSocialSecurity: true,
+    retirementExclusions,
+  };
+}
+
+/**
+ * State income tax rules by two-letter state code.
+ */
+export const STATE_TAX_RULES: Record<string, StateTaxRules> = {
+  AK: noIncomeTax('Alaska'),
+  AZ: flatTax('Arizona', '0.025', ['14600', '29200', '21900']),
+  CA: {
+    name: 'California',
+    // The top rate includes the 1% mental health services tax above $1M
+    brackets: {
+      [FilingStatus.SINGLE]: [
+        [toBig('10756'), toBig('0.01')],
+        [toBig('25499'), toBig('0.02')],
+        [toBig('40245'), toBig('0.04')],
+        [toBig('55866'), toBig('0.06')],
+        [toBig('70606'), toBig('0.08')],
+        [toBig('360659'), toBig('0.093')],
+        [toBig('432787'), toBig('0.103')],
+        [toBig('721314'), toBig('0.113')],
+        [toBig('1000000'), toBig('0.123')],
+        [null, toBig('0.133')],
+      ],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [
+        [toBig('21512'), toBig('0.01')],
+        [toBig('50998'), toBig('0.02')],
+        [toBig('80490'), toBig('0.04')],
+        [toBig('111732'), toBig('0.06')],
+        [toBig('141212'), toBig('0.08')],
+        [toBig('721318'), toBig('0.093')],
+        [toBig('865574'), toBig('0.103')],
+        [toBig('1000000'), toBig('0.113')],
+        [toBig('1442628'), toBig('0.123')],
+        [null, toBig('0.133')],
+      ],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+        [toBig('21527'), toBig('0.01')],
+        [toBig('51000'), toBig('0.02')],
+        [toBig('65744'), toBig('0.04')],
+        [toBig('81364'), toBig('0.06')],
+        [toBig('96107'), toBig('0.08')],
+        [toBig('490493'), toBig('0.093')],
+        [toBig('588593'), toBig('0.103')],
+        [toBig('980987'), toBig('0.113')],
+        [toBig('1000000'), toBig('0.123')],
+        [null, toBig('0.133')],
+      ],
+    },
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('5540'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('11080'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('11080'),
+    },
+    exemptsSocialSecurity: true,
+    retirementExclusions: [],
+  },
+  FL: noIncomeTax('Florida'),
+  // Up to $35,000 of retirement income per person from 62, $65,000 from 65
+  GA: flatTax('Georgia', '0.0539', ['12000', '24000', '12000'], [
+    { minAge: 62, limit: toBig('35000') },
+    { minAge: 65, limit: toBig('65000') },
+  ]),
+  // Retirement plan distributions are exempt at any age
+  IL: flatTax('Illinois', '0.0495', ['2775', '5550', '2775'], [{ minAge: 0, limit: null }]),
+  MA: {
+    name: 'Massachusetts',
+    // 4% surtax on income above $1,053,750
+    brackets: {
+      [FilingStatus.SINGLE]: [[toBig('1053750'), toBig('0.05')], [null, toBig('0.09')]],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [[toBig('1053750'), toBig('0.05')], [null, toBig('0.09')]],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [[toBig('1053750'), toBig('0.05')], [null, toBig('0.09')]],
+    },
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('4400'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('8800'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('6800'),
+    },
+    exemptsSocialSecurity: true,
+    retirementExclusions: [],
+  },
+  MT: {
+    name: 'Montana',
+    // Starts from federal taxable income and taxes Social Security like the IRS
+    brackets: {
+      [FilingStatus.SINGLE]: [[toBig('20500'), toBig('0.047')], [null, toBig('0.059')]],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [[toBig('41000'), toBig('0.047')], [null, toBig('0.059')]],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [[toBig('30750'), toBig('0.047')], [null, toBig('0.059')]],
+    },
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('14600'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('29200'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('21900'),
+    },
+    exemptsSocialSecurity: false,
+    retirementExclusions: [{ minAge: 65, limit: toBig('5500') }],
+  },
+  NC: flatTax('North Carolina', '0.045', ['12750', '25500', '19125']),
+  NH: noIncomeTax('New Hampshire'),
+  NV: noIncomeTax('Nevada'),
+  NY: {
+    name: 'New York',
+    brackets: {
+      [FilingStatus.SINGLE]: [
+        [toBig('8500'), toBig('0.04')],
+        [toBig('11700'), toBig('0.045')],
+        [toBig('13900'), toBig('0.0525')],
+        [toBig('80650'), toBig('0.055')],
+        [toBig('215400'), toBig('0.06')],
+        [toBig('1077550'), toBig('0.0685')],
+        [toBig('5000000'), toBig('0.0965')],
+        [toBig('25000000'), toBig('0.103')],
+        [null, toBig('0.109')],
+      ],
+      [FilingStatus.MARRIED_FILING_JOINTLY]: [
+        [toBig('17150'), toBig('0.04')],
+        [toBig('23600'), toBig('0.045')],
+        [toBig('27900'), toBig('0.0525')],
+        [toBig('161550'), toBig('0.055')],
+        [toBig('323200'), toBig('0.06')],
+        [toBig('2155350'), toBig('0.0685')],
+        [toBig('5000000'), toBig('0.0965')],
+        [toBig('25000000'), toBig('0.103')],
+        [null, toBig('0.109')],
+      ],
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: [
+        [toBig('12800'), toBig('0.04')],
+        [toBig('17650'), toBig('0.045')],
+        [toBig('20900'), toBig('0.0525')],
+        [toBig('107650'), toBig('0.055')],
+        [toBig('269300'), toBig('0.06')],
+        [toBig('1616450'), toBig('0.0685')],
+        [toBig('5000000'), toBig('0.0965')],
+        [toBig('25000000'), toBig('0.103')],
+        [null, toBig('0.109')],
+      ],
+    },
+    standardDeduction: {
+      [FilingStatus.SINGLE]: toBig('8000'),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('16050'),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('11200'),
+    },
+    exemptsSocialSecurity: true,
+    // Pension and annuity exclusion from 59½ (the year the owner turns 60)
+    retirementExclusions: [{ minAge: 60, limit: toBig('20000') }],
+  },
+  // Retirement distributions are exempt after retirement age (59½)
+  PA: flatTax('Pennsylvania', '0.0307', ['0', '0', '0'], [{ minAge: 60, limit: null }]),
+  SD: noIncomeTax('South Dakota'),
+  TN: noIncomeTax('Tennessee'),
+  TX: noIncomeTax('Texas'),
+  WA: noIncomeTax('Washington'),
+  WY: noIncomeTax('Wyoming'),
+};
@@ -1,31 +1,65 @@
 // Copyright (c) 2026 François Rouaix
 /**
- * Federal Tax Calculator (2024 parameters)
+ * Federal Tax Calculator
  * 
  * Computes federal income tax for ordinary income, qualified dividends,
- * long-term capital gains, and Social Security taxation. Also returns AGI
- * and MAGI (for IRMAA checks).
+ * long-term capital gains, and Social Security taxation, plus payroll taxes
+ * (FICA and self-employment tax) on earned income. Also returns AGI and MAGI
+ * (for IRMAA checks).
+ * 
+ * Tax parameters follow the tax year: published years come from
+ * FEDERAL_TAX_TABLES, later years index the last published year by a yearly
+ * rate (the IRS indexes them to chained CPI), and earlier years use the first
+ * published year. Social Security taxation thresholds are fixed by law.
+ * 
+ * A tax regime can replace current law from a given year: pre-2018 rates
+ * (PRE_TCJA_TAX_TABLES) or a custom set of brackets and standard deductions,
+ * both indexed like current law.
  * 
  * Methodology:
- * 1. Calculate taxable portion of Social Security benefits (Pub 915 formula)
- * 2. Compute AGI (ordinary + QD + LTCG + taxable SS)
- * 3. Apply standard deduction to get taxable income
- * 4. Split taxable income into ordinary vs preferential (QD/LTCG) portions
- * 5. Apply progressive ordinary income brackets
- * 6. Stack LTCG/QD on top of ordinary income for preferential rate calculation
- * 7. Calculate MAGI (AGI + tax-exempt interest) for IRMAA checks
+ * 1. Calculate FICA on wages and SE tax on self-employment income, per earner
+ * 2. Calculate taxable portion of Social Security benefits (Pub 915 formula)
+ * 3. Compute AGI (ordinary + earned - half of SE tax + QD + LTCG + taxable SS)
+ * 4. Subtract the larger of the standard deduction (plus the additional
+ *    amount per filer aged 65 or older) and itemized deductions (mortgage
+ *    interest, state and local taxes up to the SALT cap, charitable giving),
+ *    then personal exemptions and the senior deduction per filer aged 65 or
+ *    older
+ * 5. Split taxable income into ordinary vs preferential (QD/LTCG) portions
+ * 6. Apply progressive ordinary income brackets
+ * 7. Stack LTCG/QD on top of ordinary income for preferential rate calculation
+ * 8. Add the 3.8% net investment income tax on the lesser of investment
+ *    income and AGI above the threshold
+ * 9. Add the 0.9% additional Medicare tax on household wages and
+ *    self-employment earnings above the threshold
+ * 10. Calculate MAGI (AGI + tax-exempt interest) for IRMAA checks
+ *
+ * Simplifications:
+ * - Investment expenses are not deducted from net investment income
+ * - Itemized deductions have no AGI limits, and the additional standard
+ *   deduction for blindness is not modeled
+ * - The SALT cap phase-down and senior deduction phase-out use AGI as MAGI
+ * - Indexed amounts are rounded down to a multiple of $50 (the IRS rounds
+ *   some brackets to $25)
+ * - Pre-2018 law has no Pease limitation or personal exemption phase-out,
+ *   and the alternative minimum tax is not modeled under any regime
  */
 
 import Big from 'big.js';
 import { toBig, max, min } from './bigHelpers';
-import { FilingStatus } from './types';
-import type { TaxInputs, TaxResult } from './types';
-
-/**
- * Tax bracket definition: [upperLimit, rate]
- * upperLimit is null for the top bracket (infinite ceiling)
- */
-type TaxBracket = [Big | null, Big];
+import { FilingStatus, TaxRegime } from './types';
+import type {
+  FederalTaxParameters,
+  IncomeTaxParameters,
+  PayrollIncome,
+  SaltCap,
+  SeniorDeduction,
+  TaxBracket,
+  TaxInputs,
+  TaxRegimeSettings,
+  TaxResult,
+} from './types';
+import { FEDERAL_TAX_TABLES, PRE_TCJA_TAX_TABLES, SCHEDULED_TAX_CHANGES } from './federalTaxTables';
 
 /**
  * LTCG/QD thresholds: [0% ceiling, 15% ceiling]
@@ -43,78 +77,56 @@ type LTCGThresholds = [Big, Big];
 type SSAThresholds = [Big, Big, Big];
 
 /**
- * Federal Tax Calculator using 2024 tax parameters.
+ * Income tax law replacing current law from its start year. Custom brackets
+ * keep current law's SALT cap and senior deduction of each year.
+ */
+interface Regime {
+  startYear: number;
+  tables: Record<number, IncomeTaxParameters>;
+  currentLawDeductions: boolean;
+}
+
+/**
+ * Federal Tax Calculator with year-indexed tax parameters.
  * 
  * All monetary values use Big.js for precise decimal arithmetic.
- * Tax brackets, deductions, and thresholds match IRS 2024 publication.
+ * 
+ * @example
+ * const calculator = new FederalTaxCalculator(0.025);
+ * calculator.getStandardDeduction(FilingStatus.SINGLE, 2024); // 14600
+ * calculator.getStandardDeduction(FilingStatus.SINGLE, 2027); // 16100 x 1.025 = 16500
  */
 export class FederalTaxCalculator {
   /**
-   * Standard deductions for 2024 tax year.
-   * These are subtracted from AGI to calculate taxable income.
+   * Default yearly indexation of tax parameters after the last published year.
    */
-  private static readonly STANDARD_DEDUCTION: Record<FilingStatus, Big> = {
-    [FilingStatus.SINGLE]: toBig('14600'),
-    [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('29200'),
-    [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('21900'),
-  };
+  static readonly DEFAULT_INDEXATION_RATE = toBig('0.025');
 
   /**
-   * Ordinary income tax brackets for 2024.
-   * Progressive rates: 10%, 12%, 22%, 24%, 32%, 35%, 37%
-   * 
-   * Each bracket is [upperLimit, rate]. The last bracket has null limit (infinite).
-   * Tax is calculated by filling each bracket sequentially.
+   * Indexed amounts are rounded down to a multiple of this.
    */
-  private static readonly ORDINARY_BRACKETS: Record<FilingStatus, TaxBracket[]> = {
-    [FilingStatus.SINGLE]: [
-      [toBig('11600'), toBig('0.10')],
-      [toBig('47150'), toBig('0.12')],
-      [toBig('100525'), toBig('0.22')],
-      [toBig('191950'), toBig('0.24')],
-      [toBig('243725'), toBig('0.32')],
-      [toBig('609350'), toBig('0.35')],
-      [null, toBig('0.37')],
-    ],
-    [FilingStatus.MARRIED_FILING_JOINTLY]: [
-      [toBig('23200'), toBig('0.10')],
-      [toBig('94300'), toBig('0.12')],
-      [toBig('201050'), toBig('0.22')],
-      [toBig('383900'), toBig('0.24')],
-      [toBig('487450'), toBig('0.32')],
-      [toBig('731200'), toBig('0.35')],
-      [null, toBig('0.37')],
-    ],
-    [FilingStatus.HEAD_OF_HOUSEHOLD]: [
-      [toBig('16550'), toBig('0.10')],
-      [toBig('63100'), toBig('0.12')],
-      [toBig('100500'), toBig('0.22')],
-      [toBig('191950'), toBig('0.24')],
-      [toBig('243700'), toBig('0.32')],
-      [toBig('609350'), toBig('0.35')],
-      [null, toBig('0.37')],
-    ],
-  };
+  private static readonly INDEXATION_ROUNDING = toBig('50');
 
   /**
-   * Long-term capital gains and qualified dividend thresholds for 2024.
-   * 
-   * LTCG/QD are taxed at preferential rates (0%, 15%, 20%) based on total income.
-   * These rates "stack" on top of ordinary income to determine which bracket applies.
-   * 
-   * [0% ceiling, 15% ceiling]
-   * - Below 0% ceiling: 0% rate
-   * - Between 0% and 15% ceiling: 15% rate  
-   * - Above 15% ceiling: 20% rate
+   * Age from which a filer gets the additional standard deduction and the
+   * senior deduction.
    */
-  private static readonly LTCG_THRESHOLDS: Record<FilingStatus, LTCGThresholds> = {
-    [FilingStatus.SINGLE]: [toBig('47025'), toBig('518900')],
-    [FilingStatus.MARRIED_FILING_JOINTLY]: [toBig('94050'), toBig('583750')],
-    [FilingStatus.HEAD_OF_HOUSEHOLD]: [toBig('63000'), toBig('551350')],
-  };
+  private static readonly SENIOR_AGE = 65;
 
   /**
-   * Social Security combined income thresholds for 2024.
+   * Share of MAGI above the threshold taken off the SALT cap, and the cap's
+   * floor (not indexed).
+   */
+  private static readonly SALT_CAP_PHASE_DOWN_RATE = toBig('0.30');
+  private static readonly SALT_CAP_FLOOR = toBig('10000');
+
+  /**
+   * Share of MAGI above the threshold taken off each filer's senior deduction.
+   */
+  private static readonly SENIOR_DEDUCTION_PHASE_OUT_RATE = toBig('0.06');
+
+  /**
+   * Social Security combined income thresholds (not indexed).
    * 
    * Combined income = AGI + tax-exempt interest + 50% of SS benefits
    * 
@@ -129,36 +141,161 @@ export class FederalTaxCalculator {
     [FilingStatus.MARRIED_FILING_JOINTLY]: [toBig('32000'), toBig('44000'), toBig('6000')],
   };
 
+  /**
+   * Employee FICA rates: [Social Security, Medicare].
+   * Self-employed workers pay both the employee and employer halves.
+   */
+  private static readonly FICA_RATES: [Big, Big] = [toBig('0.062'), toBig('0.0145')];
+  private static readonly SELF_EMPLOYMENT_RATES: [Big, Big] = [toBig('0.124'), toBig('0.029')];
+
+  /**
+   * Share of net self-employment profit subject to SE tax (removes the
+   * employer-equivalent half), and the minimum net earnings that owe SE tax.
+   */
+  private static readonly SELF_EMPLOYMENT_EARNINGS_RATE = toBig('0.9235');
+  private static readonly SELF_EMPLOYMENT_MINIMUM = toBig('400');
+
+  /**
+   * Net investment income tax and additional Medicare tax rates, and their
+   * shared income thresholds (not indexed).
+   */
+  private static readonly NET_INVESTMENT_INCOME_TAX_RATE = toBig('0.038');
+  private static readonly ADDITIONAL_MEDICARE_TAX_RATE = toBig('0.009');
+  private static readonly SURTAX_THRESHOLDS: Record<FilingStatus, Big> = {
+    [FilingStatus.SINGLE]: toBig('200000'),
+    [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig('200000'),
+    [FilingStatus.MARRIED_FILING_JOINTLY]: toBig('250000'),
+  };
+
+  private readonly indexationRate: Big;
+  private readonly tables: Record<number, FederalTaxParameters>;
+  // Income tax law replacing the tables from its start year (null for current law)
+  private readonly regime: Regime | null;
+  private readonly parametersByYear = new Map<number, FederalTaxParameters>();
+
+  /**
+   * Create a federal tax calculator.
+   * 
+   * @param indexationRate Yearly growth of tax parameters after the last published year
+   * @param regime Tax law and the first year it applies to
+   * @param tables Published tax parameters by year (current law)
+   * @throws {Error} If the indexation rate is negative, no year is published
+   *   or custom brackets are missing or capped
+   */
+  constructor(
+    indexationRate: Big | number | string = FederalTaxCalculator.DEFAULT_INDEXATION_RATE,
+    regime: TaxRegimeSettings = { regime: TaxRegime.CURRENT_LAW },
+    tables: Record<number, FederalTaxParameters> = FEDERAL_TAX_TABLES,
+  ) {
+    this.indexationRate = toBig(indexationRate);
+    if (this.indexationRate.lt(0)) {
+      throw new Error('Tax indexation rate cannot be negative');
+    }
+    if (Object.keys(tables).length === 0) {
+      throw new Error('Federal tax tables must include at least one year');
+    }
+
+    this.tables = tables;
+    this.regime = this.createRegime(regime);
+  }
+
+  /**
+   * Get the tax parameters of a year.
+   * 
+   * Published years are returned as is. Later years grow the last published
+   * year by the indexation rate; earlier years use the first published year.
+   * From its start year, a tax regime other than current law replaces the
+   * income tax parameters; the Social Security wage base follows current law.
+   * The SALT cap and senior deduction are not indexed: later years follow
+   * SCHEDULED_TAX_CHANGES.
+   * 
+   * Example: 2028 at 2.5% -> 2026 amounts x 1.025^2, rounded down to $50
+   * 
+   * @param year Tax year
+   * @returns Standard deductions, brackets, LTCG thresholds and wage base
+   */
+  getTaxParameters(year: number): FederalTaxParameters {
+    const cached = this.parametersByYear.get(year);
+    if (cached) {
+      return cached;
+    }
+
+    const currentLaw = {
+      ...this.lookUpParameters(this.tables, year, (parameters, factor) => ({
+        ...this.indexIncomeTaxParameters(parameters, factor),
+        socialSecurityWageBase: this.indexAmount(parameters.socialSecurityWageBase, factor),
+      })),
+      ...this.lookUpScheduledChanges(year),
+    };
+    const parameters = this.regime !== null && year >= this.regime.startYear
+      ? {
+        ...this.lookUpParameters(this.regime.tables, year, (regimeParameters, factor) =>
+          this.indexIncomeTaxParameters(regimeParameters, factor),
+        ),
+        ...(this.regime.currentLawDeductions && {
+          saltCap: currentLaw.saltCap,
+          seniorDeduction: currentLaw.seniorDeduction,
+        }),
+        socialSecurityWageBase: currentLaw.socialSecurityWageBase,
+      }
+      : currentLaw;
+
+    this.parametersByYear.set(year, parameters);
+    return parameters;
+  }
+
   /**
    * Calculate federal income tax for given inputs.
    * 
-   * This is the main entry point. It orchestrates all sub-calculations:
-   * 1. Social Security taxation (Pub 915 formula)
-   * 2. AGI calculation (sum of all income including taxable SS)
-   * 3. Taxable income (AGI minus standard deduction)
-   * 4. Split into ordinary vs preferential income
-   * 5. Progressive ordinary tax calculation
-   * 6. Stacked LTCG/QD tax calculation
-   * 7. MAGI for IRMAA purposes
+   * This is the main entry point. It looks up the tax year's parameters and
+   * orchestrates all sub-calculations:
+   * 1. FICA and self-employment tax on earned income
+   * 2. Social Security taxation (Pub 915 formula)
+   * 3. AGI calculation (sum of all income including taxable SS)
+   * 4. Taxable income (AGI minus the larger of standard and itemized
+   *    deductions, personal exemptions and the senior deduction)
+   * 5. Split into ordinary vs preferential income
+   * 6. Progressive ordinary tax calculation
+   * 7. Stacked LTCG/QD tax calculation
+   * 8. Net investment income tax and additional Medicare tax
+   * 9. MAGI for IRMAA purposes
    * 
    * @param inputs Tax calculation inputs with all income sources
+   * @param year Tax year (the plan year)
    * @returns Complete tax calculation results including AGI, MAGI, and total tax
    */
-  calculate(inputs: TaxInputs): TaxResult {
-    // Step 1: Calculate taxable portion of Social Security
-    const taxableSS = this.calculateTaxableSocialSecurity(inputs);
+  calculate(inputs: TaxInputs, year: number): TaxResult {
+    const { ordinaryBrackets, ltcgThresholds, socialSecurityWageBase } = this.getTaxParameters(year);
+
+    // Step 1: Payroll taxes; earned income is ordinary income, less half of the SE tax
+    const earners = inputs.earnedIncome ?? [];
+    const ficaTax = earners.reduce(
+      (total, earner) => total.plus(this.calculateFICA(earner, socialSecurityWageBase)),
+      toBig('0'),
+    );
+    const selfEmploymentTax = earners.reduce(
+      (total, earner) => total.plus(this.calculateSelfEmploymentTax(earner, socialSecurityWageBase)),
+      toBig('0'),
+    );
+    const earnedIncome = earners
+      .reduce((total, { wages, selfEmploymentIncome }) => total.plus(wages).plus(selfEmploymentIncome), toBig('0'))
+      .minus(selfEmploymentTax.div(2));
+
+    // Step 2: Calculate taxable portion of Social Security
+    const taxableSS = this.calculateTaxableSocialSecurity(inputs, earnedIncome);
 
-    // Step 2: Calculate AGI (includes taxable SS)
+    // Step 3: Calculate AGI (includes taxable SS)
     const agi = inputs.ordinaryIncome
+      .plus(earnedIncome)
       .plus(inputs.qualifiedDividends)
       .plus(inputs.longTermCapitalGains)
       .plus(taxableSS);
 
-    // Step 3: Apply standard deduction
-    const standardDeduction = FederalTaxCalculator.STANDARD_DEDUCTION[inputs.filingStatus];
-    const taxableIncome = max(toBig('0'), agi.minus(standardDeduction));
+    // Step 4: Apply the larger of the standard and itemized deductions, then exemptions and the senior deduction
+    const { deduction, itemized } = this.calculateDeduction(inputs, year, agi);
+    const taxableIncome = max(toBig('0'), agi.minus(deduction));
 
-    // Step 4: Split taxable income into ordinary vs LTCG/QD portions
+    // Step 5: Split taxable income into ordinary vs LTCG/QD portions
     // LTCG/QD get preferential rates, so we need to separate them
     const ltcgPortion = min(
       taxableIncome,
@@ -166,16 +303,25 @@ export class FederalTaxCalculator {
     );
     const ordinaryPortion = max(toBig('0'), taxableIncome.minus(ltcgPortion));
 
-    // Step 5: Calculate tax on ordinary income using progressive brackets
-    const ordinaryTax = this.applyOrdinaryBrackets(ordinaryPortion, inputs.filingStatus);
+    // Step 6: Calculate tax on ordinary income using progressive brackets
+    const ordinaryTax = this.applyOrdinaryBrackets(ordinaryPortion, ordinaryBrackets[inputs.filingStatus]);
 
-    // Step 6: Calculate tax on LTCG/QD using stacking method
-    const ltcgTax = this.applyLTCGBrackets(ordinaryPortion, ltcgPortion, inputs.filingStatus);
+    // Step 7: Calculate tax on LTCG/QD using stacking method
+    const ltcgTax = this.applyLTCGBrackets(ordinaryPortion, ltcgPortion, ltcgThresholds[inputs.filingStatus]);
 
-    // Step 7: Sum total tax
-    const totalTax = ordinaryTax.plus(ltcgTax);
+    // Step 8: Surtaxes on investment income and high earnings
+    const netInvestmentIncomeTax = this.calculateNetInvestmentIncomeTax(inputs, agi);
+    const additionalMedicareTax = this.calculateAdditionalMedicareTax(earners, inputs.filingStatus);
 
-    // Step 8: Calculate MAGI (AGI + tax-exempt interest)
+    // Step 9: Sum total tax
+    const totalTax = ordinaryTax
+      .plus(ltcgTax)
+      .plus(netInvestmentIncomeTax)
+      .plus(ficaTax)
+      .plus(additionalMedicareTax)
+      .plus(selfEmploymentTax);
+
+    // Step 10: Calculate MAGI (AGI + tax-exempt interest)
     // MAGI is used for IRMAA surcharge calculations
     const magi = agi.plus(inputs.taxExemptInterest);
 
@@ -186,12 +332,151 @@ export class FederalTaxCalculator {
       taxableIncome,
       ordinaryTaxable: ordinaryPortion,
       ltcgTaxable: ltcgPortion,
+      deduction,
+      itemized,
       ordinaryTax,
       ltcgTax,
+      ficaTax,
+      selfEmploymentTax,
+      netInvestmentIncomeTax,
+      additionalMedicareTax,
       totalTax,
     };
   }
 
+  /**
+   * Get the standard deduction for a filing status.
+   * 
+   * Each filer aged 65 or older adds the additional standard deduction.
+   * 
+   * Example: Single filer aged 70 in 2025 -> $15,750 + $2,000 = $17,750
+   * 
+   * @param status Filing status
+   * @param year Tax year
+   * @param ages Ages of the filers (none: no additional amount)
+   * @returns Standard deduction amount
+   */
+  getStandardDeduction(status: FilingStatus, year: number, ages: number[] = []): Big {
+    const { standardDeduction, additionalStandardDeduction } = this.getTaxParameters(year);
+    const seniors = ages.filter((age) => age >= FederalTaxCalculator.SENIOR_AGE).length;
+    return standardDeduction[status].plus(additionalStandardDeduction[status].times(seniors));
+  }
+
+  /**
+   * Get the taxable-income ceiling of the highest ordinary bracket whose rate
+   * does not exceed the given marginal rate.
+   * 
+   * Used by bracket-filling strategies to determine how much ordinary income
+   * fits below a target marginal rate. A rate below the lowest bracket yields
+   * a ceiling of 0 (only the standard deduction is available).
+   * 
+   * Example: Single filer, target 12% in 2024 -> $47,150 of taxable income
+   * 
+   * @param status Filing status
+   * @param marginalRate Maximum marginal rate (e.g., 0.12 for 12%)
+   * @param year Tax year
+   * @returns Taxable income ceiling, or null if the top bracket is allowed (no ceiling)
+   */
+  getBracketCeiling(status: FilingStatus, marginalRate: Big, year: number): Big | null {
+    let ceiling = toBig('0');
+
+    for (const [limit, rate] of this.getTaxParameters(year).ordinaryBrackets[status]) {
+      if (rate.gt(marginalRate)) {
+        break;
+      }
+      if (limit === null) {
+        return null;
+      }
+      ceiling = limit;
+    }
+
+    return ceiling;
+  }
+
+  /**
+   * Choose between the standard deduction and itemized deductions, and add
+   * personal exemptions and the senior deduction.
+   * 
+   * Itemized deductions add mortgage interest, state and local taxes up to
+   * the SALT cap, and charitable giving; they are used only when larger than
+   * the standard deduction (with the additional amount at 65). Personal
+   * exemptions (one per filer, zero under current law) and the senior
+   * deduction apply either way.
+   * 
+   * Example: Couple aged 67 and 63 in 2025 with $200,000 of AGI ->
+   * $31,500 + $1,600 = $33,100 standard; $20,000 interest + $40,000 of
+   * $45,000 SALT + $5,000 giving = $65,000 itemized; plus $6,000 - 6% x
+   * $50,000 = $3,000 senior deduction
+   * 
+   * @param inputs Tax inputs, for filing status, ages and itemized deductions
+   * @param year Tax year
+   * @param agi Adjusted gross income, as MAGI for the phase-outs
+   * @returns Deduction taken, and whether it is itemized
+   */
+  private calculateDeduction(
+    { filingStatus, ages = [], itemizedDeductions }: TaxInputs,
+    year: number,
+    agi: Big,
+  ): { deduction: Big; itemized: boolean } {
+    const { personalExemption, saltCap, seniorDeduction } = this.getTaxParameters(year);
+    const filers = filingStatus === FilingStatus.MARRIED_FILING_JOINTLY ? 2 : 1;
+    const seniors = ages.filter((age) => age >= FederalTaxCalculator.SENIOR_AGE).length;
+    const senior = seniorDeduction === null
+      ? toBig('0')
+      : this.calculateSeniorDeduction(seniorDeduction, filingStatus, agi).times(seniors);
+    const additional = personalExemption.times(filers).plus(senior);
+
+    const standard = this.getStandardDeduction(filingStatus, year, ages);
+    if (!itemizedDeductions) {
+      return { deduction: standard.plus(additional), itemized: false };
+    }
+
+    const { mortgageInterest, stateAndLocalTaxes, charitableGiving } = itemizedDeductions;
+    const itemized = mortgageInterest
+      .plus(saltCap === null ? stateAndLocalTaxes : min(stateAndLocalTaxes, this.calculateSaltCap(saltCap, agi)))
+      .plus(charitableGiving);
+
+    return itemized.gt(standard)
+      ? { deduction: itemized.plus(additional), itemized: true }
+      : { deduction: standard.plus(additional), itemized: false };
+  }
+
+  /**
+   * Reduce the senior deduction by 6% of MAGI above its phase-out threshold.
+   * 
+   * Example: Single filer with $100,000 of MAGI -> $6,000 - 6% x $25,000 = $4,500
+   * 
+   * @param seniorDeduction Senior deduction of the tax year
+   * @param status Filing status
+   * @param magi Modified adjusted gross income
+   * @returns Deduction per filer aged 65 or older
+   */
+  private calculateSeniorDeduction({ amount, phaseOutThresholds }: SeniorDeduction, status: FilingStatus, magi: Big): Big {
+    const reduction = max(toBig('0'), magi.minus(phaseOutThresholds[status]))
+      .times(FederalTaxCalculator.SENIOR_DEDUCTION_PHASE_OUT_RATE);
+    return max(toBig('0'), amount.minus(reduction));
+  }
+
+  /**
+   * Lower the SALT cap by 30% of MAGI above its phase-down threshold, down
+   * to $10,000.
+   * 
+   * Example: 2025 cap with $600,000 of MAGI -> $40,000 - 30% x $100,000 = $10,000
+   * 
+   * @param saltCap SALT cap of the tax year
+   * @param magi Modified adjusted gross income
+   * @returns Cap on deducted state and local taxes
+   */
+  private calculateSaltCap({ cap, phaseDownThreshold }: SaltCap, magi: Big): Big {
+    if (phaseDownThreshold === null) {
+      return cap;
+    }
+
+    const reduction = max(toBig('0'), magi.minus(phaseDownThreshold))
+      .times(FederalTaxCalculator.SALT_CAP_PHASE_DOWN_RATE);
+    return max(min(cap, FederalTaxCalculator.SALT_CAP_FLOOR), cap.minus(reduction));
+  }
+
   /**
    * Calculate taxable portion of Social Security benefits.
    * 
@@ -204,9 +489,10 @@ export class FederalTaxCalculator {
    * The formula ensures gradual phase-in and respects maximum percentages.
    * 
    * @param inputs Tax calculation inputs
+   * @param earnedIncome Earned income net of the SE tax deduction
    * @returns Taxable portion of Social Security benefits
    */
-  private calculateTaxableSocialSecurity(inputs: TaxInputs): Big {
+  private calculateTaxableSocialSecurity(inputs: TaxInputs, earnedIncome: Big): Big {
     const ss = inputs.socialSecurityGross;
     if (ss.lte(0)) {
       return toBig('0');
@@ -216,6 +502,7 @@ export class FederalTaxCalculator {
 
     // Combined income includes 50% of SS benefits
     const combinedIncome = inputs.ordinaryIncome
+      .plus(earnedIncome)
       .plus(inputs.qualifiedDividends)
       .plus(inputs.longTermCapitalGains)
       .plus(inputs.taxExemptInterest)
@@ -244,6 +531,92 @@ export class FederalTaxCalculator {
     return min(maxTaxable, taxable);
   }
 
+  /**
+   * Calculate the employee's FICA tax on one earner's wages.
+   *
+   * Social Security tax applies up to the wage base, Medicare tax to all wages.
+   *
+   * @param earner Earner's wages and self-employment income
+   * @param wageBase Social Security wage base of the tax year
+   * @returns Employee FICA tax
+   */
+  private calculateFICA({ wages }: PayrollIncome, wageBase: Big): Big {
+    const [socialSecurityRate, medicareRate] = FederalTaxCalculator.FICA_RATES;
+    const socialSecurityWages = min(wages, wageBase);
+    return socialSecurityWages.times(socialSecurityRate).plus(wages.times(medicareRate));
+  }
+
+  /**
+   * Calculate self-employment tax on one earner's net profit.
+   *
+   * Applies to 92.35% of the profit (nothing below $400). The Social
+   * Security part only covers what the earner's wages left of the wage base.
+   *
+   * Example: $50,000 profit, no wages -> $46,175 x 15.3% = $7,064.78
+   *
+   * @param earner Earner's wages and self-employment income
+   * @param wageBase Social Security wage base of the tax year
+   * @returns Self-employment tax
+   */
+  private calculateSelfEmploymentTax({ wages, selfEmploymentIncome }: PayrollIncome, wageBase: Big): Big {
+    const netEarnings = selfEmploymentIncome.times(FederalTaxCalculator.SELF_EMPLOYMENT_EARNINGS_RATE);
+    if (netEarnings.lt(FederalTaxCalculator.SELF_EMPLOYMENT_MINIMUM)) {
+      return toBig('0');
+    }
+
+    const [socialSecurityRate, medicareRate] = FederalTaxCalculator.SELF_EMPLOYMENT_RATES;
+    const remainingWageBase = max(toBig('0'), wageBase.minus(wages));
+    return min(netEarnings, remainingWageBase).times(socialSecurityRate).plus(netEarnings.times(medicareRate));
+  }
+
+  /**
+   * Calculate the net investment income tax.
+   * 
+   * 3.8% of the lesser of net investment income (interest, dividends, rents
+   * and capital gains) and AGI above the filing status threshold.
+   * 
+   * Example: Single, $250,000 AGI with $80,000 of gains -> 3.8% x $50,000 = $1,900
+   * 
+   * @param inputs Tax inputs, for investment income and filing status
+   * @param agi Adjusted gross income
+   * @returns Net investment income tax
+   */
+  private calculateNetInvestmentIncomeTax(inputs: TaxInputs, agi: Big): Big {
+    const investmentIncome = max(
+      toBig('0'),
+      (inputs.ordinaryInvestmentIncome ?? toBig('0')).plus(inputs.qualifiedDividends).plus(inputs.longTermCapitalGains),
+    );
+    const excessIncome = max(toBig('0'), agi.minus(FederalTaxCalculator.SURTAX_THRESHOLDS[inputs.filingStatus]));
+
+    return min(investmentIncome, excessIncome).times(FederalTaxCalculator.NET_INVESTMENT_INCOME_TAX_RATE);
+  }
+
+  /**
+   * Calculate the additional Medicare tax of the household.
+   * 
+   * 0.9% of wages above the filing status threshold, plus 0.9% of net
+   * self-employment earnings above what wages left of the threshold. Spouses
+   * filing jointly share one threshold.
+   * 
+   * @param earners Each earner's wages and self-employment income
+   * @param status Filing status
+   * @returns Additional Medicare tax
+   */
+  private calculateAdditionalMedicareTax(earners: PayrollIncome[], status: FilingStatus): Big {
+    const threshold = FederalTaxCalculator.SURTAX_THRESHOLDS[status];
+    const wages = earners.reduce((total, earner) => total.plus(earner.wages), toBig('0'));
+    const selfEmploymentEarnings = earners.reduce((total, { selfEmploymentIncome }) => {
+      const netEarnings = selfEmploymentIncome.times(FederalTaxCalculator.SELF_EMPLOYMENT_EARNINGS_RATE);
+      return netEarnings.lt(FederalTaxCalculator.SELF_EMPLOYMENT_MINIMUM) ? total : total.plus(netEarnings);
+    }, toBig('0'));
+
+    const excessWages = max(toBig('0'), wages.minus(threshold));
+    const remainingThreshold = max(toBig('0'), threshold.minus(wages));
+    const excessSelfEmployment = max(toBig('0'), selfEmploymentEarnings.minus(remainingThreshold));
+
+    return excessWages.plus(excessSelfEmployment).times(FederalTaxCalculator.ADDITIONAL_MEDICARE_TAX_RATE);
+  }
+
   /**
    * Apply progressive ordinary income tax brackets.
    * 
@@ -255,16 +628,14 @@ export class FederalTaxCalculator {
    * This is standard marginal tax rate calculation.
    * 
    * @param taxableAmount Amount subject to ordinary income tax
-   * @param status Filing status (determines bracket thresholds)
+   * @param brackets Brackets of the filing status and tax year
    * @returns Total ordinary income tax
    */
-  private applyOrdinaryBrackets(taxableAmount: Big, status: FilingStatus): Big {
+  private applyOrdinaryBrackets(taxableAmount: Big, brackets: TaxBracket[]): Big {
     let tax = toBig('0');
     let remaining = taxableAmount;
     let lastLimit = toBig('0');
 
-    const brackets = FederalTaxCalculator.ORDINARY_BRACKETS[status];
-
     for (const [limit, rate] of brackets) {
       if (limit === null) {
         // Top bracket (infinite ceiling)
@@ -311,19 +682,18 @@ export class FederalTaxCalculator {
    * 
    * @param ordinaryPortion Amount of ordinary income (forms the "base")
    * @param ltcgPortion Amount of LTCG/QD (stacked on top)
-   * @param status Filing status (determines thresholds)
+   * @param thresholds Thresholds of the filing status and tax year
    * @returns Total LTCG/QD tax
    */
   private applyLTCGBrackets(
     ordinaryPortion: Big,
     ltcgPortion: Big,
-    status: FilingStatus,
+    [threshold0, threshold15]: LTCGThresholds,
   ): Big {
     if (ltcgPortion.lte(0)) {
       return toBig('0');
     }
 
-    const [threshold0, threshold15] = FederalTaxCalculator.LTCG_THRESHOLDS[status];
 
     // Calculate amount in 0% bracket
     // This is the "room" left in 0% bracket after ordinary income
@@ -345,4 +715,139 @@ export class FederalTaxCalculator {
 
     return tax0.plus(tax15).plus(tax20);
   }
+
+  /**
+   * Build the tables of a tax regime other than current law.
+   * 
+   * Custom brackets start from current law's LTCG thresholds, additional
+   * standard deductions and personal exemptions of their start year (the
+   * first published year if the regime has no start year).
+   * 
+   * @param settings Tax regime settings
+   * @returns Start year and income tax parameters by year, or null for current law
+   * @throws {Error} If custom brackets are missing or do not end with an unlimited bracket
+   */
+  private createRegime(settings: TaxRegimeSettings): Regime | null {
+    const startYear = settings.startYear ?? Number.NEGATIVE_INFINITY;
+
+    switch (settings.regime) {
+      case TaxRegime.CURRENT_LAW:
+        return null;
+      case TaxRegime.PRE_TCJA:
+        return { startYear, tables: PRE_TCJA_TAX_TABLES, currentLawDeductions: false };
+      case TaxRegime.CUSTOM: {
+        const { customBrackets } = settings;
+        if (!customBrackets) {
+          throw new Error('Custom tax regime requires brackets');
+        }
+        const capped = Object.values(customBrackets.ordinaryBrackets).some(
+          (brackets) => brackets.length === 0 || brackets[brackets.length - 1][0] !== null,
+        );
+        if (capped) {
+          throw new Error('Custom tax brackets must end with an unlimited top bracket');
+        }
+
+        const baseYear = settings.startYear ?? Math.min(...Object.keys(this.tables).map(Number));
+        const { additionalStandardDeduction, personalExemption, ltcgThresholds, saltCap, seniorDeduction } =
+          this.lookUpParameters<IncomeTaxParameters>(
+            this.tables,
+            baseYear,
+            (parameters, factor) => this.indexIncomeTaxParameters(parameters, factor),
+          );
+        return {
+          startYear,
+          tables: {
+            [baseYear]: {
+              ...customBrackets,
+              additionalStandardDeduction,
+              personalExemption,
+              ltcgThresholds,
+              saltCap,
+              seniorDeduction,
+            },
+          },
+          currentLawDeductions: true,
+        };
+      }
+    }
+  }
+
+  /**
+   * Look up a year in tax tables, indexing the last published year for later years.
+   * 
+   * @param tables Tax parameters by year
+   * @param year Tax year
+   * @param index Grows a year's parameters by a factor
+   * @returns Parameters of the latest year not after the tax year (the first
+   *   year for earlier years), indexed to the tax year
+   */
+  private lookUpParameters<T>(tables: Record<number, T>, year: number, index: (parameters: T, factor: Big) => T): T {
+    const years = Object.keys(tables).map(Number).sort((a, b) => a - b);
+    const baseYear = years.filter((published) => published <= year).pop() ?? years[0];
+
+    return baseYear >= year
+      ? tables[baseYear]
+      : index(tables[baseYear], this.indexationRate.plus(1).pow(year - baseYear));
+  }
+
+  /**
+   * Look up the changes set by law for a year after the last published year.
+   * 
+   * @param year Tax year
+   * @returns SALT cap and senior deduction of the latest scheduled year not
+   *   after the tax year, or nothing if no such year follows the tables
+   */
+  private lookUpScheduledChanges(year: number): Partial<IncomeTaxParameters> {
+    const lastPublished = Math.max(...Object.keys(this.tables).map(Number));
+    const scheduledYear = Object.keys(SCHEDULED_TAX_CHANGES)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .filter((scheduled) => scheduled > lastPublished && scheduled <= year)
+      .pop();
+
+    return scheduledYear === undefined ? {} : SCHEDULED_TAX_CHANGES[scheduledYear];
+  }
+
+  /**
+   * Grow every dollar amount of a year's income tax parameters by a factor.
+   * 
+   * @param parameters Parameters of the last published year
+   * @param factor Cumulative indexation since that year
+   * @returns Indexed parameters, rates, SALT cap and senior deduction unchanged
+   */
+  private indexIncomeTaxParameters(parameters: IncomeTaxParameters, factor: Big): IncomeTaxParameters {
+    const index = (amount: Big): Big => this.indexAmount(amount, factor);
+    const byStatus = <T>(values: Record<FilingStatus, T>, map: (value: T) => T): Record<FilingStatus, T> => ({
+      [FilingStatus.SINGLE]: map(values[FilingStatus.SINGLE]),
+      [FilingStatus.MARRIED_FILING_JOINTLY]: map(values[FilingStatus.MARRIED_FILING_JOINTLY]),
+      [FilingStatus.HEAD_OF_HOUSEHOLD]: map(values[FilingStatus.HEAD_OF_HOUSEHOLD]),
+    });
+
+    return {
+      standardDeduction: byStatus(parameters.standardDeduction, index),
+      additionalStandardDeduction: byStatus(parameters.additionalStandardDeduction, index),
+      personalExemption: index(parameters.personalExemption),
+      ordinaryBrackets: byStatus(parameters.ordinaryBrackets, (brackets) =>
+        brackets.map(([limit, rate]): TaxBracket => [limit === null ? null : index(limit), rate]),
+      ),
+      ltcgThresholds: byStatus(parameters.ltcgThresholds, ([threshold0, threshold15]): LTCGThresholds => [
+        index(threshold0),
+        index(threshold15),
+      ]),
+      saltCap: parameters.saltCap,
+      seniorDeduction: parameters.seniorDeduction,
+    };
+  }
+
+  /**
+   * Grow a dollar amount by a factor, rounded down to $50.
+   * 
+   * @param amount Amount of the last published year
+   * @param factor Cumulative indexation since that year
+   * @returns Indexed amount
+   */
+  private indexAmount(amount: Big, factor: Big): Big {
+    const rounding = FederalTaxCalculator.INDEXATION_ROUNDING;
+    return amount.times(factor).div(rounding).round(0, Big.roundDown).times(rounding);
+  }
 }
@@ -0,0 +1,93 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Tax Regime Comparison - Lifetime taxes under different tax laws
+ *
+ * Answers "what if the brackets revert?" by running the same projection once
+ * per tax regime (current law, pre-2018 rates from a given year, custom
+ * brackets) and reporting lifetime taxes side by side.
+ *
+ * Methodology:
+ * 1. Each regime replaces the scenario's tax regime, and the projection is
+ *    run again
+ * 2. Each option reports federal, state and total taxes paid, lifetime net
+ *    income (sum of net income over the withdrawal years) and the final
+ *    portfolio
+ * 3. The first regime compared is the baseline for differences
+ *
+ * Simplifications:
+ * - Withdrawal sequencing and Roth conversions react to each regime's
+ *   brackets, but the scenario's settings (target bracket, conversion
+ *   strategy) are the same for every regime
+ *
+ * @module taxRegimeComparison
+ */
+
+import { sum } from './bigHelpers';
+import { ProjectionEngine } from './projectionEngine';
+import type { ProjectionRunner } from './claimingOptimizer';
+import type { Scenario, TaxRegimeComparisonResult, TaxRegimeOption, TaxRegimeSettings } from './types';
+
+/**
+ * Compares tax regimes by re-running a projection under each.
+ *
+ * @example
+ * const comparator = new TaxRegimeComparator(scenario);
+ * const result = comparator.compare(
+ *   (engine) => engine.runProjection(30, new Big(0.05)),
+ *   [{ regime: TaxRegime.CURRENT_LAW }, { regime: TaxRegime.PRE_TCJA, startYear: 2030 }],
+ * );
+ *
+ * for (const option of result.options) {
+ *   console.log(option.settings.regime, option.totalTaxesPaid.toFixed(0));
+ * }
+ */
+export class TaxRegimeComparator {
+  private readonly scenario: Scenario;
+
+  /**
+   * Create a comparator for a scenario.
+   *
+   * @param scenario - Scenario to project under each regime
+   */
+  constructor(scenario: Scenario) {
+    this.scenario = scenario;
+  }
+
+  /**
+   * Run the projection under every tax regime.
+   *
+   * @param runProjection - Runs one projection with the given engine
+   * @param regimes - Tax regimes to compare; the first is the baseline
+   * @returns One option per regime, in the same order
+   * @throws {Error} If no regime is given
+   */
+  compare(runProjection: ProjectionRunner, regimes: TaxRegimeSettings[]): TaxRegimeComparisonResult {
+    if (regimes.length === 0) {
+      throw new Error('At least one tax regime is required to compare');
+    }
+
+    const options = regimes.map((settings): TaxRegimeOption => {
+      const engine = new ProjectionEngine({
+        ...this.scenario,
+        policy: { ...this.scenario.policy, taxRegime: settings },
+      });
+      const result = runProjection(engine);
+      const stateTaxesPaid = sum([
+        ...result.accumulationYears.map((year) => year.stateTaxes),
+        ...result.withdrawalPlans.map((plan) => plan.stateTaxes),
+      ]);
+
+      return {
+        settings,
+        success: result.success,
+        finalPortfolioValue: result.finalPortfolioValue,
+        lifetimeNetIncome: sum(result.withdrawalPlans.map((plan) => plan.totalNetIncome)),
+        federalTaxesPaid: result.totalTaxesPaid.minus(stateTaxesPaid),
+        stateTaxesPaid,
+        totalTaxesPaid: result.totalTaxesPaid,
+      };
+    });
+
+    return { scenarioName: this.scenario.name, options };
+  }
+}
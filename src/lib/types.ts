@@ -30,6 +30,90 @@ export const AccountType = {
 
 export type AccountType = typeof AccountType[keyof typeof AccountType];
 
+/**
+ * IRS limit that applies to contributions into an account.
+ */
+export const ContributionLimitType = {
+  EMPLOYER_PLAN: 'employer_plan', // 401(k)/403(b) elective deferrals
+  IRA: 'ira', // Traditional and Roth IRA combined
+  NONE: 'none', // Taxable accounts
+} as const;
+
+export type ContributionLimitType = typeof ContributionLimitType[keyof typeof ContributionLimitType];
+
+/**
+ * Members of the household (owners of accounts and benefits).
+ */
+export const HouseholdMember = {
+  USER: 'user',
+  SPOUSE: 'spouse',
+} as const;
+
+export type HouseholdMember = typeof HouseholdMember[keyof typeof HouseholdMember];
+
+/**
+ * Kinds of lifetime income streams.
+ */
+export const PensionType = {
+  PENSION: 'pension', // Employer defined-benefit pension
+  ANNUITY: 'annuity', // Purchased income annuity
+} as const;
+
+export type PensionType = typeof PensionType[keyof typeof PensionType];
+
+/**
+ * Kinds of income earned from work.
+ */
+export const EarnedIncomeType = {
+  WAGES: 'wages', // Employee wages (FICA)
+  SELF_EMPLOYMENT: 'self_employment', // Net self-employment earnings (SE tax)
+} as const;
+
+export type EarnedIncomeType = typeof EarnedIncomeType[keyof typeof EarnedIncomeType];
+
+/**
+ * Asset classes an account can hold.
+ */
+export const AssetClass = {
+  STOCKS: 'stocks',
+  BONDS: 'bonds',
+  CASH: 'cash',
+} as const;
+
+export type AssetClass = typeof AssetClass[keyof typeof AssetClass];
+
+/**
+ * Portfolio weights by asset class (decimals summing to 1).
+ */
+export type AssetAllocation = Record<AssetClass, Big>;
+
+/**
+ * One year of real returns by asset class (decimals).
+ */
+export type AssetClassReturns = Record<AssetClass, Big>;
+
+/**
+ * Expected real return and volatility of one asset class.
+ */
+export interface AssetClassAssumption {
+  meanReturn: Big;
+  volatility: Big;
+}
+
+/**
+ * Capital market assumptions for multi-asset Monte Carlo simulations.
+ */
+export interface CapitalMarketAssumptions {
+  stocks: AssetClassAssumption;
+  bonds: AssetClassAssumption;
+  cash: AssetClassAssumption;
+  correlations: {
+    stocksBonds: number;
+    stocksCash: number;
+    bondsCash: number;
+  };
+}
+
 /**
  * Income type classification for tax purposes.
  */
@@ -55,6 +139,28 @@ export const SequencingStrategy = {
 
 export type SequencingStrategy = typeof SequencingStrategy[keyof typeof SequencingStrategy];
 
+/**
+ * Roth conversion strategies.
+ */
+export const RothConversionStrategy = {
+  FIXED_AMOUNT: 'fixed_amount',
+  FILL_TO_BRACKET: 'fill_to_bracket',
+  FILL_TO_IRMAA_TIER: 'fill_to_irmaa_tier',
+} as const;
+
+export type RothConversionStrategy = typeof RothConversionStrategy[keyof typeof RothConversionStrategy];
+
+/**
+ * Federal income tax law applied by a scenario.
+ */
+export const TaxRegime = {
+  CURRENT_LAW: 'current_law', // Published tables, indexed afterwards
+  PRE_TCJA: 'pre_tcja', // Rates and deductions before the 2017 Tax Cuts and Jobs Act
+  CUSTOM: 'custom', // User-defined brackets and standard deductions
+} as const;
+
+export type TaxRegime = typeof TaxRegime[keyof typeof TaxRegime];
+
 /**
  * Tax calculation inputs.
  */
@@ -65,6 +171,19 @@ export interface TaxInputs {
   longTermCapitalGains: Big;
   socialSecurityGross: Big;
   taxExemptInterest: Big;
+  earnedIncome?: PayrollIncome[]; // One entry per earner; not included in ordinaryIncome
+  ordinaryInvestmentIncome?: Big; // Interest, non-qualified dividends and net rents, part of ordinaryIncome (for NIIT)
+  ages?: number[]; // Ages of the filers; each 65 or older adds to the standard deduction
+  itemizedDeductions?: ItemizedDeductions; // Used instead of the standard deduction when larger
+}
+
+/**
+ * Deductible expenses of a tax year, itemized on Schedule A.
+ */
+export interface ItemizedDeductions {
+  mortgageInterest: Big;
+  stateAndLocalTaxes: Big; // Property and state income taxes, before the SALT cap
+  charitableGiving: Big;
 }
 
 /**
@@ -77,9 +196,120 @@ export interface TaxResult {
   taxableIncome: Big;
   ordinaryTaxable: Big;
   ltcgTaxable: Big;
+  deduction: Big; // Larger of the standard and itemized deductions, plus exemptions and the senior deduction
+  itemized: boolean; // Itemized deductions exceed the standard deduction
   ordinaryTax: Big;
   ltcgTax: Big;
-  totalTax: Big;
+  ficaTax: Big; // Employee Social Security and Medicare tax on wages
+  selfEmploymentTax: Big;
+  netInvestmentIncomeTax: Big; // 3.8% NIIT
+  additionalMedicareTax: Big; // 0.9% on wages and self-employment earnings above the threshold
+  totalTax: Big; // Income tax, NIIT, FICA, additional Medicare and self-employment tax
+}
+
+/**
+ * Tax bracket: [upperLimit, rate]; upperLimit is null for the top bracket.
+ */
+export type TaxBracket = [Big | null, Big];
+
+/**
+ * Limit on deducted state and local taxes (SALT), lowered above a MAGI threshold.
+ */
+export interface SaltCap {
+  cap: Big;
+  phaseDownThreshold: Big | null; // MAGI above which the cap is lowered (null: no phase-down)
+}
+
+/**
+ * Deduction per filer aged 65 or older, on top of the standard or itemized deductions.
+ */
+export interface SeniorDeduction {
+  amount: Big;
+  phaseOutThresholds: Record<FilingStatus, Big>; // MAGI above which the amount is reduced
+}
+
+/**
+ * Federal income tax parameters of one tax year.
+ */
+export interface IncomeTaxParameters {
+  standardDeduction: Record<FilingStatus, Big>;
+  additionalStandardDeduction: Record<FilingStatus, Big>; // Per filer aged 65 or older
+  personalExemption: Big; // Per filer, with either the standard or itemized deductions
+  ordinaryBrackets: Record<FilingStatus, TaxBracket[]>;
+  ltcgThresholds: Record<FilingStatus, [Big, Big]>; // [0% ceiling, 15% ceiling]
+  saltCap: SaltCap | null; // Not indexed (null: no limit)
+  seniorDeduction: SeniorDeduction | null; // Not indexed (null: none)
+}
+
+/**
+ * Federal tax parameters of one tax year, including payroll taxes.
+ */
+export interface FederalTaxParameters extends IncomeTaxParameters {
+  socialSecurityWageBase: Big; // Earnings subject to Social Security tax
+}
+
+/**
+ * Brackets and standard deductions of a custom tax regime.
+ */
+export type CustomTaxBrackets = Pick<IncomeTaxParameters, 'standardDeduction' | 'ordinaryBrackets'>;
+
+/**
+ * Tax regime of a scenario and the first tax year it applies to.
+ */
+export interface TaxRegimeSettings {
+  regime: TaxRegime;
+  startYear?: number; // First tax year under the regime; current law before it (default: every year)
+  customBrackets?: CustomTaxBrackets; // CUSTOM only: amounts of the start year, indexed afterwards
+}
+
+/**
+ * Retirement income a state excludes for each household member of at least
+ * a minimum age.
+ */
+export interface RetirementIncomeExclusion {
+  minAge: number;
+  limit: Big | null; // Per person; null excludes all retirement income
+}
+
+/**
+ * Income tax rules of one state.
+ */
+export interface StateTaxRules {
+  name: string;
+  brackets: Record<FilingStatus, TaxBracket[]>; // Empty when the state has no income tax
+  standardDeduction: Record<FilingStatus, Big>; // Including personal exemptions
+  exemptsSocialSecurity: boolean; // Otherwise the federally taxable part is taxed
+  retirementExclusions: RetirementIncomeExclusion[]; // The highest minimum age reached applies
+}
+
+/**
+ * State tax calculation inputs, starting from the federal return.
+ */
+export interface StateTaxInputs {
+  filingStatus: FilingStatus;
+  federalAgi: Big;
+  taxableSocialSecurity: Big; // Federally taxable part, included in federalAgi
+  retirementIncome: Big; // Pensions, Traditional withdrawals and Roth conversions
+  ages: number[]; // Ages of the living household members
+}
+
+/**
+ * State tax calculation results.
+ */
+export interface StateTaxResult {
+  retirementExclusion: Big;
+  taxableIncome: Big;
+  tax: Big;
+}
+
+/**
+ * Medicare IRMAA surcharge results.
+ */
+export interface IRMAAResult {
+  tier: number; // 0 = no surcharge, 1-5 = IRMAA tier
+  partBMonthly: Big; // Part B monthly adjustment
+  partDMonthly: Big; // Part D monthly adjustment
+  annualSurcharge: Big; // (Part B + Part D) * 12
 }
 
 /**
@@ -100,6 +330,32 @@ export interface UserProfile {
   birthYear: number;
   retirementAge: number;
   filingStatus: FilingStatus;
+  annualSalary?: Big; // Current gross salary, used before retirement
+  salaryGrowthRate?: Big; // Real annual raise (default 0)
+  lifeExpectancy?: number; // Last age lived (default: alive for the whole projection)
+  spouse?: SpouseProfile; // Requires married filing jointly
+  stateOfResidence?: string; // Two-letter code in STATE_TAX_RULES (default: no state tax)
+  deductibleExpenses?: DeductibleExpenses; // Itemized when they beat the standard deduction
+}
+
+/**
+ * Yearly deductible expenses paid from the spending target (real dollars).
+ * Mortgage interest comes from the modeled mortgages.
+ */
+export interface DeductibleExpenses {
+  propertyTaxes: Big;
+  charitableGiving: Big;
+}
+
+/**
+ * Spouse of the user in a joint household.
+ */
+export interface SpouseProfile {
+  birthYear: number;
+  retirementAge: number; // Contributions to the spouse's accounts stop at this age
+  annualSalary?: Big; // Current gross salary, grows at the user's salary growth rate
+  lifeExpectancy?: number; // Last age lived (default: alive for the whole projection)
+  ssaIncome?: SSAIncome; // The spouse's own Social Security record
 }
 
 /**
@@ -111,6 +367,163 @@ export interface Account {
   balance: Big;
   nickname?: string;
   costBasis?: Big; // For taxable accounts
+  investmentIncome?: InvestmentIncome; // Dividends and interest, for taxable accounts
+  allocation?: AssetAllocation; // Default 60% stocks / 40% bonds
+  contribution?: ContributionPlan; // Savings until retirement
+  owner?: HouseholdMember; // Drives RMD age and contribution limits (default: user)
+}
+
+/**
+ * Dividends and interest paid by a taxable account's holdings.
+ */
+export interface InvestmentIncome {
+  dividendYield: Big; // Yearly dividends as a fraction of the balance (e.g., 0.02)
+  qualifiedDividendRate: Big; // Fraction of dividends taxed at capital gains rates
+  interestYield: Big; // Yearly interest as a fraction of the balance
+  reinvest: boolean; // Reinvest (adds to basis) or distribute as spending cash
+}
+
+/**
+ * One year of dividends and interest from a taxable account.
+ */
+export interface InvestmentIncomeResult {
+  accountId: string;
+  qualifiedDividends: Big;
+  ordinaryDividends: Big; // Non-qualified dividends, taxed as ordinary income
+  interest: Big; // Taxed as ordinary income
+  distributed: Big; // Paid out as cash (0 when reinvested)
+}
+
+/**
+ * Annual contributions into an account during the working years.
+ */
+export interface ContributionPlan {
+  annualAmount?: Big; // Fixed employee contribution (real dollars)
+  salaryPercent?: Big; // Employee contribution as a fraction of salary (used if annualAmount is not set)
+  limitType: ContributionLimitType;
+  employerMatchRate?: Big; // Employer pays this fraction of employee contributions...
+  employerMatchCap?: Big; // ...on contributions up to this fraction of salary
+}
+
+/**
+ * Real estate property (not withdrawable; counted in net worth).
+ */
+export interface RealEstate {
+  id: string;
+  nickname?: string;
+  currentValue: Big;
+  appreciationRate: Big; // Real annual appreciation as decimal
+  costBasis?: Big; // Purchase price plus improvements (default: currentValue)
+  isPrimaryResidence?: boolean; // Sale gain qualifies for the Section 121 exclusion
+  rental?: RentalProperty;
+  saleYear?: number; // Calendar year the property is sold (at the start of the year)
+  saleCostRate?: Big; // Selling costs as a fraction of the sale price (default 0.06)
+  proceedsAccountId?: string; // Taxable account receiving net proceeds (default: first taxable account)
+}
+
+/**
+ * Rental income and expenses of a property (real dollars per year).
+ */
+export interface RentalProperty {
+  annualRent: Big;
+  annualExpenses: Big; // Property tax, insurance, maintenance, management
+  depreciationBasis?: Big; // Building value (excluding land) depreciated over 27.5 years
+  accumulatedDepreciation?: Big; // Depreciation already taken
+}
+
+/**
+ * One year of real estate cash flows and tax items for a property.
+ */
+export interface RealEstateYearResult {
+  propertyId: string;
+  value: Big; // Value at the start of the year (0 once sold)
+  rentalCashFlow: Big; // Rent minus expenses (spendable)
+  taxableRentalIncome: Big; // Rental cash flow minus depreciation (losses are not deducted)
+  depreciation: Big;
+  saleProceeds: Big; // Sale price minus selling costs
+  mortgagePayoff: Big; // Linked mortgage principal repaid from the proceeds
+  capitalGain: Big; // Long-term gain after recapture and exclusion
+  depreciationRecapture: Big; // Taxed as ordinary income
+  excludedGain: Big; // Primary residence exclusion used
+}
+
+/**
+ * Mortgage (or other amortizing loan) paid from the yearly spending need.
+ */
+export interface Mortgage {
+  id: string;
+  nickname?: string;
+  principalBalance: Big;
+  interestRate: Big; // Annual interest rate as decimal
+  monthlyPayment: Big; // Fixed payment (principal and interest)
+  propertyId?: string; // Real estate financed by this mortgage (repaid first when it is sold)
+}
+
+/**
+ * One year of payments on a mortgage.
+ */
+export interface MortgageYearResult {
+  mortgageId: string;
+  payment: Big; // Total paid this year
+  interestPaid: Big;
+  principalPaid: Big;
+  remainingPrincipal: Big; // After this year's payments
+}
+
+/**
+ * Pension or annuity paying a yearly amount for life.
+ */
+export interface Pension {
+  id: string;
+  nickname?: string;
+  pensionType: PensionType;
+  owner?: HouseholdMember; // Payments follow the owner's age (default: user)
+  startAge: number; // Owner's age when payments start
+  annualAmount: Big; // Yearly payment in the first year
+  colaRate: Big; // Yearly increase after the first year, as decimal (0 if fixed)
+  survivorRate: Big; // Fraction paid to the surviving spouse after the owner's death (0-1)
+  taxableRate: Big; // Fraction taxed as ordinary income (below 1 when after-tax money bought it)
+}
+
+/**
+ * One year of payments from a pension or annuity.
+ */
+export interface PensionYearResult {
+  pensionId: string;
+  payment: Big;
+  taxableAmount: Big; // Ordinary income
+}
+
+/**
+ * Wages or self-employment income earned during retirement (e.g., part-time work).
+ */
+export interface EarnedIncome {
+  id: string;
+  nickname?: string;
+  incomeType: EarnedIncomeType;
+  owner?: HouseholdMember; // Work follows the owner's age (default: user)
+  startAge: number; // Owner's age in the first year of work
+  endAge: number; // Owner's age in the last year of work (inclusive)
+  annualAmount: Big; // Yearly earnings in the first year
+  growthRate: Big; // Yearly raise after the first year, as decimal
+}
+
+/**
+ * One year of earnings from an earned income stream.
+ */
+export interface EarnedIncomeYearResult {
+  earnedIncomeId: string;
+  incomeType: EarnedIncomeType;
+  owner: HouseholdMember;
+  amount: Big; // Wages or net self-employment earnings
+}
+
+/**
+ * One earner's income subject to payroll taxes.
+ */
+export interface PayrollIncome {
+  wages: Big; // Subject to FICA
+  selfEmploymentIncome: Big; // Net profit, subject to SE tax
 }
 
 /**
@@ -118,7 +531,7 @@ export interface Account {
  */
 export interface SSAIncome {
   fraMonthlyBenefit: Big; // Monthly benefit at full retirement age
-  claimingAge: number; // Age when claiming benefits
+  claimingAge: number; // Age when claiming benefits (62-70, fractions are months)
 }
 
 /**
@@ -132,8 +545,22 @@ export interface WithdrawalPolicy {
   sequencingStrategy: SequencingStrategy;
   inflationAdjust: boolean;
   inflationRate: Big;
+  taxIndexationRate?: Big; // Yearly growth of federal tax thresholds after the last published year (default: inflationRate)
+  taxRegime?: TaxRegimeSettings; // Federal tax law (default: current law)
   targetTaxBracket?: Big; // Max marginal rate
   avoidIRMAA: boolean;
+  rothConversion?: RothConversionPolicy;
+}
+
+/**
+ * Roth conversion policy (Traditional -> Roth transfers).
+ */
+export interface RothConversionPolicy {
+  strategy: RothConversionStrategy;
+  startAge: number; // First age to convert (inclusive)
+  endAge: number; // Last age to convert (inclusive)
+  annualAmount?: Big; // Amount per year for FIXED_AMOUNT
+  targetTaxBracket?: Big; // Marginal rate to fill for FILL_TO_BRACKET (defaults to policy.targetTaxBracket)
 }
 
 /**
@@ -143,6 +570,7 @@ export interface AccountMetadata {
   id: string;
   nickname?: string;
   accountType: AccountType;
+  allocation: AssetAllocation;
 }
 
 /**
@@ -150,16 +578,34 @@ export interface AccountMetadata {
  */
 export interface WithdrawalPlan {
   year: number;
-  age: number;
-  guaranteedIncome: Big; // SSA, pensions
-  dividendIncome: Big;
+  age: number; // User's age (keeps counting after the user's death)
+  spouseAge?: number; // Set when there is a spouse
+  filingStatus: FilingStatus; // Single from the year after the first death
+  guaranteedIncome: Big; // Social Security plus pensions
+  socialSecurityIncome: Big; // Benefits of the living household members
+  pensionIncome: Big; // Pension and annuity payments
+  earnedIncome: Big; // Wages and self-employment income
+  dividendIncome: Big; // Dividends of taxable accounts, reinvested or not
+  interestIncome: Big; // Interest of taxable accounts, reinvested or not
+  investmentIncome: Big; // Dividends and interest paid out as cash
+  rentalIncome: Big; // Net rental cash flow (rent minus expenses)
   accountWithdrawals: Record<string, Big>; // account_id -> amount
   totalGrossIncome: Big;
-  totalTaxes: Big;
+  totalTaxes: Big; // Federal and state
+  stateTaxes: Big; // State income tax (part of totalTaxes)
+  irmaaSurcharge: Big; // Medicare IRMAA surcharge based on MAGI two years earlier
+  rothConversion: Big; // Amount moved from Traditional to Roth (taxed, not spendable)
   totalNetIncome: Big;
+  taxResult: TaxResult; // Full tax breakdown (MAGI drives future IRMAA)
   accountBalances: Record<string, Big>; // account_id -> balance
   totalPortfolioValue: Big;
   accountMetadata: Record<string, AccountMetadata>; // account_id -> metadata
+  realEstate: RealEstateYearResult[]; // One entry per property
+  realEstateValue: Big; // Total property value at the start of the year
+  mortgages: MortgageYearResult[]; // One entry per mortgage
+  mortgagePayments: Big; // Added to the spending need
+  liabilities: Big; // Remaining mortgage principal after this year's payments
+  netWorth: Big; // Portfolio plus real estate minus liabilities
 }
 
 /**
@@ -169,10 +615,39 @@ export interface Scenario {
   name: string;
   user: UserProfile;
   accounts: Account[];
+  realEstate?: RealEstate[];
+  mortgages?: Mortgage[];
+  pensions?: Pension[];
+  earnedIncome?: EarnedIncome[];
   ssaIncome?: SSAIncome;
   policy: WithdrawalPolicy;
 }
 
+/**
+ * Contributions for one working year.
+ */
+export interface YearContributions {
+  contributions: Record<string, Big>; // account_id -> employee contribution
+  employerMatch: Record<string, Big>; // account_id -> employer contribution
+}
+
+/**
+ * One working year before retirement.
+ */
+export interface AccumulationYear extends YearContributions {
+  year: number;
+  age: number;
+  spouseAge?: number; // Set when there is a spouse
+  salary: Big; // Household salary
+  accountBalances: Record<string, Big>; // account_id -> balance at start of year
+  totalPortfolioValue: Big;
+  realEstateValue: Big; // Total property value at the start of the year
+  liabilities: Big; // Remaining mortgage principal after this year's payments (paid from salary)
+  netWorth: Big; // Portfolio plus real estate minus liabilities
+  taxes: Big; // Federal and state tax on rent, dividends, interest and property sales (paid from salary)
+  stateTaxes: Big; // State part of taxes
+}
+
 /**
  * Projection result from a simulation.
  */
@@ -181,10 +656,54 @@ export interface ProjectionResult {
   success: boolean; // Did portfolio last entire period?
   failureYear?: number; // Year when portfolio depleted
   failureAge?: number; // Age when portfolio depleted
+  accumulationYears: AccumulationYear[]; // Working years before withdrawals start
   withdrawalPlans: WithdrawalPlan[];
   finalPortfolioValue: Big;
-  totalTaxesPaid: Big;
+  totalTaxesPaid: Big; // Working and retirement years
+  totalIRMAASurcharges: Big;
+  totalRothConversions: Big;
   totalWithdrawals: Big;
+  mortgagePayoffYears: Record<string, number>; // mortgage_id -> year paid off (if within the projection)
+}
+
+/**
+ * Return generator used by Monte Carlo simulations.
+ */
+export const ReturnModel = {
+  NORMAL: 'normal', // Independent normal returns (mean, volatility), same for every asset class
+  MULTI_ASSET_NORMAL: 'multi_asset_normal', // Correlated normal returns per asset class
+  HISTORICAL_ROLLING: 'historical_rolling', // Consecutive historical years, one start year per run
+  BLOCK_BOOTSTRAP: 'block_bootstrap', // Random multi-year blocks of historical years
+} as const;
+
+export type ReturnModel = typeof ReturnModel[keyof typeof ReturnModel];
+
+/**
+ * Return generator configuration.
+ */
+export interface ReturnModelConfig {
+  model: ReturnModel;
+  blockSize?: number; // Block bootstrap: years per block (default 5)
+  assumptions?: CapitalMarketAssumptions; // Multi-asset normal (default DEFAULT_CAPITAL_MARKET_ASSUMPTIONS)
+}
+
+/**
+ * One year of historical market data (decimals, nominal).
+ */
+export interface HistoricalReturn {
+  year: number;
+  stocks: number; // Total return including dividends
+  bonds: number;
+  cash: number; // 3-month Treasury bills
+  inflation: number;
+}
+
+/**
+ * A run replaying history from a given start year.
+ */
+export interface HistoricalStart {
+  startYear: number;
+  run: ProjectionResult;
 }
 
 /**
@@ -193,6 +712,8 @@ export interface ProjectionResult {
 export interface MonteCarloResult {
   scenarioName: string;
   numRuns: number;
+  seed: number; // Base random seed; rerunning with it reproduces this result
+  returnModel: ReturnModel;
   successRate: number; // Percentage of runs that succeeded
   medianFinalValue: Big;
   percentile10Value: Big;
@@ -200,6 +721,96 @@ export interface MonteCarloResult {
   medianRun: ProjectionResult;
   worstCaseRun: ProjectionResult;
   bestCaseRun: ProjectionResult;
+  yearlyBands: MonteCarloYearBands[]; // Distribution across all runs, year by year
+  worstHistoricalStart?: HistoricalStart; // Rolling historical model only, among runs that do not wrap
+}
+
+/**
+ * Percentile bands of a value across Monte Carlo runs.
+ */
+export interface PercentileBands {
+  p5: Big;
+  p25: Big;
+  p50: Big;
+  p75: Big;
+  p95: Big;
+}
+
+/**
+ * Distribution of outcomes across all Monte Carlo runs for one year.
+ *
+ * Runs already depleted in this year count as zero portfolio and zero net income.
+ */
+export interface MonteCarloYearBands {
+  year: number;
+  age: number;
+  portfolio: PercentileBands;
+  netIncome: PercentileBands;
+  depletionProbability: number; // Percentage of runs depleted by this year
+}
+
+/**
+ * What the Social Security claiming-age optimizer maximizes or minimizes.
+ */
+export const ClaimingObjective = {
+  FINAL_PORTFOLIO: 'final_portfolio', // Largest portfolio at the end of the projection
+  LIFETIME_NET_INCOME: 'lifetime_net_income', // Most net income over the projection
+  TOTAL_TAXES: 'total_taxes', // Least taxes over the projection
+} as const;
+
+export type ClaimingObjective = typeof ClaimingObjective[keyof typeof ClaimingObjective];
+
+/**
+ * Claiming ages compared by the optimizer.
+ */
+export const ClaimingGranularity = {
+  YEAR: 'year', // 62, 63, ... 70
+  MONTH: 'month', // 62, 62 and 1 month, ... 70
+} as const;
+
+export type ClaimingGranularity = typeof ClaimingGranularity[keyof typeof ClaimingGranularity];
+
+/**
+ * Projection outcome for one Social Security claiming age.
+ */
+export interface ClaimingOption {
+  claimingAge: number; // Fractions are months
+  success: boolean; // Did the portfolio last the entire projection?
+  finalPortfolioValue: Big;
+  lifetimeNetIncome: Big; // Sum of net income over the withdrawal years
+  totalTaxesPaid: Big;
+  breakEvenAge?: number; // Age when cumulative benefits overtake the earliest claiming age compared (never for that age)
+}
+
+/**
+ * Claiming-age optimizer result.
+ */
+export interface ClaimingOptimizationResult {
+  scenarioName: string;
+  objective: ClaimingObjective;
+  options: ClaimingOption[]; // By increasing claiming age
+  bestClaimingAge: number;
+}
+
+/**
+ * Projection outcome under one tax regime.
+ */
+export interface TaxRegimeOption {
+  settings: TaxRegimeSettings;
+  success: boolean; // Did the portfolio last the entire projection?
+  finalPortfolioValue: Big;
+  lifetimeNetIncome: Big; // Sum of net income over the withdrawal years
+  federalTaxesPaid: Big; // Federal income and payroll taxes
+  stateTaxesPaid: Big;
+  totalTaxesPaid: Big;
+}
+
+/**
+ * Tax regime comparison result.
+ */
+export interface TaxRegimeComparisonResult {
+  scenarioName: string;
+  options: TaxRegimeOption[]; // In the order compared; the first is the baseline
 }
 
 /**
@@ -208,16 +819,32 @@ export interface MonteCarloResult {
 export interface ChartDataPoint {
   year: number;
   age: number;
+  spouseAge?: number;
+  filingStatus: FilingStatus;
   socialSecurity: number;
+  pensionIncome: number; // Pension and annuity payments
+  earnedIncome: number; // Wages and self-employment income
+  investmentIncome: number; // Dividends and interest paid out as cash
+  rentalIncome: number; // Net rental cash flow
   taxableWithdrawal: number;
   traditionalWithdrawal: number;
   rothWithdrawal: number;
-  taxes: number;
+  taxes: number; // Federal and state
+  stateTaxes: number; // Negative for display below X-axis; part of taxes
+  irmaaSurcharge: number;
+  rothConversion: number;
   totalIncome: number;
   taxableBalance: number;
   traditionalBalance: number;
   rothBalance: number;
+  stocksBalance: number; // Balances split by each account's allocation
+  bondsBalance: number;
+  cashBalance: number;
   totalPortfolio: number;
+  realEstateValue: number; // Not part of the portfolio (not withdrawable)
+  mortgagePayments: number; // Negative for display below X-axis
+  liabilities: number;
+  netWorth: number;
 }
 
 /**
@@ -229,3 +856,49 @@ export interface ChartDataset {
   maxIncome: number;
   maxWealth: number;
 }
+
+/**
+ * Monte Carlo fan chart data point (percentile bands for one year).
+ */
+export interface FanChartDataPoint {
+  year: number;
+  age: number;
+  portfolioP5: number;
+  portfolioP25: number;
+  portfolioP50: number;
+  portfolioP75: number;
+  portfolioP95: number;
+  netIncomeP5: number;
+  netIncomeP25: number;
+  netIncomeP50: number;
+  netIncomeP75: number;
+  netIncomeP95: number;
+  depletionProbability: number; // Percentage (0-100)
+}
+
+/**
+ * Claiming-age comparison chart data point (one claiming age).
+ */
+export interface ClaimingChartDataPoint {
+  claimingAge: number;
+  label: string; // e.g. "66y 6m"
+  finalPortfolio: number;
+  lifetimeNetIncome: number;
+  totalTaxes: number;
+  breakEvenAge?: number;
+  isBest: boolean;
+}
+
+/**
+ * Tax regime comparison chart data point (one regime).
+ */
+export interface TaxRegimeChartDataPoint {
+  label: string; // e.g. "Pre-2018 rates from 2030"
+  success: boolean;
+  federalTaxes: number;
+  stateTaxes: number;
+  totalTaxes: number;
+  taxDifference: number; // Total taxes minus the baseline's (0 for the baseline)
+  lifetimeNetIncome: number;
+  finalPortfolio: number;
+}
@@ -6,10 +6,25 @@
  * to meet retirement income targets while optimizing tax efficiency.
  *
  * Key features:
- * - Multiple withdrawal sequencing strategies
+ * - Multiple withdrawal sequencing strategies, including tax bracket filling
  * - RMD enforcement for Traditional accounts
  * - Tax-aware withdrawal planning
- * - Social Security income integration
+ * - State income tax for the state of residence, on top of federal tax
+ * - Medicare IRMAA surcharges with optional tier avoidance
+ * - Roth conversion planning (fixed amount, fill to bracket, fill to IRMAA tier)
+ * - Social Security income integration, for the user and a spouse, with
+ *   spousal and survivor benefits
+ * - Pensions and annuities, taxed as ordinary income
+ * - Earned income (wages, self-employment) in withdrawal need and taxes, with
+ *   the Social Security earnings test before FRA
+ * - Dividends and interest of taxable accounts, taxed whether reinvested or
+ *   distributed (distributions reduce the withdrawal need)
+ * - Per-person ages for RMDs and Medicare, single filing after the first death
+ * - Real estate income (net rent, sale gains) in withdrawal need and taxes
+ * - Mortgage payments added to the spending need
+ * - Itemized deductions (mortgage interest, property and state income taxes,
+ *   charitable giving) when they beat the standard deduction, and the
+ *   additional standard deduction at 65
  *
  * @module withdrawalCoordinator
  */
@@ -24,6 +39,7 @@ import {
   multiply,
   subtract,
   add,
+  sum,
 } from './bigHelpers';
 import type {
   WithdrawalPolicy,
@@ -31,13 +47,29 @@ import type {
   UserProfile,
   SSAIncome,
   TaxInputs,
+  TaxResult,
+  AssetClassReturns,
+  RealEstateYearResult,
+  MortgageYearResult,
+  Pension,
+  EarnedIncome,
+  EarnedIncomeYearResult,
+  PayrollIncome,
+  InvestmentIncomeResult,
+  ItemizedDeductions,
 } from './types';
 import type { AccountMetadata } from './types';
-import { SequencingStrategy, AccountType } from './types';
+import { SequencingStrategy, AccountType, RothConversionStrategy, HouseholdMember, EarnedIncomeType } from './types';
 import { BaseAccount } from './accounts/BaseAccount';
 import { TaxableAccount } from './accounts/TaxableAccount';
 import { TraditionalAccount } from './accounts/TraditionalAccount';
+import { RothAccount } from './accounts/RothAccount';
 import { FederalTaxCalculator } from './taxCalculator';
+import { StateTaxCalculator } from './stateTaxCalculator';
+import { IRMAACalculator } from './irmaaCalculator';
+import { Household } from './household';
+import { PensionIncome } from './pension';
+import { EarnedIncomeStream } from './earnedIncome';
 
 /**
  * Social Security benefit calculator.
@@ -45,88 +77,380 @@ import { FederalTaxCalculator } from './taxCalculator';
  * Calculates annual benefits based on claiming age with adjustments
  * for early or delayed claiming relative to Full Retirement Age,
  * plus COLA (Cost of Living Adjustment) increases.
+ *
+ * FRA depends on the birth year (65 through 67 in 2-month steps). Claiming
+ * ages may include months (e.g. 66.5 for 66 and 6 months); the first year
+ * then pays only the months after claiming.
+ *
+ * For married households it also calculates the spousal benefit (up to
+ * 50% of the partner's PIA, on top of the worker's own benefit) and the
+ * survivor benefit (the deceased's benefit, continuing after a death).
+ *
+ * Before FRA, the earnings test withholds benefits when the worker's
+ * earnings exceed a yearly limit.
+ *
+ * Simplifications:
+ * - Delayed credits are 8% a year for every birth year (the rate for 1943+)
+ * - Spousal and survivor benefits use the worker's retirement FRA
+ * - Earnings test limits grow from 2024 with the tax indexation rate, not
+ *   with the national average wage
+ * - Benefits withheld by the earnings test are lost: the recomputation at
+ *   FRA that raises the benefit for the months withheld is not modeled
+ *
+ * See: https://www.ssa.gov/benefits/retirement/planner/agereduction.html,
+ * https://www.ssa.gov/benefits/retirement/planner/applying7.html,
+ * https://www.ssa.gov/benefits/survivors/ifyou.html and
+ * https://www.ssa.gov/benefits/retirement/planner/whileworking.html
  */
 export class SSABenefitCalculator {
   private readonly fraMonthlyBenefit: Big;
   private readonly claimingAge: number;
   private readonly colaRate: Big;
+  private readonly fra: number;
   private baseBenefit: Big | null = null; // Benefit at claiming age (before COLA)
 
-  // FRA is 67 for people born 1960+
-  private static readonly FRA = 67;
+  // Claiming window
+  private static readonly MIN_CLAIMING_AGE = 62;
+  private static readonly MAX_CLAIMING_AGE = 70;
+
+  // Spousal benefits: half the partner's PIA, no delayed credits
+  private static readonly SPOUSAL_RATE = new Big('0.5');
+
+  // Survivor benefits: from age 60 at 71.5%, rising linearly to 100% at FRA.
+  // A deceased who claimed early leaves at least 82.5% of their PIA.
+  private static readonly SURVIVOR_MIN_AGE = 60;
+  private static readonly SURVIVOR_MIN_FACTOR = new Big('0.715');
+  private static readonly SURVIVOR_FLOOR_RATE = new Big('0.825');
 
-  // SSA adjustment rates
-  private static readonly EARLY_REDUCTION_MONTHLY = new Big('0.00555556'); // ~5/9 of 1%
-  private static readonly DELAYED_CREDIT_MONTHLY = new Big('0.00666667'); // 2/3 of 1% (~8% annually)
+  // Earnings test: $1 withheld per $2 above the limit in years before the FRA
+  // year, $1 per $3 above the higher limit in the months before FRA. Limits
+  // are published for 2024 and indexed in multiples of $10 a month.
+  private static readonly EARNINGS_TEST_YEAR = 2024;
+  private static readonly EARNINGS_TEST_LIMIT = new Big('22320');
+  private static readonly EARNINGS_TEST_FRA_YEAR_LIMIT = new Big('59520');
+  private static readonly EARNINGS_TEST_ROUNDING = 120;
+
+  /**
+   * Create a calculator for one worker's record.
+   *
+   * @param ssaIncome - Benefit at FRA and claiming age
+   * @param colaRate - Annual cost of living adjustment
+   * @param birthYear - Worker's birth year (default: FRA of 67)
+   * @throws {Error} If the claiming age is not between 62 and 70
+   */
+  constructor(ssaIncome: SSAIncome, colaRate: Big, birthYear?: number) {
+    const { claimingAge } = ssaIncome;
+    if (
+      !(claimingAge >= SSABenefitCalculator.MIN_CLAIMING_AGE &&
+        claimingAge <= SSABenefitCalculator.MAX_CLAIMING_AGE)
+    ) {
+      throw new Error('Claiming age must be between 62 and 70');
+    }
 
-  constructor(ssaIncome: SSAIncome, colaRate: Big) {
     this.fraMonthlyBenefit = toBig(ssaIncome.fraMonthlyBenefit);
-    this.claimingAge = ssaIncome.claimingAge;
+    this.claimingAge = claimingAge;
     this.colaRate = colaRate;
+    this.fra = birthYear === undefined ? 67 : SSABenefitCalculator.getFullRetirementAge(birthYear);
+  }
+
+  /**
+   * Get the Full Retirement Age for a birth year.
+   *
+   * 65 for 1937 and earlier, rising 2 months a year to 66 for 1943-1954,
+   * then 2 months a year again to 67 for 1960 and later.
+   *
+   * @param birthYear - Worker's birth year
+   * @returns FRA in years (fractions are months, e.g. 66 + 4/12)
+   *
+   * @example
+   * SSABenefitCalculator.getFullRetirementAge(1957); // 66.5
+   */
+  static getFullRetirementAge(birthYear: number): number {
+    if (birthYear <= 1937) {
+      return 65;
+    }
+    if (birthYear < 1943) {
+      return 65 + ((birthYear - 1937) * 2) / 12;
+    }
+    if (birthYear <= 1954) {
+      return 66;
+    }
+    if (birthYear < 1960) {
+      return 66 + ((birthYear - 1954) * 2) / 12;
+    }
+    return 67;
+  }
+
+  /**
+   * Get the worker's Full Retirement Age.
+   *
+   * @returns FRA in years
+   */
+  getFullRetirementAge(): number {
+    return this.fra;
+  }
+
+  /**
+   * Get the Primary Insurance Amount (monthly benefit at FRA).
+   *
+   * @returns Monthly PIA
+   */
+  getPrimaryInsuranceAmount(): Big {
+    return this.fraMonthlyBenefit;
+  }
+
+  /**
+   * Get the age at which the worker files for benefits.
+   *
+   * @returns Claiming age
+   */
+  getClaimingAge(): number {
+    return this.claimingAge;
   }
 
   /**
    * Calculate annual benefit for given age with COLA adjustments.
    *
-   * Returns 0 if age is below claiming age.
-   * Applies COLA increases for each year after claiming.
+   * Returns 0 before the year of claiming, and only the months after
+   * claiming in that year. Applies COLA increases for each year after claiming.
    *
    * @param age - Current age
    * @returns Annual benefit amount with COLA applied
    */
   getBenefitAtAge(age: number): Big {
-    if (age < this.claimingAge) {
+    const monthsPaid = this.getMonthsPaid(age, this.claimingAge);
+    if (monthsPaid === 0) {
       return new Big(0);
     }
 
     // Calculate base benefit at claiming age (once)
     if (this.baseBenefit === null) {
-      const adjustmentFactor = this.calculateAdjustmentFactor();
-      const monthlyBenefit = this.fraMonthlyBenefit.times(adjustmentFactor);
-      this.baseBenefit = monthlyBenefit.times(12);
+      const adjustmentFactor = this.calculateAdjustmentFactor(this.claimingAge);
+      this.baseBenefit = this.fraMonthlyBenefit.times(adjustmentFactor);
     }
 
-    // Apply COLA for years since claiming
-    const yearsSinceClaiming = age - this.claimingAge;
-    if (yearsSinceClaiming === 0) {
-      return this.baseBenefit;
+    return this.applyCOLA(this.baseBenefit.times(monthsPaid), age - Math.floor(this.claimingAge));
+  }
+
+  /**
+   * Calculate the annual spousal benefit paid on top of the worker's own benefit.
+   *
+   * The spousal benefit tops the worker's own PIA up to half of the partner's
+   * PIA. It starts once both the worker and the partner have filed, and is
+   * reduced for each month it starts before the worker's FRA.
+   *
+   * @param age - Worker's current age
+   * @param partnerPIA - Partner's monthly Primary Insurance Amount
+   * @param partnerFilingAge - Worker's age when the partner files
+   * @returns Annual spousal benefit with COLA applied (0 if not yet payable)
+   *
+   * @example
+   * // Own PIA $600, partner PIA $2,000, both file at 67
+   * calculator.getSpousalBenefitAtAge(67, new Big(2000), 67); // (1000 - 600) * 12 = 4800
+   */
+  getSpousalBenefitAtAge(age: number, partnerPIA: Big, partnerFilingAge: number): Big {
+    const startAge = Math.max(this.claimingAge, partnerFilingAge);
+    const excess = subtract(multiply(partnerPIA, SSABenefitCalculator.SPOUSAL_RATE), this.fraMonthlyBenefit);
+    const monthsPaid = this.getMonthsPaid(age, startAge);
+    if (monthsPaid === 0 || excess.lte(0)) {
+      return new Big(0);
     }
 
-    // Compound COLA: benefit * (1 + colaRate)^years
-    const colaFactor = add(new Big(1), this.colaRate).pow(yearsSinceClaiming);
-    return this.baseBenefit.times(colaFactor);
+    // Reduced 25/36 of 1% per month for the first 36 months before FRA, 5/12 of 1% beyond
+    const monthsEarly = Math.max(0, Math.round((this.fra - startAge) * 12));
+    const reduction = add(
+      new Big(Math.min(monthsEarly, 36)).times(25).div(36),
+      new Big(Math.max(monthsEarly - 36, 0)).times(5).div(12),
+    ).div(100);
+    const monthly = excess.times(subtract(new Big(1), reduction));
+
+    return this.applyCOLA(monthly.times(monthsPaid), age - Math.floor(startAge));
   }
 
   /**
-   * Calculate benefit adjustment factor based on claiming age vs FRA.
+   * Calculate the annual survivor benefit after the partner's death.
+   *
+   * The survivor inherits the deceased's benefit (see getSurvivorEntitlement),
+   * reduced if the survivor is below FRA in the first year it is paid (the
+   * year after the death, or age 60 if later). COLA accrues from the year
+   * after the death, including years before the survivor reaches 60. The
+   * survivor receives the larger of this and their own benefit, not both.
+   *
+   * @param age - Survivor's current age
+   * @param deceased - Deceased partner's calculator
+   * @param yearsSinceDeath - Years since the year of death (1 the following year)
+   * @param deceasedDeathAge - Deceased's age in the year of death
+   * @returns Annual survivor benefit with COLA applied (0 before age 60)
+   */
+  getSurvivorBenefitAtAge(
+    age: number,
+    deceased: SSABenefitCalculator,
+    yearsSinceDeath: number,
+    deceasedDeathAge: number,
+  ): Big {
+    if (yearsSinceDeath < 1 || age < SSABenefitCalculator.SURVIVOR_MIN_AGE) {
+      return new Big(0);
+    }
+
+    const startAge = Math.max(age - yearsSinceDeath + 1, SSABenefitCalculator.SURVIVOR_MIN_AGE);
+    const entitlement = deceased.getSurvivorEntitlement(deceasedDeathAge);
+
+    let factor = new Big(1);
+    if (startAge < this.fra) {
+      const span = this.fra - SSABenefitCalculator.SURVIVOR_MIN_AGE;
+      const reduction = subtract(new Big(1), SSABenefitCalculator.SURVIVOR_MIN_FACTOR)
+        .times(this.fra - startAge)
+        .div(span);
+      factor = subtract(new Big(1), reduction);
+    }
+
+    // The entitlement is as of the year after the death
+    return this.applyCOLA(entitlement.times(factor), yearsSinceDeath - 1);
+  }
+
+  /**
+   * Calculate the benefits withheld by the earnings test for a year.
+   *
+   * Before the year of FRA, $1 is withheld for every $2 earned above the
+   * limit. In the year of FRA, only earnings in the months before FRA count,
+   * and $1 is withheld for every $3 above a higher limit. Nothing is withheld
+   * from FRA on. After 2024, both limits grow by the indexation rate.
+   *
+   * @param age - Worker's age for the year
+   * @param annualBenefit - Benefits payable for the year (own, spousal or survivor)
+   * @param earnings - Worker's wages and net self-employment earnings
+   * @param year - Calendar year (default: 2024)
+   * @param indexationRate - Yearly growth of the limits after 2024 (default: 0)
+   * @returns Benefits withheld (at most annualBenefit)
+   *
+   * @example
+   * // FRA 67, age 64, $1,500/month benefit, $42,320 earned
+   * calculator.getEarningsTestWithholding(64, new Big(18000), new Big(42320)); // 10000
+   */
+  getEarningsTestWithholding(
+    age: number,
+    annualBenefit: Big,
+    earnings: Big,
+    year: number = SSABenefitCalculator.EARNINGS_TEST_YEAR,
+    indexationRate: Big = new Big(0),
+  ): Big {
+    const fraYear = Math.floor(this.fra);
+    const monthsBeforeFRA = Math.round((this.fra - fraYear) * 12);
+    if (age > fraYear || (age === fraYear && monthsBeforeFRA === 0)) {
+      return new Big(0);
+    }
+
+    const yearsIndexed = Math.max(year - SSABenefitCalculator.EARNINGS_TEST_YEAR, 0);
+    const factor = indexationRate.plus(1).pow(yearsIndexed);
+    if (age < fraYear) {
+      const limit = SSABenefitCalculator.indexEarningsTestLimit(SSABenefitCalculator.EARNINGS_TEST_LIMIT, factor);
+      const excess = subtract(earnings, limit).div(2);
+      return min(max(excess, new Big(0)), annualBenefit);
+    }
+
+    // Only the months before FRA can be withheld
+    const excess = subtract(
+      earnings.times(monthsBeforeFRA).div(12),
+      SSABenefitCalculator.indexEarningsTestLimit(SSABenefitCalculator.EARNINGS_TEST_FRA_YEAR_LIMIT, factor),
+    ).div(3);
+    return min(max(excess, new Big(0)), annualBenefit.times(monthsBeforeFRA).div(12));
+  }
+
+  /**
+   * Index an earnings test limit, rounded down to a multiple of $10 a month.
    *
-   * Early claiming (age 62-66): Reduction of ~5.56% per year
-   * FRA (age 67): 100% of benefit
-   * Delayed claiming (age 68-70): Increase of ~8% per year
+   * @param limit - 2024 limit
+   * @param factor - Cumulative indexation since 2024
+   * @returns Limit for the year
+   */
+  private static indexEarningsTestLimit(limit: Big, factor: Big): Big {
+    const rounding = SSABenefitCalculator.EARNINGS_TEST_ROUNDING;
+    return limit.times(factor).div(rounding).round(0, Big.roundDown).times(rounding);
+  }
+
+  /**
+   * Calculate the annual benefit a worker leaves to a surviving spouse.
+   *
+   * If the worker had filed, the survivor gets the worker's benefit (at least
+   * 82.5% of PIA). If not, the benefit is computed as if filed at death, with
+   * delayed credits but no reduction for early filing.
+   *
+   * @param deathAge - Worker's age in the year of death
+   * @returns Annual benefit as of the year after the death
+   */
+  private getSurvivorEntitlement(deathAge: number): Big {
+    // Deaths happen at year end, so a claim during the year of death counts
+    if (deathAge + 1 > this.claimingAge) {
+      const floor = this.applyCOLA(
+        multiply(this.fraMonthlyBenefit, SSABenefitCalculator.SURVIVOR_FLOOR_RATE).times(12),
+        deathAge + 1 - Math.floor(this.claimingAge),
+      );
+      return max(this.getBenefitAtAge(deathAge + 1), floor);
+    }
+
+    const factor = max(this.calculateAdjustmentFactor(deathAge), new Big(1));
+    return this.fraMonthlyBenefit.times(factor).times(12);
+  }
+
+  /**
+   * Count the months paid in a year of age for a benefit starting at startAge.
    *
-   * Uses linear interpolation for simplicity.
+   * @param age - Age for the year
+   * @param startAge - Age when payments start (fractions are months)
+   * @returns 0 before the start year, 12 after it, the remaining months in it
+   */
+  private getMonthsPaid(age: number, startAge: number): number {
+    if (age < Math.floor(startAge)) {
+      return 0;
+    }
+    if (age > Math.floor(startAge)) {
+      return 12;
+    }
+    return 12 - Math.round((startAge - Math.floor(startAge)) * 12);
+  }
+
+  /**
+   * Apply compound COLA increases.
+   *
+   * @param amount - Annual amount in the first year
+   * @param years - Years of COLA since the first year (partial years do not count)
+   * @returns amount * (1 + colaRate)^years
+   */
+  private applyCOLA(amount: Big, years: number): Big {
+    const fullYears = Math.floor(years);
+    if (fullYears <= 0) {
+      return amount;
+    }
+    return amount.times(add(new Big(1), this.colaRate).pow(fullYears));
+  }
+
+  /**
+   * Calculate benefit adjustment factor based on claiming age vs FRA.
    *
+   * Early claiming: 5/9 of 1% per month for the first 36 months before FRA,
+   * 5/12 of 1% per month beyond (30% at 62 with an FRA of 67)
+   * FRA: 100% of benefit
+   * Delayed claiming: 2/3 of 1% per month up to age 70 (8% per year)
+   *
+   * @param claimingAge - Age when benefits start (fractions are months)
    * @returns Adjustment factor (e.g., 0.70 for 30% reduction, 1.24 for 24% increase)
    */
-  private calculateAdjustmentFactor(): Big {
-    const fra = SSABenefitCalculator.FRA;
+  private calculateAdjustmentFactor(claimingAge: number): Big {
+    const fra = this.fra;
 
-    if (this.claimingAge < fra) {
+    if (claimingAge < fra) {
       // Early claiming: reduction
-      const monthsEarly = (fra - this.claimingAge) * 12;
-      const reduction = multiply(
-        new Big(monthsEarly),
-        SSABenefitCalculator.EARLY_REDUCTION_MONTHLY,
-      );
+      const monthsEarly = Math.round((fra - claimingAge) * 12);
+      const reduction = add(
+        new Big(Math.min(monthsEarly, 36)).times(5).div(9),
+        new Big(Math.max(monthsEarly - 36, 0)).times(5).div(12),
+      ).div(100);
       return subtract(new Big(1), reduction);
-    } else if (this.claimingAge > fra) {
+    } else if (claimingAge > fra) {
       // Delayed claiming: credits up to age 70
-      const effectiveAge = Math.min(this.claimingAge, 70);
-      const monthsDelayed = (effectiveAge - fra) * 12;
-      const increase = multiply(
-        new Big(monthsDelayed),
-        SSABenefitCalculator.DELAYED_CREDIT_MONTHLY,
-      );
+      const effectiveAge = Math.min(claimingAge, SSABenefitCalculator.MAX_CLAIMING_AGE);
+      const monthsDelayed = Math.round((effectiveAge - fra) * 12);
+      const increase = new Big(monthsDelayed).times(2).div(300);
       return add(new Big(1), increase);
     } else {
       // At FRA: no adjustment
@@ -164,11 +488,35 @@ export class WithdrawalCoordinator {
   private accounts: Map<string, BaseAccount>;
   private policy: WithdrawalPolicy;
   private ssaCalculator: SSABenefitCalculator | null;
+  private spouseSsaCalculator: SSABenefitCalculator | null;
   private userProfile: UserProfile;
+  private household: Household;
+  private accountOwners: Record<string, HouseholdMember>;
   private currentYear: number;
   private currentAge: number;
   private taxCalculator: FederalTaxCalculator;
+  private stateTaxCalculator: StateTaxCalculator | null; // Null without a state of residence
+  private irmaaCalculator: IRMAACalculator;
   private withdrawalHistory: WithdrawalPlan[];
+  private realEstateIncome: { cash: Big; ordinaryIncome: Big; longTermCapitalGains: Big };
+  private pensions: PensionIncome[];
+  private pensionIncome: { cash: Big; ordinaryIncome: Big };
+  private earnedIncomeStreams: EarnedIncomeStream[];
+  private earnedIncome: EarnedIncomeYearResult[]; // This year's earnings
+  private investmentIncome: InvestmentIncomeResult[]; // This year's dividends and interest
+  private itemizedDeductions: ItemizedDeductions; // This year's deductible expenses
+
+  // Marginal rate filled with Traditional withdrawals when the policy does not set one
+  private static readonly DEFAULT_TARGET_TAX_BRACKET = new Big('0.12');
+
+  // Secant iterations used to find the income room below a bracket or IRMAA ceiling
+  private static readonly INCOME_ROOM_ITERATIONS = 6;
+
+  // Account created to receive conversions when the user has no Roth account
+  private static readonly CONVERSION_ROTH_ACCOUNT_ID = 'roth-conversion';
+
+  // Iterations used to pull MAGI back under an IRMAA tier ceiling
+  private static readonly IRMAA_CAP_ITERATIONS = 6;
 
   /**
    * Initialize withdrawal coordinator.
@@ -177,7 +525,11 @@ export class WithdrawalCoordinator {
    * @param config.accounts - List of retirement accounts to draw from
    * @param config.policy - Withdrawal policy and preferences
    * @param config.ssaIncome - Optional Social Security income source
-   * @param config.userProfile - User profile with birth year and filing status
+   * @param config.userProfile - User profile with birth year, filing status, spouse
+   *                             and state of residence
+   * @param config.accountOwners - Owner of each account (default: user)
+   * @param config.pensions - Pensions and annuities
+   * @param config.earnedIncome - Wages and self-employment income
    * @param config.startingYear - First year of retirement
    * @param config.startingAge - Age at start of retirement
    */
@@ -186,19 +538,42 @@ export class WithdrawalCoordinator {
     policy: WithdrawalPolicy;
     ssaIncome?: SSAIncome;
     userProfile: UserProfile;
+    accountOwners?: Record<string, HouseholdMember>;
+    pensions?: Pension[];
+    earnedIncome?: EarnedIncome[];
     startingYear: number;
     startingAge: number;
   }) {
     this.accounts = new Map(config.accounts.map((acc) => [acc.id, acc]));
     this.policy = config.policy;
-    this.ssaCalculator = config.ssaIncome
-      ? new SSABenefitCalculator(config.ssaIncome, config.policy.inflationRate)
-      : null;
+    const { birthYear, spouse } = config.userProfile;
+    this.ssaCalculator = this.createSSACalculator(config.ssaIncome, birthYear, spouse !== undefined);
+    this.spouseSsaCalculator = spouse ? this.createSSACalculator(spouse.ssaIncome, spouse.birthYear, true) : null;
     this.userProfile = config.userProfile;
+    this.household = new Household(config.userProfile);
+    this.accountOwners = config.accountOwners ?? {};
     this.currentYear = config.startingYear;
     this.currentAge = config.startingAge;
-    this.taxCalculator = new FederalTaxCalculator();
+    this.taxCalculator = new FederalTaxCalculator(
+      config.policy.taxIndexationRate ?? config.policy.inflationRate,
+      config.policy.taxRegime,
+    );
+    this.stateTaxCalculator = config.userProfile.stateOfResidence
+      ? new StateTaxCalculator(config.userProfile.stateOfResidence)
+      : null;
+    this.irmaaCalculator = new IRMAACalculator(config.policy.taxIndexationRate ?? config.policy.inflationRate);
     this.withdrawalHistory = [];
+    this.realEstateIncome = { cash: new Big(0), ordinaryIncome: new Big(0), longTermCapitalGains: new Big(0) };
+    this.pensions = (config.pensions ?? []).map((pension) => new PensionIncome(pension));
+    this.pensionIncome = { cash: new Big(0), ordinaryIncome: new Big(0) };
+    this.earnedIncomeStreams = (config.earnedIncome ?? []).map((income) => new EarnedIncomeStream(income));
+    this.earnedIncome = [];
+    this.investmentIncome = [];
+    this.itemizedDeductions = {
+      mortgageInterest: new Big(0),
+      stateAndLocalTaxes: new Big(0),
+      charitableGiving: new Big(0),
+    };
 
     this.validatePolicy();
   }
@@ -226,17 +601,24 @@ export class WithdrawalCoordinator {
    * Plan withdrawals for a specific year.
    *
    * This is the main coordination method that:
-   * 1. Calculates guaranteed income (SSA)
-   * 2. Determines withdrawal need
+   * 1. Calculates guaranteed income (SSA, pensions), earned income and the
+   *    dividends and interest of taxable accounts
+   * 2. Determines withdrawal need (net of rental cash flow, plus mortgage payments)
    * 3. Enforces RMDs
    * 4. Plans discretionary withdrawals using sequencing strategy
-   * 5. Calculates taxes
-   * 6. Returns comprehensive withdrawal plan
+   * 5. Keeps MAGI under the next IRMAA tier when policy.avoidIRMAA is set
+   * 6. Executes withdrawals and any Roth conversion
+   * 7. Calculates federal and state taxes (including conversion income) and
+   *    IRMAA surcharge
+   * 8. Returns comprehensive withdrawal plan
    *
    * @param year - Calendar year
-   * @param age - Current age
-   * @param userProfile - User profile (for tax filing status)
+   * @param age - User's age
+   * @param userProfile - User profile (for tax filing status and the spouse)
    * @param ssaIncome - Optional SSA income (overrides constructor value)
+   * @param realEstate - Real estate results for the year; sale proceeds must
+   *                     already be deposited, gains and rental income are taxed here
+   * @param mortgages - Mortgage payments made this year
    * @returns WithdrawalPlan for the year
    */
   planYear(
@@ -244,21 +626,49 @@ export class WithdrawalCoordinator {
     age: number,
     userProfile: UserProfile,
     ssaIncome?: SSAIncome,
+    realEstate: RealEstateYearResult[] = [],
+    mortgages: MortgageYearResult[] = [],
   ): WithdrawalPlan {
     this.currentYear = year;
     this.currentAge = age;
-    this.userProfile = userProfile;
+    this.household = new Household(userProfile);
+    this.userProfile = { ...userProfile, filingStatus: this.household.getFilingStatus(age) };
 
-    // Update SSA calculator if provided
+    // Update SSA calculators if provided
     if (ssaIncome) {
-      this.ssaCalculator = new SSABenefitCalculator(ssaIncome, this.policy.inflationRate);
+      this.ssaCalculator = new SSABenefitCalculator(ssaIncome, this.policy.inflationRate, userProfile.birthYear);
+    }
+    if (userProfile.spouse?.ssaIncome) {
+      this.spouseSsaCalculator = this.createSSACalculator(userProfile.spouse.ssaIncome, userProfile.spouse.birthYear, true);
     }
 
-    // Step 1: Calculate guaranteed income (SSA)
+    // Step 1: Calculate earned income, guaranteed income (SSA after the
+    // earnings test, pensions), investment income and real estate income
+    this.earnedIncome = this.earnedIncomeStreams.map((stream) => stream.calculateYear(this.household, age));
+    const earnedIncome = sum(this.earnedIncome.map((r) => r.amount));
+    const pensionResults = this.pensions.map((pension) => pension.calculateYear(this.household, age));
+    this.pensionIncome = {
+      cash: sum(pensionResults.map((r) => r.payment)),
+      ordinaryIncome: sum(pensionResults.map((r) => r.taxableAmount)),
+    };
     const guaranteedIncome = this.calculateGuaranteedIncome();
+    this.investmentIncome = this.getAccountsByType(AccountType.TAXABLE)
+      .filter((account) => account instanceof TaxableAccount)
+      .map((account) => account.generateIncome());
+    const investmentCash = sum(this.investmentIncome.map((r) => r.distributed));
+    this.realEstateIncome = {
+      cash: sum(realEstate.map((r) => r.rentalCashFlow)),
+      ordinaryIncome: sum(realEstate.map((r) => r.taxableRentalIncome.plus(r.depreciationRecapture))),
+      longTermCapitalGains: sum(realEstate.map((r) => r.capitalGain)),
+    };
+    this.itemizedDeductions = this.calculateItemizedDeductions(mortgages);
 
     // Step 2: Determine withdrawal need
-    const withdrawalNeed = this.calculateWithdrawalNeed(guaranteedIncome);
+    const mortgagePayments = sum(mortgages.map((m) => m.payment));
+    const withdrawalNeed = this.calculateWithdrawalNeed(
+      sum([guaranteedIncome, this.realEstateIncome.cash, earnedIncome, investmentCash]),
+      mortgagePayments,
+    );
 
     // Step 3: Calculate RMDs
     const rmdWithdrawals = this.calculateRMDs();
@@ -267,47 +677,85 @@ export class WithdrawalCoordinator {
     const discretionaryWithdrawals = this.planDiscretionaryWithdrawals(
       withdrawalNeed,
       rmdWithdrawals,
+      guaranteedIncome,
     );
 
-    // Step 5: Merge withdrawals
+    // Step 5: Avoid crossing into the next IRMAA tier
+    const irmaaAdjustedWithdrawals = this.shouldAvoidIRMAA(age)
+      ? this.applyIRMAACap(discretionaryWithdrawals, rmdWithdrawals, guaranteedIncome)
+      : discretionaryWithdrawals;
+
+    // Step 6: Merge withdrawals
     const allWithdrawals = this.mergeWithdrawals(
       rmdWithdrawals,
-      discretionaryWithdrawals,
+      irmaaAdjustedWithdrawals,
     );
 
-    // Step 6: Execute withdrawals
+    // Step 7: Execute withdrawals
     this.executeWithdrawals(allWithdrawals);
 
-    // Step 7: Calculate taxes
-    const totalGrossIncome = add(
+    // Step 8: Convert Traditional money to Roth (taxed as ordinary income)
+    const rothConversion = this.planRothConversion(age, guaranteedIncome, allWithdrawals);
+    this.executeRothConversion(rothConversion, age, year);
+
+    // Step 9: Calculate federal and state taxes and IRMAA surcharge (from MAGI two years ago)
+    const totalGrossIncome = sum([
       guaranteedIncome,
+      this.realEstateIncome.cash,
+      earnedIncome,
+      investmentCash,
       this.sumWithdrawals(allWithdrawals),
-    );
-    const estimatedTaxes = this.estimateTaxes(guaranteedIncome, allWithdrawals);
+    ]);
+    const taxResult = this.calculateTaxResult(guaranteedIncome, allWithdrawals, rothConversion);
+    const stateTaxes = this.calculateStateTax(taxResult, allWithdrawals, rothConversion);
+    const estimatedTaxes = add(taxResult.totalTax, stateTaxes);
+    const irmaaSurcharge = this.calculateIRMAASurcharge(year, age);
 
-    // Step 8: Build account metadata for visualization
+    // Step 10: Build account metadata for visualization
     const accountMetadata: Record<string, AccountMetadata> = {};
     for (const [, account] of this.accounts) {
       accountMetadata[account.id] = {
         id: account.id,
         nickname: account.nickname,
         accountType: account.accountType,
+        allocation: account.getAllocation(),
       };
     }
 
-    // Step 9: Create plan
+    // Step 11: Create plan
+    const totalPortfolioValue = this.getPortfolioValue();
+    const realEstateValue = sum(realEstate.map((r) => r.value));
+    const liabilities = sum(mortgages.map((m) => m.remainingPrincipal));
     const plan: WithdrawalPlan = {
       year,
       age,
+      spouseAge: this.household.hasSpouse() ? this.household.getAge(HouseholdMember.SPOUSE, age) : undefined,
+      filingStatus: this.userProfile.filingStatus,
       guaranteedIncome,
-      dividendIncome: new Big(0), // Not modeled in this version
+      socialSecurityIncome: subtract(guaranteedIncome, this.pensionIncome.cash),
+      pensionIncome: this.pensionIncome.cash,
+      earnedIncome,
+      dividendIncome: sum(this.investmentIncome.map((r) => r.qualifiedDividends.plus(r.ordinaryDividends))),
+      interestIncome: sum(this.investmentIncome.map((r) => r.interest)),
+      investmentIncome: investmentCash,
+      rentalIncome: this.realEstateIncome.cash,
       accountWithdrawals: allWithdrawals,
       totalGrossIncome,
       totalTaxes: estimatedTaxes,
-      totalNetIncome: subtract(totalGrossIncome, estimatedTaxes),
+      stateTaxes,
+      irmaaSurcharge,
+      rothConversion,
+      totalNetIncome: subtract(subtract(totalGrossIncome, estimatedTaxes), irmaaSurcharge),
+      taxResult,
       accountBalances: this.getAccountBalances(),
-      totalPortfolioValue: this.getPortfolioValue(),
+      totalPortfolioValue,
       accountMetadata,
+      realEstate,
+      realEstateValue,
+      mortgages,
+      mortgagePayments,
+      liabilities,
+      netWorth: subtract(add(totalPortfolioValue, realEstateValue), liabilities),
     };
 
     this.withdrawalHistory.push(plan);
@@ -333,20 +781,151 @@ export class WithdrawalCoordinator {
     this.currentAge += 1;
   }
 
+  /**
+   * Apply per-asset-class returns to all accounts and advance to next year.
+   *
+   * Each account grows at the return of its own allocation.
+   *
+   * @param returns - Returns by asset class for the year
+   */
+  applyAssetClassGrowth(returns: AssetClassReturns): void {
+    for (const account of this.accounts.values()) {
+      account.applyAssetClassGrowth(returns);
+    }
+
+    this.currentYear += 1;
+    this.currentAge += 1;
+  }
+
   /**
    * Calculate guaranteed income for current year.
    *
-   * Currently only includes Social Security benefits.
-   * Future: Add pension income sources.
+   * Includes Social Security benefits of each living household member, at
+   * their own age, and this year's pension payments.
    *
    * @returns Total guaranteed income
    */
   private calculateGuaranteedIncome(): Big {
-    if (!this.ssaCalculator) {
+    const socialSecurity = sum(
+      this.household
+        .getLivingMembers(this.currentAge)
+        .map((member) => this.calculateSocialSecurity(member)),
+    );
+    return add(socialSecurity, this.pensionIncome.cash);
+  }
+
+  /**
+   * Calculate one household member's Social Security benefit for the year.
+   *
+   * While both spouses are alive, each receives their own benefit plus any
+   * spousal benefit on the partner's record. After the partner's death, the
+   * survivor receives the larger of their own and the survivor benefit.
+   * Before FRA, the earnings test then withholds part of it based on the
+   * member's own earnings.
+   *
+   * @param member - Living household member
+   * @returns Annual benefit (0 without a Social Security record)
+   */
+  private calculateSocialSecurity(member: HouseholdMember): Big {
+    const isUser = member === HouseholdMember.USER;
+    const own = isUser ? this.ssaCalculator : this.spouseSsaCalculator;
+    if (!own) {
       return new Big(0);
     }
 
-    return this.ssaCalculator.getBenefitAtAge(this.currentAge);
+    const age = this.household.getAge(member, this.currentAge);
+    const benefit = this.calculateBenefitBeforeEarningsTest(member, own, age);
+    const withheld = own.getEarningsTestWithholding(
+      age,
+      benefit,
+      this.getEarnings(member),
+      this.currentYear,
+      this.policy.taxIndexationRate ?? this.policy.inflationRate,
+    );
+    return subtract(benefit, withheld);
+  }
+
+  /**
+   * Calculate one household member's benefit before the earnings test.
+   *
+   * @param member - Living household member
+   * @param own - Calculator for the member's own record
+   * @param age - Member's age
+   * @returns Annual benefit: own, plus spousal, or the larger of own and survivor
+   */
+  private calculateBenefitBeforeEarningsTest(member: HouseholdMember, own: SSABenefitCalculator, age: number): Big {
+    const isUser = member === HouseholdMember.USER;
+    const ownBenefit = own.getBenefitAtAge(age);
+    const partnerMember = isUser ? HouseholdMember.SPOUSE : HouseholdMember.USER;
+    const partner = isUser ? this.spouseSsaCalculator : this.ssaCalculator;
+    if (!partner || !this.household.hasSpouse()) {
+      return ownBenefit;
+    }
+
+    const partnerAge = this.household.getAge(partnerMember, this.currentAge);
+    if (this.household.isAlive(partnerMember, this.currentAge)) {
+      const partnerFilingAge = partner.getClaimingAge() + age - partnerAge;
+      return add(ownBenefit, own.getSpousalBenefitAtAge(age, partner.getPrimaryInsuranceAmount(), partnerFilingAge));
+    }
+
+    const deathAge = this.household.getLifeExpectancy(partnerMember) ?? partnerAge;
+    const survivorBenefit = own.getSurvivorBenefitAtAge(age, partner, partnerAge - deathAge, deathAge);
+    return max(ownBenefit, survivorBenefit);
+  }
+
+  /**
+   * Get a household member's earnings for the current year.
+   *
+   * @param member - Household member
+   * @returns Wages plus net self-employment earnings
+   */
+  private getEarnings(member: HouseholdMember): Big {
+    return sum(this.earnedIncome.filter((r) => r.owner === member).map((r) => r.amount));
+  }
+
+  /**
+   * Group the current year's earnings by earner for payroll taxes.
+   *
+   * @returns Wages and self-employment income of each earner
+   */
+  private getPayrollIncome(): PayrollIncome[] {
+    const earners = new Set(this.earnedIncome.map((r) => r.owner));
+    return Array.from(earners, (owner) => {
+      const earnings = this.earnedIncome.filter((r) => r.owner === owner);
+      return {
+        wages: sum(earnings.filter((r) => r.incomeType === EarnedIncomeType.WAGES).map((r) => r.amount)),
+        selfEmploymentIncome: sum(
+          earnings.filter((r) => r.incomeType === EarnedIncomeType.SELF_EMPLOYMENT).map((r) => r.amount),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Create the Social Security calculator for a household member's own record.
+   *
+   * In a married household, a member without a work record gets a $0 record
+   * filed at their FRA, so they still draw spousal and survivor benefits.
+   *
+   * @param ssaIncome - Member's own record, if any
+   * @param birthYear - Member's birth year
+   * @param married - Whether the household has a spouse
+   * @returns Calculator, or null for a single member without a record
+   */
+  private createSSACalculator(
+    ssaIncome: SSAIncome | undefined,
+    birthYear: number,
+    married: boolean,
+  ): SSABenefitCalculator | null {
+    if (!ssaIncome && !married) {
+      return null;
+    }
+
+    const record = ssaIncome ?? {
+      fraMonthlyBenefit: new Big(0),
+      claimingAge: SSABenefitCalculator.getFullRetirementAge(birthYear),
+    };
+    return new SSABenefitCalculator(record, this.policy.inflationRate, birthYear);
   }
 
   /**
@@ -357,13 +936,18 @@ export class WithdrawalCoordinator {
    * - Withdrawal rate based on portfolio value
    * - Minimum required income floor
    * - Already received guaranteed income
+   * - Fixed expenses paid on top of the spending target (mortgage payments)
    *
-   * @param guaranteedIncome - Income already received (SSA, pensions)
+   * @param guaranteedIncome - Income already received (SSA, pensions, net rent, earnings)
+   * @param fixedExpenses - Payments added to the spending need
    * @returns Amount needed from account withdrawals
    */
-  private calculateWithdrawalNeed(guaranteedIncome: Big): Big {
+  private calculateWithdrawalNeed(guaranteedIncome: Big, fixedExpenses: Big = new Big(0)): Big {
     let withdrawalAmount = new Big(0);
 
+    // Fixed expenses consume guaranteed income before it counts toward spending
+    const availableIncome = subtract(guaranteedIncome, fixedExpenses);
+
     const { targetNetIncome, withdrawalRate, minRequiredIncome } = this.policy;
 
     // Calculate base withdrawal from rate or target
@@ -384,7 +968,7 @@ export class WithdrawalCoordinator {
 
       // Estimate gross need (simplified: assume 25% tax rate)
       const estimatedGrossNeed = multiply(target, new Big(1.25));
-      const gap = subtract(estimatedGrossNeed, guaranteedIncome);
+      const gap = subtract(estimatedGrossNeed, availableIncome);
       withdrawalAmount = max(gap, new Big(0));
     } else if (withdrawalRate !== undefined) {
       // Calculate based on portfolio value
@@ -393,7 +977,7 @@ export class WithdrawalCoordinator {
         totalPortfolio,
         toBig(withdrawalRate),
       );
-      const gap = subtract(targetWithdrawal, guaranteedIncome);
+      const gap = subtract(targetWithdrawal, availableIncome);
       withdrawalAmount = max(gap, new Big(0));
     }
 
@@ -411,7 +995,7 @@ export class WithdrawalCoordinator {
         minIncome = multiply(minIncome, inflationMultiplier);
       }
 
-      const shortfall = subtract(minIncome, guaranteedIncome);
+      const shortfall = subtract(minIncome, availableIncome);
       withdrawalAmount = max(withdrawalAmount, shortfall);
     }
 
@@ -422,6 +1006,8 @@ export class WithdrawalCoordinator {
    * Calculate Required Minimum Distributions for all accounts.
    *
    * Only Traditional accounts have RMDs. Returns map of account ID to RMD amount.
+   * Each RMD uses the age and birth year of whoever holds the account: its
+   * owner, or the surviving spouse after the owner's death.
    *
    * @returns Map of account IDs to RMD amounts
    */
@@ -429,9 +1015,13 @@ export class WithdrawalCoordinator {
     const rmds: Record<string, Big> = {};
 
     for (const [accountId, account] of this.accounts.entries()) {
-      const rmd = account.calculateRMD(
+      const holder = this.household.getAccountHolder(
+        this.accountOwners[accountId] ?? HouseholdMember.USER,
         this.currentAge,
-        this.userProfile.birthYear,
+      );
+      const rmd = account.calculateRMD(
+        this.household.getAge(holder, this.currentAge),
+        this.household.getBirthYear(holder),
       );
 
       if (!isZero(rmd)) {
@@ -450,11 +1040,13 @@ export class WithdrawalCoordinator {
    *
    * @param withdrawalNeed - Total amount needed from accounts
    * @param rmdWithdrawals - Already planned RMD withdrawals
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions), used by tax-aware strategies
    * @returns Discretionary withdrawal amounts by account
    */
   private planDiscretionaryWithdrawals(
     withdrawalNeed: Big,
     rmdWithdrawals: Record<string, Big>,
+    guaranteedIncome: Big,
   ): Record<string, Big> {
     // RMDs count toward withdrawal need
     const rmdTotal = this.sumWithdrawals(rmdWithdrawals);
@@ -474,6 +1066,12 @@ export class WithdrawalCoordinator {
         return this.withdrawRothFirst(remainingNeed);
       case SequencingStrategy.PRO_RATA:
         return this.withdrawProRata(remainingNeed);
+      case SequencingStrategy.TAX_BRACKET_OPTIMIZATION:
+        return this.withdrawTaxBracketOptimized(
+          remainingNeed,
+          rmdWithdrawals,
+          guaranteedIncome,
+        );
       default:
         // Default to taxable first
         return this.withdrawTaxableFirst(remainingNeed);
@@ -669,6 +1267,455 @@ export class WithdrawalCoordinator {
     return withdrawals;
   }
 
+  /**
+   * TAX_BRACKET_OPTIMIZATION strategy: Fill the target bracket with Traditional money.
+   *
+   * Order: Traditional (up to bracket ceiling) -> Taxable -> Roth -> Traditional (remainder)
+   *
+   * Each year, Traditional withdrawals are taken until ordinary taxable income
+   * reaches the top of the configured marginal bracket (policy.targetTaxBracket,
+   * default 12%). The standard deduction and the taxable portion of Social
+   * Security are accounted for. The rest of the need is covered from taxable
+   * accounts (lowest gains first), then Roth. Only if both are exhausted is
+   * more Traditional money drawn above the bracket.
+   *
+   * @param amount - Amount to withdraw
+   * @param rmdWithdrawals - Already planned RMD withdrawals (count as ordinary income)
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions)
+   * @returns Withdrawal amounts by account
+   */
+  private withdrawTaxBracketOptimized(
+    amount: Big,
+    rmdWithdrawals: Record<string, Big>,
+    guaranteedIncome: Big,
+  ): Record<string, Big> {
+    const withdrawals: Record<string, Big> = {};
+    let remaining = amount;
+
+    const targetBracket =
+      this.policy.targetTaxBracket ?? WithdrawalCoordinator.DEFAULT_TARGET_TAX_BRACKET;
+    const room = this.calculateOrdinaryIncomeRoom(
+      targetBracket,
+      guaranteedIncome,
+      rmdWithdrawals,
+    );
+
+    // Step 1: Traditional up to the bracket ceiling
+    const traditionalAccounts = this.getAccountsByType(AccountType.TRADITIONAL);
+    const bracketFill = min(remaining, room);
+    const unfilled = this.drawFromAccounts(
+      traditionalAccounts,
+      bracketFill,
+      withdrawals,
+      rmdWithdrawals,
+    );
+    remaining = subtract(remaining, subtract(bracketFill, unfilled));
+
+    // Step 2: Taxable (lowest gains first), then Roth
+    remaining = this.drawFromAccounts(
+      this.getTaxableAccountsByGain(),
+      remaining,
+      withdrawals,
+      rmdWithdrawals,
+    );
+    remaining = this.drawFromAccounts(
+      this.getAccountsByType(AccountType.ROTH),
+      remaining,
+      withdrawals,
+      rmdWithdrawals,
+    );
+
+    // Step 3: Traditional above the bracket as a last resort
+    this.drawFromAccounts(traditionalAccounts, remaining, withdrawals, rmdWithdrawals);
+
+    return withdrawals;
+  }
+
+  /**
+   * Calculate how much additional ordinary income fits below a bracket ceiling.
+   *
+   * @param marginalRate - Target marginal rate (e.g., 0.12)
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions)
+   * @param withdrawals - Withdrawals already planned this year
+   * @returns Additional ordinary income that stays within the bracket (never negative)
+   */
+  private calculateOrdinaryIncomeRoom(
+    marginalRate: Big,
+    guaranteedIncome: Big,
+    withdrawals: Record<string, Big>,
+  ): Big {
+    const ceiling = this.taxCalculator.getBracketCeiling(
+      this.userProfile.filingStatus,
+      marginalRate,
+      this.currentYear,
+    );
+
+    if (ceiling === null) {
+      // Top bracket allowed: no limit on ordinary income
+      return this.getPortfolioValue();
+    }
+
+    return this.findIncomeRoom(
+      ceiling,
+      (extra) => this.calculateTaxResult(guaranteedIncome, withdrawals, extra).ordinaryTaxable,
+    );
+  }
+
+  /**
+   * Calculate how much additional ordinary income keeps MAGI in its current IRMAA tier.
+   *
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions)
+   * @param withdrawals - Withdrawals already planned this year
+   * @returns Additional ordinary income below the next IRMAA threshold (never negative)
+   */
+  private calculateIRMAARoom(
+    guaranteedIncome: Big,
+    withdrawals: Record<string, Big>,
+  ): Big {
+    const baselineMagi = this.calculateTaxResult(guaranteedIncome, withdrawals).magi;
+    const ceiling = this.irmaaCalculator.getTierCeiling(
+      baselineMagi,
+      this.userProfile.filingStatus,
+      this.currentYear + IRMAACalculator.LOOKBACK_YEARS,
+    );
+
+    if (ceiling === null) {
+      // Already in the top tier: no threshold left to fill to
+      return new Big(0);
+    }
+
+    return this.findIncomeRoom(
+      ceiling,
+      (extra) => this.calculateTaxResult(guaranteedIncome, withdrawals, extra).magi,
+    );
+  }
+
+  /**
+   * Find how much extra ordinary income keeps a measure at or below a ceiling.
+   *
+   * Because extra ordinary income can make more Social Security taxable, the
+   * measure grows by 1 to 1.85 per dollar. The room is found by secant
+   * iteration (step by the gap over the last observed slope, recompute), then
+   * any overshoot is removed so the result never exceeds the ceiling.
+   *
+   * @param ceiling - Maximum value of the measure
+   * @param measure - Measure (e.g., ordinary taxable income) for a given extra income
+   * @returns Extra ordinary income (never negative)
+   */
+  private findIncomeRoom(ceiling: Big, measure: (extra: Big) => Big): Big {
+    let room = new Big(0);
+    let measured = measure(room);
+    let slope = new Big(1);
+    for (let i = 0; i < WithdrawalCoordinator.INCOME_ROOM_ITERATIONS; i++) {
+      const gap = subtract(ceiling, measured);
+      const next = max(add(room, divide(gap, slope)), new Big(0));
+      if (isZero(gap) || next.eq(room)) {
+        break;
+      }
+      const nextMeasured = measure(next);
+      slope = max(divide(subtract(nextMeasured, measured), subtract(next, room)), new Big(1));
+      room = next;
+      measured = nextMeasured;
+    }
+
+    // Remove any overshoot left when the iterations run out
+    const excess = subtract(measured, ceiling);
+    if (excess.gt(0)) {
+      room = max(subtract(room, excess), new Big(0));
+    }
+
+    return room;
+  }
+
+  /**
+   * Draw an amount sequentially from a list of accounts.
+   *
+   * Available balance excludes any RMD already planned from the account.
+   * Amounts are added to the withdrawals map in place.
+   *
+   * @param accounts - Accounts to draw from, in order
+   * @param amount - Amount to draw
+   * @param withdrawals - Withdrawal map to update
+   * @param rmdWithdrawals - Planned RMDs (reduce available balance)
+   * @returns Amount that could not be drawn
+   */
+  private drawFromAccounts(
+    accounts: BaseAccount[],
+    amount: Big,
+    withdrawals: Record<string, Big>,
+    rmdWithdrawals: Record<string, Big>,
+  ): Big {
+    let remaining = amount;
+
+    for (const account of accounts) {
+      if (remaining.lte(0)) {
+        break;
+      }
+      const alreadyPlanned = add(
+        rmdWithdrawals[account.id] ?? new Big(0),
+        withdrawals[account.id] ?? new Big(0),
+      );
+      const available = max(subtract(account.getBalance(), alreadyPlanned), new Big(0));
+      const withdrawAmount = min(remaining, available);
+      if (!isZero(withdrawAmount)) {
+        withdrawals[account.id] = add(withdrawals[account.id] ?? new Big(0), withdrawAmount);
+        remaining = subtract(remaining, withdrawAmount);
+      }
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Check whether this year's income should be kept under the next IRMAA tier.
+   *
+   * MAGI matters from two years before Medicare eligibility (lookback) of
+   * any living household member.
+   *
+   * @param age - User's age
+   * @returns true if policy.avoidIRMAA is set and this year's MAGI affects premiums
+   */
+  private shouldAvoidIRMAA(age: number): boolean {
+    return (
+      this.policy.avoidIRMAA &&
+      this.household.getLivingMembers(age).some(
+        (member) =>
+          this.household.getAge(member, age) + IRMAACalculator.LOOKBACK_YEARS >= IRMAACalculator.MEDICARE_AGE,
+      )
+    );
+  }
+
+  /**
+   * Cap discretionary Traditional withdrawals to stay under the next IRMAA tier.
+   *
+   * The tier ceiling is taken from the MAGI that is unavoidable this year
+   * (guaranteed income plus RMDs). Traditional withdrawals that push MAGI above
+   * it are replaced by taxable withdrawals (lowest gains first), then Roth.
+   * If those accounts cannot cover the need, the Traditional withdrawal is kept.
+   *
+   * @param discretionary - Planned discretionary withdrawals
+   * @param rmdWithdrawals - Planned RMD withdrawals (cannot be reduced)
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions)
+   * @returns Adjusted discretionary withdrawals
+   */
+  private applyIRMAACap(
+    discretionary: Record<string, Big>,
+    rmdWithdrawals: Record<string, Big>,
+    guaranteedIncome: Big,
+  ): Record<string, Big> {
+    const baselineMagi = this.calculateTaxResult(guaranteedIncome, rmdWithdrawals).magi;
+    const ceiling = this.irmaaCalculator.getTierCeiling(
+      baselineMagi,
+      this.userProfile.filingStatus,
+      this.currentYear + IRMAACalculator.LOOKBACK_YEARS,
+    );
+
+    if (ceiling === null) {
+      // Already in the top tier: nothing to avoid
+      return discretionary;
+    }
+
+    const withdrawals: Record<string, Big> = { ...discretionary };
+    const traditionalAccounts = this.getAccountsByType(AccountType.TRADITIONAL);
+
+    for (let i = 0; i < WithdrawalCoordinator.IRMAA_CAP_ITERATIONS; i++) {
+      const magi = this.calculateTaxResult(
+        guaranteedIncome,
+        this.mergeWithdrawals(rmdWithdrawals, withdrawals),
+      ).magi;
+      const excess = subtract(magi, ceiling);
+      if (excess.lte(0)) {
+        break;
+      }
+
+      const reduced = this.reduceWithdrawals(traditionalAccounts, excess, withdrawals);
+      if (isZero(reduced)) {
+        break;
+      }
+
+      // Replace the reduced amount with money that adds less (or no) MAGI
+      let shortfall = this.drawFromAccounts(
+        this.getTaxableAccountsByGain(),
+        reduced,
+        withdrawals,
+        rmdWithdrawals,
+      );
+      shortfall = this.drawFromAccounts(
+        this.getAccountsByType(AccountType.ROTH),
+        shortfall,
+        withdrawals,
+        rmdWithdrawals,
+      );
+
+      if (shortfall.gt(0)) {
+        // Not possible to stay under the tier: restore what cannot be covered
+        this.drawFromAccounts(traditionalAccounts, shortfall, withdrawals, rmdWithdrawals);
+        break;
+      }
+    }
+
+    return withdrawals;
+  }
+
+  /**
+   * Reduce planned withdrawals from a list of accounts, last account first.
+   *
+   * Accounts whose withdrawal drops to zero are removed from the map.
+   *
+   * @param accounts - Accounts whose withdrawals can be reduced
+   * @param amount - Amount to reduce by
+   * @param withdrawals - Withdrawal map to update in place
+   * @returns Amount actually reduced
+   */
+  private reduceWithdrawals(
+    accounts: BaseAccount[],
+    amount: Big,
+    withdrawals: Record<string, Big>,
+  ): Big {
+    let remaining = amount;
+
+    for (const account of [...accounts].reverse()) {
+      if (remaining.lte(0)) {
+        break;
+      }
+      const planned = withdrawals[account.id];
+      if (planned === undefined) {
+        continue;
+      }
+      const reduction = min(remaining, planned);
+      const left = subtract(planned, reduction);
+      if (isZero(left)) {
+        delete withdrawals[account.id];
+      } else {
+        withdrawals[account.id] = left;
+      }
+      remaining = subtract(remaining, reduction);
+    }
+
+    return subtract(amount, remaining);
+  }
+
+  /**
+   * Determine this year's Roth conversion amount.
+   *
+   * Conversions happen between policy.rothConversion.startAge and endAge
+   * (inclusive), after withdrawals, and are capped at the remaining
+   * Traditional balance.
+   *
+   * @param age - Current age
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions)
+   * @param withdrawals - All withdrawals executed this year
+   * @returns Amount to convert (zero when no conversion applies)
+   */
+  private planRothConversion(
+    age: number,
+    guaranteedIncome: Big,
+    withdrawals: Record<string, Big>,
+  ): Big {
+    const conversion = this.policy.rothConversion;
+    if (!conversion || age < conversion.startAge || age > conversion.endAge) {
+      return new Big(0);
+    }
+
+    const available = sum(
+      this.getAccountsByType(AccountType.TRADITIONAL).map((acc) => acc.getBalance()),
+    );
+
+    let amount: Big;
+    switch (conversion.strategy) {
+      case RothConversionStrategy.FIXED_AMOUNT:
+        amount = conversion.annualAmount ?? new Big(0);
+        break;
+      case RothConversionStrategy.FILL_TO_BRACKET:
+        amount = this.calculateOrdinaryIncomeRoom(
+          conversion.targetTaxBracket ??
+            this.policy.targetTaxBracket ??
+            WithdrawalCoordinator.DEFAULT_TARGET_TAX_BRACKET,
+          guaranteedIncome,
+          withdrawals,
+        );
+        break;
+      case RothConversionStrategy.FILL_TO_IRMAA_TIER:
+        amount = this.calculateIRMAARoom(guaranteedIncome, withdrawals);
+        break;
+      default:
+        amount = new Big(0);
+    }
+
+    return max(min(amount, available), new Big(0));
+  }
+
+  /**
+   * Move money from Traditional accounts to a Roth account.
+   *
+   * Draws from Traditional accounts in order and deposits into the first Roth
+   * account. A Roth account is created if the user does not have one.
+   *
+   * @param amount - Amount to convert
+   * @param age - Current age
+   * @param year - Calendar year
+   */
+  private executeRothConversion(amount: Big, age: number, year: number): void {
+    if (amount.lte(0)) {
+      return;
+    }
+
+    let remaining = amount;
+    for (const account of this.getAccountsByType(AccountType.TRADITIONAL)) {
+      if (remaining.lte(0)) {
+        break;
+      }
+      const result = account.withdraw(min(remaining, account.getBalance()), age, year);
+      remaining = subtract(remaining, result.grossAmount);
+    }
+
+    let rothAccount = this.getAccountsByType(AccountType.ROTH)[0];
+    if (!rothAccount) {
+      rothAccount = new RothAccount(
+        WithdrawalCoordinator.CONVERSION_ROTH_ACCOUNT_ID,
+        0,
+        'Roth Conversions',
+      );
+      this.accounts.set(rothAccount.id, rothAccount);
+    }
+    rothAccount.deposit(subtract(amount, remaining));
+  }
+
+  /**
+   * Calculate the Medicare IRMAA surcharge for a year.
+   *
+   * Uses MAGI and the filing status of the plan two years earlier, so a
+   * survivor keeps joint thresholds for the returns filed jointly. Each
+   * living household member of Medicare age pays the surcharge. No surcharge
+   * before Medicare age or when the lookback year is before the start of the
+   * projection.
+   *
+   * @param year - Calendar year
+   * @param age - User's age
+   * @returns Annual IRMAA surcharge for the household
+   */
+  private calculateIRMAASurcharge(year: number, age: number): Big {
+    const enrollees = this.household.getLivingMembers(age).filter(
+      (member) => this.household.getAge(member, age) >= IRMAACalculator.MEDICARE_AGE,
+    ).length;
+    if (enrollees === 0) {
+      return new Big(0);
+    }
+
+    const lookbackPlan = this.withdrawalHistory.find(
+      (plan) => plan.year === year - IRMAACalculator.LOOKBACK_YEARS,
+    );
+    if (!lookbackPlan) {
+      return new Big(0);
+    }
+
+    return this.irmaaCalculator.calculate(
+      lookbackPlan.taxResult.magi,
+      lookbackPlan.filingStatus,
+      year,
+    ).annualSurcharge.times(enrollees);
+  }
+
   /**
    * Merge RMD and discretionary withdrawals.
    *
@@ -710,44 +1757,121 @@ export class WithdrawalCoordinator {
   }
 
   /**
-   * Estimate taxes for the year.
+   * Calculate the full tax result for a set of withdrawals.
    *
-   * Aggregates income components by type and delegates to tax calculator.
+   * Aggregates income components by type and delegates to tax calculator,
+   * with the household's ages and this year's itemized deductions.
    *
-   * @param guaranteedIncome - Guaranteed income (SSA)
+   * @param guaranteedIncome - Guaranteed income (SSA, pensions)
    * @param withdrawals - Account withdrawals
-   * @returns Estimated total tax
+   * @param additionalOrdinaryIncome - Extra ordinary income to include (e.g., a trial
+   *                                   Traditional withdrawal while planning)
+   * @returns Tax calculation result
    */
-  private estimateTaxes(
+  private calculateTaxResult(
     guaranteedIncome: Big,
     withdrawals: Record<string, Big>,
-  ): Big {
-    const { ordinaryIncome, qualifiedDividends, longTermCapitalGains, socialSecurityGross } =
+    additionalOrdinaryIncome: Big = new Big(0),
+  ): TaxResult {
+    const { ordinaryIncome, ordinaryInvestmentIncome, qualifiedDividends, longTermCapitalGains, socialSecurityGross } =
       this.aggregateIncomeComponents(guaranteedIncome, withdrawals);
 
     const taxInputs: TaxInputs = {
       filingStatus: this.userProfile.filingStatus,
-      ordinaryIncome,
+      ordinaryIncome: add(ordinaryIncome, additionalOrdinaryIncome),
       qualifiedDividends,
       longTermCapitalGains,
       socialSecurityGross,
       taxExemptInterest: new Big(0),
+      earnedIncome: this.getPayrollIncome(),
+      ordinaryInvestmentIncome,
+      ages: this.getLivingAges(),
+      itemizedDeductions: this.itemizedDeductions,
     };
 
-    const taxResult = this.taxCalculator.calculate(taxInputs);
-    return taxResult.totalTax;
+    return this.taxCalculator.calculate(taxInputs, this.currentYear);
+  }
+
+  /**
+   * Collect this year's itemized deductions.
+   *
+   * Mortgage interest comes from the modeled mortgages. Property taxes and
+   * charitable giving come from the profile, grown with inflation like the
+   * spending target they are paid from. State income tax is deducted the
+   * year after it is owed, when the balance is paid.
+   *
+   * @param mortgages - Mortgage payments made this year
+   * @returns Mortgage interest, state and local taxes and charitable giving
+   */
+  private calculateItemizedDeductions(mortgages: MortgageYearResult[]): ItemizedDeductions {
+    const expenses = this.userProfile.deductibleExpenses;
+    const inflationMultiplier = add(new Big(1), this.policy.inflationRate).pow(this.withdrawalHistory.length);
+    const previousStateTaxes = this.withdrawalHistory[this.withdrawalHistory.length - 1]?.stateTaxes ?? new Big(0);
+
+    return {
+      mortgageInterest: sum(mortgages.map((m) => m.interestPaid)),
+      stateAndLocalTaxes: add(
+        multiply(expenses?.propertyTaxes ?? new Big(0), inflationMultiplier),
+        previousStateTaxes,
+      ),
+      charitableGiving: multiply(expenses?.charitableGiving ?? new Big(0), inflationMultiplier),
+    };
+  }
+
+  /**
+   * Get the ages of the living household members.
+   *
+   * @returns Age of each living member this year
+   */
+  private getLivingAges(): number[] {
+    return this.household
+      .getLivingMembers(this.currentAge)
+      .map((member) => this.household.getAge(member, this.currentAge));
+  }
+
+  /**
+   * Calculate state income tax for the year.
+   *
+   * Starts from the federal result. Retirement income eligible for state
+   * exclusions is the taxable part of pensions, Traditional withdrawals and
+   * Roth conversions.
+   *
+   * @param taxResult - Federal tax result for the year
+   * @param withdrawals - Account withdrawals
+   * @param rothConversion - Amount converted to Roth
+   * @returns State income tax (0 without a state of residence)
+   */
+  private calculateStateTax(taxResult: TaxResult, withdrawals: Record<string, Big>, rothConversion: Big): Big {
+    if (!this.stateTaxCalculator) {
+      return new Big(0);
+    }
+
+    const traditionalWithdrawals = sum(
+      Object.entries(withdrawals)
+        .filter(([accountId]) => this.accounts.get(accountId) instanceof TraditionalAccount)
+        .map(([, amount]) => amount),
+    );
+
+    return this.stateTaxCalculator.calculate({
+      filingStatus: this.userProfile.filingStatus,
+      federalAgi: taxResult.agi,
+      taxableSocialSecurity: taxResult.taxableSocialSecurity,
+      retirementIncome: sum([this.pensionIncome.ordinaryIncome, traditionalWithdrawals, rothConversion]),
+      ages: this.getLivingAges(),
+    }).tax;
   }
 
   /**
    * Aggregate income components by type for tax calculation.
    *
    * Breaks down income into:
-   * - Ordinary income (Traditional IRA withdrawals, pensions)
-   * - Qualified dividends (not modeled yet)
-   * - Long-term capital gains (taxable account withdrawals)
+   * - Ordinary income (Traditional IRA withdrawals, taxable part of pensions,
+   *   rental income, depreciation recapture, interest, non-qualified dividends)
+   * - Qualified dividends of taxable accounts
+   * - Long-term capital gains (taxable account withdrawals, property sales)
    * - Social Security gross (for taxable portion calculation)
    *
-   * @param guaranteedIncome - Guaranteed income (assumed to be SSA)
+   * @param guaranteedIncome - Guaranteed income (SSA plus this year's pensions)
    * @param withdrawals - Account withdrawals
    * @returns Income components by type
    */
@@ -756,14 +1880,21 @@ export class WithdrawalCoordinator {
     withdrawals: Record<string, Big>,
   ): {
     ordinaryIncome: Big;
+    ordinaryInvestmentIncome: Big;
     qualifiedDividends: Big;
     longTermCapitalGains: Big;
     socialSecurityGross: Big;
   } {
-    let ordinaryIncome = new Big(0);
-    const qualifiedDividends = new Big(0);
-    let longTermCapitalGains = new Big(0);
-    const socialSecurityGross = guaranteedIncome; // Assume all guaranteed income is SSA
+    // Rents, interest and non-qualified dividends are also net investment income
+    const ordinaryInvestmentIncome = sum([
+      this.realEstateIncome.ordinaryIncome,
+      ...this.investmentIncome.map((r) => r.ordinaryDividends.plus(r.interest)),
+    ]);
+    let ordinaryIncome = add(ordinaryInvestmentIncome, this.pensionIncome.ordinaryIncome);
+    const qualifiedDividends = sum(this.investmentIncome.map((r) => r.qualifiedDividends));
+    let longTermCapitalGains = this.realEstateIncome.longTermCapitalGains;
+    // Pensions are taxed as ordinary income, not with the Social Security formula
+    const socialSecurityGross = subtract(guaranteedIncome, this.pensionIncome.cash);
 
     // Process withdrawals by account type
     for (const [accountId, amount] of Object.entries(withdrawals)) {
@@ -789,6 +1920,7 @@ export class WithdrawalCoordinator {
 
     return {
       ordinaryIncome,
+      ordinaryInvestmentIncome,
       qualifiedDividends,
       longTermCapitalGains,
       socialSecurityGross,
@@ -807,6 +1939,21 @@ export class WithdrawalCoordinator {
     );
   }
 
+  /**
+   * Get taxable accounts sorted by gain percentage (lowest first).
+   *
+   * Lower gain = lower tax impact = withdraw first.
+   *
+   * @returns Taxable accounts in withdrawal order
+   */
+  private getTaxableAccountsByGain(): BaseAccount[] {
+    return this.getAccountsByType(AccountType.TAXABLE).sort((a, b) => {
+      const gainA = a instanceof TaxableAccount ? a.getGainPercentage() : new Big(0);
+      const gainB = b instanceof TaxableAccount ? b.getGainPercentage() : new Big(0);
+      return gainA.cmp(gainB);
+    });
+  }
+
   /**
    * Sum withdrawal amounts.
    *
@@ -233,6 +233,47 @@ describe('RothAccount', () => {
     });
   });
 
+  describe('applyAssetClassGrowth', () => {
+    const returns = { stocks: toBig(0.10), bonds: toBig(0.02), cash: toBig(0) };
+
+    it('should default to a 60/40 allocation', () => {
+      const account = new RothAccount('roth-1', 100000);
+      account.applyAssetClassGrowth(returns);
+
+      expect(account.getBalance().toString()).toBe('106800');
+    });
+
+    it('should grow at the blend of its own allocation', () => {
+      const account = new RothAccount('roth-1', 100000);
+      account.setAllocation({ stocks: toBig(1), bonds: toBig(0), cash: toBig(0) });
+      account.applyAssetClassGrowth(returns);
+
+      expect(account.getBalance().toString()).toBe('110000');
+    });
+
+    it('should reject invalid allocations', () => {
+      const account = new RothAccount('roth-1', 100000);
+
+      expect(() => account.setAllocation({ stocks: toBig(0.5), bonds: toBig(0.4), cash: toBig(0) }))
+        .toThrow('Allocation weights must sum to 100%');
+    });
+  });
+
+  describe('deposit', () => {
+    it('should add to balance', () => {
+      const account = new RothAccount('roth-1', 100000);
+      account.deposit(toBig(25000)); // Roth conversion
+      
+      expect(account.getBalance().toString()).toBe('125000');
+    });
+
+    it('should throw on negative deposit', () => {
+      const account = new RothAccount('roth-1', 100000);
+      
+      expect(() => account.deposit(toBig(-1000))).toThrow('Deposit amount cannot be negative');
+    });
+  });
+
   describe('toString', () => {
     it('should include tax-free indicator', () => {
       const account = new RothAccount('roth-1', 100000);
@@ -317,6 +317,17 @@ describe('TaxableAccount', () => {
     });
   });
 
+  describe('deposit', () => {
+    it('should add deposit to both balance and cost basis', () => {
+      const account = new TaxableAccount('tax-1', 100000, 60000);
+      account.deposit(toBig(10000));
+      
+      expect(account.getBalance().toString()).toBe('110000');
+      expect(account.getCostBasis().toString()).toBe('70000');
+      expect(account.getUnrealizedGains().toString()).toBe('40000');
+    });
+  });
+
   describe('toString', () => {
     it('should include basis and unrealized gains', () => {
       const account = new TaxableAccount('tax-1', 100000, 60000);
@@ -399,4 +410,66 @@ describe('TaxableAccount', () => {
       expect(totalGains.toString()).toBe('20000');
     });
   });
+
+  describe('investment income', () => {
+    const income = {
+      dividendYield: toBig(0.02),
+      qualifiedDividendRate: toBig(0.9),
+      interestYield: toBig(0.01),
+    };
+
+    it('should pay nothing by default', () => {
+      const account = new TaxableAccount('tax', 100000, 60000);
+
+      const result = account.generateIncome();
+
+      expect(result.qualifiedDividends.toString()).toBe('0');
+      expect(result.interest.toString()).toBe('0');
+      expect(account.getBalance().toString()).toBe('100000');
+    });
+
+    it('should pay out distributed income without changing the basis', () => {
+      const account = new TaxableAccount('tax', 100000, 60000);
+      account.setInvestmentIncome({ ...income, reinvest: false });
+
+      const result = account.generateIncome();
+
+      expect(result.qualifiedDividends.toString()).toBe('1800');
+      expect(result.ordinaryDividends.toString()).toBe('200');
+      expect(result.interest.toString()).toBe('1000');
+      expect(result.distributed.toString()).toBe('3000');
+      expect(account.getBalance().toString()).toBe('97000');
+      expect(account.getCostBasis().toString()).toBe('60000');
+    });
+
+    it('should add reinvested income to the basis', () => {
+      const account = new TaxableAccount('tax', 100000, 60000);
+      account.setInvestmentIncome({ ...income, reinvest: true });
+
+      const result = account.generateIncome();
+
+      expect(result.distributed.toString()).toBe('0');
+      expect(account.getBalance().toString()).toBe('100000');
+      expect(account.getCostBasis().toString()).toBe('63000');
+    });
+
+    it('should let the caller force reinvestment', () => {
+      const account = new TaxableAccount('tax', 100000, 60000);
+      account.setInvestmentIncome({ ...income, reinvest: false });
+
+      const result = account.generateIncome(true);
+
+      expect(result.distributed.toString()).toBe('0');
+      expect(account.getCostBasis().toString()).toBe('63000');
+    });
+
+    it('should reject negative yields and qualified rates above 1', () => {
+      const account = new TaxableAccount('tax', 100000, 60000);
+
+      expect(() => account.setInvestmentIncome({ ...income, interestYield: toBig(-0.01), reinvest: true }))
+        .toThrow('Dividend and interest yields cannot be negative');
+      expect(() => account.setInvestmentIncome({ ...income, qualifiedDividendRate: toBig(1.1), reinvest: true }))
+        .toThrow('Qualified dividend rate must be between 0 and 1');
+    });
+  });
 });
@@ -0,0 +1,42 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import Big from 'big.js';
+import {
+  DEFAULT_ASSET_ALLOCATION,
+  validateAllocation,
+  blendReturns,
+  uniformReturns,
+} from '../lib/assetAllocation';
+
+describe('assetAllocation', () => {
+  describe('validateAllocation', () => {
+    it('should accept weights summing to 1', () => {
+      expect(() => validateAllocation(DEFAULT_ASSET_ALLOCATION)).not.toThrow();
+      expect(() => validateAllocation({ stocks: new Big(0), bonds: new Big(0), cash: new Big(1) })).not.toThrow();
+    });
+
+    it('should reject negative weights', () => {
+      expect(() => validateAllocation({ stocks: new Big(1.2), bonds: new Big(-0.2), cash: new Big(0) }))
+        .toThrow('Allocation weights cannot be negative');
+    });
+
+    it('should reject weights not summing to 1', () => {
+      expect(() => validateAllocation({ stocks: new Big(0.6), bonds: new Big(0.3), cash: new Big(0) }))
+        .toThrow('Allocation weights must sum to 100%');
+    });
+  });
+
+  describe('blendReturns', () => {
+    it('should weight each asset class return', () => {
+      const returns = { stocks: new Big(0.1), bonds: new Big(0.02), cash: new Big(0.01) };
+
+      expect(blendReturns(DEFAULT_ASSET_ALLOCATION, returns).toString()).toBe('0.068');
+      expect(blendReturns({ stocks: new Big(0.5), bonds: new Big(0.3), cash: new Big(0.2) }, returns).toString())
+        .toBe('0.058');
+    });
+
+    it('should return the common rate for uniform returns', () => {
+      expect(blendReturns(DEFAULT_ASSET_ALLOCATION, uniformReturns(new Big(0.05))).toString()).toBe('0.05');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { ClaimingAgeOptimizer } from '../lib/claimingOptimizer';
+import type { ProjectionRunner } from '../lib/claimingOptimizer';
+import { AccountType, ClaimingGranularity, ClaimingObjective, FilingStatus, SequencingStrategy } from '../lib/types';
+import type { Scenario } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+function createScenario(age = 62): Scenario {
+  return {
+    name: 'Claiming Scenario',
+    user: {
+      birthYear: CURRENT_YEAR - age,
+      retirementAge: 62,
+      filingStatus: FilingStatus.SINGLE,
+    },
+    accounts: [
+      { id: 'ira', accountType: AccountType.TRADITIONAL, balance: toBig(600000) },
+      { id: 'brokerage', accountType: AccountType.TAXABLE, balance: toBig(200000), costBasis: toBig(200000) },
+    ],
+    ssaIncome: { fraMonthlyBenefit: toBig(2000), claimingAge: 67 },
+    policy: {
+      minRequiredIncome: toBig(40000),
+      sequencingStrategy: SequencingStrategy.TAXABLE_FIRST,
+      inflationAdjust: false,
+      inflationRate: toBig(0),
+      avoidIRMAA: false,
+    },
+  };
+}
+
+const runProjection: ProjectionRunner = (engine) => engine.runProjection(30, toBig(0.03));
+
+describe('ClaimingAgeOptimizer', () => {
+  it('should compare every year or every month from 62 to 70', () => {
+    const years = ClaimingAgeOptimizer.getClaimingAges(ClaimingGranularity.YEAR);
+    const months = ClaimingAgeOptimizer.getClaimingAges(ClaimingGranularity.MONTH);
+
+    expect(years).toEqual([62, 63, 64, 65, 66, 67, 68, 69, 70]);
+    expect(months).toHaveLength(97);
+    expect(months[1]).toBeCloseTo(62 + 1 / 12);
+    expect(months[96]).toBe(70);
+  });
+
+  it('should report one projection per claiming age', () => {
+    const result = new ClaimingAgeOptimizer(createScenario())
+      .optimize(runProjection, ClaimingObjective.FINAL_PORTFOLIO, 62);
+
+    expect(result.scenarioName).toBe('Claiming Scenario');
+    expect(result.options.map((option) => option.claimingAge)).toEqual([62, 63, 64, 65, 66, 67, 68, 69, 70]);
+    for (const option of result.options) {
+      expect(option.lifetimeNetIncome.gt(0)).toBe(true);
+      expect(option.totalTaxesPaid.gte(0)).toBe(true);
+    }
+    // Claiming later changes the outcome
+    expect(result.options[0].finalPortfolioValue.eq(result.options[8].finalPortfolioValue)).toBe(false);
+  });
+
+  it('should find the age when a later claim overtakes claiming at 62', () => {
+    const result = new ClaimingAgeOptimizer(createScenario())
+      .optimize(runProjection, ClaimingObjective.FINAL_PORTFOLIO, 62);
+
+    // 62: $16,800/year from 62; 70: $29,760/year from 70; 70 catches up at 80
+    expect(result.options[0].breakEvenAge).toBeUndefined();
+    expect(result.options[8].breakEvenAge).toBe(80);
+    expect(result.options[5].breakEvenAge).toBeLessThan(80);
+  });
+
+  it('should pick the best option under each objective', () => {
+    const optimizer = new ClaimingAgeOptimizer(createScenario());
+
+    const portfolio = optimizer.optimize(runProjection, ClaimingObjective.FINAL_PORTFOLIO, 62);
+    const income = optimizer.optimize(runProjection, ClaimingObjective.LIFETIME_NET_INCOME, 62);
+    const taxes = optimizer.optimize(runProjection, ClaimingObjective.TOTAL_TAXES, 62);
+
+    const largestPortfolio = Math.max(...portfolio.options.map((option) => option.finalPortfolioValue.toNumber()));
+    const mostIncome = Math.max(...income.options.map((option) => option.lifetimeNetIncome.toNumber()));
+    const leastTaxes = Math.min(...taxes.options.map((option) => option.totalTaxesPaid.toNumber()));
+
+    const best = (result: typeof portfolio) =>
+      result.options.find((option) => option.claimingAge === result.bestClaimingAge)!;
+    expect(best(portfolio).finalPortfolioValue.toNumber()).toBe(largestPortfolio);
+    expect(best(income).lifetimeNetIncome.toNumber()).toBe(mostIncome);
+    expect(best(taxes).totalTaxesPaid.toNumber()).toBe(leastTaxes);
+    expect(taxes.objective).toBe(ClaimingObjective.TOTAL_TAXES);
+  });
+
+  it('should only compare claiming ages the user has not passed', () => {
+    const result = new ClaimingAgeOptimizer(createScenario(66))
+      .optimize(runProjection, ClaimingObjective.FINAL_PORTFOLIO, 66);
+
+    expect(result.options.map((option) => option.claimingAge)).toEqual([66, 67, 68, 69, 70]);
+    // Break-even ages are measured against claiming at 66
+    expect(result.options[0].breakEvenAge).toBeUndefined();
+    expect(result.options[4].breakEvenAge).toBeGreaterThan(70);
+    expect(ClaimingAgeOptimizer.getClaimingAges(ClaimingGranularity.MONTH, 66)).toHaveLength(49);
+    expect(ClaimingAgeOptimizer.getClaimingAges(ClaimingGranularity.YEAR, 72)).toEqual([70]);
+  });
+
+  it('should match optimize when run in batches, and stop when cancelled', async () => {
+    const optimizer = new ClaimingAgeOptimizer(createScenario());
+    const progress: number[] = [];
+
+    const batched = await optimizer.optimizeBatched(
+      runProjection,
+      ClaimingObjective.FINAL_PORTFOLIO,
+      62,
+      ClaimingGranularity.YEAR,
+      { batchSize: 4, onProgress: (completed) => progress.push(completed) },
+    );
+    const cancelled = await optimizer.optimizeBatched(
+      runProjection,
+      ClaimingObjective.FINAL_PORTFOLIO,
+      62,
+      ClaimingGranularity.YEAR,
+      { batchSize: 4, isCancelled: () => progress.length > 0 },
+    );
+
+    expect(progress).toEqual([4, 8, 9]);
+    expect(batched?.bestClaimingAge)
+      .toBe(optimizer.optimize(runProjection, ClaimingObjective.FINAL_PORTFOLIO, 62).bestClaimingAge);
+    expect(cancelled).toBeNull();
+  });
+
+  it('should require a Social Security benefit', () => {
+    const scenario = { ...createScenario(), ssaIncome: undefined };
+
+    expect(() => new ClaimingAgeOptimizer(scenario)).toThrow('Scenario must have Social Security income');
+  });
+});
@@ -0,0 +1,90 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { ContributionCalculator } from '../lib/contributionCalculator';
+import { AccountType, ContributionLimitType } from '../lib/types';
+import type { Account, ContributionPlan } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+function createAccount(id: string, contribution?: ContributionPlan): Account {
+  return { id, accountType: AccountType.TRADITIONAL, balance: toBig(0), contribution };
+}
+
+describe('ContributionCalculator', () => {
+  const calculator = new ContributionCalculator();
+
+  describe('getLimit', () => {
+    it('should return 2024 limits', () => {
+      expect(calculator.getLimit(ContributionLimitType.EMPLOYER_PLAN, 40)?.toString()).toBe('23000');
+      expect(calculator.getLimit(ContributionLimitType.IRA, 40)?.toString()).toBe('7000');
+    });
+
+    it('should add catch-up contributions from age 50', () => {
+      expect(calculator.getLimit(ContributionLimitType.EMPLOYER_PLAN, 49)?.toString()).toBe('23000');
+      expect(calculator.getLimit(ContributionLimitType.EMPLOYER_PLAN, 50)?.toString()).toBe('30500');
+      expect(calculator.getLimit(ContributionLimitType.IRA, 50)?.toString()).toBe('8000');
+    });
+
+    it('should not limit taxable contributions', () => {
+      expect(calculator.getLimit(ContributionLimitType.NONE, 40)).toBeNull();
+    });
+  });
+
+  describe('calculateYear', () => {
+    it('should contribute a percentage of salary with employer match', () => {
+      const accounts = [createAccount('401k', {
+        salaryPercent: toBig(0.1),
+        limitType: ContributionLimitType.EMPLOYER_PLAN,
+        employerMatchRate: toBig(0.5),
+        employerMatchCap: toBig(0.06),
+      })];
+
+      const result = calculator.calculateYear(accounts, toBig(100000), 40);
+
+      expect(result.contributions['401k'].toString()).toBe('10000');
+      expect(result.employerMatch['401k'].toString()).toBe('3000'); // 50% of the first 6% of salary
+    });
+
+    it('should match only what the employee contributes', () => {
+      const accounts = [createAccount('401k', {
+        annualAmount: toBig(2000),
+        limitType: ContributionLimitType.EMPLOYER_PLAN,
+        employerMatchRate: toBig(1),
+        employerMatchCap: toBig(0.05),
+      })];
+
+      const result = calculator.calculateYear(accounts, toBig(100000), 40);
+
+      expect(result.employerMatch['401k'].toString()).toBe('2000');
+    });
+
+    it('should share limits across accounts of the same type', () => {
+      const accounts = [
+        createAccount('trad-ira', { annualAmount: toBig(5000), limitType: ContributionLimitType.IRA }),
+        createAccount('roth-ira', { annualAmount: toBig(5000), limitType: ContributionLimitType.IRA }),
+        createAccount('401k', { annualAmount: toBig(30000), limitType: ContributionLimitType.EMPLOYER_PLAN }),
+      ];
+
+      const result = calculator.calculateYear(accounts, toBig(150000), 40);
+
+      expect(result.contributions['trad-ira'].toString()).toBe('5000');
+      expect(result.contributions['roth-ira'].toString()).toBe('2000');
+      expect(result.contributions['401k'].toString()).toBe('23000');
+    });
+
+    it('should not limit taxable contributions', () => {
+      const accounts = [createAccount('brokerage', { annualAmount: toBig(50000), limitType: ContributionLimitType.NONE })];
+
+      const result = calculator.calculateYear(accounts, toBig(0), 40);
+
+      expect(result.contributions['brokerage'].toString()).toBe('50000');
+      expect(result.employerMatch['brokerage'].toString()).toBe('0');
+    });
+
+    it('should skip accounts without a contribution plan', () => {
+      const result = calculator.calculateYear([createAccount('ira')], toBig(100000), 40);
+
+      expect(result.contributions).toEqual({});
+      expect(result.employerMatch).toEqual({});
+    });
+  });
+});
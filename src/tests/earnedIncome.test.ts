@@ -0,0 +1,67 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { EarnedIncomeStream } from '../lib/earnedIncome';
+import { Household } from '../lib/household';
+import { EarnedIncomeType, FilingStatus, HouseholdMember } from '../lib/types';
+import type { EarnedIncome, UserProfile } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+const couple: UserProfile = {
+  birthYear: 1962,
+  retirementAge: 62,
+  filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+  lifeExpectancy: 64,
+  spouse: { birthYear: 1964, retirementAge: 62 },
+};
+
+function createIncome(overrides: Partial<EarnedIncome> = {}): EarnedIncome {
+  return {
+    id: 'consulting',
+    incomeType: EarnedIncomeType.SELF_EMPLOYMENT,
+    startAge: 62,
+    endAge: 66,
+    annualAmount: toBig(40000),
+    growthRate: toBig(0),
+    ...overrides,
+  };
+}
+
+describe('EarnedIncomeStream', () => {
+  const household = new Household(couple);
+
+  it('should pay from the start age through the end age', () => {
+    const stream = new EarnedIncomeStream(createIncome({ owner: HouseholdMember.SPOUSE }));
+
+    // Spouse is 2 years younger
+    expect(stream.calculateYear(household, 63).amount.toString()).toBe('0');
+    expect(stream.calculateYear(household, 64).amount.toString()).toBe('40000');
+    expect(stream.calculateYear(household, 68).amount.toString()).toBe('40000');
+    expect(stream.calculateYear(household, 69).amount.toString()).toBe('0');
+  });
+
+  it('should grow earnings by the raise rate', () => {
+    const stream = new EarnedIncomeStream(createIncome({ growthRate: toBig(0.03) }));
+
+    expect(stream.calculateYear(household, 63).amount.toString()).toBe('41200');
+  });
+
+  it('should stop at the owner\'s death', () => {
+    const stream = new EarnedIncomeStream(createIncome());
+
+    expect(stream.calculateYear(household, 64).amount.toString()).toBe('40000');
+    expect(stream.calculateYear(household, 65).amount.toString()).toBe('0');
+  });
+
+  it('should report the owner and income type', () => {
+    const result = new EarnedIncomeStream(createIncome()).calculateYear(household, 62);
+
+    expect(result.earnedIncomeId).toBe('consulting');
+    expect(result.owner).toBe(HouseholdMember.USER);
+    expect(result.incomeType).toBe(EarnedIncomeType.SELF_EMPLOYMENT);
+  });
+
+  it('should reject negative amounts and an end age before the start age', () => {
+    expect(() => new EarnedIncomeStream(createIncome({ annualAmount: toBig(-1) }))).toThrow('cannot be negative');
+    expect(() => new EarnedIncomeStream(createIncome({ endAge: 61 }))).toThrow('end age');
+  });
+});
@@ -1,6 +1,6 @@
 // Copyright (c) 2026 François Rouaix
 import { describe, it, expect } from 'vitest';
-import { formatCurrency, formatCurrencyWithCents } from '../utils/format';
+import { formatCurrency, formatCurrencyWithCents, formatCompactCurrency, formatAge } from '../utils/format';
 
 describe('format', () => {
   describe('formatCurrency', () => {
@@ -87,4 +87,33 @@ describe('format', () => {
       expect(formatCurrencyWithCents(1234.999)).toBe('1,235.00');
     });
   });
+
+  describe('formatCompactCurrency', () => {
+    it('should format millions with one decimal', () => {
+      expect(formatCompactCurrency(1250000)).toBe('$1.3M');
+      expect(formatCompactCurrency(1000000)).toBe('$1.0M');
+    });
+
+    it('should format thousands without decimals', () => {
+      expect(formatCompactCurrency(350000)).toBe('$350K');
+      expect(formatCompactCurrency(1000)).toBe('$1K');
+    });
+
+    it('should format small amounts as whole dollars', () => {
+      expect(formatCompactCurrency(999)).toBe('$999');
+      expect(formatCompactCurrency(0)).toBe('$0');
+    });
+  });
+
+  describe('formatAge', () => {
+    it('should format whole years', () => {
+      expect(formatAge(67)).toBe('67');
+    });
+
+    it('should format months', () => {
+      expect(formatAge(66.5)).toBe('66 and 6 months');
+      expect(formatAge(66 + 1 / 12)).toBe('66 and 1 month');
+      expect(formatAge(66 + 10 / 12)).toBe('66 and 10 months');
+    });
+  });
 });
@@ -0,0 +1,78 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import {
+  HISTORICAL_RETURNS,
+  getRealAssetReturns,
+  getHistoricalSequence,
+  getHistoricalIndex,
+} from '../lib/historicalReturns';
+
+describe('historicalReturns', () => {
+  describe('HISTORICAL_RETURNS', () => {
+    it('should cover consecutive years from 1928', () => {
+      expect(HISTORICAL_RETURNS[0].year).toBe(1928);
+      HISTORICAL_RETURNS.forEach((data, idx) => {
+        expect(data.year).toBe(1928 + idx);
+      });
+    });
+
+    it('should include known market years', () => {
+      const year2008 = HISTORICAL_RETURNS[getHistoricalIndex(2008)];
+      expect(year2008.stocks).toBe(-0.3655);
+      expect(year2008.bonds).toBe(0.201);
+
+      const year1946 = HISTORICAL_RETURNS[getHistoricalIndex(1946)];
+      expect(year1946.inflation).toBe(0.1813);
+    });
+
+    it('should have plausible long-run averages', () => {
+      const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+      expect(average(HISTORICAL_RETURNS.map(d => d.stocks))).toBeCloseTo(0.116, 2);
+      expect(average(HISTORICAL_RETURNS.map(d => d.bonds))).toBeCloseTo(0.049, 2);
+      expect(average(HISTORICAL_RETURNS.map(d => d.cash))).toBeCloseTo(0.033, 2);
+      expect(average(HISTORICAL_RETURNS.map(d => d.inflation))).toBeCloseTo(0.030, 2);
+    });
+  });
+
+  describe('getRealAssetReturns', () => {
+    const data = { year: 2000, stocks: 0.10, bonds: 0.04, cash: 0.03, inflation: 0.02 };
+
+    it('should remove inflation from each asset class', () => {
+      // (1 + nominal) / 1.02 - 1
+      const real = getRealAssetReturns(data);
+      expect(real.stocks.toFixed(6)).toBe('0.078431');
+      expect(real.bonds.toFixed(6)).toBe('0.019608');
+      expect(real.cash.toFixed(6)).toBe('0.009804');
+    });
+  });
+
+  describe('getHistoricalSequence', () => {
+    it('should return consecutive years from the start index', () => {
+      const startIndex = getHistoricalIndex(1966);
+      const sequence = getHistoricalSequence(startIndex, 3);
+
+      expect(sequence).toHaveLength(3);
+      expect(sequence[0].stocks.toFixed(6)).toBe(getRealAssetReturns(HISTORICAL_RETURNS[startIndex]).stocks.toFixed(6));
+      expect(sequence[2].bonds.toFixed(6)).toBe(getRealAssetReturns(HISTORICAL_RETURNS[startIndex + 2]).bonds.toFixed(6));
+    });
+
+    it('should wrap around to the first year', () => {
+      const lastIndex = HISTORICAL_RETURNS.length - 1;
+      const sequence = getHistoricalSequence(lastIndex, 2);
+
+      expect(sequence[1].cash.toFixed(6)).toBe(getRealAssetReturns(HISTORICAL_RETURNS[0]).cash.toFixed(6));
+    });
+  });
+
+  describe('getHistoricalIndex', () => {
+    it('should find years in the dataset', () => {
+      expect(getHistoricalIndex(1928)).toBe(0);
+      expect(getHistoricalIndex(1929)).toBe(1);
+    });
+
+    it('should throw for years outside the dataset', () => {
+      expect(() => getHistoricalIndex(1900)).toThrow('No historical data for 1900');
+    });
+  });
+});
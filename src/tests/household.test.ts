@@ -0,0 +1,59 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { Household } from '../lib/household';
+import { FilingStatus, HouseholdMember } from '../lib/types';
+import type { UserProfile } from '../lib/types';
+
+const couple: UserProfile = {
+  birthYear: 1960,
+  retirementAge: 65,
+  filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+  lifeExpectancy: 85,
+  spouse: { birthYear: 1963, retirementAge: 65, lifeExpectancy: 95 },
+};
+
+describe('Household', () => {
+  it('should derive the spouse age from the user age', () => {
+    const household = new Household(couple);
+
+    expect(household.getAge(HouseholdMember.USER, 70)).toBe(70);
+    expect(household.getAge(HouseholdMember.SPOUSE, 70)).toBe(67);
+    expect(household.getBirthYear(HouseholdMember.SPOUSE)).toBe(1963);
+  });
+
+  it('should keep members alive through their life expectancy', () => {
+    const household = new Household(couple);
+
+    expect(household.getLivingMembers(85)).toEqual([HouseholdMember.USER, HouseholdMember.SPOUSE]);
+    expect(household.getLivingMembers(86)).toEqual([HouseholdMember.SPOUSE]);
+    // Spouse reaches 95 when the user would be 98
+    expect(household.getLivingMembers(99)).toEqual([]);
+  });
+
+  it('should file jointly in the year of the first death, then as single', () => {
+    const household = new Household(couple);
+
+    expect(household.getFilingStatus(85)).toBe(FilingStatus.MARRIED_FILING_JOINTLY);
+    expect(household.getFilingStatus(86)).toBe(FilingStatus.SINGLE);
+  });
+
+  it('should pass accounts to the surviving spouse', () => {
+    const household = new Household(couple);
+
+    expect(household.getAccountHolder(HouseholdMember.USER, 85)).toBe(HouseholdMember.USER);
+    expect(household.getAccountHolder(HouseholdMember.USER, 86)).toBe(HouseholdMember.SPOUSE);
+    expect(household.getAccountHolder(HouseholdMember.SPOUSE, 86)).toBe(HouseholdMember.SPOUSE);
+  });
+
+  it('should keep the profile filing status without a spouse', () => {
+    const household = new Household({
+      birthYear: 1960,
+      retirementAge: 65,
+      filingStatus: FilingStatus.HEAD_OF_HOUSEHOLD,
+    });
+
+    expect(household.hasSpouse()).toBe(false);
+    expect(household.isAlive(HouseholdMember.SPOUSE, 70)).toBe(false);
+    expect(household.getFilingStatus(100)).toBe(FilingStatus.HEAD_OF_HOUSEHOLD);
+  });
+});
@@ -0,0 +1,97 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { IRMAACalculator } from '../lib/irmaaCalculator';
+import { FilingStatus } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+describe('IRMAACalculator', () => {
+  const calculator = new IRMAACalculator();
+
+  describe('calculate', () => {
+    it('should return no surcharge below the first tier', () => {
+      const result = calculator.calculate(toBig(90000), FilingStatus.SINGLE, 2024);
+
+      expect(result.tier).toBe(0);
+      expect(result.partBMonthly.toString()).toBe('0');
+      expect(result.partDMonthly.toString()).toBe('0');
+      expect(result.annualSurcharge.toString()).toBe('0');
+    });
+
+    it('should keep MAGI exactly at a threshold in the lower tier', () => {
+      const result = calculator.calculate(toBig(103000), FilingStatus.SINGLE, 2024);
+
+      expect(result.tier).toBe(0);
+    });
+
+    it('should apply the first tier just above the threshold', () => {
+      const result = calculator.calculate(toBig(103001), FilingStatus.SINGLE, 2024);
+
+      expect(result.tier).toBe(1);
+      expect(result.partBMonthly.toString()).toBe('69.9');
+      expect(result.partDMonthly.toString()).toBe('12.9');
+      expect(result.annualSurcharge.toString()).toBe('993.6');
+    });
+
+    it('should calculate middle tiers for single filers', () => {
+      const result = calculator.calculate(toBig(140000), FilingStatus.SINGLE, 2024);
+
+      expect(result.tier).toBe(2);
+      // (174.70 + 33.30) * 12
+      expect(result.annualSurcharge.toString()).toBe('2496');
+    });
+
+    it('should apply the top tier for very high income', () => {
+      const result = calculator.calculate(toBig(600000), FilingStatus.SINGLE, 2024);
+
+      expect(result.tier).toBe(5);
+      // (419.30 + 81.00) * 12
+      expect(result.annualSurcharge.toString()).toBe('6003.6');
+    });
+
+    it('should use joint thresholds for married filing jointly', () => {
+      expect(calculator.calculate(toBig(200000), FilingStatus.MARRIED_FILING_JOINTLY, 2024).tier).toBe(0);
+      expect(calculator.calculate(toBig(300000), FilingStatus.MARRIED_FILING_JOINTLY, 2024).tier).toBe(2);
+    });
+
+    it('should use single thresholds for head of household', () => {
+      expect(calculator.calculate(toBig(150000), FilingStatus.HEAD_OF_HOUSEHOLD, 2024).tier).toBe(2);
+    });
+  });
+
+  describe('indexation', () => {
+    const indexed = new IRMAACalculator(0.03);
+
+    it('should index thresholds after 2024 to the nearest $1,000', () => {
+      // 103,000 * 1.03^2 = 109,272.70
+      expect(indexed.getTierCeiling(toBig(90000), FilingStatus.SINGLE, 2026)?.toString()).toBe('109000');
+      expect(indexed.calculate(toBig(105000), FilingStatus.SINGLE, 2024).tier).toBe(1);
+      expect(indexed.calculate(toBig(105000), FilingStatus.SINGLE, 2026).tier).toBe(0);
+    });
+
+    it('should freeze the top tier until 2028', () => {
+      expect(indexed.getTierCeiling(toBig(400000), FilingStatus.SINGLE, 2027)?.toString()).toBe('500000');
+      // 500,000 * 1.03
+      expect(indexed.getTierCeiling(toBig(400000), FilingStatus.SINGLE, 2028)?.toString()).toBe('515000');
+    });
+
+    it('should reject a negative indexation rate', () => {
+      expect(() => new IRMAACalculator(-0.01)).toThrow('IRMAA indexation rate cannot be negative');
+    });
+  });
+
+  describe('getTierCeiling', () => {
+    it('should return the next threshold above MAGI', () => {
+      expect(calculator.getTierCeiling(toBig(90000), FilingStatus.SINGLE, 2024)?.toString()).toBe('103000');
+      expect(calculator.getTierCeiling(toBig(140000), FilingStatus.SINGLE, 2024)?.toString()).toBe('161000');
+      expect(calculator.getTierCeiling(toBig(90000), FilingStatus.MARRIED_FILING_JOINTLY, 2024)?.toString()).toBe('206000');
+    });
+
+    it('should return the threshold itself when MAGI is exactly at it', () => {
+      expect(calculator.getTierCeiling(toBig(129000), FilingStatus.SINGLE, 2024)?.toString()).toBe('129000');
+    });
+
+    it('should return null in the top tier', () => {
+      expect(calculator.getTierCeiling(toBig(600000), FilingStatus.SINGLE, 2024)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,365 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import Big from 'big.js';
+import { MonteCarloEngine } from '../lib/monteCarlo';
+import { AccountType, FilingStatus, ReturnModel, SequencingStrategy } from '../lib/types';
+import { HISTORICAL_RETURNS } from '../lib/historicalReturns';
+import type { Scenario } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+function createScenario(): Scenario {
+  return {
+    name: 'Test Scenario',
+    user: {
+      birthYear: 1960,
+      retirementAge: 65,
+      filingStatus: FilingStatus.SINGLE,
+    },
+    accounts: [
+      { id: 'ira', accountType: AccountType.TRADITIONAL, balance: toBig(500000) },
+      { id: 'roth', accountType: AccountType.ROTH, balance: toBig(200000) },
+    ],
+    policy: {
+      minRequiredIncome: toBig(30000),
+      sequencingStrategy: SequencingStrategy.TAXABLE_FIRST,
+      inflationAdjust: false,
+      inflationRate: toBig(0),
+      avoidIRMAA: false,
+    },
+  };
+}
+
+describe('MonteCarloEngine', () => {
+  describe('runMonteCarlo', () => {
+    it('should aggregate the requested number of runs', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      const result = engine.runMonteCarlo(20, 10, new Big(0.05), new Big(0.12));
+
+      expect(result.numRuns).toBe(20);
+      expect(result.successRate).toBeGreaterThanOrEqual(0);
+      expect(result.successRate).toBeLessThanOrEqual(100);
+      expect(result.percentile10Value.lte(result.medianFinalValue)).toBe(true);
+      expect(result.medianFinalValue.lte(result.percentile90Value)).toBe(true);
+    });
+
+    it('should reject invalid run parameters', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      expect(() => engine.runMonteCarlo(0, 10, new Big(0.05), new Big(0.12))).toThrow();
+      expect(() => engine.runMonteCarlo(NaN, 10, new Big(0.05), new Big(0.12))).toThrow();
+      expect(() => engine.runMonteCarlo(10, 0, new Big(0.05), new Big(0.12))).toThrow();
+    });
+  });
+
+  describe('seeding', () => {
+    it('should reproduce identical results from the same seed', () => {
+      const first = new MonteCarloEngine(createScenario(), 12345)
+        .runMonteCarlo(20, 10, new Big(0.05), new Big(0.12));
+      const second = new MonteCarloEngine(createScenario(), 12345)
+        .runMonteCarlo(20, 10, new Big(0.05), new Big(0.12));
+
+      expect(first.seed).toBe(12345);
+      expect(second.successRate).toBe(first.successRate);
+      expect(second.medianFinalValue.toString()).toBe(first.medianFinalValue.toString());
+      expect(second.percentile10Value.toString()).toBe(first.percentile10Value.toString());
+      expect(second.percentile90Value.toString()).toBe(first.percentile90Value.toString());
+    });
+
+    it('should give different results for different seeds', () => {
+      const first = new MonteCarloEngine(createScenario(), 1)
+        .runMonteCarlo(10, 10, new Big(0.05), new Big(0.12));
+      const second = new MonteCarloEngine(createScenario(), 2)
+        .runMonteCarlo(10, 10, new Big(0.05), new Big(0.12));
+
+      expect(second.medianFinalValue.eq(first.medianFinalValue)).toBe(false);
+    });
+
+    it('should match between batched and unbatched execution', async () => {
+      const direct = new MonteCarloEngine(createScenario(), 99)
+        .runMonteCarlo(15, 8, new Big(0.05), new Big(0.12));
+      const batched = await new MonteCarloEngine(createScenario(), 99)
+        .runMonteCarloBatched(15, 8, new Big(0.05), new Big(0.12), { batchSize: 4 });
+
+      expect(batched?.medianFinalValue.toString()).toBe(direct.medianFinalValue.toString());
+      expect(batched?.successRate).toBe(direct.successRate);
+    });
+
+    it('should draw returns from the injected random source', () => {
+      const seedsUsed: number[] = [];
+      const engine = new MonteCarloEngine(createScenario(), 5, (seed) => {
+        seedsUsed.push(seed);
+        return () => 0.5;
+      });
+
+      const result = engine.runMonteCarlo(3, 5, new Big(0.05), new Big(0.12));
+
+      // One generator per run; constant draws give identical runs
+      expect(seedsUsed).toHaveLength(3);
+      expect(new Set(seedsUsed).size).toBe(3);
+      expect(result.percentile10Value.toString()).toBe(result.percentile90Value.toString());
+    });
+
+    it('should generate a valid seed when none is given', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      const result = engine.runMonteCarlo(2, 5, new Big(0.05), new Big(0.12));
+
+      expect(result.seed).toBe(engine.getSeed());
+      expect(Number.isInteger(result.seed)).toBe(true);
+    });
+
+    it('should reject invalid seeds', () => {
+      expect(() => new MonteCarloEngine(createScenario(), -1)).toThrow();
+      expect(() => new MonteCarloEngine(createScenario(), 1.5)).toThrow();
+    });
+  });
+
+  describe('runMonteCarloBatched', () => {
+    it('should report progress after each batch', async () => {
+      const engine = new MonteCarloEngine(createScenario());
+      const progress: number[] = [];
+
+      const result = await engine.runMonteCarloBatched(25, 5, new Big(0.05), new Big(0.12), {
+        batchSize: 10,
+        onProgress: (runsCompleted, totalRuns) => {
+          expect(totalRuns).toBe(25);
+          progress.push(runsCompleted);
+        },
+      });
+
+      expect(progress).toEqual([10, 20, 25]);
+      expect(result?.numRuns).toBe(25);
+    });
+
+    it('should send partial results for unfinished batches only', async () => {
+      const engine = new MonteCarloEngine(createScenario());
+      const partialRuns: number[] = [];
+
+      await engine.runMonteCarloBatched(25, 5, new Big(0.05), new Big(0.12), {
+        batchSize: 10,
+        onPartial: (partial) => partialRuns.push(partial.numRuns),
+      });
+
+      expect(partialRuns).toEqual([10, 20]);
+    });
+
+    it('should return null when cancelled between batches', async () => {
+      const engine = new MonteCarloEngine(createScenario());
+      let completed = 0;
+
+      const result = await engine.runMonteCarloBatched(50, 5, new Big(0.05), new Big(0.12), {
+        batchSize: 10,
+        onProgress: (runsCompleted) => {
+          completed = runsCompleted;
+        },
+        isCancelled: () => completed >= 20,
+      });
+
+      expect(result).toBeNull();
+      expect(completed).toBe(20);
+    });
+  });
+
+  describe('yearlyBands', () => {
+    it('should produce ordered percentile bands for every year', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      const result = engine.runMonteCarlo(40, 10, new Big(0.05), new Big(0.15));
+
+      // Born 1960 and retiring at 65: drawdown starts at the current age once past 65
+      const startAge = Math.max(new Date().getFullYear() - 1960, 65);
+      expect(result.yearlyBands).toHaveLength(10);
+      expect(result.yearlyBands[0].age).toBe(startAge);
+      expect(result.yearlyBands[9].age).toBe(startAge + 9);
+      expect(result.yearlyBands[9].year).toBe(result.yearlyBands[0].year + 9);
+      for (const bands of result.yearlyBands) {
+        for (const band of [bands.portfolio, bands.netIncome]) {
+          expect(band.p5.lte(band.p25)).toBe(true);
+          expect(band.p25.lte(band.p50)).toBe(true);
+          expect(band.p50.lte(band.p75)).toBe(true);
+          expect(band.p75.lte(band.p95)).toBe(true);
+        }
+      }
+    });
+
+    it('should collapse to a single value without volatility', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      const result = engine.runMonteCarlo(5, 5, new Big(0.05), new Big(0));
+
+      const lastYear = result.yearlyBands[4];
+      expect(lastYear.portfolio.p5.eq(lastYear.portfolio.p95)).toBe(true);
+      expect(lastYear.netIncome.p50.gt(0)).toBe(true);
+      expect(lastYear.depletionProbability).toBe(0);
+    });
+
+    it('should count depleted runs as zero and report depletion probability', () => {
+      const scenario = createScenario();
+      scenario.policy.minRequiredIncome = toBig(200000);
+      const engine = new MonteCarloEngine(scenario);
+
+      const result = engine.runMonteCarlo(5, 10, new Big(0), new Big(0));
+
+      // Every run depletes the same year: the bands end with that year
+      const lastYear = result.yearlyBands[result.yearlyBands.length - 1];
+      expect(result.successRate).toBe(0);
+      expect(result.yearlyBands.length).toBeLessThan(10);
+      expect(result.yearlyBands[0].depletionProbability).toBe(0);
+      expect(lastYear.depletionProbability).toBe(100);
+      expect(lastYear.age).toBe(result.medianRun.failureAge);
+      expect(lastYear.portfolio.p95.toString()).toBe('0');
+      expect(lastYear.netIncome.p95.toString()).toBe('0');
+    });
+  });
+
+  describe('historical return models', () => {
+    it('should run one deterministic sequence per historical start year', () => {
+      const engine = new MonteCarloEngine(createScenario(), 1);
+      const returnModel = { model: ReturnModel.HISTORICAL_ROLLING, stockAllocation: 0.6 };
+
+      const first = engine.runMonteCarlo(HISTORICAL_RETURNS.length, 10, new Big(0), new Big(0), returnModel);
+      const second = new MonteCarloEngine(createScenario(), 2)
+        .runMonteCarlo(HISTORICAL_RETURNS.length, 10, new Big(0), new Big(0), returnModel);
+
+      // Historical sequences do not depend on the seed
+      expect(first.returnModel).toBe(ReturnModel.HISTORICAL_ROLLING);
+      expect(first.numRuns).toBe(HISTORICAL_RETURNS.length);
+      expect(second.medianFinalValue.toString()).toBe(first.medianFinalValue.toString());
+    });
+
+    it('should match a historical replay for the same start year', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      const rolling = engine.simulateRun(0, 10, new Big(0), new Big(0), {
+        model: ReturnModel.HISTORICAL_ROLLING,
+      });
+      const replay = engine.runHistoricalReplay(1928, 10);
+
+      expect(replay.finalPortfolioValue.toString()).toBe(rolling.finalPortfolioValue.toString());
+    });
+
+    it('should report the worst historical start year', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      const result = engine.runMonteCarlo(HISTORICAL_RETURNS.length, 20, new Big(0), new Big(0), {
+        model: ReturnModel.HISTORICAL_ROLLING,
+      });
+
+      const worst = result.worstHistoricalStart;
+      expect(worst).toBeDefined();
+      expect(worst!.run.finalPortfolioValue.lte(result.percentile10Value)).toBe(true);
+      const replay = engine.runHistoricalReplay(worst!.startYear, 20);
+      expect(replay.finalPortfolioValue.toString()).toBe(worst!.run.finalPortfolioValue.toString());
+    });
+
+    it('should leave sequences that wrap past the last year out of the worst start year', () => {
+      const engine = new MonteCarloEngine(createScenario());
+      const good = engine.simulateRun(0, 20, new Big(0.05), new Big(0));
+      const bad = engine.simulateRun(0, 20, new Big(-0.05), new Big(0));
+      const rolling = { model: ReturnModel.HISTORICAL_ROLLING };
+      const runs = HISTORICAL_RETURNS.map(() => good);
+
+      // The last start year wraps after one year of data
+      const wrapped = engine.aggregateResults([...runs.slice(1), bad], rolling);
+      expect(wrapped.worstHistoricalStart?.run).toBe(good);
+      expect(wrapped.worstHistoricalStart?.startYear).toBe(HISTORICAL_RETURNS[0].year);
+
+      const fits = engine.aggregateResults([...runs.slice(1, 10), bad, ...runs.slice(10)], rolling);
+      expect(fits.worstHistoricalStart?.run).toBe(bad);
+      expect(fits.worstHistoricalStart?.startYear).toBe(HISTORICAL_RETURNS[9].year);
+    });
+
+    it('should only report a worst start year for rolling sequences', () => {
+      const engine = new MonteCarloEngine(createScenario(), 3);
+
+      const result = engine.runMonteCarlo(10, 10, new Big(0.05), new Big(0.12));
+
+      expect(result.returnModel).toBe(ReturnModel.NORMAL);
+      expect(result.worstHistoricalStart).toBeUndefined();
+    });
+
+    it('should resample historical blocks reproducibly from the seed', () => {
+      const returnModel = { model: ReturnModel.BLOCK_BOOTSTRAP, blockSize: 5 };
+
+      const first = new MonteCarloEngine(createScenario(), 42)
+        .runMonteCarlo(10, 15, new Big(0), new Big(0), returnModel);
+      const second = new MonteCarloEngine(createScenario(), 42)
+        .runMonteCarlo(10, 15, new Big(0), new Big(0), returnModel);
+      const other = new MonteCarloEngine(createScenario(), 43)
+        .runMonteCarlo(10, 15, new Big(0), new Big(0), returnModel);
+
+      expect(first.returnModel).toBe(ReturnModel.BLOCK_BOOTSTRAP);
+      expect(second.medianFinalValue.toString()).toBe(first.medianFinalValue.toString());
+      expect(other.medianFinalValue.eq(first.medianFinalValue)).toBe(false);
+    });
+
+    it('should reject invalid return model parameters', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      expect(() => engine.runMonteCarlo(5, 5, new Big(0), new Big(0), {
+        model: ReturnModel.BLOCK_BOOTSTRAP,
+        blockSize: 0,
+      })).toThrow('blockSize must be a positive integer');
+    });
+  });
+
+  describe('multi-asset returns', () => {
+    const zeroVolatility = {
+      stocks: { meanReturn: new Big(0.06), volatility: new Big(0) },
+      bonds: { meanReturn: new Big(0.02), volatility: new Big(0) },
+      cash: { meanReturn: new Big(0), volatility: new Big(0) },
+      correlations: { stocksBonds: 0, stocksCash: 0, bondsCash: 0 },
+    };
+
+    it('should reproduce multi-asset runs from the seed', () => {
+      const returnModel = { model: ReturnModel.MULTI_ASSET_NORMAL };
+
+      const first = new MonteCarloEngine(createScenario(), 7)
+        .runMonteCarlo(10, 10, new Big(0), new Big(0), returnModel);
+      const second = new MonteCarloEngine(createScenario(), 7)
+        .runMonteCarlo(10, 10, new Big(0), new Big(0), returnModel);
+
+      expect(first.returnModel).toBe(ReturnModel.MULTI_ASSET_NORMAL);
+      expect(second.medianFinalValue.toString()).toBe(first.medianFinalValue.toString());
+    });
+
+    it('should grow each account at its own allocation', () => {
+      const scenario = createScenario();
+      scenario.accounts[0].allocation = { stocks: new Big(0), bonds: new Big(1), cash: new Big(0) };
+      scenario.accounts[1].allocation = { stocks: new Big(1), bonds: new Big(0), cash: new Big(0) };
+      const engine = new MonteCarloEngine(scenario);
+
+      const run = engine.simulateRun(0, 2, new Big(0), new Big(0), {
+        model: ReturnModel.MULTI_ASSET_NORMAL,
+        assumptions: zeroVolatility,
+      });
+
+      // Roth is untouched while the IRA covers the income, and grows at the stock rate
+      expect(run.withdrawalPlans[1].accountBalances['roth'].toString()).toBe('212000');
+    });
+
+    it('should reject invalid correlations', () => {
+      const engine = new MonteCarloEngine(createScenario());
+      const returnModel = (correlations: typeof zeroVolatility.correlations) => ({
+        model: ReturnModel.MULTI_ASSET_NORMAL,
+        assumptions: { ...zeroVolatility, correlations },
+      });
+
+      expect(() => engine.runMonteCarlo(5, 5, new Big(0), new Big(0), returnModel({
+        stocksBonds: 1.5, stocksCash: 0, bondsCash: 0,
+      }))).toThrow('correlations must be between -1 and 1');
+      expect(() => engine.runMonteCarlo(5, 5, new Big(0), new Big(0), returnModel({
+        stocksBonds: 0.9, stocksCash: 0.9, bondsCash: -0.9,
+      }))).toThrow('Correlation matrix must be positive definite');
+    });
+  });
+
+  describe('aggregateResults', () => {
+    it('should reject an empty set of runs', () => {
+      const engine = new MonteCarloEngine(createScenario());
+
+      expect(() => engine.aggregateResults([])).toThrow('Cannot aggregate zero runs');
+    });
+  });
+});
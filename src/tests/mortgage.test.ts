@@ -0,0 +1,76 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { MortgageLiability } from '../lib/mortgage';
+import { toBig, toNumber } from '../lib/bigHelpers';
+
+describe('MortgageLiability', () => {
+  it('should repay principal without interest at a zero rate', () => {
+    const mortgage = new MortgageLiability({
+      id: 'loan',
+      principalBalance: toBig(20000),
+      interestRate: toBig(0),
+      monthlyPayment: toBig(1000),
+    });
+
+    const first = mortgage.simulateYear();
+    const second = mortgage.simulateYear();
+
+    expect(first.payment.toString()).toBe('12000');
+    expect(first.remainingPrincipal.toString()).toBe('8000');
+    expect(second.payment.toString()).toBe('8000');
+    expect(second.remainingPrincipal.toString()).toBe('0');
+    expect(mortgage.isPaidOff()).toBe(true);
+    expect(mortgage.simulateYear().payment.toString()).toBe('0');
+  });
+
+  it('should amortize monthly with interest', () => {
+    const mortgage = new MortgageLiability({
+      id: 'loan',
+      principalBalance: toBig(120000),
+      interestRate: toBig(0.12),
+      monthlyPayment: toBig(2000),
+    });
+
+    const result = mortgage.simulateYear();
+
+    // Remaining balance of an annuity after 12 payments at 1% per month
+    const growth = Math.pow(1.01, 12);
+    const expected = 120000 * growth - 2000 * (growth - 1) / 0.01;
+    expect(toNumber(result.remainingPrincipal)).toBeCloseTo(expected, 4);
+    expect(result.payment.toString()).toBe('24000');
+    expect(toNumber(result.interestPaid.plus(result.principalPaid))).toBeCloseTo(24000, 6);
+    expect(toNumber(result.principalPaid)).toBeCloseTo(120000 - expected, 4);
+  });
+
+  it('should repay principal early up to the available amount', () => {
+    const mortgage = new MortgageLiability({
+      id: 'loan',
+      principalBalance: toBig(50000),
+      interestRate: toBig(0.05),
+      monthlyPayment: toBig(1000),
+    });
+
+    expect(mortgage.repay(toBig(20000)).toString()).toBe('20000');
+    expect(mortgage.repay(toBig(100000)).toString()).toBe('30000');
+    expect(mortgage.isPaidOff()).toBe(true);
+  });
+
+  it('should reject payments that do not cover interest', () => {
+    expect(() => new MortgageLiability({
+      id: 'loan',
+      nickname: 'Main Street',
+      principalBalance: toBig(300000),
+      interestRate: toBig(0.06),
+      monthlyPayment: toBig(1500),
+    })).toThrow('Mortgage payment does not cover interest: Main Street');
+  });
+
+  it('should reject negative amounts', () => {
+    expect(() => new MortgageLiability({
+      id: 'loan',
+      principalBalance: toBig(-1),
+      interestRate: toBig(0.05),
+      monthlyPayment: toBig(1000),
+    })).toThrow('Mortgage amounts cannot be negative');
+  });
+});
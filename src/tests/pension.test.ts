@@ -0,0 +1,78 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { PensionIncome } from '../lib/pension';
+import { Household } from '../lib/household';
+import { FilingStatus, HouseholdMember, PensionType } from '../lib/types';
+import type { Pension, UserProfile } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+const couple: UserProfile = {
+  birthYear: 1960,
+  retirementAge: 65,
+  filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+  lifeExpectancy: 80,
+  spouse: { birthYear: 1963, retirementAge: 65, lifeExpectancy: 90 },
+};
+
+function createPension(overrides: Partial<Pension> = {}): Pension {
+  return {
+    id: 'pension',
+    pensionType: PensionType.PENSION,
+    startAge: 65,
+    annualAmount: toBig(30000),
+    colaRate: toBig(0),
+    survivorRate: toBig(0),
+    taxableRate: toBig(1),
+    ...overrides,
+  };
+}
+
+describe('PensionIncome', () => {
+  const household = new Household(couple);
+
+  it('should start paying at the start age', () => {
+    const pension = new PensionIncome(createPension());
+
+    expect(pension.calculateYear(household, 64).payment.toString()).toBe('0');
+    expect(pension.calculateYear(household, 65).payment.toString()).toBe('30000');
+  });
+
+  it('should grow the payment by the COLA rate each year', () => {
+    const pension = new PensionIncome(createPension({ colaRate: toBig(0.02) }));
+
+    expect(pension.calculateYear(household, 66).payment.toString()).toBe('30600');
+    expect(pension.calculateYear(household, 67).payment.toString()).toBe('31212');
+  });
+
+  it('should follow the spouse\'s age when the spouse owns it', () => {
+    const pension = new PensionIncome(createPension({ owner: HouseholdMember.SPOUSE }));
+
+    // Spouse is 3 years younger
+    expect(pension.calculateYear(household, 67).payment.toString()).toBe('0');
+    expect(pension.calculateYear(household, 68).payment.toString()).toBe('30000');
+  });
+
+  it('should pay the survivor fraction after the owner\'s death, then stop', () => {
+    const pension = new PensionIncome(createPension({ survivorRate: toBig(0.5) }));
+
+    expect(pension.calculateYear(household, 80).payment.toString()).toBe('30000');
+    expect(pension.calculateYear(household, 81).payment.toString()).toBe('15000');
+    // Spouse reaches 90 when the user would be 93
+    expect(pension.calculateYear(household, 94).payment.toString()).toBe('0');
+  });
+
+  it('should tax only the taxable fraction', () => {
+    const annuity = new PensionIncome(createPension({ pensionType: PensionType.ANNUITY, taxableRate: toBig(0.4) }));
+
+    const result = annuity.calculateYear(household, 70);
+
+    expect(result.pensionId).toBe('pension');
+    expect(result.taxableAmount.toString()).toBe('12000');
+  });
+
+  it('should reject negative amounts and rates outside 0 to 1', () => {
+    expect(() => new PensionIncome(createPension({ annualAmount: toBig(-1) }))).toThrow('cannot be negative');
+    expect(() => new PensionIncome(createPension({ survivorRate: toBig(1.5) }))).toThrow('between 0 and 1');
+    expect(() => new PensionIncome(createPension({ taxableRate: toBig(-0.1) }))).toThrow('between 0 and 1');
+  });
+});
@@ -0,0 +1,428 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { ProjectionEngine } from '../lib/projectionEngine';
+import { FederalTaxCalculator } from '../lib/taxCalculator';
+import { AccountType, ContributionLimitType, FilingStatus, HouseholdMember, PensionType, SequencingStrategy } from '../lib/types';
+import type { Scenario } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+function createScenario(age: number, retirementAge: number): Scenario {
+  return {
+    name: 'Test Scenario',
+    user: {
+      birthYear: CURRENT_YEAR - age,
+      retirementAge,
+      filingStatus: FilingStatus.SINGLE,
+      annualSalary: toBig(100000),
+    },
+    accounts: [
+      {
+        id: '401k',
+        accountType: AccountType.TRADITIONAL,
+        balance: toBig(100000),
+        contribution: {
+          annualAmount: toBig(10000),
+          limitType: ContributionLimitType.EMPLOYER_PLAN,
+          employerMatchRate: toBig(0.5),
+          employerMatchCap: toBig(0.06),
+        },
+      },
+    ],
+    policy: {
+      minRequiredIncome: toBig(30000),
+      sequencingStrategy: SequencingStrategy.TAXABLE_FIRST,
+      inflationAdjust: false,
+      inflationRate: toBig(0),
+      avoidIRMAA: false,
+    },
+  };
+}
+
+describe('ProjectionEngine', () => {
+  describe('accumulation phase', () => {
+    it('should simulate working years until retirement age', () => {
+      const engine = new ProjectionEngine(createScenario(60, 65));
+
+      const result = engine.runProjection(10, toBig(0));
+
+      expect(engine.getAccumulationYears()).toBe(5);
+      expect(result.accumulationYears).toHaveLength(5);
+      expect(result.accumulationYears[0].age).toBe(60);
+      expect(result.accumulationYears[0].year).toBe(CURRENT_YEAR);
+      expect(result.withdrawalPlans[0].age).toBe(65);
+      expect(result.withdrawalPlans[0].year).toBe(CURRENT_YEAR + 5);
+    });
+
+    it('should hand contributions and employer match to the drawdown phase', () => {
+      const result = new ProjectionEngine(createScenario(60, 65)).runProjection(10, toBig(0));
+
+      // 5 years of $10,000 + $3,000 match on top of $100,000, less the first $30,000 withdrawal
+      expect(result.accumulationYears[4].accountBalances['401k'].toString()).toBe('152000');
+      expect(result.withdrawalPlans[0].totalPortfolioValue.toString()).toBe('135000');
+    });
+
+    it('should grow balances before contributions are deposited', () => {
+      const result = new ProjectionEngine(createScenario(64, 65)).runProjection(5, toBig(0.1));
+
+      // $100,000 grows 10%, then $13,000 is deposited at year end; $30,000 is withdrawn in retirement
+      expect(result.withdrawalPlans[0].totalPortfolioValue.toString()).toBe('93000');
+    });
+
+    it('should grow salary for percentage contributions', () => {
+      const scenario = createScenario(60, 62);
+      scenario.user.salaryGrowthRate = toBig(0.1);
+      scenario.accounts[0].contribution = {
+        salaryPercent: toBig(0.1),
+        limitType: ContributionLimitType.EMPLOYER_PLAN,
+      };
+
+      const result = new ProjectionEngine(scenario).runProjection(5, toBig(0));
+
+      expect(result.accumulationYears[1].salary.toString()).toBe('110000');
+      expect(result.accumulationYears[1].contributions['401k'].toString()).toBe('11000');
+    });
+
+    it('should start drawdown at the current age when already retired', () => {
+      const engine = new ProjectionEngine(createScenario(70, 65));
+
+      const result = engine.runProjection(5, toBig(0));
+
+      expect(engine.getAccumulationYears()).toBe(0);
+      expect(result.accumulationYears).toHaveLength(0);
+      expect(result.withdrawalPlans[0].age).toBe(70);
+      expect(result.withdrawalPlans[0].year).toBe(CURRENT_YEAR);
+    });
+
+    it('should require returns for working and retirement years', () => {
+      const engine = new ProjectionEngine(createScenario(60, 65));
+
+      expect(() => engine.runProjectionWithReturns(10, new Array(10).fill(toBig(0))))
+        .toThrow('Not enough returns provided (need 15, got 10)');
+    });
+  });
+
+  describe('real estate', () => {
+    it('should count net rent toward income before withdrawals', () => {
+      const scenario = createScenario(70, 65);
+      scenario.realEstate = [{
+        id: 'rental',
+        currentValue: toBig(300000),
+        appreciationRate: toBig(0.02),
+        rental: { annualRent: toBig(25000), annualExpenses: toBig(5000) },
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(2, toBig(0));
+
+      const [first, second] = result.withdrawalPlans;
+      expect(first.rentalIncome.toString()).toBe('20000');
+      expect(first.accountWithdrawals['401k'].toString()).toBe('10000');
+      expect(first.taxResult.ordinaryTaxable.gt(0)).toBe(true);
+      expect(first.realEstateValue.toString()).toBe('300000');
+      expect(second.realEstateValue.toString()).toBe('306000');
+    });
+
+    it('should deposit sale proceeds into a new taxable account and tax the gain', () => {
+      const scenario = createScenario(70, 65);
+      scenario.realEstate = [{
+        id: 'land',
+        currentValue: toBig(500000),
+        appreciationRate: toBig(0),
+        costBasis: toBig(200000),
+        saleYear: CURRENT_YEAR + 1,
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(2, toBig(0));
+
+      const [beforeSale, saleYear] = result.withdrawalPlans;
+      expect(beforeSale.realEstateValue.toString()).toBe('500000');
+      expect(saleYear.realEstateValue.toString()).toBe('0');
+      expect(saleYear.realEstate[0].saleProceeds.toString()).toBe('470000');
+      // $270,000 gain, less the standard deduction unused by ordinary income
+      const standardDeduction = new FederalTaxCalculator(0).getStandardDeduction(FilingStatus.SINGLE, saleYear.year, [saleYear.age]);
+      expect(saleYear.taxResult.ltcgTaxable.toString()).toBe(toBig(270000).minus(standardDeduction).toString());
+      // Taxable accounts are drawn first, so the $30,000 comes out of the proceeds
+      expect(saleYear.accountBalances['real-estate-proceeds'].toString()).toBe('440000');
+    });
+
+    it('should tax a sale during the working years on top of wages', () => {
+      const scenario = createScenario(60, 65);
+      scenario.realEstate = [{
+        id: 'land',
+        currentValue: toBig(500000),
+        appreciationRate: toBig(0),
+        costBasis: toBig(200000),
+        saleYear: CURRENT_YEAR + 1,
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(2, toBig(0));
+
+      // $270,000 gain on top of $90,000 of wages after the 401(k) contribution
+      const calculator = new FederalTaxCalculator(0);
+      const taxInputs = (longTermCapitalGains: number) => ({
+        filingStatus: FilingStatus.SINGLE,
+        ordinaryIncome: toBig(0),
+        qualifiedDividends: toBig(0),
+        longTermCapitalGains: toBig(longTermCapitalGains),
+        socialSecurityGross: toBig(0),
+        taxExemptInterest: toBig(0),
+        earnedIncome: [{ wages: toBig(90000), selfEmploymentIncome: toBig(0) }],
+        ages: [61],
+      });
+      const saleTax = calculator.calculate(taxInputs(270000), CURRENT_YEAR + 1).totalTax
+        .minus(calculator.calculate(taxInputs(0), CURRENT_YEAR + 1).totalTax);
+      const [beforeSale, saleYear] = result.accumulationYears;
+      expect(beforeSale.taxes.toString()).toBe('0');
+      expect(saleYear.taxes.toString()).toBe(saleTax.toString());
+      expect(saleYear.stateTaxes.toString()).toBe('0');
+      expect(result.totalTaxesPaid.toString()).toBe(
+        saleTax.plus(result.withdrawalPlans[0].totalTaxes).plus(result.withdrawalPlans[1].totalTaxes).toString(),
+      );
+    });
+
+    it('should reject a proceeds account that is not taxable', () => {
+      const scenario = createScenario(70, 65);
+      scenario.realEstate = [{
+        id: 'land',
+        currentValue: toBig(500000),
+        appreciationRate: toBig(0),
+        saleYear: CURRENT_YEAR + 1,
+        proceedsAccountId: '401k',
+      }];
+
+      expect(() => new ProjectionEngine(scenario))
+        .toThrow('Sale proceeds account must be a taxable account: 401k');
+    });
+
+    it('should appreciate property during working years', () => {
+      const scenario = createScenario(63, 65);
+      scenario.realEstate = [{
+        id: 'home',
+        currentValue: toBig(400000),
+        appreciationRate: toBig(0.01),
+        isPrimaryResidence: true,
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(1, toBig(0));
+
+      expect(result.accumulationYears[1].realEstateValue.toString()).toBe('404000');
+      expect(result.withdrawalPlans[0].realEstateValue.toString()).toBe('408040');
+    });
+  });
+
+  describe('dividends and interest', () => {
+    it('should tax reinvested dividends and interest in the working years', () => {
+      const scenario = createScenario(64, 65);
+      scenario.user.stateOfResidence = 'CA';
+      scenario.accounts.push({
+        id: 'brokerage',
+        accountType: AccountType.TAXABLE,
+        balance: toBig(1000000),
+        costBasis: toBig(1000000),
+        investmentIncome: {
+          dividendYield: toBig(0.03),
+          qualifiedDividendRate: toBig(1),
+          interestYield: toBig(0.02),
+          reinvest: false,
+        },
+      });
+
+      const result = new ProjectionEngine(scenario).runProjection(1, toBig(0));
+
+      const [working] = result.accumulationYears;
+      expect(working.stateTaxes.gt(0)).toBe(true);
+      expect(working.taxes.gt(working.stateTaxes)).toBe(true);
+      // $30,000 of dividends at 15% and $20,000 of interest at 22%, on top of $90,000 of wages
+      expect(working.taxes.minus(working.stateTaxes).gte(toBig(30000).times(0.15).plus(toBig(20000).times(0.22)))).toBe(true);
+    });
+  });
+
+  describe('mortgages', () => {
+    it('should add payments to the spending need until payoff', () => {
+      const scenario = createScenario(70, 65);
+      scenario.mortgages = [{
+        id: 'loan',
+        principalBalance: toBig(12000),
+        interestRate: toBig(0),
+        monthlyPayment: toBig(1000),
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(2, toBig(0));
+
+      const [first, second] = result.withdrawalPlans;
+      expect(first.mortgagePayments.toString()).toBe('12000');
+      expect(first.accountWithdrawals['401k'].toString()).toBe('42000');
+      expect(second.mortgagePayments.toString()).toBe('0');
+      expect(second.accountWithdrawals['401k'].toString()).toBe('30000');
+      expect(result.mortgagePayoffYears).toEqual({ loan: CURRENT_YEAR });
+    });
+
+    it('should report net worth as assets minus remaining principal', () => {
+      const scenario = createScenario(70, 65);
+      scenario.realEstate = [{ id: 'home', currentValue: toBig(300000), appreciationRate: toBig(0) }];
+      scenario.mortgages = [{
+        id: 'loan',
+        principalBalance: toBig(100000),
+        interestRate: toBig(0),
+        monthlyPayment: toBig(500),
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(1, toBig(0));
+
+      // $36,000 withdrawn from $100,000; $6,000 of principal repaid
+      const [plan] = result.withdrawalPlans;
+      expect(plan.liabilities.toString()).toBe('94000');
+      expect(plan.netWorth.toString()).toBe('270000');
+      expect(result.mortgagePayoffYears).toEqual({});
+    });
+
+    it('should amortize mortgages during working years', () => {
+      const scenario = createScenario(63, 65);
+      scenario.mortgages = [{
+        id: 'loan',
+        principalBalance: toBig(50000),
+        interestRate: toBig(0),
+        monthlyPayment: toBig(1000),
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(1, toBig(0));
+
+      expect(result.accumulationYears[0].liabilities.toString()).toBe('38000');
+      expect(result.accumulationYears[1].liabilities.toString()).toBe('26000');
+      expect(result.withdrawalPlans[0].mortgagePayments.toString()).toBe('12000');
+    });
+
+    it('should repay the linked mortgage from sale proceeds', () => {
+      const scenario = createScenario(70, 65);
+      scenario.realEstate = [{
+        id: 'home',
+        currentValue: toBig(500000),
+        appreciationRate: toBig(0),
+        costBasis: toBig(500000),
+        saleYear: CURRENT_YEAR + 1,
+        saleCostRate: toBig(0),
+      }];
+      scenario.mortgages = [{
+        id: 'loan',
+        principalBalance: toBig(112000),
+        interestRate: toBig(0),
+        monthlyPayment: toBig(1000),
+        propertyId: 'home',
+      }];
+
+      const result = new ProjectionEngine(scenario).runProjection(2, toBig(0));
+
+      // $12,000 paid in the first year, the remaining $100,000 repaid at sale
+      const [, saleYear] = result.withdrawalPlans;
+      expect(saleYear.realEstate[0].mortgagePayoff.toString()).toBe('100000');
+      expect(saleYear.mortgagePayments.toString()).toBe('0');
+      expect(saleYear.liabilities.toString()).toBe('0');
+      expect(saleYear.accountBalances['real-estate-proceeds'].toString()).toBe('370000');
+      expect(result.mortgagePayoffYears).toEqual({ loan: CURRENT_YEAR + 1 });
+    });
+
+    it('should reject a mortgage on an unknown property', () => {
+      const scenario = createScenario(70, 65);
+      scenario.mortgages = [{
+        id: 'loan',
+        principalBalance: toBig(100000),
+        interestRate: toBig(0),
+        monthlyPayment: toBig(1000),
+        propertyId: 'missing',
+      }];
+
+      expect(() => new ProjectionEngine(scenario)).toThrow('Mortgage property not found: missing');
+    });
+  });
+
+  describe('spouse', () => {
+    function createCoupleScenario(): Scenario {
+      const scenario = createScenario(60, 65);
+      scenario.user = {
+        ...scenario.user,
+        filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+        lifeExpectancy: 70,
+        spouse: {
+          birthYear: CURRENT_YEAR - 55,
+          retirementAge: 58,
+          annualSalary: toBig(50000),
+          lifeExpectancy: 70,
+        },
+      };
+      scenario.accounts.push({
+        id: 'spouse-401k',
+        accountType: AccountType.TRADITIONAL,
+        balance: toBig(0),
+        owner: HouseholdMember.SPOUSE,
+        contribution: { annualAmount: toBig(30000), limitType: ContributionLimitType.EMPLOYER_PLAN },
+      });
+      return scenario;
+    }
+
+    it('should contribute to the spouse\'s accounts under their own limits until their retirement', () => {
+      const result = new ProjectionEngine(createCoupleScenario()).runProjection(5, toBig(0));
+
+      const [first, , , last] = result.accumulationYears;
+      expect(first.spouseAge).toBe(55);
+      expect(first.salary.toString()).toBe('150000');
+      // Below the spouse's own $30,500 limit (with catch-up at 55)
+      expect(first.contributions['spouse-401k'].toString()).toBe('30000');
+      expect(first.contributions['401k'].toString()).toBe('10000');
+      // Spouse retired at 58
+      expect(last.spouseAge).toBe(58);
+      expect(last.contributions['spouse-401k']).toBeUndefined();
+      expect(result.withdrawalPlans[0].spouseAge).toBe(60);
+    });
+
+    it('should file as single after the first death and end after the last', () => {
+      const scenario = createCoupleScenario();
+      scenario.policy.minRequiredIncome = toBig(10000);
+      const result = new ProjectionEngine(scenario).runProjection(20, toBig(0));
+
+      const filingStatuses = result.withdrawalPlans.map((plan) => plan.filingStatus);
+      // User lives to 70, then the spouse (5 years younger) to 70
+      expect(result.withdrawalPlans).toHaveLength(11);
+      expect(filingStatuses.slice(0, 6).every((status) => status === FilingStatus.MARRIED_FILING_JOINTLY)).toBe(true);
+      expect(filingStatuses.slice(6).every((status) => status === FilingStatus.SINGLE)).toBe(true);
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a spouse-owned account without a spouse', () => {
+      const scenario = createScenario(60, 65);
+      scenario.accounts[0].owner = HouseholdMember.SPOUSE;
+
+      expect(() => new ProjectionEngine(scenario)).toThrow('Account owned by a spouse requires a spouse: 401k');
+    });
+
+    it('should reject a spouse-owned pension without a spouse', () => {
+      const scenario = createScenario(60, 65);
+      scenario.pensions = [{
+        id: 'pension',
+        pensionType: PensionType.PENSION,
+        owner: HouseholdMember.SPOUSE,
+        startAge: 65,
+        annualAmount: toBig(20000),
+        colaRate: toBig(0),
+        survivorRate: toBig(0),
+        taxableRate: toBig(1),
+      }];
+
+      expect(() => new ProjectionEngine(scenario)).toThrow('Pension owned by a spouse requires a spouse: pension');
+    });
+
+    it('should require married filing jointly with a spouse', () => {
+      const scenario = createCoupleScenario();
+      scenario.user.filingStatus = FilingStatus.SINGLE;
+
+      expect(() => new ProjectionEngine(scenario)).toThrow('A spouse requires married filing jointly status');
+    });
+
+    it('should reject an unknown state of residence', () => {
+      const scenario = createScenario(60, 65);
+      scenario.user.stateOfResidence = 'XX';
+
+      expect(() => new ProjectionEngine(scenario)).toThrow('Unknown state of residence: XX');
+    });
+  });
+});
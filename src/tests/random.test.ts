@@ -0,0 +1,125 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  deriveSeed,
+  generateSeed,
+  isValidSeed,
+  MAX_SEED,
+  standardNormal,
+  choleskyDecomposition,
+} from '../lib/random';
+
+describe('random', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the reference mulberry32 sequence', () => {
+      const random = createSeededRandom(42);
+
+      expect(random()).toBe(0.6011037519201636);
+      expect(random()).toBe(0.44829055899754167);
+    });
+
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(12345);
+      const b = createSeededRandom(12345);
+
+      for (let i = 0; i < 100; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(2);
+
+      expect(a()).not.toBe(b());
+    });
+
+    it('should produce values in [0, 1) with a mean near 0.5', () => {
+      const random = createSeededRandom(7);
+      const values = Array.from({ length: 10000 }, () => random());
+
+      expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+      expect(Math.max(...values)).toBeLessThan(1);
+      expect(values.reduce((sum, value) => sum + value, 0) / values.length).toBeCloseTo(0.5, 1);
+    });
+  });
+
+  describe('deriveSeed', () => {
+    it('should be deterministic', () => {
+      expect(deriveSeed(42, 3)).toBe(deriveSeed(42, 3));
+    });
+
+    it('should give distinct seeds for consecutive indices', () => {
+      const seeds = new Set<number>();
+      for (let i = 0; i < 1000; i++) {
+        seeds.add(deriveSeed(42, i));
+      }
+
+      expect(seeds.size).toBe(1000);
+    });
+
+    it('should return valid seeds', () => {
+      expect(isValidSeed(deriveSeed(MAX_SEED, 999))).toBe(true);
+      expect(isValidSeed(deriveSeed(0, 0))).toBe(true);
+    });
+  });
+
+  describe('generateSeed', () => {
+    it('should return a valid seed', () => {
+      expect(isValidSeed(generateSeed())).toBe(true);
+    });
+  });
+
+  describe('isValidSeed', () => {
+    it('should accept unsigned 32-bit integers', () => {
+      expect(isValidSeed(0)).toBe(true);
+      expect(isValidSeed(123456)).toBe(true);
+      expect(isValidSeed(MAX_SEED)).toBe(true);
+    });
+
+    it('should reject out of range and non-integer values', () => {
+      expect(isValidSeed(-1)).toBe(false);
+      expect(isValidSeed(MAX_SEED + 1)).toBe(false);
+      expect(isValidSeed(1.5)).toBe(false);
+      expect(isValidSeed(NaN)).toBe(false);
+    });
+  });
+
+  describe('standardNormal', () => {
+    it('should have zero mean and unit variance', () => {
+      const random = createSeededRandom(1);
+      const samples = Array.from({ length: 20000 }, () => standardNormal(random));
+      const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+      const variance = samples.reduce((sum, x) => sum + (x - mean) ** 2, 0) / samples.length;
+
+      expect(mean).toBeCloseTo(0, 1);
+      expect(variance).toBeCloseTo(1, 1);
+    });
+
+    it('should stay finite when the source returns 0', () => {
+      expect(Number.isFinite(standardNormal(() => 0))).toBe(true);
+    });
+  });
+
+  describe('choleskyDecomposition', () => {
+    it('should factor a correlation matrix into L × Lᵀ', () => {
+      const matrix = [[1, 0.5, 0.2], [0.5, 1, 0.3], [0.2, 0.3, 1]];
+      const lower = choleskyDecomposition(matrix);
+
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+          const product = lower[i].reduce((sum, value, k) => sum + value * lower[j][k], 0);
+          expect(product).toBeCloseTo(matrix[i][j], 10);
+        }
+        for (let j = i + 1; j < 3; j++) {
+          expect(lower[i][j]).toBe(0);
+        }
+      }
+    });
+
+    it('should reject matrices that are not positive definite', () => {
+      expect(() => choleskyDecomposition([[1, 1.5], [1.5, 1]])).toThrow('Correlation matrix must be positive definite');
+    });
+  });
+});
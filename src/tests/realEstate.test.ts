@@ -0,0 +1,130 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { RealEstateProperty } from '../lib/realEstate';
+import { FilingStatus } from '../lib/types';
+import type { RealEstate } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+function createRental(overrides: Partial<RealEstate> = {}): RealEstate {
+  return {
+    id: 'rental',
+    currentValue: toBig(400000),
+    appreciationRate: toBig(0.01),
+    costBasis: toBig(300000),
+    rental: {
+      annualRent: toBig(30000),
+      annualExpenses: toBig(10000),
+      depreciationBasis: toBig(275000),
+    },
+    ...overrides,
+  };
+}
+
+describe('RealEstateProperty', () => {
+  describe('appreciation', () => {
+    it('should grow value at the appreciation rate', () => {
+      const property = new RealEstateProperty(createRental());
+
+      property.applyAppreciation();
+      property.applyAppreciation();
+
+      expect(property.getValue().toString()).toBe('408040');
+    });
+
+    it('should reject negative values', () => {
+      expect(() => new RealEstateProperty(createRental({ currentValue: toBig(-1) })))
+        .toThrow('Property value cannot be negative');
+    });
+  });
+
+  describe('rental income', () => {
+    it('should deduct straight-line depreciation from taxable rental income', () => {
+      const property = new RealEstateProperty(createRental());
+
+      const result = property.simulateYear(2030, FilingStatus.SINGLE);
+
+      expect(result.rentalCashFlow.toString()).toBe('20000');
+      expect(result.depreciation.toString()).toBe('10000');
+      expect(result.taxableRentalIncome.toString()).toBe('10000');
+    });
+
+    it('should not report rental losses', () => {
+      const property = new RealEstateProperty(createRental({
+        rental: { annualRent: toBig(12000), annualExpenses: toBig(8000), depreciationBasis: toBig(275000) },
+      }));
+
+      const result = property.simulateYear(2030, FilingStatus.SINGLE);
+
+      expect(result.rentalCashFlow.toString()).toBe('4000');
+      expect(result.taxableRentalIncome.toString()).toBe('0');
+    });
+
+    it('should stop depreciating once the basis is fully deducted', () => {
+      const property = new RealEstateProperty(createRental({
+        rental: {
+          annualRent: toBig(30000),
+          annualExpenses: toBig(10000),
+          depreciationBasis: toBig(275000),
+          accumulatedDepreciation: toBig(270000),
+        },
+      }));
+
+      expect(property.simulateYear(2030, FilingStatus.SINGLE).depreciation.toString()).toBe('5000');
+      expect(property.simulateYear(2031, FilingStatus.SINGLE).depreciation.toString()).toBe('0');
+    });
+  });
+
+  describe('sale', () => {
+    it('should recapture depreciation and tax the rest as a capital gain', () => {
+      const property = new RealEstateProperty(createRental({
+        appreciationRate: toBig(0),
+        saleYear: 2032,
+        saleCostRate: toBig(0.05),
+      }));
+
+      property.simulateYear(2030, FilingStatus.SINGLE);
+      property.simulateYear(2031, FilingStatus.SINGLE);
+      const result = property.simulateYear(2032, FilingStatus.SINGLE);
+
+      // $380,000 net of costs against a $300,000 basis less $20,000 depreciation
+      expect(result.saleProceeds.toString()).toBe('380000');
+      expect(result.depreciationRecapture.toString()).toBe('20000');
+      expect(result.capitalGain.toString()).toBe('80000');
+      expect(result.rentalCashFlow.toString()).toBe('0');
+      expect(result.value.toString()).toBe('0');
+      expect(property.isSold()).toBe(true);
+    });
+
+    it('should exclude primary residence gains up to the filing status limit', () => {
+      const home = {
+        id: 'home',
+        currentValue: toBig(1000000),
+        appreciationRate: toBig(0),
+        costBasis: toBig(300000),
+        isPrimaryResidence: true,
+        saleYear: 2030,
+        saleCostRate: toBig(0),
+      };
+
+      const single = new RealEstateProperty(home).simulateYear(2030, FilingStatus.SINGLE);
+      const married = new RealEstateProperty(home).simulateYear(2030, FilingStatus.MARRIED_FILING_JOINTLY);
+
+      expect(single.excludedGain.toString()).toBe('250000');
+      expect(single.capitalGain.toString()).toBe('450000');
+      expect(married.excludedGain.toString()).toBe('500000');
+      expect(married.capitalGain.toString()).toBe('200000');
+    });
+
+    it('should have no value or income after the sale', () => {
+      const property = new RealEstateProperty(createRental({ saleYear: 2030 }));
+
+      property.simulateYear(2030, FilingStatus.SINGLE);
+      property.applyAppreciation();
+      const result = property.simulateYear(2031, FilingStatus.SINGLE);
+
+      expect(property.getValue().toString()).toBe('0');
+      expect(result.saleProceeds.toString()).toBe('0');
+      expect(result.rentalCashFlow.toString()).toBe('0');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import Big from 'big.js';
+import { serializeBig, deserializeBig } from '../lib/serialization';
+
+describe('serialization', () => {
+  describe('serializeBig', () => {
+    it('should tag Big values with their decimal string', () => {
+      expect(serializeBig(new Big('1234.5678'))).toEqual({ __big: '1234.5678' });
+    });
+
+    it('should serialize nested objects and arrays', () => {
+      const value = {
+        name: 'test',
+        balance: new Big(100),
+        history: [new Big(1), new Big(2)],
+        nested: { rate: new Big('0.05'), flag: true },
+      };
+
+      expect(serializeBig(value)).toEqual({
+        name: 'test',
+        balance: { __big: '100' },
+        history: [{ __big: '1' }, { __big: '2' }],
+        nested: { rate: { __big: '0.05' }, flag: true },
+      });
+    });
+
+    it('should leave primitives unchanged', () => {
+      expect(serializeBig(42)).toBe(42);
+      expect(serializeBig('text')).toBe('text');
+      expect(serializeBig(null)).toBeNull();
+      expect(serializeBig(undefined)).toBeUndefined();
+    });
+
+    it('should produce a structured-clone safe copy', () => {
+      const serialized = serializeBig({ balance: new Big('99.99') });
+      const cloned = structuredClone(serialized);
+
+      expect(cloned).toEqual({ balance: { __big: '99.99' } });
+    });
+  });
+
+  describe('deserializeBig', () => {
+    it('should round-trip Big values without losing precision', () => {
+      const original = {
+        balance: new Big('123456789.123456789'),
+        plans: [{ tax: new Big('0.1'), year: 2025 }],
+      };
+
+      const restored = deserializeBig<typeof original>(JSON.parse(JSON.stringify(serializeBig(original))));
+
+      expect(restored.balance).toBeInstanceOf(Big);
+      expect(restored.balance.toString()).toBe('123456789.123456789');
+      expect(restored.plans[0].tax.toString()).toBe('0.1');
+      expect(restored.plans[0].year).toBe(2025);
+    });
+
+    it('should not restore objects without a string tag', () => {
+      const restored = deserializeBig<{ value: { __big: number } }>({ value: { __big: 5 } });
+
+      expect(restored.value).toEqual({ __big: 5 });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { StateTaxCalculator } from '../lib/stateTaxCalculator';
+import { STATE_TAX_RULES } from '../lib/stateTaxRules';
+import { FilingStatus } from '../lib/types';
+import type { StateTaxInputs } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+function createInputs(overrides: Partial<StateTaxInputs> = {}): StateTaxInputs {
+  return {
+    filingStatus: FilingStatus.SINGLE,
+    federalAgi: toBig(100000),
+    taxableSocialSecurity: toBig(0),
+    retirementIncome: toBig(0),
+    ages: [67],
+    ...overrides,
+  };
+}
+
+describe('StateTaxCalculator', () => {
+  describe('constructor', () => {
+    it('should reject an unknown state', () => {
+      expect(() => new StateTaxCalculator('XX')).toThrow('Unknown state of residence: XX');
+      expect(() => new StateTaxCalculator('toString')).toThrow('Unknown state of residence: toString');
+    });
+
+    it('should accept a custom rules table', () => {
+      const calculator = new StateTaxCalculator('ZZ', { ZZ: { ...STATE_TAX_RULES.IL, name: 'Test State' } });
+
+      expect(calculator.getName()).toBe('Test State');
+    });
+  });
+
+  describe('calculate', () => {
+    it('should charge nothing in a state without income tax', () => {
+      const result = new StateTaxCalculator('FL').calculate(createInputs());
+
+      expect(result.tax.toString()).toBe('0');
+    });
+
+    it('should apply progressive brackets after the standard deduction', () => {
+      const result = new StateTaxCalculator('CA').calculate(createInputs({ retirementIncome: toBig(100000) }));
+
+      // $100,000 - $5,540 deduction, up to the 9.3% bracket
+      expect(result.taxableIncome.toString()).toBe('94460');
+      expect(result.tax.toString()).toBe('5327.142');
+    });
+
+    it('should exempt retirement income and Social Security in Illinois', () => {
+      const result = new StateTaxCalculator('IL').calculate(createInputs({
+        federalAgi: toBig(60000),
+        taxableSocialSecurity: toBig(10000),
+        retirementIncome: toBig(30000),
+      }));
+
+      expect(result.retirementExclusion.toString()).toBe('30000');
+      expect(result.tax.toString()).toBe('852.6375');
+    });
+
+    it('should cap the New York pension exclusion and require age 59½', () => {
+      const calculator = new StateTaxCalculator('NY');
+      const inputs = createInputs({
+        federalAgi: toBig(60000),
+        taxableSocialSecurity: toBig(15000),
+        retirementIncome: toBig(30000),
+        ages: [66],
+      });
+
+      const retired = calculator.calculate(inputs);
+      const tooYoung = calculator.calculate({ ...inputs, ages: [59] });
+
+      expect(retired.retirementExclusion.toString()).toBe('20000');
+      expect(retired.tax.toString()).toBe('770');
+      expect(tooYoung.retirementExclusion.toString()).toBe('0');
+      expect(tooYoung.tax.toString()).toBe('1870');
+    });
+
+    it('should give each spouse the Georgia exclusion for their age', () => {
+      const result = new StateTaxCalculator('GA').calculate(createInputs({
+        filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+        federalAgi: toBig(130000),
+        retirementIncome: toBig(120000),
+        ages: [66, 63],
+      }));
+
+      // $65,000 + $35,000 excluded, less the $24,000 deduction
+      expect(result.retirementExclusion.toString()).toBe('100000');
+      expect(result.taxableIncome.toString()).toBe('6000');
+      expect(result.tax.toString()).toBe('323.4');
+    });
+
+    it('should exempt Pennsylvania retirement income only after 59½', () => {
+      const calculator = new StateTaxCalculator('PA');
+      const inputs = createInputs({ federalAgi: toBig(70000), retirementIncome: toBig(50000) });
+
+      expect(calculator.calculate({ ...inputs, ages: [60] }).tax.toString()).toBe('614');
+      expect(calculator.calculate({ ...inputs, ages: [55] }).tax.toString()).toBe('2149');
+    });
+
+    it('should tax the federally taxable part of Social Security in Montana', () => {
+      const result = new StateTaxCalculator('MT').calculate(createInputs({
+        federalAgi: toBig(50000),
+        taxableSocialSecurity: toBig(20000),
+        retirementIncome: toBig(30000),
+        ages: [70],
+      }));
+
+      // $50,000 - $5,500 exclusion - $14,600 deduction
+      expect(result.taxableIncome.toString()).toBe('29900');
+      expect(result.tax.toString()).toBe('1518.1');
+    });
+  });
+});
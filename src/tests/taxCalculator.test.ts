@@ -1,8 +1,8 @@
 // Copyright (c) 2026 François Rouaix
 import { describe, it, expect } from 'vitest';
 import { FederalTaxCalculator } from '../lib/taxCalculator';
-import { FilingStatus } from '../lib/types';
-import type { TaxInputs } from '../lib/types';
+import { FilingStatus, TaxRegime } from '../lib/types';
+import type { TaxBracket, TaxInputs } from '../lib/types';
 import { toBig } from '../lib/bigHelpers';
 
 describe('FederalTaxCalculator', () => {
@@ -19,7 +19,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       expect(result.totalTax.toString()).toBe('0');
       expect(result.agi.toString()).toBe('10000');
@@ -36,7 +36,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI should equal ordinary income
       expect(result.agi.toString()).toBe('50000');
@@ -61,7 +61,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = 100000
       expect(result.agi.toString()).toBe('100000');
@@ -84,7 +84,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.HEAD_OF_HOUSEHOLD,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Taxable income = 75000 - 21900 = 53100
       expect(result.taxableIncome.toString()).toBe('53100');
@@ -106,7 +106,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = 35000
       // Taxable = 35000 - 14600 = 20400
@@ -127,7 +127,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = 80000
       // Taxable = 80000 - 14600 = 65400
@@ -152,7 +152,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // High income scenario
       // Taxable = 585400, Ordinary portion = 485400, LTCG portion = 100000
@@ -173,7 +173,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = 55000
       // Taxable = 55000 - 14600 = 40400
@@ -197,7 +197,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Combined income = 10000 + 0 + 0 + 0 + 20000*0.5 = 20000
       // Below threshold of 25000, so no SS taxed
@@ -215,7 +215,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Combined income = 20000 + 0 + 0 + 0 + 20000*0.5 = 30000
       // Between 25000 and 34000, so up to 50% taxable
@@ -234,7 +234,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Combined income = 40000 + 0 + 0 + 0 + 30000*0.5 = 55000
       // Above 34000, so up to 85% taxable
@@ -255,7 +255,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Very high income, should hit 85% cap
       // Max taxable = 40000 * 0.85 = 34000
@@ -272,7 +272,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Combined income = 35000 + 30000*0.5 = 50000
       // MFJ thresholds: 32000, 44000, 6000
@@ -294,7 +294,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = ordinary + QD + LTCG + taxable SS
       // Need to calculate taxable SS first
@@ -315,7 +315,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = 50000 (no taxable SS)
       // MAGI = AGI + tax-exempt interest = 50000 + 5000 = 55000
@@ -335,7 +335,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Taxable = 150000 - 14600 = 135400
       // 10% on 11600 = 1160
@@ -356,7 +356,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Should reach 37% bracket (above 609350)
       // Tax should be substantial
@@ -376,7 +376,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       expect(result.totalTax.toString()).toBe('0');
       expect(result.agi.toString()).toBe('0');
@@ -393,7 +393,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Below standard deduction
       expect(result.totalTax.toString()).toBe('0');
@@ -410,7 +410,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // AGI = 30000
       // Taxable = 30000 - 14600 = 15400
@@ -431,7 +431,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Income below standard deduction
       // Taxable income should be 0, not negative
@@ -451,7 +451,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Should have:
       // - Taxable SS component
@@ -474,7 +474,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Taxable = 105000 - 29200 = 75800
       // LTCG+QD = 25000
@@ -495,7 +495,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Should have moderate tax with some SS taxable
       expect(result.taxableSocialSecurity.gt(toBig(0))).toBe(true);
@@ -513,7 +513,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.SINGLE,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // Low ordinary income, mostly LTCG
       // Should have favorable tax treatment
@@ -530,7 +530,7 @@ describe('FederalTaxCalculator', () => {
         filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
       };
 
-      const result = calculator.calculate(inputs);
+      const result = calculator.calculate(inputs, 2024);
       
       // High income scenario
       // Should have substantial tax
@@ -539,4 +539,453 @@ describe('FederalTaxCalculator', () => {
       expect(result.taxableSocialSecurity.toString()).toBe('29750');
     });
   });
+
+  describe('calculate - earned income', () => {
+    function createInputs(earnedIncome: TaxInputs['earnedIncome'], socialSecurityGross = 0): TaxInputs {
+      return {
+        ordinaryIncome: toBig(0),
+        qualifiedDividends: toBig(0),
+        longTermCapitalGains: toBig(0),
+        socialSecurityGross: toBig(socialSecurityGross),
+        taxExemptInterest: toBig(0),
+        filingStatus: FilingStatus.SINGLE,
+        earnedIncome,
+      };
+    }
+
+    it('should tax wages as ordinary income plus FICA', () => {
+      const result = calculator.calculate(createInputs([{ wages: toBig(50000), selfEmploymentIncome: toBig(0) }]), 2024);
+
+      expect(result.agi.toString()).toBe('50000');
+      expect(result.ordinaryTax.toString()).toBe('4016');
+      // 6.2% + 1.45%
+      expect(result.ficaTax.toString()).toBe('3825');
+      expect(result.selfEmploymentTax.toString()).toBe('0');
+      expect(result.totalTax.toString()).toBe('7841');
+    });
+
+    it('should stop Social Security tax at the wage base', () => {
+      const result = calculator.calculate(createInputs([{ wages: toBig(200000), selfEmploymentIncome: toBig(0) }]), 2024);
+
+      // 168,600 x 6.2% + 200,000 x 1.45%
+      expect(result.ficaTax.toString()).toBe('13353.2');
+    });
+
+    it('should apply the wage base to each earner', () => {
+      const result = calculator.calculate(createInputs([
+        { wages: toBig(100000), selfEmploymentIncome: toBig(0) },
+        { wages: toBig(100000), selfEmploymentIncome: toBig(0) },
+      ]), 2024);
+
+      expect(result.ficaTax.toString()).toBe('15300');
+    });
+
+    it('should charge SE tax on 92.35% of profit and deduct half of it', () => {
+      const result = calculator.calculate(createInputs([{ wages: toBig(0), selfEmploymentIncome: toBig(50000) }]), 2024);
+
+      // 46,175 x 15.3%
+      expect(result.selfEmploymentTax.toString()).toBe('7064.775');
+      expect(result.agi.toString()).toBe('46467.6125');
+      expect(result.ficaTax.toString()).toBe('0');
+    });
+
+    it('should limit SE Social Security tax to what wages left of the wage base', () => {
+      const result = calculator.calculate(createInputs([{ wages: toBig(150000), selfEmploymentIncome: toBig(50000) }]), 2024);
+
+      // 18,600 x 12.4% + 46,175 x 2.9%
+      expect(result.selfEmploymentTax.toString()).toBe('3645.475');
+    });
+
+    it('should not charge SE tax below $400 of net earnings', () => {
+      const result = calculator.calculate(createInputs([{ wages: toBig(0), selfEmploymentIncome: toBig(400) }]), 2024);
+
+      expect(result.selfEmploymentTax.toString()).toBe('0');
+    });
+
+    it('should count earnings in combined income for Social Security taxation', () => {
+      const result = calculator.calculate(
+        createInputs([{ wages: toBig(30000), selfEmploymentIncome: toBig(0) }], 20000),
+        2024,
+      );
+
+      // Combined income 40,000: 85% of 6,000 above 34,000 + 4,500
+      expect(result.taxableSocialSecurity.toString()).toBe('9600');
+    });
+  });
+
+  describe('calculate - surtaxes', () => {
+    function createInputs(overrides: Partial<TaxInputs>): TaxInputs {
+      return {
+        ordinaryIncome: toBig(0),
+        qualifiedDividends: toBig(0),
+        longTermCapitalGains: toBig(0),
+        socialSecurityGross: toBig(0),
+        taxExemptInterest: toBig(0),
+        filingStatus: FilingStatus.SINGLE,
+        ...overrides,
+      };
+    }
+
+    it('should charge NIIT on AGI above the threshold, up to investment income', () => {
+      const result = calculator.calculate(createInputs({
+        ordinaryIncome: toBig(170000),
+        ordinaryInvestmentIncome: toBig(20000),
+        longTermCapitalGains: toBig(80000),
+      }), 2024);
+
+      // $250,000 AGI: 3.8% x $50,000 above the threshold
+      expect(result.netInvestmentIncomeTax.toString()).toBe('1900');
+      expect(result.totalTax.toString()).toBe(result.ordinaryTax.plus(result.ltcgTax).plus(1900).toString());
+    });
+
+    it('should limit NIIT to net investment income', () => {
+      const result = calculator.calculate(createInputs({
+        ordinaryIncome: toBig(400000),
+        qualifiedDividends: toBig(10000),
+      }), 2024);
+
+      expect(result.netInvestmentIncomeTax.toString()).toBe('380');
+    });
+
+    it('should not charge NIIT below the threshold', () => {
+      const result = calculator.calculate(createInputs({
+        longTermCapitalGains: toBig(240000),
+        filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+      }), 2024);
+
+      expect(result.netInvestmentIncomeTax.toString()).toBe('0');
+    });
+
+    it('should charge the additional Medicare tax on wages above the threshold', () => {
+      const single = calculator.calculate(createInputs({
+        earnedIncome: [{ wages: toBig(250000), selfEmploymentIncome: toBig(0) }],
+      }), 2024);
+      const couple = calculator.calculate(createInputs({
+        filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+        earnedIncome: [
+          { wages: toBig(150000), selfEmploymentIncome: toBig(0) },
+          { wages: toBig(150000), selfEmploymentIncome: toBig(0) },
+        ],
+      }), 2024);
+
+      expect(single.additionalMedicareTax.toString()).toBe('450');
+      // Spouses share the $250,000 threshold
+      expect(couple.additionalMedicareTax.toString()).toBe('450');
+      expect(couple.totalTax.toString())
+        .toBe(couple.ordinaryTax.plus(couple.ficaTax).plus(450).toString());
+    });
+
+    it('should lower the self-employment threshold by wages', () => {
+      const result = calculator.calculate(createInputs({
+        earnedIncome: [{ wages: toBig(150000), selfEmploymentIncome: toBig(100000) }],
+      }), 2024);
+
+      // 92,350 of net earnings, 50,000 of threshold left after wages
+      expect(result.additionalMedicareTax.toString()).toBe('381.15');
+    });
+  });
+
+  describe('calculate - deductions', () => {
+    function createInputs(overrides: Partial<TaxInputs>): TaxInputs {
+      return {
+        ordinaryIncome: toBig(150000),
+        qualifiedDividends: toBig(0),
+        longTermCapitalGains: toBig(0),
+        socialSecurityGross: toBig(0),
+        taxExemptInterest: toBig(0),
+        filingStatus: FilingStatus.SINGLE,
+        ...overrides,
+      };
+    }
+
+    it('should add the additional standard deduction for each filer aged 65 or older', () => {
+      const couple = createInputs({ filingStatus: FilingStatus.MARRIED_FILING_JOINTLY, ordinaryIncome: toBig(100000) });
+
+      // $31,500 + $1,600 and the $6,000 senior deduction per spouse aged 65 or older
+      expect(calculator.calculate({ ...couple, ages: [64, 63] }, 2025).taxableIncome.toString()).toBe('68500');
+      expect(calculator.calculate({ ...couple, ages: [67, 63] }, 2025).taxableIncome.toString()).toBe('60900');
+      expect(calculator.calculate({ ...couple, ages: [67, 65] }, 2025).taxableIncome.toString()).toBe('53300');
+      expect(calculator.getStandardDeduction(FilingStatus.SINGLE, 2025, [70]).toString()).toBe('17750');
+    });
+
+    it('should itemize when deductions exceed the standard deduction, capping SALT', () => {
+      const result = calculator.calculate(createInputs({
+        itemizedDeductions: {
+          mortgageInterest: toBig(20000),
+          stateAndLocalTaxes: toBig(45000),
+          charitableGiving: toBig(5000),
+        },
+      }), 2025);
+
+      // $20,000 + $40,000 SALT cap + $5,000
+      expect(result.itemized).toBe(true);
+      expect(result.deduction.toString()).toBe('65000');
+      expect(result.taxableIncome.toString()).toBe('85000');
+    });
+
+    it('should keep the standard deduction when it is larger', () => {
+      const result = calculator.calculate(createInputs({
+        ages: [70],
+        itemizedDeductions: {
+          mortgageInterest: toBig(10000),
+          stateAndLocalTaxes: toBig(6000),
+          charitableGiving: toBig(1000),
+        },
+      }), 2025);
+
+      // $15,750 + $2,000 standard, plus $6,000 - 6% x $75,000 senior deduction
+      expect(result.itemized).toBe(false);
+      expect(result.deduction.toString()).toBe('19250');
+    });
+
+    it('should add the senior deduction to itemized deductions until it phases out after 2028', () => {
+      const inputs = createInputs({
+        ordinaryIncome: toBig(100000),
+        ages: [70],
+        itemizedDeductions: {
+          mortgageInterest: toBig(20000),
+          stateAndLocalTaxes: toBig(10000),
+          charitableGiving: toBig(0),
+        },
+      });
+      const flat = new FederalTaxCalculator(0);
+
+      // $30,000 itemized plus $6,000 - 6% x $25,000
+      expect(flat.calculate(inputs, 2028).deduction.toString()).toBe('34500');
+      expect(flat.calculate(inputs, 2029).deduction.toString()).toBe('30000');
+      // Fully phased out at $175,000
+      expect(flat.calculate({ ...inputs, ordinaryIncome: toBig(180000) }, 2025).deduction.toString()).toBe('30000');
+    });
+
+    it('should apply the SALT cap of the tax year and regime', () => {
+      const inputs = createInputs({
+        itemizedDeductions: {
+          mortgageInterest: toBig(10000),
+          stateAndLocalTaxes: toBig(60000),
+          charitableGiving: toBig(0),
+        },
+      });
+      const reversion = new FederalTaxCalculator(0, { regime: TaxRegime.PRE_TCJA, startYear: 2027 });
+
+      expect(calculator.calculate(inputs, 2024).deduction.toString()).toBe('20000');
+      expect(calculator.calculate(inputs, 2025).deduction.toString()).toBe('50000');
+      expect(calculator.calculate(inputs, 2026).deduction.toString()).toBe('50400');
+      // 1% a year through 2029, then back to $10,000
+      expect(calculator.calculate(inputs, 2027).deduction.toString()).toBe('50804');
+      expect(calculator.calculate(inputs, 2029).deduction.toString()).toBe('51624');
+      expect(calculator.calculate(inputs, 2030).deduction.toString()).toBe('20000');
+      // Prior law has no cap, and adds the $5,300 personal exemption
+      expect(reversion.calculate(inputs, 2027).deduction.toString()).toBe('75300');
+    });
+
+    it('should lower the SALT cap by 30% of MAGI above the threshold, down to $10,000', () => {
+      const inputs = (income: number): TaxInputs => createInputs({
+        ordinaryIncome: toBig(income),
+        itemizedDeductions: {
+          mortgageInterest: toBig(10000),
+          stateAndLocalTaxes: toBig(60000),
+          charitableGiving: toBig(0),
+        },
+      });
+
+      // $10,000 interest + $40,000 - 30% x $50,000
+      expect(calculator.calculate(inputs(550000), 2025).deduction.toString()).toBe('35000');
+      expect(calculator.calculate(inputs(700000), 2025).deduction.toString()).toBe('20000');
+      // $10,000 interest + $40,400 - 30% x ($550,000 - $505,000)
+      expect(calculator.calculate(inputs(550000), 2026).deduction.toString()).toBe('36900');
+    });
+
+    it('should keep the SALT cap schedule of current law under custom brackets', () => {
+      const custom = new FederalTaxCalculator(0, {
+        regime: TaxRegime.CUSTOM,
+        startYear: 2026,
+        customBrackets: {
+          standardDeduction: {
+            [FilingStatus.SINGLE]: toBig(10000),
+            [FilingStatus.MARRIED_FILING_JOINTLY]: toBig(20000),
+            [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig(15000),
+          },
+          ordinaryBrackets: {
+            [FilingStatus.SINGLE]: [[null, toBig(0.2)]],
+            [FilingStatus.MARRIED_FILING_JOINTLY]: [[null, toBig(0.2)]],
+            [FilingStatus.HEAD_OF_HOUSEHOLD]: [[null, toBig(0.2)]],
+          },
+        },
+      });
+
+      expect(custom.getTaxParameters(2028).saltCap?.cap.toString()).toBe('41212');
+      expect(custom.getTaxParameters(2030).saltCap?.cap.toString()).toBe('10000');
+      expect(custom.getTaxParameters(2029).seniorDeduction).toBeNull();
+    });
+  });
+
+  describe('bracket helpers', () => {
+    it('should return the standard deduction for each filing status', () => {
+      expect(calculator.getStandardDeduction(FilingStatus.SINGLE, 2024).toString()).toBe('14600');
+      expect(calculator.getStandardDeduction(FilingStatus.MARRIED_FILING_JOINTLY, 2024).toString()).toBe('29200');
+      expect(calculator.getStandardDeduction(FilingStatus.HEAD_OF_HOUSEHOLD, 2024).toString()).toBe('21900');
+    });
+
+    it('should return the top of the bracket for a marginal rate', () => {
+      expect(calculator.getBracketCeiling(FilingStatus.SINGLE, toBig(0.10), 2024)?.toString()).toBe('11600');
+      expect(calculator.getBracketCeiling(FilingStatus.SINGLE, toBig(0.12), 2024)?.toString()).toBe('47150');
+      expect(calculator.getBracketCeiling(FilingStatus.MARRIED_FILING_JOINTLY, toBig(0.22), 2024)?.toString()).toBe('201050');
+    });
+
+    it('should use the highest bracket at or below a rate between brackets', () => {
+      expect(calculator.getBracketCeiling(FilingStatus.SINGLE, toBig(0.15), 2024)?.toString()).toBe('47150');
+    });
+
+    it('should return zero below the lowest bracket and null for the top bracket', () => {
+      expect(calculator.getBracketCeiling(FilingStatus.SINGLE, toBig(0.05), 2024)?.toString()).toBe('0');
+      expect(calculator.getBracketCeiling(FilingStatus.SINGLE, toBig(0.37), 2024)).toBeNull();
+    });
+  });
+
+  describe('tax years', () => {
+    it('should use the published parameters of each year', () => {
+      expect(calculator.getStandardDeduction(FilingStatus.SINGLE, 2025).toString()).toBe('15750');
+      expect(calculator.getStandardDeduction(FilingStatus.SINGLE, 2026).toString()).toBe('16100');
+      expect(calculator.getBracketCeiling(FilingStatus.SINGLE, toBig(0.12), 2025)?.toString()).toBe('48475');
+      expect(calculator.getTaxParameters(2026).socialSecurityWageBase.toString()).toBe('184500');
+    });
+
+    it('should index years after the last published year, rounding down to $50', () => {
+      const indexed = new FederalTaxCalculator(0.03);
+
+      // 16,100 x 1.03 = 16,583 and 16,100 x 1.03^2 = 17,080.49
+      expect(indexed.getStandardDeduction(FilingStatus.SINGLE, 2027).toString()).toBe('16550');
+      expect(indexed.getStandardDeduction(FilingStatus.SINGLE, 2028).toString()).toBe('17050');
+      // 50,400 x 1.03 = 51,912
+      expect(indexed.getBracketCeiling(FilingStatus.SINGLE, toBig(0.12), 2027)?.toString()).toBe('51900');
+      expect(indexed.getBracketCeiling(FilingStatus.SINGLE, toBig(0.37), 2027)).toBeNull();
+    });
+
+    it('should keep the last published parameters without indexation', () => {
+      const flat = new FederalTaxCalculator(0);
+
+      expect(flat.getStandardDeduction(FilingStatus.MARRIED_FILING_JOINTLY, 2040).toString()).toBe('32200');
+    });
+
+    it('should use the first published year for earlier years', () => {
+      expect(calculator.getStandardDeduction(FilingStatus.SINGLE, 2020).toString()).toBe('14600');
+    });
+
+    it('should tax the same income less as the brackets grow', () => {
+      const inputs: TaxInputs = {
+        ordinaryIncome: toBig(50000),
+        qualifiedDividends: toBig(0),
+        longTermCapitalGains: toBig(0),
+        socialSecurityGross: toBig(0),
+        taxExemptInterest: toBig(0),
+        filingStatus: FilingStatus.SINGLE,
+      };
+
+      expect(calculator.calculate(inputs, 2024).totalTax.toString()).toBe('4016');
+      // 34,250 taxable: 1,192.50 + 22,325 x 12%
+      expect(calculator.calculate(inputs, 2025).totalTax.toString()).toBe('3871.5');
+    });
+
+    it('should reject invalid tables and rates', () => {
+      expect(() => new FederalTaxCalculator(-0.01)).toThrow('Tax indexation rate cannot be negative');
+      expect(() => new FederalTaxCalculator(0.025, { regime: TaxRegime.CURRENT_LAW }, {})).toThrow('Federal tax tables must include at least one year');
+    });
+  });
+
+  describe('tax regimes', () => {
+    const inputs: TaxInputs = {
+      ordinaryIncome: toBig(80000),
+      qualifiedDividends: toBig(0),
+      longTermCapitalGains: toBig(0),
+      socialSecurityGross: toBig(0),
+      taxExemptInterest: toBig(0),
+      filingStatus: FilingStatus.SINGLE,
+    };
+
+    it('should switch to pre-2018 rates from the start year', () => {
+      const reversion = new FederalTaxCalculator(0, { regime: TaxRegime.PRE_TCJA, startYear: 2027 });
+
+      expect(reversion.getStandardDeduction(FilingStatus.SINGLE, 2026).toString()).toBe('16100');
+      expect(reversion.getStandardDeduction(FilingStatus.SINGLE, 2027).toString()).toBe('8300');
+      // 8,300 deduction + 5,300 exemption -> 66,400 taxable: 1,220 + 37,350 x 15% + 16,850 x 25%
+      expect(reversion.calculate(inputs, 2027).ordinaryTax.toString()).toBe('11035');
+      expect(reversion.getBracketCeiling(FilingStatus.SINGLE, toBig(0.15), 2027)?.toString()).toBe('49550');
+    });
+
+    it('should add pre-2018 personal exemptions to itemized deductions', () => {
+      const reversion = new FederalTaxCalculator(0, { regime: TaxRegime.PRE_TCJA });
+      const itemizer: TaxInputs = {
+        ...inputs,
+        filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+        itemizedDeductions: {
+          mortgageInterest: toBig(15000),
+          stateAndLocalTaxes: toBig(10000),
+          charitableGiving: toBig(0),
+        },
+      };
+
+      // $25,000 itemized + 2 x $5,300
+      const result = reversion.calculate(itemizer, 2026);
+      expect(result.itemized).toBe(true);
+      expect(result.deduction.toString()).toBe('35600');
+      expect(calculator.calculate(itemizer, 2026).deduction.toString()).toBe('32200');
+    });
+
+    it('should index pre-2018 amounts and keep the current-law wage base', () => {
+      const reversion = new FederalTaxCalculator(0.03, { regime: TaxRegime.PRE_TCJA });
+      const currentLaw = new FederalTaxCalculator(0.03);
+
+      // 8,300 x 1.03 = 8,549 and 5,300 x 1.03 = 5,459
+      expect(reversion.getStandardDeduction(FilingStatus.SINGLE, 2027).toString()).toBe('8500');
+      expect(reversion.getTaxParameters(2027).personalExemption.toString()).toBe('5450');
+      expect(reversion.getTaxParameters(2027).socialSecurityWageBase.toString())
+        .toBe(currentLaw.getTaxParameters(2027).socialSecurityWageBase.toString());
+    });
+
+    it('should apply custom brackets with current-law capital gains thresholds', () => {
+      const custom = new FederalTaxCalculator(0, {
+        regime: TaxRegime.CUSTOM,
+        startYear: 2026,
+        customBrackets: {
+          standardDeduction: {
+            [FilingStatus.SINGLE]: toBig(10000),
+            [FilingStatus.MARRIED_FILING_JOINTLY]: toBig(20000),
+            [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig(15000),
+          },
+          ordinaryBrackets: {
+            [FilingStatus.SINGLE]: [[toBig(50000), toBig(0.1)], [null, toBig(0.3)]],
+            [FilingStatus.MARRIED_FILING_JOINTLY]: [[toBig(100000), toBig(0.1)], [null, toBig(0.3)]],
+            [FilingStatus.HEAD_OF_HOUSEHOLD]: [[toBig(50000), toBig(0.1)], [null, toBig(0.3)]],
+          },
+        },
+      });
+
+      // 70,000 taxable: 5,000 + 20,000 x 30%
+      expect(custom.calculate(inputs, 2026).ordinaryTax.toString()).toBe('11000');
+      expect(custom.getTaxParameters(2026).ltcgThresholds[FilingStatus.SINGLE][0].toString()).toBe('49450');
+      expect(custom.calculate(inputs, 2025).ordinaryTax.toString()).toBe('9049');
+    });
+
+    it('should reject missing or capped custom brackets', () => {
+      expect(() => new FederalTaxCalculator(0, { regime: TaxRegime.CUSTOM }))
+        .toThrow('Custom tax regime requires brackets');
+
+      const capped: TaxBracket[] = [[toBig(50000), toBig(0.1)]];
+      expect(() => new FederalTaxCalculator(0, {
+        regime: TaxRegime.CUSTOM,
+        customBrackets: {
+          standardDeduction: {
+            [FilingStatus.SINGLE]: toBig(0),
+            [FilingStatus.MARRIED_FILING_JOINTLY]: toBig(0),
+            [FilingStatus.HEAD_OF_HOUSEHOLD]: toBig(0),
+          },
+          ordinaryBrackets: {
+            [FilingStatus.SINGLE]: capped,
+            [FilingStatus.MARRIED_FILING_JOINTLY]: capped,
+            [FilingStatus.HEAD_OF_HOUSEHOLD]: capped,
+          },
+        },
+      })).toThrow('Custom tax brackets must end with an unlimited top bracket');
+    });
+  });
 });
@@ -0,0 +1,71 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { TaxRegimeComparator } from '../lib/taxRegimeComparison';
+import type { ProjectionRunner } from '../lib/claimingOptimizer';
+import { AccountType, FilingStatus, SequencingStrategy, TaxRegime } from '../lib/types';
+import type { Scenario } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+function createScenario(): Scenario {
+  return {
+    name: 'Tax Law Scenario',
+    user: {
+      birthYear: CURRENT_YEAR - 65,
+      retirementAge: 65,
+      filingStatus: FilingStatus.SINGLE,
+      stateOfResidence: 'IL',
+    },
+    accounts: [
+      { id: 'ira', accountType: AccountType.TRADITIONAL, balance: toBig(1000000) },
+    ],
+    policy: {
+      minRequiredIncome: toBig(80000),
+      sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+      inflationAdjust: false,
+      inflationRate: toBig(0),
+      avoidIRMAA: false,
+    },
+  };
+}
+
+const runProjection: ProjectionRunner = (engine) => engine.runProjection(10, toBig(0.03));
+
+describe('TaxRegimeComparator', () => {
+  it('should report lifetime taxes under each regime in order', () => {
+    const result = new TaxRegimeComparator(createScenario()).compare(runProjection, [
+      { regime: TaxRegime.CURRENT_LAW },
+      { regime: TaxRegime.PRE_TCJA, startYear: CURRENT_YEAR + 5 },
+      { regime: TaxRegime.PRE_TCJA },
+    ]);
+
+    expect(result.scenarioName).toBe('Tax Law Scenario');
+    expect(result.options.map((option) => option.settings.startYear)).toEqual([undefined, CURRENT_YEAR + 5, undefined]);
+
+    const [currentLaw, laterReversion, reversion] = result.options.map((option) => option.federalTaxesPaid);
+    // $80,000 of IRA withdrawals pay more under the 15% and 25% brackets
+    expect(laterReversion.gt(currentLaw)).toBe(true);
+    expect(reversion.gt(laterReversion)).toBe(true);
+    for (const option of result.options) {
+      // Illinois exempts IRA withdrawals
+      expect(option.stateTaxesPaid.toString()).toBe('0');
+      expect(option.totalTaxesPaid.eq(option.federalTaxesPaid)).toBe(true);
+    }
+  });
+
+  it('should spend less after taxes when taxes rise', () => {
+    const result = new TaxRegimeComparator(createScenario()).compare(runProjection, [
+      { regime: TaxRegime.CURRENT_LAW },
+      { regime: TaxRegime.PRE_TCJA },
+    ]);
+
+    const [currentLaw, reversion] = result.options;
+    expect(reversion.lifetimeNetIncome.lt(currentLaw.lifetimeNetIncome)).toBe(true);
+  });
+
+  it('should require at least one regime', () => {
+    expect(() => new TaxRegimeComparator(createScenario()).compare(runProjection, []))
+      .toThrow('At least one tax regime is required to compare');
+  });
+});
@@ -1,6 +1,7 @@
 // Copyright (c) 2026 François Rouaix
 import { describe, it, expect } from 'vitest';
-import { validateUserProfile, validateAccount } from '../utils/validation';
+import { validateUserProfile, validateAccount, validateMortgageLink } from '../utils/validation';
+import type { MortgageAccountData } from '../components/MortgageAccountForm';
 import type { UserProfileData } from '../components/UserProfileForm';
 import type { Account } from '../utils/export';
 import { FilingStatus } from '../lib/types';
@@ -222,4 +223,41 @@ describe('validation', () => {
       expect(validateAccount(account)).toBe(true);
     });
   });
+
+  describe('validateMortgageLink', () => {
+    const property: Account = {
+      accountId: 'real-estate-1',
+      accountType: 'realEstate',
+      nickname: 'Home',
+      currentValue: 500000,
+      yearlyValueIncrease: 1,
+    };
+
+    const createMortgage = (propertyId?: string): MortgageAccountData => ({
+      accountId: 'mortgage-1',
+      accountType: 'mortgage',
+      propertyId,
+      propertyNickname: 'Home',
+      principalBalance: 300000,
+      interestRate: 6,
+      monthlyPayment: 2000,
+    });
+
+    it('should return true when the linked property exists', () => {
+      expect(validateMortgageLink(createMortgage('real-estate-1'), [property])).toBe(true);
+    });
+
+    it('should return false when the linked property is missing', () => {
+      expect(validateMortgageLink(createMortgage('real-estate-2'), [property])).toBe(false);
+    });
+
+    it('should return false when the link points to a non-property account', () => {
+      const roth: Account = { accountId: 'roth-1', accountType: 'roth', nickname: 'Roth', balance: 1000 };
+      expect(validateMortgageLink(createMortgage('roth-1'), [roth])).toBe(false);
+    });
+
+    it('should return true for unlinked mortgages', () => {
+      expect(validateMortgageLink(createMortgage(), [])).toBe(true);
+    });
+  });
 });
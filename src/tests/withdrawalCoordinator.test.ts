@@ -0,0 +1,907 @@
+// Copyright (c) 2026 François Rouaix
+import { describe, it, expect } from 'vitest';
+import { WithdrawalCoordinator, SSABenefitCalculator } from '../lib/withdrawalCoordinator';
+import { TaxableAccount } from '../lib/accounts/TaxableAccount';
+import { TraditionalAccount } from '../lib/accounts/TraditionalAccount';
+import { RothAccount } from '../lib/accounts/RothAccount';
+import { BaseAccount } from '../lib/accounts/BaseAccount';
+import { EarnedIncomeType, FilingStatus, HouseholdMember, PensionType, SequencingStrategy, RothConversionStrategy } from '../lib/types';
+import type { SSAIncome, UserProfile, WithdrawalPolicy } from '../lib/types';
+import { toBig } from '../lib/bigHelpers';
+
+const userProfile: UserProfile = {
+  birthYear: 1960,
+  retirementAge: 65,
+  filingStatus: FilingStatus.SINGLE,
+};
+
+function createPolicy(overrides: Partial<WithdrawalPolicy> = {}): WithdrawalPolicy {
+  return {
+    minRequiredIncome: toBig(50000),
+    sequencingStrategy: SequencingStrategy.TAX_BRACKET_OPTIMIZATION,
+    inflationAdjust: false,
+    inflationRate: toBig(0),
+    avoidIRMAA: false,
+    ...overrides,
+  };
+}
+
+function createCoordinator(
+  accounts: BaseAccount[],
+  policy: WithdrawalPolicy,
+  ssaIncome?: SSAIncome,
+): WithdrawalCoordinator {
+  return new WithdrawalCoordinator({
+    accounts,
+    policy,
+    ssaIncome,
+    userProfile,
+    startingYear: 2025,
+    startingAge: 65,
+  });
+}
+
+describe('WithdrawalCoordinator', () => {
+  describe('TAX_BRACKET_OPTIMIZATION strategy', () => {
+    it('should cover the whole need from Traditional when it fits in the bracket', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 1000000, 1960),
+          new TaxableAccount('brokerage', 500000, 400000),
+          new RothAccount('roth', 100000),
+        ],
+        createPolicy(),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      // 15,750 deduction + 2,000 at 65 + 6,000 senior deduction + 48,475 top of 12% bracket = 72,225 of room
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('50000');
+      expect(plan.accountWithdrawals['brokerage']).toBeUndefined();
+      expect(plan.accountWithdrawals['roth']).toBeUndefined();
+    });
+
+    it('should fill the target bracket and draw the rest from taxable', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 1000000, 1960),
+          new TaxableAccount('brokerage', 500000, 400000),
+          new RothAccount('roth', 100000),
+        ],
+        createPolicy({ targetTaxBracket: toBig(0.10) }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      // 15,750 deduction + 2,000 at 65 + 6,000 senior deduction + 11,925 top of 10% bracket = 35,675 of room
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('35675');
+      expect(plan.accountWithdrawals['brokerage'].toString()).toBe('14325');
+      expect(plan.accountWithdrawals['roth']).toBeUndefined();
+    });
+
+    it('should account for taxable Social Security when sizing the bracket room', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 1000000, 1960),
+          new TaxableAccount('brokerage', 500000, 500000),
+        ],
+        createPolicy({ minRequiredIncome: toBig(80000) }),
+        { fraMonthlyBenefit: toBig(2500), claimingAge: 65 },
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+      const traditional = plan.accountWithdrawals['ira'];
+
+      // Some Social Security becomes taxable, so less than 72,225 fits in the bracket
+      expect(traditional.lt(toBig(72225))).toBe(true);
+      expect(traditional.gt(toBig(0))).toBe(true);
+      // The Traditional withdrawal fills the 12% bracket exactly
+      expect(plan.taxResult.ordinaryTaxable.round(2).toString()).toBe('48475');
+      expect(plan.accountWithdrawals['brokerage'].gt(toBig(0))).toBe(true);
+    });
+
+    it('should use Roth before drawing Traditional above the bracket', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 1000000, 1960),
+          new TaxableAccount('brokerage', 10000, 10000),
+          new RothAccount('roth', 20000),
+        ],
+        createPolicy({ minRequiredIncome: toBig(100000) }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.accountWithdrawals['brokerage'].toString()).toBe('10000');
+      // Traditional fills the bracket, Roth covers the rest
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('72225');
+      expect(plan.accountWithdrawals['roth'].toString()).toBe('17775');
+    });
+
+    it('should not count RMDs twice against the bracket room', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 1000000, 1950),
+          new TaxableAccount('brokerage', 500000, 500000),
+        ],
+        createPolicy({ minRequiredIncome: toBig(100000) }),
+      );
+      const olderProfile: UserProfile = { ...userProfile, birthYear: 1950 };
+
+      const plan = coordinator.planYear(2025, 75, olderProfile);
+
+      // RMD at 75 (divisor 24.6) already fills part of the bracket
+      const rmd = toBig(1000000).div(toBig(24.6));
+      expect(plan.accountWithdrawals['ira'].round(2).toString()).toBe('72225');
+      expect(plan.accountWithdrawals['ira'].gte(rmd)).toBe(true);
+      expect(plan.accountWithdrawals['brokerage'].round(2).toString()).toBe('27775');
+    });
+  });
+
+  describe('IRMAA', () => {
+    it('should charge IRMAA from MAGI two years earlier once on Medicare', () => {
+      const coordinator = createCoordinator(
+        [new TraditionalAccount('ira', 5000000, 1960)],
+        createPolicy({
+          minRequiredIncome: toBig(150000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+        }),
+      );
+
+      const plans = [2025, 2026, 2027].map((year, idx) =>
+        coordinator.planYear(year, 65 + idx, userProfile),
+      );
+
+      // No lookback plan for the first two years
+      expect(plans[0].irmaaSurcharge.toString()).toBe('0');
+      expect(plans[1].irmaaSurcharge.toString()).toBe('0');
+      // 2025 MAGI of 150,000 is in tier 2: (174.70 + 33.30) * 12
+      expect(plans[0].taxResult.magi.toString()).toBe('150000');
+      expect(plans[2].irmaaSurcharge.toString()).toBe('2496');
+      expect(plans[2].totalNetIncome.toString()).toBe(
+        plans[2].totalGrossIncome.minus(plans[2].totalTaxes).minus(2496).toString(),
+      );
+    });
+
+    it('should not charge IRMAA before Medicare age', () => {
+      const coordinator = createCoordinator(
+        [new TraditionalAccount('ira', 5000000, 1960)],
+        createPolicy({
+          minRequiredIncome: toBig(150000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+        }),
+      );
+
+      const plans = [2025, 2026, 2027].map((year, idx) =>
+        coordinator.planYear(year, 60 + idx, userProfile),
+      );
+
+      expect(plans[2].irmaaSurcharge.toString()).toBe('0');
+    });
+
+    it('should keep Traditional withdrawals under the next tier when avoidIRMAA is set', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 5000000, 1960),
+          new RothAccount('roth', 500000),
+        ],
+        createPolicy({
+          minRequiredIncome: toBig(150000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+          avoidIRMAA: true,
+        }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('103000');
+      expect(plan.accountWithdrawals['roth'].toString()).toBe('47000');
+      expect(plan.taxResult.magi.toString()).toBe('103000');
+    });
+
+    it('should keep Traditional withdrawals when nothing else can cover the need', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 5000000, 1960),
+          new RothAccount('roth', 20000),
+        ],
+        createPolicy({
+          minRequiredIncome: toBig(150000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+          avoidIRMAA: true,
+        }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.accountWithdrawals['roth'].toString()).toBe('20000');
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('130000');
+    });
+
+    it('should ignore IRMAA tiers well before Medicare age', () => {
+      const coordinator = createCoordinator(
+        [
+          new TraditionalAccount('ira', 5000000, 1960),
+          new RothAccount('roth', 500000),
+        ],
+        createPolicy({
+          minRequiredIncome: toBig(150000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+          avoidIRMAA: true,
+        }),
+      );
+
+      const plan = coordinator.planYear(2025, 60, userProfile);
+
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('150000');
+      expect(plan.accountWithdrawals['roth']).toBeUndefined();
+    });
+  });
+
+  describe('Roth conversions', () => {
+    it('should convert a fixed amount and tax it as ordinary income', () => {
+      const ira = new TraditionalAccount('ira', 500000, 1960);
+      const roth = new RothAccount('roth', 100000);
+      const coordinator = createCoordinator(
+        [ira, roth],
+        createPolicy({
+          minRequiredIncome: toBig(0),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+          rothConversion: {
+            strategy: RothConversionStrategy.FIXED_AMOUNT,
+            startAge: 65,
+            endAge: 70,
+            annualAmount: toBig(30000),
+          },
+        }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.rothConversion.toString()).toBe('30000');
+      expect(ira.getBalance().toString()).toBe('470000');
+      expect(roth.getBalance().toString()).toBe('130000');
+      // Conversion is not spendable income, but is taxed
+      expect(plan.totalGrossIncome.toString()).toBe('0');
+      expect(plan.taxResult.agi.toString()).toBe('30000');
+      expect(plan.totalTaxes.gt(0)).toBe(true);
+    });
+
+    it('should only convert between the start and end ages', () => {
+      const coordinator = createCoordinator(
+        [new TraditionalAccount('ira', 500000, 1960), new RothAccount('roth', 0)],
+        createPolicy({
+          minRequiredIncome: toBig(0),
+          rothConversion: {
+            strategy: RothConversionStrategy.FIXED_AMOUNT,
+            startAge: 66,
+            endAge: 66,
+            annualAmount: toBig(30000),
+          },
+        }),
+      );
+
+      const plans = [65, 66, 67].map((age, idx) =>
+        coordinator.planYear(2025 + idx, age, userProfile),
+      );
+
+      expect(plans.map((p) => p.rothConversion.toString())).toEqual(['0', '30000', '0']);
+    });
+
+    it('should fill the bracket after withdrawals', () => {
+      const coordinator = createCoordinator(
+        [new TraditionalAccount('ira', 500000, 1960), new RothAccount('roth', 0)],
+        createPolicy({
+          minRequiredIncome: toBig(20000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+          rothConversion: {
+            strategy: RothConversionStrategy.FILL_TO_BRACKET,
+            startAge: 65,
+            endAge: 70,
+            targetTaxBracket: toBig(0.12),
+          },
+        }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      // 72,225 of room below the top of the 12% bracket, minus the 20,000 withdrawal
+      expect(plan.rothConversion.toString()).toBe('52225');
+      expect(plan.taxResult.ordinaryTaxable.toString()).toBe('48475');
+    });
+
+    it('should fill up to the next IRMAA tier', () => {
+      const coordinator = createCoordinator(
+        [new TraditionalAccount('ira', 500000, 1960), new RothAccount('roth', 0)],
+        createPolicy({
+          minRequiredIncome: toBig(0),
+          rothConversion: {
+            strategy: RothConversionStrategy.FILL_TO_IRMAA_TIER,
+            startAge: 60,
+            endAge: 70,
+          },
+        }),
+        { fraMonthlyBenefit: toBig(2000), claimingAge: 62 },
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.taxResult.magi.lte(toBig(103000))).toBe(true);
+      expect(plan.taxResult.magi.gt(toBig(102000))).toBe(true);
+    });
+
+    it('should create a Roth account when none exists and cap at the Traditional balance', () => {
+      const coordinator = createCoordinator(
+        [new TraditionalAccount('ira', 10000, 1960)],
+        createPolicy({
+          minRequiredIncome: toBig(0),
+          rothConversion: {
+            strategy: RothConversionStrategy.FIXED_AMOUNT,
+            startAge: 65,
+            endAge: 70,
+            annualAmount: toBig(30000),
+          },
+        }),
+      );
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.rothConversion.toString()).toBe('10000');
+      expect(plan.accountBalances['ira'].toString()).toBe('0');
+      expect(plan.accountBalances['roth-conversion'].toString()).toBe('10000');
+      expect(plan.accountMetadata['roth-conversion'].accountType).toBe('roth');
+    });
+  });
+
+  describe('spouse', () => {
+    const couple: UserProfile = {
+      birthYear: 1950,
+      retirementAge: 65,
+      filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+      lifeExpectancy: 76,
+      spouse: {
+        birthYear: 1953,
+        retirementAge: 65,
+        ssaIncome: { fraMonthlyBenefit: toBig(1000), claimingAge: 66 },
+      },
+    };
+
+    function createCoupleCoordinator(accounts: BaseAccount[]): WithdrawalCoordinator {
+      return new WithdrawalCoordinator({
+        accounts,
+        policy: createPolicy({ minRequiredIncome: toBig(0), sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        ssaIncome: { fraMonthlyBenefit: toBig(2000), claimingAge: 66 },
+        userProfile: couple,
+        accountOwners: { 'user-ira': HouseholdMember.USER, 'spouse-ira': HouseholdMember.SPOUSE },
+        startingYear: 2025,
+        startingAge: 75,
+      });
+    }
+
+    it('should pay each Social Security benefit at its owner\'s age', () => {
+      const coordinator = createCoupleCoordinator([new TaxableAccount('brokerage', 100000, 100000)]);
+
+      // User is 75, spouse is 72: both claimed at their FRA of 66
+      const plan = coordinator.planYear(2025, 75, couple);
+
+      expect(plan.spouseAge).toBe(72);
+      expect(plan.guaranteedIncome.toString()).toBe('36000');
+      expect(plan.filingStatus).toBe(FilingStatus.MARRIED_FILING_JOINTLY);
+    });
+
+    it('should take RMDs at the account owner\'s age', () => {
+      const coordinator = createCoupleCoordinator([
+        new TraditionalAccount('user-ira', 246000, 1950),
+        new TraditionalAccount('spouse-ira', 246000, 1953),
+      ]);
+
+      const plan = coordinator.planYear(2025, 75, couple);
+
+      // Spouse is 72, below the RMD age of 73
+      expect(plan.accountWithdrawals['user-ira'].toString()).toBe('10000');
+      expect(plan.accountWithdrawals['spouse-ira']).toBeUndefined();
+    });
+
+    it('should file as single and keep the larger benefit after the first death', () => {
+      const coordinator = createCoupleCoordinator([
+        new TraditionalAccount('user-ira', 246000, 1950),
+        new TaxableAccount('brokerage', 100000, 100000),
+      ]);
+
+      coordinator.planYear(2025, 75, couple);
+      const lastJointYear = coordinator.planYear(2026, 76, couple);
+      const plan = coordinator.planYear(2027, 77, couple);
+
+      expect(lastJointYear.filingStatus).toBe(FilingStatus.MARRIED_FILING_JOINTLY);
+      expect(plan.filingStatus).toBe(FilingStatus.SINGLE);
+      // Spouse keeps the user's $2,000/month survivor benefit instead of their own $1,000
+      expect(plan.guaranteedIncome.toString()).toBe('24000');
+      // Spouse (74) inherits the IRA and takes RMDs at their own age (divisor 25.5)
+      expect(plan.accountWithdrawals['user-ira'].round(2).toString()).toBe(
+        lastJointYear.accountBalances['user-ira'].div(toBig(25.5)).round(2).toString(),
+      );
+    });
+
+    it('should apply joint IRMAA thresholds to the survivor\'s joint lookback years', () => {
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [new TraditionalAccount('user-ira', 2000000, 1950)],
+        policy: createPolicy({
+          minRequiredIncome: toBig(150000),
+          sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST,
+        }),
+        ssaIncome: { fraMonthlyBenefit: toBig(2000), claimingAge: 66 },
+        userProfile: couple,
+        startingYear: 2025,
+        startingAge: 75,
+      });
+
+      const plans = [2025, 2026, 2027, 2028].map((year, idx) => coordinator.planYear(year, 75 + idx, couple));
+
+      // Joint MAGI below the $206,000 joint threshold, above the $103,000 single one
+      expect(plans[0].taxResult.magi.gt(toBig(103000))).toBe(true);
+      expect(plans[0].taxResult.magi.lt(toBig(206000))).toBe(true);
+      expect(plans[2].filingStatus).toBe(FilingStatus.SINGLE);
+      expect(plans[2].irmaaSurcharge.toString()).toBe('0');
+      expect(plans[3].irmaaSurcharge.toString()).toBe('0');
+    });
+  });
+
+  describe('SSABenefitCalculator', () => {
+    function createCalculator(fraMonthlyBenefit: number, claimingAge: number): SSABenefitCalculator {
+      return new SSABenefitCalculator({ fraMonthlyBenefit: toBig(fraMonthlyBenefit), claimingAge }, toBig(0));
+    }
+
+    it('should derive FRA from the birth year', () => {
+      expect(SSABenefitCalculator.getFullRetirementAge(1937)).toBe(65);
+      expect(SSABenefitCalculator.getFullRetirementAge(1940)).toBe(65.5);
+      expect(SSABenefitCalculator.getFullRetirementAge(1950)).toBe(66);
+      expect(SSABenefitCalculator.getFullRetirementAge(1957)).toBe(66.5);
+      expect(SSABenefitCalculator.getFullRetirementAge(1959)).toBeCloseTo(66 + 10 / 12);
+      expect(SSABenefitCalculator.getFullRetirementAge(1960)).toBe(67);
+    });
+
+    it('should reduce early benefits by 5/9% then 5/12% per month', () => {
+      const rate = toBig(0);
+
+      // FRA 67: 36 months at 5/9% + 24 months at 5/12% = 30%
+      expect(createCalculator(1000, 62).getBenefitAtAge(62).toString()).toBe('8400');
+      // FRA 66: 48 months early, 25%
+      const born1950 = new SSABenefitCalculator({ fraMonthlyBenefit: toBig(1000), claimingAge: 62 }, rate, 1950);
+      expect(born1950.getBenefitAtAge(62).toString()).toBe('9000');
+      // FRA 66 and 6 months: 24% delayed credits at 70 become 28%
+      const born1957 = new SSABenefitCalculator({ fraMonthlyBenefit: toBig(1000), claimingAge: 70 }, rate, 1957);
+      expect(born1957.getBenefitAtAge(70).toString()).toBe('15360');
+    });
+
+    it('should pay only the months after a month-level claiming age', () => {
+      // 66 and 6 months with an FRA of 67: 6 months early, 3.33% reduction
+      const calculator = createCalculator(1200, 66.5);
+
+      expect(calculator.getBenefitAtAge(65).toString()).toBe('0');
+      expect(calculator.getBenefitAtAge(66).round(2).toString()).toBe('6960');
+      expect(calculator.getBenefitAtAge(67).round(2).toString()).toBe('13920');
+    });
+
+    it('should withhold $1 for every $2 earned above the limit before the FRA year', () => {
+      const calculator = createCalculator(1500, 62);
+
+      expect(calculator.getEarningsTestWithholding(64, toBig(18000), toBig(42320)).toString()).toBe('10000');
+      expect(calculator.getEarningsTestWithholding(64, toBig(18000), toBig(20000)).toString()).toBe('0');
+      expect(calculator.getEarningsTestWithholding(64, toBig(18000), toBig(100000)).toString()).toBe('18000');
+      // FRA of 67 reached: no earnings test
+      expect(calculator.getEarningsTestWithholding(67, toBig(18000), toBig(100000)).toString()).toBe('0');
+    });
+
+    it('should withhold $1 for every $3 above the higher limit in the months before FRA', () => {
+      // FRA 66 and 6 months: half of the year is before FRA
+      const calculator = new SSABenefitCalculator({ fraMonthlyBenefit: toBig(1000), claimingAge: 62 }, toBig(0), 1957);
+
+      expect(calculator.getEarningsTestWithholding(66, toBig(12000), toBig(120000)).toString()).toBe('160');
+      expect(calculator.getEarningsTestWithholding(66, toBig(12000), toBig(300000)).toString()).toBe('6000');
+    });
+
+    it('should index the earnings test limits after 2024', () => {
+      const calculator = createCalculator(1500, 62);
+      const rate = toBig(0.03);
+
+      // 22,320 * 1.03^2 = 23,679.29, rounded down to 23,640: (42,320 - 23,640) / 2 withheld
+      expect(calculator.getEarningsTestWithholding(64, toBig(18000), toBig(42320), 2026, rate).toString()).toBe('9340');
+      expect(calculator.getEarningsTestWithholding(64, toBig(18000), toBig(42320), 2024, rate).toString()).toBe('10000');
+
+      // FRA 66 and 6 months: 59,520 * 1.03 = 61,305.60, rounded down to 61,200
+      const born1957 = new SSABenefitCalculator({ fraMonthlyBenefit: toBig(1000), claimingAge: 62 }, toBig(0), 1957);
+      expect(born1957.getEarningsTestWithholding(66, toBig(12000), toBig(150000), 2025, rate).toString()).toBe('4600');
+    });
+
+    it('should reject claiming ages outside 62 to 70', () => {
+      expect(() => createCalculator(1000, 61)).toThrow('Claiming age must be between 62 and 70');
+      expect(() => createCalculator(1000, 70.5)).toThrow('Claiming age must be between 62 and 70');
+    });
+
+    it('should top up the own benefit to half the partner\'s PIA', () => {
+      const worker = createCalculator(600, 67);
+
+      expect(worker.getSpousalBenefitAtAge(67, toBig(2000), 67).toString()).toBe('4800');
+      expect(worker.getSpousalBenefitAtAge(67, toBig(1000), 67).toString()).toBe('0');
+    });
+
+    it('should wait for the partner to file', () => {
+      const worker = createCalculator(0, 67);
+
+      expect(worker.getSpousalBenefitAtAge(67, toBig(2000), 68).toString()).toBe('0');
+      expect(worker.getSpousalBenefitAtAge(68, toBig(2000), 68).toString()).toBe('12000');
+    });
+
+    it('should reduce early spousal benefits by 25/36% then 5/12% per month', () => {
+      // 36 months early: 25%; 60 months early: 25% + 10%
+      expect(createCalculator(0, 64).getSpousalBenefitAtAge(64, toBig(2000), 64).toString()).toBe('9000');
+      expect(createCalculator(0, 62).getSpousalBenefitAtAge(62, toBig(2000), 62).toString()).toBe('7800');
+    });
+
+    it('should not add delayed credits to spousal benefits', () => {
+      expect(createCalculator(0, 70).getSpousalBenefitAtAge(70, toBig(2000), 70).toString()).toBe('12000');
+    });
+
+    it('should continue the deceased\'s benefit for a survivor at FRA', () => {
+      const deceased = createCalculator(2000, 70);
+      const survivor = createCalculator(1000, 67);
+
+      // 24% delayed credits: $2,480/month
+      const benefit = survivor.getSurvivorBenefitAtAge(72, deceased, 1, 75);
+
+      expect(benefit.round(0).toString()).toBe('29760');
+    });
+
+    it('should reduce survivor benefits taken before FRA, down to 71.5% at 60', () => {
+      const deceased = createCalculator(2000, 67);
+      const survivor = createCalculator(0, 67);
+
+      expect(survivor.getSurvivorBenefitAtAge(59, deceased, 1, 70).toString()).toBe('0');
+      expect(survivor.getSurvivorBenefitAtAge(60, deceased, 1, 70).toString()).toBe('17160');
+      // Still reduced the following year: the start age sets the factor
+      expect(survivor.getSurvivorBenefitAtAge(61, deceased, 2, 70).toString()).toBe('17160');
+    });
+
+    it('should keep COLA from the death for a survivor under 60 at the time', () => {
+      const rate = toBig(0.03);
+      const deceased = new SSABenefitCalculator({ fraMonthlyBenefit: toBig(2000), claimingAge: 62 }, rate);
+      const survivor = new SSABenefitCalculator({ fraMonthlyBenefit: toBig(0), claimingAge: 67 }, rate);
+
+      // Deceased dies at 64 when the survivor is 55: 82.5% floor of $19,800 with 3 COLAs
+      // ($21,636.12), 4 more COLAs until 60, then 71.5% at 60
+      const expected = toBig(19800).times(toBig(1.03).pow(7)).times(0.715);
+      expect(survivor.getSurvivorBenefitAtAge(59, deceased, 4, 64).toString()).toBe('0');
+      expect(survivor.getSurvivorBenefitAtAge(60, deceased, 5, 64).round(2).toString())
+        .toBe(expected.round(2).toString());
+    });
+
+    it('should leave at least 82.5% of PIA when the deceased claimed early', () => {
+      const deceased = createCalculator(2000, 62);
+      const survivor = createCalculator(0, 67);
+
+      expect(survivor.getSurvivorBenefitAtAge(70, deceased, 1, 70).toString()).toBe('19800');
+    });
+
+    it('should leave the full PIA when the deceased died before claiming', () => {
+      const deceased = createCalculator(2000, 70);
+      const survivor = createCalculator(0, 67);
+
+      expect(survivor.getSurvivorBenefitAtAge(67, deceased, 1, 64).toString()).toBe('24000');
+    });
+  });
+
+  describe('spousal and survivor benefits', () => {
+    const couple: UserProfile = {
+      birthYear: 1960,
+      retirementAge: 65,
+      filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+      lifeExpectancy: 72,
+      spouse: {
+        birthYear: 1960,
+        retirementAge: 65,
+        ssaIncome: { fraMonthlyBenefit: toBig(400), claimingAge: 67 },
+      },
+    };
+
+    it('should add the spousal top-up while both are alive, then switch to the survivor benefit', () => {
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [new TaxableAccount('brokerage', 500000, 500000)],
+        policy: createPolicy({ minRequiredIncome: toBig(0), sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        ssaIncome: { fraMonthlyBenefit: toBig(2000), claimingAge: 67 },
+        userProfile: couple,
+        startingYear: 2025,
+        startingAge: 70,
+      });
+
+      const joint = coordinator.planYear(2025, 70, couple);
+      coordinator.planYear(2026, 71, couple);
+      coordinator.planYear(2027, 72, couple);
+      const widowed = coordinator.planYear(2028, 73, couple);
+
+      // $2,000 own + $400 own + $600 spousal top-up, per month
+      expect(joint.guaranteedIncome.toString()).toBe('36000');
+      // Spouse keeps the user's $2,000 instead of their own $400
+      expect(widowed.guaranteedIncome.toString()).toBe('24000');
+    });
+
+    it('should pay spousal and survivor benefits to a user without a work record', () => {
+      const profile: UserProfile = {
+        birthYear: 1960,
+        retirementAge: 65,
+        filingStatus: FilingStatus.MARRIED_FILING_JOINTLY,
+        spouse: {
+          birthYear: 1960,
+          retirementAge: 65,
+          lifeExpectancy: 71,
+          ssaIncome: { fraMonthlyBenefit: toBig(2000), claimingAge: 67 },
+        },
+      };
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [new TaxableAccount('brokerage', 500000, 500000)],
+        policy: createPolicy({ minRequiredIncome: toBig(0), sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        userProfile: profile,
+        startingYear: 2025,
+        startingAge: 70,
+      });
+
+      const joint = coordinator.planYear(2025, 70, profile);
+      coordinator.planYear(2026, 71, profile);
+      const widowed = coordinator.planYear(2027, 72, profile);
+
+      // Spouse's $2,000 + the user's $1,000 spousal benefit, per month
+      expect(joint.guaranteedIncome.toString()).toBe('36000');
+      // The user inherits the spouse's $2,000
+      expect(widowed.guaranteedIncome.toString()).toBe('24000');
+    });
+  });
+
+  describe('pensions', () => {
+    function createPensionCoordinator(ssaIncome?: SSAIncome): WithdrawalCoordinator {
+      return new WithdrawalCoordinator({
+        accounts: [new TaxableAccount('brokerage', 500000, 500000)],
+        policy: createPolicy({ minRequiredIncome: toBig(0), sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        ssaIncome,
+        userProfile,
+        pensions: [{
+          id: 'annuity',
+          pensionType: PensionType.ANNUITY,
+          startAge: 65,
+          annualAmount: toBig(30000),
+          colaRate: toBig(0),
+          survivorRate: toBig(0),
+          taxableRate: toBig(0.8),
+        }],
+        startingYear: 2025,
+        startingAge: 65,
+      });
+    }
+
+    it('should add pension payments to guaranteed income and tax them as ordinary income', () => {
+      const plan = createPensionCoordinator().planYear(2025, 65, userProfile);
+
+      expect(plan.pensionIncome.toString()).toBe('30000');
+      expect(plan.socialSecurityIncome.toString()).toBe('0');
+      expect(plan.guaranteedIncome.toString()).toBe('30000');
+      // Only the taxable 80% counts
+      expect(plan.taxResult.agi.toString()).toBe('24000');
+      expect(plan.taxResult.taxableSocialSecurity.toString()).toBe('0');
+    });
+
+    it('should keep pensions out of the Social Security taxation formula', () => {
+      const plan = createPensionCoordinator({ fraMonthlyBenefit: toBig(2000), claimingAge: 65 })
+        .planYear(2025, 65, userProfile);
+      const { socialSecurityIncome, pensionIncome, guaranteedIncome, taxResult } = plan;
+
+      expect(socialSecurityIncome.gt(0)).toBe(true);
+      expect(socialSecurityIncome.plus(pensionIncome).eq(guaranteedIncome)).toBe(true);
+      expect(taxResult.taxableSocialSecurity.lte(socialSecurityIncome.times(0.85))).toBe(true);
+      expect(taxResult.agi.toString()).toBe(taxResult.taxableSocialSecurity.plus(24000).toString());
+    });
+  });
+
+  describe('earned income', () => {
+    it('should cover spending with earnings, charge FICA and apply the earnings test', () => {
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [new TaxableAccount('brokerage', 500000, 500000)],
+        policy: createPolicy({ sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        ssaIncome: { fraMonthlyBenefit: toBig(1500), claimingAge: 62 },
+        userProfile,
+        earnedIncome: [{
+          id: 'part-time',
+          incomeType: EarnedIncomeType.WAGES,
+          startAge: 62,
+          endAge: 65,
+          annualAmount: toBig(42320),
+          growthRate: toBig(0),
+        }],
+        startingYear: 2025,
+        startingAge: 65,
+      });
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.earnedIncome.toString()).toBe('42320');
+      // $12,600 benefit at 62, less $10,000 withheld
+      expect(plan.socialSecurityIncome.round(2).toString()).toBe('2600');
+      // Only the rest of the $50,000 minimum is withdrawn
+      expect(plan.accountWithdrawals['brokerage'].round(2).toString()).toBe('5080');
+      expect(plan.taxResult.ficaTax.toString()).toBe('3237.48');
+      expect(plan.totalGrossIncome.round(2).toString()).toBe('50000');
+    });
+  });
+
+  describe('dividends and interest', () => {
+    const createBrokerage = (reinvest: boolean): TaxableAccount => {
+      const account = new TaxableAccount('brokerage', 1000000, 1000000);
+      account.setInvestmentIncome({
+        dividendYield: toBig(0.03),
+        qualifiedDividendRate: toBig(0.8),
+        interestYield: toBig(0.02),
+        reinvest,
+      });
+      return account;
+    };
+
+    it('should charge NIIT on dividends and interest above the threshold', () => {
+      const brokerage = new TaxableAccount('brokerage', 10000000, 10000000);
+      brokerage.setInvestmentIncome({
+        dividendYield: toBig(0.03),
+        qualifiedDividendRate: toBig(0.8),
+        interestYield: toBig(0.02),
+        reinvest: false,
+      });
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [brokerage],
+        policy: createPolicy({ sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        userProfile,
+        startingYear: 2025,
+        startingAge: 65,
+      });
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      // $500,000 of investment income, $300,000 above the $200,000 threshold
+      expect(plan.taxResult.agi.toString()).toBe('500000');
+      expect(plan.taxResult.netInvestmentIncomeTax.toString()).toBe('11400');
+    });
+
+    it('should spend distributed income and tax qualified dividends separately', () => {
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [createBrokerage(false)],
+        policy: createPolicy({ sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        userProfile,
+        startingYear: 2025,
+        startingAge: 65,
+      });
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.dividendIncome.toString()).toBe('30000');
+      expect(plan.interestIncome.toString()).toBe('20000');
+      expect(plan.investmentIncome.toString()).toBe('50000');
+      // The $50,000 paid out covers the minimum income
+      expect(plan.accountWithdrawals['brokerage']).toBeUndefined();
+      expect(plan.totalGrossIncome.toString()).toBe('50000');
+      expect(plan.accountBalances['brokerage'].toString()).toBe('950000');
+      // $6,000 non-qualified dividends and $20,000 interest, less the $23,750 deductions at 65
+      expect(plan.taxResult.ordinaryTaxable.toString()).toBe('2250');
+      expect(plan.taxResult.ltcgTaxable.toString()).toBe('24000');
+    });
+
+    it('should tax reinvested income and add it to the cost basis', () => {
+      const brokerage = createBrokerage(true);
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [brokerage],
+        policy: createPolicy({ sequencingStrategy: SequencingStrategy.TAXABLE_FIRST }),
+        userProfile,
+        startingYear: 2025,
+        startingAge: 65,
+      });
+
+      const plan = coordinator.planYear(2025, 65, userProfile);
+
+      expect(plan.dividendIncome.toString()).toBe('30000');
+      expect(plan.investmentIncome.toString()).toBe('0');
+      expect(plan.accountWithdrawals['brokerage'].toString()).toBe('50000');
+      expect(plan.taxResult.agi.toString()).toBe('50000');
+      // $1,050,000 basis on a $1,000,000 balance: the withdrawal has no gain,
+      // only the qualified dividends are taxed at capital gains rates
+      expect(plan.taxResult.ltcgTaxable.toString()).toBe('24000');
+      expect(brokerage.getCostBasis().toString()).toBe('997500');
+    });
+  });
+
+  describe('state tax', () => {
+    const createCoordinator = (stateOfResidence: string): WithdrawalCoordinator => new WithdrawalCoordinator({
+      accounts: [new TraditionalAccount('ira', 1000000, 1960)],
+      policy: createPolicy({ sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST }),
+      userProfile: { ...userProfile, stateOfResidence },
+      startingYear: 2025,
+      startingAge: 65,
+    });
+
+    it('should add state tax to federal tax', () => {
+      const plan = createCoordinator('CA').planYear(2025, 65, { ...userProfile, stateOfResidence: 'CA' });
+
+      // $50,000 IRA withdrawal: $2,911.50 federal, $1,245.16 California
+      expect(plan.stateTaxes.toString()).toBe('1245.16');
+      expect(plan.totalTaxes.toString()).toBe('4156.66');
+      expect(plan.totalNetIncome.toString()).toBe('45843.34');
+    });
+
+    it('should apply state retirement income exclusions', () => {
+      const plan = createCoordinator('IL').planYear(2025, 65, { ...userProfile, stateOfResidence: 'IL' });
+
+      expect(plan.stateTaxes.toString()).toBe('0');
+      expect(plan.totalTaxes.toString()).toBe('2911.5');
+    });
+
+    it('should charge no state tax without a state of residence', () => {
+      const coordinator = new WithdrawalCoordinator({
+        accounts: [new TraditionalAccount('ira', 1000000, 1960)],
+        policy: createPolicy({ sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST }),
+        userProfile,
+        startingYear: 2025,
+        startingAge: 65,
+      });
+
+      expect(coordinator.planYear(2025, 65, userProfile).stateTaxes.toString()).toBe('0');
+    });
+  });
+
+  describe('deductions', () => {
+    const createCoordinator = (profile: UserProfile): WithdrawalCoordinator => new WithdrawalCoordinator({
+      accounts: [new TraditionalAccount('ira', 1000000, 1960)],
+      policy: createPolicy({ sequencingStrategy: SequencingStrategy.TRADITIONAL_FIRST }),
+      userProfile: profile,
+      startingYear: 2025,
+      startingAge: 65,
+    });
+
+    it('should itemize mortgage interest, property taxes and charitable giving', () => {
+      const profile: UserProfile = {
+        ...userProfile,
+        deductibleExpenses: { propertyTaxes: toBig(8000), charitableGiving: toBig(5000) },
+      };
+      const mortgage = {
+        mortgageId: 'home',
+        payment: toBig(24000),
+        interestPaid: toBig(12000),
+        principalPaid: toBig(12000),
+        remainingPrincipal: toBig(200000),
+      };
+
+      const plan = createCoordinator(profile).planYear(2025, 65, profile, undefined, [], [mortgage]);
+
+      // $74,000 withdrawn for spending and the mortgage, $25,000 itemized plus the $6,000 senior deduction
+      expect(plan.accountWithdrawals['ira'].toString()).toBe('74000');
+      expect(plan.taxResult.itemized).toBe(true);
+      expect(plan.taxResult.deduction.toString()).toBe('31000');
+      expect(plan.taxResult.taxableIncome.toString()).toBe('43000');
+    });
+
+    it('should deduct last year\'s state income tax with property taxes', () => {
+      const profile: UserProfile = {
+        ...userProfile,
+        stateOfResidence: 'CA',
+        deductibleExpenses: { propertyTaxes: toBig(20000), charitableGiving: toBig(0) },
+      };
+      const coordinator = createCoordinator(profile);
+
+      const first = coordinator.planYear(2025, 65, profile);
+      const second = coordinator.planYear(2026, 66, profile);
+
+      // Plus the $6,000 senior deduction
+      expect(first.taxResult.deduction.toString()).toBe('26000');
+      expect(second.taxResult.deduction.toString()).toBe(first.stateTaxes.plus(26000).toString());
+    });
+
+    it('should take the standard deduction with the amounts for filers aged 65 or older', () => {
+      const plan = createCoordinator(userProfile).planYear(2025, 65, userProfile);
+
+      // $15,750 + $2,000 at 65 + $6,000 senior deduction
+      expect(plan.taxResult.itemized).toBe(false);
+      expect(plan.taxResult.deduction.toString()).toBe('23750');
+    });
+  });
+});
@@ -5,9 +5,11 @@ import type { TraditionalAccountData } from '../components/TraditionalAccountFor
 import type { TaxableAccountData } from '../components/TaxableAccountForm';
 import type { RealEstateAccountData } from '../components/RealEstateAccountForm';
 import type { MortgageAccountData } from '../components/MortgageAccountForm';
+import type { PensionAccountData } from '../components/PensionAccountForm';
+import type { EarnedIncomeAccountData } from '../components/EarnedIncomeAccountForm';
 import type { SSAIncomeData } from '../components/SSAIncomeForm';
 
-export type Account = RothAccountData | TraditionalAccountData | TaxableAccountData | RealEstateAccountData | MortgageAccountData;
+export type Account = RothAccountData | TraditionalAccountData | TaxableAccountData | RealEstateAccountData | MortgageAccountData | PensionAccountData | EarnedIncomeAccountData;
 
 export interface ExportData {
   version: string,
@@ -22,3 +22,33 @@ export function formatCurrencyWithCents(amount: number): string {
     maximumFractionDigits: 2
   });
 }
+
+/**
+ * Format a number as compact currency for chart axes and tooltips
+ * @param amount - The amount to format
+ * @returns Formatted string like "$1.2M", "$350K" or "$999" (dollar sign included)
+ */
+export function formatCompactCurrency(amount: number): string {
+  if (amount >= 1000000) {
+    return `$${(amount / 1000000).toFixed(1)}M`;
+  }
+  if (amount >= 1000) {
+    return `$${(amount / 1000).toFixed(0)}K`;
+  }
+  return `$${amount.toFixed(0)}`;
+}
+
+/**
+ * Format an age in years with optional months
+ * @param age - Age in years, fractions being months (e.g. 66.5)
+ * @returns Formatted string like "67" or "66 and 6 months"
+ */
+export function formatAge(age: number): string {
+  const totalMonths = Math.round(age * 12);
+  const years = Math.floor(totalMonths / 12);
+  const months = totalMonths % 12;
+  if (months === 0) {
+    return `${years}`;
+  }
+  return `${years} and ${months} ${months === 1 ? 'month' : 'months'}`;
+}
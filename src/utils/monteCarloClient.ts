@@ -0,0 +1,183 @@
+// Copyright (c) 2026 François Rouaix
+/**
+ * Monte Carlo Client - Runs Monte Carlo simulations in a Web Worker
+ *
+ * Wraps the worker message protocol (see lib/monteCarloWorkerProtocol.ts) in a
+ * promise-based API with progress and partial result callbacks and
+ * cancellation, so the UI stays responsive during long simulations.
+ */
+
+import type Big from 'big.js';
+import { serializeBig, deserializeBig } from '../lib/serialization';
+import { generateSeed } from '../lib/random';
+import { ReturnModel } from '../lib/types';
+import type { MonteCarloResult, ReturnModelConfig, Scenario } from '../lib/types';
+import type {
+  MonteCarloWorkerRequest,
+  MonteCarloWorkerResponse,
+} from '../lib/monteCarloWorkerProtocol';
+
+/**
+ * Runs per batch: small enough for frequent progress and quick cancellation.
+ */
+const DEFAULT_BATCH_SIZE = 25;
+
+/**
+ * Parameters and callbacks for a Monte Carlo run.
+ */
+export interface MonteCarloRunRequest {
+  scenario: Scenario;
+  numRuns: number;
+  maxYears: number;
+  meanReturn: Big;
+  volatility: Big;
+  seed?: number; // Random if omitted; the seed used is returned on the result
+  returnModel?: ReturnModelConfig; // Normal returns if omitted
+  onProgress?: (runsCompleted: number, totalRuns: number) => void;
+  onPartial?: (result: MonteCarloResult) => void;
+}
+
+/**
+ * Pending job state.
+ */
+interface PendingJob {
+  jobId: number;
+  request: MonteCarloRunRequest;
+  resolve: (result: MonteCarloResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Client for the Monte Carlo Web Worker.
+ *
+ * One job runs at a time; starting a new job cancels the previous one.
+ *
+ * @example
+ * const client = new MonteCarloClient();
+ * const result = await client.run({
+ *   scenario, numRuns: 1000, maxYears: 30,
+ *   meanReturn: new Big(0.05), volatility: new Big(0.12),
+ *   onProgress: (done, total) => setProgress(done / total),
+ * });
+ * if (result === null) {
+ *   // cancelled
+ * }
+ * client.dispose();
+ */
+export class MonteCarloClient {
+  private worker: Worker;
+  private nextJobId = 1;
+  private pending: PendingJob | null = null;
+
+  constructor() {
+    this.worker = new Worker(
+      new URL('../lib/monteCarlo.worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    this.worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>): void => {
+      this.handleMessage(event.data);
+    };
+    this.worker.onerror = (event: ErrorEvent): void => {
+      this.settle((job) => job.reject(new Error(event.message || 'Monte Carlo worker failed')));
+    };
+  }
+
+  /**
+   * Start a Monte Carlo simulation in the worker.
+   *
+   * @param request - Scenario, run parameters and callbacks
+   * @returns Final result, or null if the job was cancelled
+   */
+  run(request: MonteCarloRunRequest): Promise<MonteCarloResult | null> {
+    this.cancel();
+
+    const jobId = this.nextJobId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { jobId, request, resolve, reject };
+      this.post({
+        type: 'start',
+        jobId,
+        scenario: serializeBig(request.scenario),
+        numRuns: request.numRuns,
+        maxYears: request.maxYears,
+        meanReturn: request.meanReturn.toString(),
+        volatility: request.volatility.toString(),
+        seed: request.seed ?? generateSeed(),
+        returnModel: serializeBig(request.returnModel ?? { model: ReturnModel.NORMAL }),
+        batchSize: DEFAULT_BATCH_SIZE,
+      });
+    });
+  }
+
+  /**
+   * Cancel the running job, if any. Its promise resolves to null.
+   */
+  cancel(): void {
+    if (!this.pending) {
+      return;
+    }
+    this.post({ type: 'cancel', jobId: this.pending.jobId });
+    this.settle((job) => job.resolve(null));
+  }
+
+  /**
+   * Cancel any running job and terminate the worker.
+   */
+  dispose(): void {
+    this.cancel();
+    this.worker.terminate();
+  }
+
+  /**
+   * Dispatch a worker message to the pending job.
+   *
+   * @param message - Worker response
+   */
+  private handleMessage(message: MonteCarloWorkerResponse): void {
+    const job = this.pending;
+    if (!job || message.jobId !== job.jobId) {
+      return; // Stale message from a cancelled job
+    }
+
+    switch (message.type) {
+      case 'progress':
+        job.request.onProgress?.(message.runsCompleted, message.totalRuns);
+        break;
+      case 'partial':
+        job.request.onPartial?.(deserializeBig<MonteCarloResult>(message.result));
+        break;
+      case 'complete':
+        this.settle((pendingJob) => pendingJob.resolve(deserializeBig<MonteCarloResult>(message.result)));
+        break;
+      case 'cancelled':
+        this.settle((pendingJob) => pendingJob.resolve(null));
+        break;
+      case 'error':
+        this.settle((pendingJob) => pendingJob.reject(new Error(message.message)));
+        break;
+    }
+  }
+
+  /**
+   * Clear the pending job and settle its promise.
+   *
+   * @param action - Resolve or reject the job
+   */
+  private settle(action: (job: PendingJob) => void): void {
+    const job = this.pending;
+    if (!job) {
+      return;
+    }
+    this.pending = null;
+    action(job);
+  }
+
+  /**
+   * Post a request to the worker.
+   *
+   * @param request - Worker request
+   */
+  private post(request: MonteCarloWorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+}
@@ -7,21 +7,57 @@
  */
 
 import Big from 'big.js';
-import type { UserProfileData } from '../components/UserProfileForm';
+import type { UserProfileData, SpouseData } from '../components/UserProfileForm';
 import type { SSAIncomeData } from '../components/SSAIncomeForm';
+import type { RothConversionData } from '../components/RothConversionSettings';
+import type { TaxLawData } from '../components/TaxLawSettings';
+import type { CapitalMarketData } from '../components/CapitalMarketSettings';
+import type { ContributionData } from '../components/ContributionFields';
+import type { RealEstateAccountData } from '../components/RealEstateAccountForm';
+import type { MortgageAccountData } from '../components/MortgageAccountForm';
+import type { PensionAccountData } from '../components/PensionAccountForm';
+import type { EarnedIncomeAccountData } from '../components/EarnedIncomeAccountForm';
 import type { Account as FrontendAccount } from './export';
 import type { 
   Scenario, 
   UserProfile, 
+  SpouseProfile,
   Account, 
   SSAIncome, 
   WithdrawalPolicy,
+  RothConversionPolicy,
+  TaxBracket,
+  TaxRegimeSettings,
+  CapitalMarketAssumptions,
+  ContributionPlan,
+  RealEstate,
+  Mortgage,
+  Pension,
+  EarnedIncome,
 } from '../lib/types';
 import { 
   FilingStatus,
   AccountType,
   SequencingStrategy,
+  RothConversionStrategy,
+  TaxRegime,
+  ContributionLimitType,
+  HouseholdMember,
+  PensionType,
+  EarnedIncomeType,
 } from '../lib/types';
+import { DEFAULT_CAPITAL_MARKET_ASSUMPTIONS } from '../lib/assetAllocation';
+import { validateMortgageLink } from './validation';
+
+/**
+ * Withdrawal strategy identifiers used by the frontend.
+ */
+export type WithdrawalStrategyOption =
+  | 'taxable_first_min_taxes'
+  | 'taxable_first_proportional'
+  | 'traditional_first'
+  | 'pro_rata'
+  | 'tax_bracket_optimization';
 
 /**
  * Convert frontend filing status to lib FilingStatus enum.
@@ -56,21 +92,24 @@ function convertAccountType(accountType: string): AccountType | null {
  * Convert frontend withdrawal strategy to lib SequencingStrategy enum.
  */
 function convertWithdrawalStrategy(
-  strategy: 'taxable_first_min_taxes' | 'taxable_first_proportional' | 'traditional_first' | 'pro_rata'
+  strategy: WithdrawalStrategyOption
 ): SequencingStrategy {
   const strategyMap: Record<string, SequencingStrategy> = {
     'taxable_first_min_taxes': SequencingStrategy.TAXABLE_FIRST,
     'taxable_first_proportional': SequencingStrategy.TAXABLE_FIRST,
     'traditional_first': SequencingStrategy.TRADITIONAL_FIRST,
     'pro_rata': SequencingStrategy.PRO_RATA,
+    'tax_bracket_optimization': SequencingStrategy.TAX_BRACKET_OPTIMIZATION,
   };
   return strategyMap[strategy] || SequencingStrategy.TAXABLE_FIRST;
 }
 
 /**
  * Convert frontend account to lib Account format.
+ *
+ * Spouse ownership is dropped when the profile has no spouse.
  */
-function convertAccount(account: FrontendAccount): Account | null {
+function convertAccount(account: FrontendAccount, hasSpouse: boolean): Account | null {
   const accountType = convertAccountType(account.accountType);
   if (!accountType) {
     return null; // Skip unsupported account types
@@ -97,9 +136,158 @@ function convertAccount(account: FrontendAccount): Account | null {
     libAccount.costBasis = new Big(account.costBasis);
   }
 
+  // Convert dividend and interest yields from percent to decimal
+  if (account.accountType === 'taxable' && (account.dividendYield > 0 || (account.interestYield ?? 0) > 0)) {
+    libAccount.investmentIncome = {
+      dividendYield: new Big(account.dividendYield).div(100),
+      qualifiedDividendRate: new Big(account.qualifiedDividendPercent ?? 100).div(100),
+      interestYield: new Big(account.interestYield ?? 0).div(100),
+      reinvest: account.reinvestIncome ?? true,
+    };
+  }
+
+  // Convert allocation from percent to decimal weights
+  if ('allocation' in account && account.allocation) {
+    libAccount.allocation = {
+      stocks: new Big(account.allocation.stocks).div(100),
+      bonds: new Big(account.allocation.bonds).div(100),
+      cash: new Big(account.allocation.cash).div(100),
+    };
+  }
+
+  // Add contributions until retirement
+  if ('contribution' in account && account.contribution) {
+    libAccount.contribution = convertContribution(account.contribution);
+  }
+
+  if (hasSpouse && 'owner' in account && account.owner === 'spouse') {
+    libAccount.owner = HouseholdMember.SPOUSE;
+  }
+
   return libAccount;
 }
 
+/**
+ * Convert frontend contribution settings (percent values) to lib ContributionPlan.
+ */
+function convertContribution(contribution: ContributionData): ContributionPlan | undefined {
+  if (contribution.mode === 'none' || contribution.amount <= 0) {
+    return undefined;
+  }
+
+  const limitTypeMap: Record<ContributionData['planType'], ContributionLimitType> = {
+    'employer_plan': ContributionLimitType.EMPLOYER_PLAN,
+    'ira': ContributionLimitType.IRA,
+    'none': ContributionLimitType.NONE,
+  };
+  const limitType = limitTypeMap[contribution.planType];
+
+  return {
+    annualAmount: contribution.mode === 'fixed_amount' ? new Big(contribution.amount) : undefined,
+    salaryPercent: contribution.mode === 'percent_of_salary' ? new Big(contribution.amount).div(100) : undefined,
+    limitType,
+    employerMatchRate: limitType === ContributionLimitType.EMPLOYER_PLAN
+      ? new Big(contribution.employerMatchRate).div(100)
+      : undefined,
+    employerMatchCap: limitType === ContributionLimitType.EMPLOYER_PLAN
+      ? new Big(contribution.employerMatchCap).div(100)
+      : undefined,
+  };
+}
+
+/**
+ * Convert a frontend real estate entry (percent growth) to lib RealEstate.
+ */
+function convertRealEstate(property: RealEstateAccountData): RealEstate {
+  const realEstate: RealEstate = {
+    id: property.accountId.toString(),
+    nickname: property.nickname,
+    currentValue: new Big(property.currentValue),
+    appreciationRate: new Big(property.yearlyValueIncrease).div(100),
+    costBasis: property.costBasis !== undefined ? new Big(property.costBasis) : undefined,
+    isPrimaryResidence: property.isPrimaryResidence,
+    saleYear: property.saleYear,
+  };
+
+  if (property.annualRent) {
+    realEstate.rental = {
+      annualRent: new Big(property.annualRent),
+      annualExpenses: new Big(property.annualExpenses ?? 0),
+      depreciationBasis: property.depreciationBasis ? new Big(property.depreciationBasis) : undefined,
+    };
+  }
+
+  return realEstate;
+}
+
+/**
+ * Convert a frontend mortgage (percent interest rate) to lib Mortgage.
+ *
+ * The property link is dropped if the property is not among the accounts.
+ */
+function convertMortgage(mortgage: MortgageAccountData, accounts: FrontendAccount[]): Mortgage {
+  return {
+    id: mortgage.accountId.toString(),
+    nickname: mortgage.propertyNickname,
+    principalBalance: new Big(mortgage.principalBalance),
+    interestRate: new Big(mortgage.interestRate).div(100),
+    monthlyPayment: new Big(mortgage.monthlyPayment),
+    propertyId: validateMortgageLink(mortgage, accounts) ? mortgage.propertyId : undefined,
+  };
+}
+
+/**
+ * Convert a frontend pension (percent rates) to lib Pension.
+ *
+ * Spouse ownership and survivor benefits are dropped when the profile has no spouse.
+ */
+function convertPension(pension: PensionAccountData, hasSpouse: boolean): Pension {
+  return {
+    id: pension.accountId.toString(),
+    nickname: pension.nickname,
+    pensionType: pension.pensionType === 'annuity' ? PensionType.ANNUITY : PensionType.PENSION,
+    owner: hasSpouse && pension.owner === 'spouse' ? HouseholdMember.SPOUSE : undefined,
+    startAge: pension.startAge,
+    annualAmount: new Big(pension.annualAmount),
+    colaRate: new Big(pension.colaRate).div(100),
+    survivorRate: hasSpouse ? new Big(pension.survivorPercent).div(100) : new Big(0),
+    taxableRate: new Big(pension.taxablePercent).div(100),
+  };
+}
+
+/**
+ * Convert frontend earned income (percent raise) to lib EarnedIncome.
+ *
+ * Spouse ownership is dropped when the profile has no spouse.
+ */
+function convertEarnedIncome(income: EarnedIncomeAccountData, hasSpouse: boolean): EarnedIncome {
+  return {
+    id: income.accountId.toString(),
+    nickname: income.nickname,
+    incomeType: income.incomeType === 'self_employment' ? EarnedIncomeType.SELF_EMPLOYMENT : EarnedIncomeType.WAGES,
+    owner: hasSpouse && income.owner === 'spouse' ? HouseholdMember.SPOUSE : undefined,
+    startAge: income.startAge,
+    endAge: income.endAge,
+    annualAmount: new Big(income.annualAmount),
+    growthRate: new Big(income.growthRate).div(100),
+  };
+}
+
+/**
+ * Convert the frontend spouse to lib SpouseProfile, with their own SSA record.
+ */
+function convertSpouse(spouse: SpouseData): SpouseProfile {
+  return {
+    birthYear: spouse.birthYear,
+    retirementAge: spouse.retirementAge,
+    annualSalary: spouse.annualSalary ? new Big(spouse.annualSalary) : undefined,
+    lifeExpectancy: spouse.lifeExpectancy,
+    ssaIncome: spouse.fraMonthlyBenefit
+      ? { fraMonthlyBenefit: new Big(spouse.fraMonthlyBenefit), claimingAge: spouse.claimingAge || 67 }
+      : undefined,
+  };
+}
+
 /**
  * Convert frontend SSA income to lib SSAIncome format.
  */
@@ -110,6 +298,98 @@ function convertSSAIncome(ssaIncome: SSAIncomeData): SSAIncome {
   };
 }
 
+/**
+ * Convert frontend Roth conversion settings to lib RothConversionPolicy.
+ */
+function convertRothConversion(conversion: RothConversionData): RothConversionPolicy | undefined {
+  const strategyMap: Record<string, RothConversionStrategy> = {
+    'fixed_amount': RothConversionStrategy.FIXED_AMOUNT,
+    'fill_to_bracket': RothConversionStrategy.FILL_TO_BRACKET,
+    'fill_to_irmaa_tier': RothConversionStrategy.FILL_TO_IRMAA_TIER,
+  };
+  const strategy = strategyMap[conversion.strategy];
+  if (!strategy) {
+    return undefined;
+  }
+
+  return {
+    strategy,
+    startAge: conversion.startAge,
+    endAge: conversion.endAge,
+    annualAmount: new Big(conversion.annualAmount),
+    targetTaxBracket: new Big(conversion.targetTaxBracket),
+  };
+}
+
+/**
+ * Convert the frontend tax law settings to a tax regime.
+ *
+ * Custom brackets are entered for single filers: joint filers get twice the
+ * limits and deduction, heads of household the single limits and 1.5 times
+ * the deduction.
+ */
+function convertTaxLaw(taxLaw: TaxLawData): TaxRegimeSettings {
+  if (taxLaw.regime === 'current_law') {
+    return { regime: TaxRegime.CURRENT_LAW };
+  }
+  if (taxLaw.regime === 'pre_tcja') {
+    return { regime: TaxRegime.PRE_TCJA, startYear: taxLaw.startYear };
+  }
+
+  const brackets = (scale: number): TaxBracket[] => taxLaw.brackets.map(({ upTo, rate }) => [
+    upTo === null ? null : new Big(upTo).times(scale),
+    new Big(rate).div(100),
+  ]);
+  const deduction = new Big(taxLaw.standardDeduction);
+
+  return {
+    regime: TaxRegime.CUSTOM,
+    startYear: taxLaw.startYear,
+    customBrackets: {
+      standardDeduction: {
+        [FilingStatus.SINGLE]: deduction,
+        [FilingStatus.MARRIED_FILING_JOINTLY]: deduction.times(2),
+        [FilingStatus.HEAD_OF_HOUSEHOLD]: deduction.times(1.5),
+      },
+      ordinaryBrackets: {
+        [FilingStatus.SINGLE]: brackets(1),
+        [FilingStatus.MARRIED_FILING_JOINTLY]: brackets(2),
+        [FilingStatus.HEAD_OF_HOUSEHOLD]: brackets(1),
+      },
+    },
+  };
+}
+
+/**
+ * Default capital market settings for the frontend, from the lib defaults.
+ */
+export const DEFAULT_CAPITAL_MARKET_DATA: CapitalMarketData = {
+  stocksMean: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.stocks.meanReturn.toNumber(),
+  stocksVolatility: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.stocks.volatility.toNumber(),
+  bondsMean: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.bonds.meanReturn.toNumber(),
+  bondsVolatility: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.bonds.volatility.toNumber(),
+  cashMean: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.cash.meanReturn.toNumber(),
+  cashVolatility: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.cash.volatility.toNumber(),
+  stocksBondsCorrelation: DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.correlations.stocksBonds,
+};
+
+/**
+ * Convert frontend capital market settings to lib CapitalMarketAssumptions.
+ *
+ * Correlations not exposed in the UI keep their defaults.
+ */
+export function buildCapitalMarketAssumptions(data: CapitalMarketData): CapitalMarketAssumptions {
+  return {
+    stocks: { meanReturn: new Big(data.stocksMean), volatility: new Big(data.stocksVolatility) },
+    bonds: { meanReturn: new Big(data.bondsMean), volatility: new Big(data.bondsVolatility) },
+    cash: { meanReturn: new Big(data.cashMean), volatility: new Big(data.cashVolatility) },
+    correlations: {
+      ...DEFAULT_CAPITAL_MARKET_ASSUMPTIONS.correlations,
+      stocksBonds: data.stocksBondsCorrelation,
+    },
+  };
+}
+
 /**
  * Build Scenario from frontend data.
  * 
@@ -126,23 +406,60 @@ export function buildScenario(
   options: {
     scenarioName?: string;
     withdrawalRate?: number;
-    withdrawalStrategy?: 'taxable_first_min_taxes' | 'taxable_first_proportional' | 'traditional_first' | 'pro_rata';
+    withdrawalStrategy?: WithdrawalStrategyOption;
+    targetTaxBracket?: number;
+    avoidIRMAA?: boolean;
+    rothConversion?: RothConversionData;
     minRequiredIncome?: number;
     minIncomeInflationRate?: number;
+    taxIndexationRate?: number;
+    taxLaw?: TaxLawData;
   } = {}
 ): Scenario {
-  // Convert user profile
+  // Convert user profile (a spouse implies filing jointly)
+  const spouse = userProfile.spouse ? convertSpouse(userProfile.spouse) : undefined;
   const user: UserProfile = {
     birthYear: userProfile.birthYear,
     retirementAge: userProfile.retirementAge || 67,
-    filingStatus: convertFilingStatus(userProfile.filingStatus),
+    filingStatus: spouse ? FilingStatus.MARRIED_FILING_JOINTLY : convertFilingStatus(userProfile.filingStatus),
+    annualSalary: userProfile.annualSalary ? new Big(userProfile.annualSalary) : undefined,
+    salaryGrowthRate: userProfile.salaryGrowthRate ? new Big(userProfile.salaryGrowthRate).div(100) : undefined,
+    lifeExpectancy: userProfile.lifeExpectancy,
+    spouse,
+    stateOfResidence: userProfile.stateOfResidence,
+    deductibleExpenses: userProfile.propertyTaxes || userProfile.charitableGiving
+      ? {
+        propertyTaxes: new Big(userProfile.propertyTaxes ?? 0),
+        charitableGiving: new Big(userProfile.charitableGiving ?? 0),
+      }
+      : undefined,
   };
 
   // Convert accounts (filter out unsupported types)
   const libAccounts: Account[] = accounts
-    .map(acc => convertAccount(acc))
+    .map(acc => convertAccount(acc, spouse !== undefined))
     .filter((acc): acc is Account => acc !== null);
 
+  // Convert real estate
+  const realEstate: RealEstate[] = accounts
+    .filter((acc): acc is RealEstateAccountData => acc.accountType === 'realEstate')
+    .map(convertRealEstate);
+
+  // Convert mortgages
+  const mortgages: Mortgage[] = accounts
+    .filter((acc): acc is MortgageAccountData => acc.accountType === 'mortgage')
+    .map(mortgage => convertMortgage(mortgage, accounts));
+
+  // Convert pensions and annuities
+  const pensions: Pension[] = accounts
+    .filter((acc): acc is PensionAccountData => acc.accountType === 'pension')
+    .map(pension => convertPension(pension, spouse !== undefined));
+
+  // Convert earned income
+  const earnedIncome: EarnedIncome[] = accounts
+    .filter((acc): acc is EarnedIncomeAccountData => acc.accountType === 'earnedIncome')
+    .map(income => convertEarnedIncome(income, spouse !== undefined));
+
   // Convert SSA income
   const libSSAIncome = ssaIncome ? convertSSAIncome(ssaIncome) : undefined;
 
@@ -152,15 +469,23 @@ export function buildScenario(
     minRequiredIncome: options.minRequiredIncome ? new Big(options.minRequiredIncome) : undefined,
     minIncomeInflationRate: options.minIncomeInflationRate ? new Big(options.minIncomeInflationRate) : new Big(0.03),
     sequencingStrategy: convertWithdrawalStrategy(options.withdrawalStrategy || 'taxable_first_min_taxes'),
+    targetTaxBracket: options.targetTaxBracket !== undefined ? new Big(options.targetTaxBracket) : undefined,
     inflationAdjust: true,
     inflationRate: new Big(0.025),
-    avoidIRMAA: true,
+    taxIndexationRate: options.taxIndexationRate !== undefined ? new Big(options.taxIndexationRate) : undefined,
+    avoidIRMAA: options.avoidIRMAA ?? true,
+    rothConversion: options.rothConversion ? convertRothConversion(options.rothConversion) : undefined,
+    taxRegime: options.taxLaw ? convertTaxLaw(options.taxLaw) : undefined,
   };
 
   return {
     name: options.scenarioName || 'Retirement Scenario',
     user,
     accounts: libAccounts,
+    realEstate: realEstate.length > 0 ? realEstate : undefined,
+    mortgages: mortgages.length > 0 ? mortgages : undefined,
+    pensions: pensions.length > 0 ? pensions : undefined,
+    earnedIncome: earnedIncome.length > 0 ? earnedIncome : undefined,
     ssaIncome: libSSAIncome,
     policy,
   };
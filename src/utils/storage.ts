@@ -4,8 +4,14 @@ export const STORAGE_KEYS = {
   ACCOUNTS: 'retirement-calc-accounts',
   SSA_INCOME: 'retirement-calc-ssa-income',
   WITHDRAWAL_STRATEGY: 'retirement-calc-withdrawal-strategy',
+  TARGET_TAX_BRACKET: 'retirement-calc-target-tax-bracket',
+  AVOID_IRMAA: 'retirement-calc-avoid-irmaa',
+  ROTH_CONVERSION: 'retirement-calc-roth-conversion',
+  TAX_LAW: 'retirement-calc-tax-law',
+  SIMULATION_MODE: 'retirement-calc-simulation-mode',
   MIN_REQUIRED_INCOME: 'retirement-calc-min-required-income',
   MIN_INCOME_INFLATION_RATE: 'retirement-calc-min-income-inflation-rate',
+  TAX_INDEXATION_RATE: 'retirement-calc-tax-indexation-rate',
   MAX_YEARS: 'retirement-calc-max-years',
   DISCLAIMER_ACCEPTED: 'retirement-calc-disclaimer-accepted',
 } as const;
@@ -1,5 +1,7 @@
 // Copyright (c) 2026 François Rouaix
 import type { UserProfileData } from '../components/UserProfileForm';
+import type { AssetAllocationData } from '../components/AssetAllocationFields';
+import type { MortgageAccountData } from '../components/MortgageAccountForm';
 import type { Account } from './export';
 
 export const validateUserProfile = (profile: UserProfileData): boolean => {
@@ -13,3 +15,16 @@ export const validateAccount = (acc: Account): boolean => {
     ('balance' in acc ? typeof acc.balance === 'number' : true)
   );
 };
+
+export const validateMortgageLink = (mortgage: MortgageAccountData, accounts: Account[]): boolean => {
+  return mortgage.propertyId === undefined || accounts.some(acc =>
+    acc.accountType === 'realEstate' && acc.accountId === mortgage.propertyId
+  );
+};
+
+export const DEFAULT_ALLOCATION_PERCENT: AssetAllocationData = { stocks: 60, bonds: 40, cash: 0 };
+
+export const validateAllocationPercent = (allocation: AssetAllocationData): boolean => {
+  const { stocks, bonds, cash } = allocation;
+  return stocks >= 0 && bonds >= 0 && cash >= 0 && stocks + bonds + cash === 100;
+};